@@ -54,6 +54,7 @@ interface ParsedArgs {
   json: boolean;
   quiet: boolean;
   stdin: boolean;
+  timeout?: number;
 }
 
 function parseArgs(argv: string[]): ParsedArgs {
@@ -138,6 +139,18 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    if (arg === "--timeout" || arg === "-t") {
+      args.timeout = parseInt(argv[++i], 10);
+      i++;
+      continue;
+    }
+
+    if (arg.startsWith("--timeout=")) {
+      args.timeout = parseInt(arg.slice("--timeout=".length), 10);
+      i++;
+      continue;
+    }
+
     // Positional argument: file path
     if (!arg.startsWith("-")) {
       args.file = arg;
@@ -170,6 +183,12 @@ CODE QUALITY:
   orgp lint [files]     Lint code blocks with ESLint
   orgp type-check       Type-check TypeScript blocks
 
+LITERATE PROGRAMMING:
+  orgp tangle [files]   Write :tangle blocks to external files
+  orgp tangle --check   Verify tangled files are up to date (exit 1 if stale)
+  orgp detangle [files] Write edits in tangled files back into org blocks
+                        (requires :comments link; --force keeps the file on conflicts)
+
 DEV OPTIONS:
   <target>                  File or directory to serve (optional)
   --port, -p <number>       Port to run dev server on (default: 5173)
@@ -180,6 +199,8 @@ DEV OPTIONS:
 BUILD OPTIONS:
   <target>                  File or directory to build (optional)
   --out-dir, -o <dir>       Output directory (default: "dist/static")
+  --explain                 Show why each page is re-rendered
+  --force                   Re-render every page (ignore the previous build)
 
 BUILD --BLOCK OPTIONS:
   --block, -b <names>       Block names to extract (comma-separated)
@@ -198,6 +219,7 @@ RUN OPTIONS:
   --json, -j           Output as JSON instead of raw text
   --quiet, -q          Suppress non-output messages
   --stdin, -s          Read input from stdin (available as \`input\` variable)
+  --timeout, -t <ms>   Kill sh/bash, python and sqlite blocks after <ms> (default: 30000)
 
 EXAMPLES:
   orgp dev                            # Start dev server for project
@@ -207,10 +229,12 @@ EXAMPLES:
   orgp build                          # Build full project to dist/
   orgp build demo.org                 # Build a single org file
   orgp build ./docs                   # Build a directory
+  orgp build --explain                # Show which pages changed and why
   orgp build types                    # Generate .d.ts files
   orgp build index.org --block plugin --out dist/  # Extract blocks to dist/
   orgp script.org                     # Run :exec blocks in script.org
   orgp --block main script.org        # Run only block named "main"
+  orgp --all report.org               # Run every js/ts, sh, python and sqlite block
   echo '{"x":1}' | orgp --stdin script.org  # Pipe input to script
 
 ZERO-CONFIG USAGE:
@@ -389,6 +413,8 @@ async function runDev(args: string[]): Promise<void> {
 interface BuildArgs {
   target?: string;
   outDir?: string;
+  explain?: boolean;
+  force?: boolean;
 }
 
 function parseBuildMainArgs(args: string[]): BuildArgs {
@@ -401,6 +427,10 @@ function parseBuildMainArgs(args: string[]): BuildArgs {
       result.outDir = args[++i];
     } else if (arg.startsWith("--out-dir=")) {
       result.outDir = arg.slice("--out-dir=".length);
+    } else if (arg === "--explain") {
+      result.explain = true;
+    } else if (arg === "--force") {
+      result.force = true;
     } else if (!arg.startsWith("-")) {
       // Positional argument is the target
       result.target = arg;
@@ -438,7 +468,7 @@ async function runBuild(args: string[] = []): Promise<void> {
         config.outDir = buildArgs.outDir;
       }
 
-      await build({ config });
+      await build({ config, incremental: !buildArgs.force, explain: buildArgs.explain });
       return;
     }
 
@@ -456,7 +486,7 @@ async function runBuild(args: string[] = []): Promise<void> {
     config.outDir = buildArgs.outDir;
   }
 
-  await build({ config });
+  await build({ config, incremental: !buildArgs.force, explain: buildArgs.explain });
 }
 
 async function loadConfig() {
@@ -495,6 +525,7 @@ async function runOrgFile(args: ParsedArgs): Promise<void> {
     json: args.json,
     quiet: args.quiet,
     input: stdinInput,
+    timeout: args.timeout,
   };
 
   try {
@@ -506,7 +537,12 @@ async function runOrgFile(args: ParsedArgs): Promise<void> {
     } else if (result.outputs.length > 0) {
       for (const output of result.outputs) {
         if (output.value !== undefined && output.value !== null) {
-          console.log(String(output.value));
+          // sqlite blocks return rows
+          console.log(
+            typeof output.value === "object"
+              ? JSON.stringify(output.value, null, 2)
+              : String(output.value)
+          );
         }
       }
     }
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { vol } from "memfs";
 import {
   setFileSystem,
@@ -6,6 +6,11 @@ import {
   cacheServerResult,
   readCachedServerResult,
   invalidateServerResultCache,
+  getServerResultKey,
+  parseCachePolicy,
+  listServerResults,
+  pruneServerResults,
+  clearServerResults,
   getCachePath,
   sanitizePath,
   getLanguageExtension,
@@ -77,6 +82,70 @@ describe("Cache Utilities", () => {
   });
 });
 
+describe("getServerResultKey", () => {
+  const input = {
+    orgFilePath: "content/test.org",
+    language: "javascript",
+    code: "return 42;",
+    parameters: { use: "server" },
+  };
+
+  it("should be deterministic", () => {
+    expect(getServerResultKey(input)).toBe(getServerResultKey({ ...input }));
+    expect(getServerResultKey(input)).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("should change when the code changes", () => {
+    expect(getServerResultKey({ ...input, code: "return 43;" })).not.toBe(
+      getServerResultKey(input)
+    );
+  });
+
+  it("should change when a dependency changes", () => {
+    expect(getServerResultKey({ ...input, dependencies: ["content/test.org#data:table:[1]"] })).not.toBe(
+      getServerResultKey({ ...input, dependencies: ["content/test.org#data:table:[2]"] })
+    );
+  });
+
+  it("should change with result-relevant parameters", () => {
+    expect(getServerResultKey({ ...input, parameters: { use: "server", var: "n=1" } })).not.toBe(
+      getServerResultKey({ ...input, parameters: { use: "server", var: "n=2" } })
+    );
+  });
+
+  it("should ignore display wrappers and cache parameters", () => {
+    expect(
+      getServerResultKey({
+        ...input,
+        parameters: { use: "server | withSourceCode", cache: "1h" },
+      })
+    ).toBe(getServerResultKey(input));
+  });
+});
+
+describe("parseCachePolicy", () => {
+  it("should default to forever", () => {
+    expect(parseCachePolicy(undefined)).toEqual({ type: "forever" });
+    expect(parseCachePolicy("forever")).toEqual({ type: "forever" });
+    expect(parseCachePolicy("yes")).toEqual({ type: "forever" });
+  });
+
+  it("should parse never", () => {
+    expect(parseCachePolicy("never")).toEqual({ type: "never" });
+    expect(parseCachePolicy("no")).toEqual({ type: "never" });
+  });
+
+  it("should parse durations", () => {
+    expect(parseCachePolicy("30s")).toEqual({ type: "ttl", ttl: 30_000 });
+    expect(parseCachePolicy("1h")).toEqual({ type: "ttl", ttl: 3_600_000 });
+    expect(parseCachePolicy("1.5d")).toEqual({ type: "ttl", ttl: 129_600_000 });
+  });
+
+  it("should reject invalid values", () => {
+    expect(() => parseCachePolicy("sometimes")).toThrow(/Invalid :cache value/);
+  });
+});
+
 describe("Server Result Caching", () => {
   beforeEach(() => {
     // Use memfs for testing
@@ -86,20 +155,21 @@ describe("Server Result Caching", () => {
 
   afterEach(() => {
     resetFileSystem();
+    vi.useRealTimers();
   });
 
   it("should cache server execution results", async () => {
     const testResult = { foo: "bar", count: 42 };
 
-    await cacheServerResult("content/test.org", 0, testResult);
-    const cached = await readCachedServerResult("content/test.org", 0);
+    await cacheServerResult("key-a", testResult);
+    const cached = await readCachedServerResult("key-a");
 
     expect(cached).toEqual(testResult);
   });
 
   it("should cache primitive results", async () => {
-    await cacheServerResult("content/test.org", 0, "hello");
-    const cached = await readCachedServerResult("content/test.org", 0);
+    await cacheServerResult("key-a", "hello");
+    const cached = await readCachedServerResult("key-a");
 
     expect(cached).toBe("hello");
   });
@@ -107,55 +177,102 @@ describe("Server Result Caching", () => {
   it("should cache array results", async () => {
     const testResult = [1, 2, 3];
 
-    await cacheServerResult("content/test.org", 0, testResult);
-    const cached = await readCachedServerResult("content/test.org", 0);
+    await cacheServerResult("key-a", testResult);
+    const cached = await readCachedServerResult("key-a");
 
     expect(cached).toEqual(testResult);
   });
 
   it("should return null for non-existent cache", async () => {
-    const cached = await readCachedServerResult("content/nonexistent.org", 0);
+    const cached = await readCachedServerResult("missing");
 
     expect(cached).toBeNull();
   });
 
-  it("should cache multiple blocks separately", async () => {
-    await cacheServerResult("content/test.org", 0, "result1");
-    await cacheServerResult("content/test.org", 1, "result2");
-    await cacheServerResult("content/test.org", 2, "result3");
-
-    const cached0 = await readCachedServerResult("content/test.org", 0);
-    const cached1 = await readCachedServerResult("content/test.org", 1);
-    const cached2 = await readCachedServerResult("content/test.org", 2);
+  it("should cache multiple keys separately", async () => {
+    await cacheServerResult("key-a", "result1");
+    await cacheServerResult("key-b", "result2");
 
-    expect(cached0).toBe("result1");
-    expect(cached1).toBe("result2");
-    expect(cached2).toBe("result3");
+    expect(await readCachedServerResult("key-a")).toBe("result1");
+    expect(await readCachedServerResult("key-b")).toBe("result2");
   });
 
   it("should overwrite existing cache", async () => {
-    await cacheServerResult("content/test.org", 0, "old");
-    await cacheServerResult("content/test.org", 0, "new");
+    await cacheServerResult("key-a", "old");
+    await cacheServerResult("key-a", "new");
 
-    const cached = await readCachedServerResult("content/test.org", 0);
+    const cached = await readCachedServerResult("key-a");
 
     expect(cached).toBe("new");
   });
 
+  it("should expire results after their TTL", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    await cacheServerResult("key-a", "fresh", { ttl: 60_000 });
+
+    vi.setSystemTime(1_059_999);
+    expect(await readCachedServerResult("key-a")).toBe("fresh");
+
+    vi.setSystemTime(1_060_000);
+    expect(await readCachedServerResult("key-a")).toBeNull();
+    expect(listServerResults()[0].expired).toBe(true);
+  });
+
+  it("should list entries with their source, newest first", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000);
+    await cacheServerResult("key-a", 1, { orgFilePath: "content/test.org", blockIndex: 0 });
+    vi.setSystemTime(2_000);
+    await cacheServerResult("key-b", 2, { orgFilePath: "content/test.org", blockName: "stats" });
+
+    const entries = listServerResults();
+
+    expect(entries.map((e) => e.key)).toEqual(["key-b", "key-a"]);
+    expect(entries[0]).toMatchObject({
+      orgFilePath: "content/test.org",
+      blockName: "stats",
+      timestamp: 2_000,
+      expired: false,
+    });
+    expect(entries[0].size).toBeGreaterThan(0);
+  });
+
+  it("should prune expired and orphaned results", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000);
+    await cacheServerResult("old", "v1", { orgFilePath: "content/test.org", blockName: "stats" });
+    await cacheServerResult("expired", "x", { orgFilePath: "content/test.org", blockIndex: 1, ttl: 10 });
+    await cacheServerResult("orphan", "x", { orgFilePath: "content/deleted.org", blockIndex: 0 });
+    vi.setSystemTime(2_000);
+    await cacheServerResult("new", "v2", { orgFilePath: "content/test.org", blockName: "stats" });
+
+    const removed = pruneServerResults({
+      orgFileExists: (file) => file === "content/test.org",
+    });
+
+    expect(removed.map((e) => e.key).sort()).toEqual(["expired", "orphan"]);
+    expect(listServerResults().map((e) => e.key)).toEqual(["new", "old"]);
+  });
+
+  it("should clear all results", async () => {
+    await cacheServerResult("key-a", 1);
+    await cacheServerResult("key-b", 2);
+
+    expect(clearServerResults()).toBe(2);
+    expect(listServerResults()).toEqual([]);
+  });
+
   it("should invalidate cache for file", async () => {
-    await cacheServerResult("content/test.org", 0, "result1");
-    await cacheServerResult("content/test.org", 1, "result2");
-    await cacheServerResult("content/other.org", 0, "other");
+    await cacheServerResult("key-a", "result1", { orgFilePath: "content/test.org", blockIndex: 0 });
+    await cacheServerResult("key-b", "result2", { orgFilePath: "content/test.org", blockIndex: 1 });
+    await cacheServerResult("key-c", "other", { orgFilePath: "content/other.org", blockIndex: 0 });
 
     await invalidateServerResultCache("content/test.org");
 
-    const cached1 = await readCachedServerResult("content/test.org", 0);
-    const cached2 = await readCachedServerResult("content/test.org", 1);
-    const cachedOther = await readCachedServerResult("content/other.org", 0);
-
-    expect(cached1).toBeNull();
-    expect(cached2).toBeNull();
-    expect(cachedOther).toBe("other");
+    expect(await readCachedServerResult("key-a")).toBeNull();
+    expect(await readCachedServerResult("key-b")).toBeNull();
+    expect(await readCachedServerResult("key-c")).toBe("other");
   });
 
   it("should handle invalidation of non-existent file gracefully", async () => {
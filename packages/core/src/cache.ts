@@ -23,6 +23,8 @@ export interface FileSystem {
   mkdirSync(path: string, options?: { recursive?: boolean }): void;
   writeFileSync(path: string, data: string | NodeJS.ArrayBufferView, options?: nodeFs.WriteFileOptions): void;
   readFileSync(path: string, encoding: BufferEncoding): string;
+  readdirSync(path: string): string[];
+  unlinkSync(path: string): void;
 }
 
 // Default to node:fs, can be overridden for testing
@@ -317,71 +319,215 @@ export async function clearCache(cacheDir?: string): Promise<void> {
 const SERVER_CACHE_SUBDIR = "server-results";
 
 /**
- * Generate cache key for server execution result
+ * Block parameters that don't affect a server block's result
+ */
+const NON_RESULT_PARAMETERS = new Set(["cache", "results", "exports", "tangle", "mkdirp"]);
+
+/**
+ * Duration units accepted by `:cache`, in milliseconds
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * How long a server result may be reused (`:cache` header argument)
  *
- * @param orgFilePath - Relative path to .org file
- * @param blockIndex - Block index
- * @returns Cache key string
+ * - never: always execute, don't store the result
+ * - forever: reuse until the block or its dependencies change
+ * - ttl: reuse for `ttl` milliseconds
  */
-function getServerResultCacheKey(
-  orgFilePath: string,
-  blockIndex: number
-): string {
-  const sanitized = orgFilePath.replace(/[/\\]/g, "-").replace(/\.org$/, "");
-  return `server-${sanitized}-${blockIndex}.json`;
+export type ServerCachePolicy =
+  | { type: "never" }
+  | { type: "forever" }
+  | { type: "ttl"; ttl: number };
+
+/**
+ * Parse a `:cache` header argument
+ *
+ * Accepts `never`/`no`, `forever`/`yes`, or a duration such as `30s`,
+ * `15m`, `1h`, `7d` or `2w`. Without a value, results are kept forever.
+ *
+ * @param value - `:cache` parameter value
+ * @returns Cache policy
+ * @throws If the value is not a policy or duration
+ *
+ * @example
+ * parseCachePolicy("1h")    // { type: "ttl", ttl: 3600000 }
+ * parseCachePolicy("never") // { type: "never" }
+ */
+export function parseCachePolicy(value?: string): ServerCachePolicy {
+  const normalized = (value ?? "").trim().toLowerCase();
+
+  if (normalized === "" || normalized === "forever" || normalized === "yes") {
+    return { type: "forever" };
+  }
+  if (normalized === "never" || normalized === "no") {
+    return { type: "never" };
+  }
+
+  const match = normalized.match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/);
+  if (!match) {
+    throw new Error(
+      `Invalid :cache value "${value}" (expected never, forever or a duration like 1h)`
+    );
+  }
+
+  return { type: "ttl", ttl: Number(match[1]) * DURATION_UNITS[match[2]] };
+}
+
+/**
+ * Everything a server block's result depends on
+ */
+export interface ServerResultKeyInput {
+  /** Relative path to .org file */
+  orgFilePath: string;
+  /** Block language */
+  language: string;
+  /** Block source code */
+  code: string;
+  /** Block parameters */
+  parameters: Record<string, string | undefined>;
+  /** Fingerprints of referenced blocks, tables and imports */
+  dependencies?: string[];
+}
+
+/**
+ * Compute the content-addressed cache key of a server block result
+ *
+ * Hashes the block source, its result-relevant parameters (display
+ * wrappers on `:use` and parameters like `:cache` are ignored) and the
+ * fingerprints of its dependencies. Editing any of them, or the block
+ * moving to another file, yields a new key; moving it within its file
+ * doesn't.
+ *
+ * @param input - Block source and dependencies
+ * @returns Hex cache key
+ *
+ * @example
+ * const key = getServerResultKey({
+ *   orgFilePath: "content/index.org",
+ *   language: "javascript",
+ *   code: "return 42;",
+ *   parameters: { use: "server" },
+ * });
+ */
+export function getServerResultKey(input: ServerResultKeyInput): string {
+  const parameters = Object.entries(input.parameters)
+    .filter(([name, value]) => value !== undefined && !NON_RESULT_PARAMETERS.has(name))
+    .map(([name, value]) => [name, name === "use" ? value!.split("|")[0].trim() : value])
+    .sort(([a], [b]) => (a! < b! ? -1 : a! > b! ? 1 : 0));
+
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        input.orgFilePath.replace(/\\/g, "/"),
+        input.language.toLowerCase(),
+        input.code,
+        parameters,
+        input.dependencies ?? [],
+      ])
+    )
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Where a cached result came from
+ */
+export interface ServerResultSource {
+  /** Relative path to .org file */
+  orgFilePath?: string;
+  /** Block index */
+  blockIndex?: number;
+  /** Block name (from #+NAME:) */
+  blockName?: string;
+}
+
+/**
+ * Cached server result, as listed by listServerResults
+ */
+export interface ServerResultCacheEntry extends ServerResultSource {
+  /** Cache key */
+  key: string;
+  /** When the result was stored (ms since epoch) */
+  timestamp: number;
+  /** When the result expires (ms since epoch), if it has a TTL */
+  expiresAt?: number;
+  /** Whether the result has expired */
+  expired: boolean;
+  /** Size of the cache file in bytes */
+  size: number;
+}
+
+/**
+ * Get the server results cache directory
+ *
+ * @param cacheDir - Optional cache directory
+ * @returns Server results directory
+ */
+function getServerResultCacheDir(cacheDir?: string): string {
+  const baseCacheDir = cacheDir || path.join(process.cwd(), CACHE_DIR);
+  return path.join(baseCacheDir, SERVER_CACHE_SUBDIR);
 }
 
 /**
  * Get full path for server result cache file
  *
- * @param orgFilePath - Relative path to .org file
- * @param blockIndex - Block index
+ * @param key - Cache key
  * @param cacheDir - Optional cache directory
  * @returns Full cache file path
  */
-function getServerResultCachePath(
-  orgFilePath: string,
-  blockIndex: number,
-  cacheDir?: string
-): string {
-  const cacheKey = getServerResultCacheKey(orgFilePath, blockIndex);
-  const baseCacheDir = cacheDir || path.join(process.cwd(), CACHE_DIR);
-  return path.join(baseCacheDir, SERVER_CACHE_SUBDIR, cacheKey);
+function getServerResultCachePath(key: string, cacheDir?: string): string {
+  return path.join(getServerResultCacheDir(cacheDir), `${key}.json`);
 }
 
 /**
  * Cache server execution result
  *
- * Stores result with timestamp in JSON format.
+ * Stores result with timestamp (and expiry, for a TTL) in JSON format.
  *
- * @param orgFilePath - Relative path to .org file
- * @param blockIndex - Block index
+ * @param key - Cache key from getServerResultKey
  * @param result - Result to cache (any serializable value)
+ * @param options - Result source and TTL in milliseconds
  * @param cacheDir - Optional cache directory
  *
  * @example
  * ```typescript
- * await cacheServerResult('content/index.org', 0, { count: 42 });
+ * await cacheServerResult(key, { count: 42 }, {
+ *   orgFilePath: 'content/index.org',
+ *   blockIndex: 0,
+ *   ttl: 60 * 60 * 1000,
+ * });
  * ```
  */
 export async function cacheServerResult(
-  orgFilePath: string,
-  blockIndex: number,
+  key: string,
   result: any,
+  options: ServerResultSource & { ttl?: number } = {},
   cacheDir?: string
 ): Promise<void> {
-  const cachePath = getServerResultCachePath(orgFilePath, blockIndex, cacheDir);
+  const cachePath = getServerResultCachePath(key, cacheDir);
   const dir = path.dirname(cachePath);
 
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 
+  const { ttl, ...source } = options;
+  const timestamp = Date.now();
   const cacheData = {
+    key,
     result,
-    timestamp: Date.now(),
-    orgFilePath,
-    blockIndex,
+    timestamp,
+    ...(ttl !== undefined && { expiresAt: timestamp + ttl }),
+    ...source,
   };
 
   fs.writeFileSync(cachePath, JSON.stringify(cacheData, null, 2), "utf-8");
@@ -390,25 +536,23 @@ export async function cacheServerResult(
 /**
  * Read cached server execution result
  *
- * @param orgFilePath - Relative path to .org file
- * @param blockIndex - Block index
+ * @param key - Cache key from getServerResultKey
  * @param cacheDir - Optional cache directory
- * @returns Cached result or null if not found
+ * @returns Cached result or null if not found or expired
  *
  * @example
  * ```typescript
- * const cached = await readCachedServerResult('content/index.org', 0);
+ * const cached = await readCachedServerResult(key);
  * if (cached !== null) {
  *   console.log('Using cached result:', cached);
  * }
  * ```
  */
 export async function readCachedServerResult(
-  orgFilePath: string,
-  blockIndex: number,
+  key: string,
   cacheDir?: string
 ): Promise<any | null> {
-  const cachePath = getServerResultCachePath(orgFilePath, blockIndex, cacheDir);
+  const cachePath = getServerResultCachePath(key, cacheDir);
 
   try {
     if (!fs.existsSync(cachePath)) {
@@ -417,23 +561,142 @@ export async function readCachedServerResult(
 
     const content = fs.readFileSync(cachePath, "utf-8");
     const cached = JSON.parse(content);
+    if (cached.expiresAt !== undefined && cached.expiresAt <= Date.now()) {
+      return null;
+    }
     return cached.result;
   } catch {
     return null;
   }
 }
 
+/**
+ * List cached server results
+ *
+ * Unreadable cache files are skipped.
+ *
+ * @param cacheDir - Optional cache directory
+ * @returns Entries, newest first
+ */
+export function listServerResults(cacheDir?: string): ServerResultCacheEntry[] {
+  const serverCacheDir = getServerResultCacheDir(cacheDir);
+  if (!fs.existsSync(serverCacheDir)) {
+    return [];
+  }
+
+  const now = Date.now();
+  const entries: ServerResultCacheEntry[] = [];
+
+  for (const file of fs.readdirSync(serverCacheDir)) {
+    if (!file.endsWith(".json")) continue;
+
+    try {
+      const content = fs.readFileSync(path.join(serverCacheDir, file), "utf-8");
+      const cached = JSON.parse(content);
+      entries.push({
+        key: file.slice(0, -".json".length),
+        orgFilePath: cached.orgFilePath,
+        blockIndex: cached.blockIndex,
+        blockName: cached.blockName,
+        timestamp: cached.timestamp,
+        expiresAt: cached.expiresAt,
+        expired: cached.expiresAt !== undefined && cached.expiresAt <= now,
+        size: Buffer.byteLength(content),
+      });
+    } catch {
+      // Not a cache entry
+    }
+  }
+
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Remove cached server results
+ *
+ * @param keys - Keys of the entries to remove
+ * @param cacheDir - Optional cache directory
+ * @returns Number of entries removed
+ */
+export function removeServerResults(keys: Iterable<string>, cacheDir?: string): number {
+  let removed = 0;
+
+  for (const key of keys) {
+    try {
+      fs.unlinkSync(getServerResultCachePath(key, cacheDir));
+      removed++;
+    } catch {
+      // Already gone
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Options for pruneServerResults
+ */
+export interface PruneServerResultsOptions {
+  /**
+   * Returns whether an org file still exists
+   * (default: checks the file system relative to the cwd)
+   */
+  orgFileExists?: (orgFilePath: string) => boolean;
+}
+
+/**
+ * Remove server results that can no longer be used
+ *
+ * Removes expired results and results of org files that no longer
+ * exist. Older results of an edited block are kept: results are keyed
+ * by content, so they are used again if the edit is undone.
+ *
+ * @param options - Prune options
+ * @param cacheDir - Optional cache directory
+ * @returns Removed entries
+ */
+export function pruneServerResults(
+  options: PruneServerResultsOptions = {},
+  cacheDir?: string
+): ServerResultCacheEntry[] {
+  const orgFileExists =
+    options.orgFileExists ?? ((orgFilePath: string) => fs.existsSync(orgFilePath));
+  const stale = listServerResults(cacheDir).filter(
+    (entry) => entry.expired || (entry.orgFilePath && !orgFileExists(entry.orgFilePath))
+  );
+
+  removeServerResults(
+    stale.map((entry) => entry.key),
+    cacheDir
+  );
+  return stale;
+}
+
+/**
+ * Remove all cached server results
+ *
+ * @param cacheDir - Optional cache directory
+ * @returns Number of entries removed
+ */
+export function clearServerResults(cacheDir?: string): number {
+  return removeServerResults(
+    listServerResults(cacheDir).map((entry) => entry.key),
+    cacheDir
+  );
+}
+
 /**
  * Invalidate server result cache for a file
  *
  * Removes all cached server results for blocks in the specified file.
+ * Results are keyed by content, so edits don't require this; use it to
+ * force blocks to run again.
  *
  * @param orgFilePath - Relative path to .org file
  * @param cacheDir - Optional cache directory
  *
  * @example
  * ```typescript
- * // Called when .org file changes
  * await invalidateServerResultCache('content/index.org');
  * ```
  */
@@ -441,50 +704,10 @@ export async function invalidateServerResultCache(
   orgFilePath: string,
   cacheDir?: string
 ): Promise<void> {
-  const baseCacheDir = cacheDir || path.join(process.cwd(), CACHE_DIR);
-  const serverCacheDir = path.join(baseCacheDir, SERVER_CACHE_SUBDIR);
-
-  // Pattern to match: server-{sanitized-path}-{index}.json
-  const sanitized = orgFilePath.replace(/[/\\]/g, "-").replace(/\.org$/, "");
-  const pattern = `server-${sanitized}-`;
-
-  try {
-    if (!fs.existsSync(serverCacheDir)) {
-      return;
-    }
-
-    // Use node:fs/promises for async operations
-    // Note: We need to use the real fs for readdir/unlink since memfs
-    // may not have these methods in its sync interface
-    const fsPromises = await import("node:fs/promises");
-
-    // Check if we're using the injected fs (memfs) or real fs
-    // If injected, use sync methods; if real, use async
-    if (fs !== nodeFs) {
-      // Using injected fs (e.g., memfs in tests)
-      // memfs has readdirSync and unlinkSync
-      const files = (fs as any).readdirSync(serverCacheDir) as string[];
-      for (const f of files) {
-        if (f.startsWith(pattern)) {
-          try {
-            (fs as any).unlinkSync(path.join(serverCacheDir, f));
-          } catch {
-            // Ignore individual file deletion errors
-          }
-        }
-      }
-    } else {
-      // Using real fs
-      const files = await fsPromises.readdir(serverCacheDir);
-      await Promise.all(
-        files
-          .filter((f) => f.startsWith(pattern))
-          .map((f) =>
-            fsPromises.unlink(path.join(serverCacheDir, f)).catch(() => {})
-          )
-      );
-    }
-  } catch {
-    // Ignore errors
-  }
+  removeServerResults(
+    listServerResults(cacheDir)
+      .filter((entry) => entry.orgFilePath === orgFilePath)
+      .map((entry) => entry.key),
+    cacheDir
+  );
 }
@@ -0,0 +1,64 @@
+/**
+ * Tests for Cache Command
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { runCache } from "./cache.ts";
+import { cacheServerResult, listServerResults } from "../../cache.ts";
+
+describe("Cache Command", () => {
+  let tempDir: string;
+  let cacheDir: string;
+  let context: { projectRoot: string; config: { cacheDir: string } };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"));
+    cacheDir = path.join(tempDir, ".cache");
+    context = { projectRoot: tempDir, config: { cacheDir: ".cache" } };
+    fs.mkdirSync(path.join(tempDir, "content"));
+    fs.writeFileSync(path.join(tempDir, "content/index.org"), "* Index\n");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should list cached results", async () => {
+    await cacheServerResult("abc123def4567890", 42, { orgFilePath: "content/index.org", blockName: "stats" }, cacheDir);
+
+    expect(await runCache(["ls"], context)).toBe(0);
+
+    const output = vi.mocked(console.log).mock.calls.flat().join("\n");
+    expect(output).toContain("1 cached server result");
+    expect(output).toContain("abc123def456  content/index.org (stats)");
+    expect(output).toContain("no expiry");
+  });
+
+  it("should prune results of deleted files", async () => {
+    await cacheServerResult("kept", 1, { orgFilePath: "content/index.org", blockIndex: 0 }, cacheDir);
+    await cacheServerResult("orphan", 2, { orgFilePath: "content/deleted.org", blockIndex: 0 }, cacheDir);
+
+    expect(await runCache(["prune"], context)).toBe(0);
+
+    expect(listServerResults(cacheDir).map((entry) => entry.key)).toEqual(["kept"]);
+  });
+
+  it("should clear all results", async () => {
+    await cacheServerResult("a", 1, {}, cacheDir);
+    await cacheServerResult("b", 2, {}, cacheDir);
+
+    expect(await runCache(["clear"], context)).toBe(0);
+
+    expect(listServerResults(cacheDir)).toEqual([]);
+  });
+
+  it("should reject unknown subcommands", async () => {
+    expect(await runCache(["purge"], context)).toBe(1);
+  });
+});
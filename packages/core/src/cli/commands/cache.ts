@@ -0,0 +1,151 @@
+/**
+ * Cache Command (`orgp cache`)
+ *
+ * Inspects and evicts cached `:use server` block results.
+ *
+ * Usage:
+ *   orgp cache ls       # List cached results
+ *   orgp cache prune    # Remove expired and orphaned results
+ *   orgp cache clear    # Remove all cached results
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  clearServerResults,
+  listServerResults,
+  pruneServerResults,
+  type ServerResultCacheEntry,
+} from "../../cache.ts";
+import { DEFAULT_CACHE_DIR } from "../../config/defaults.ts";
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format a byte count
+ *
+ * @example
+ * formatSize(512)  // "512 B"
+ * formatSize(2048) // "2.0 KB"
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format a duration in milliseconds as its largest unit
+ *
+ * @example
+ * formatDuration(90 * 60 * 1000) // "1h"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(Math.abs(ms) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+/**
+ * Describe where a cached result came from
+ *
+ * @example
+ * describeEntry({ orgFilePath: "content/index.org", blockName: "stats" })
+ * // "content/index.org (stats)"
+ */
+function describeEntry(entry: ServerResultCacheEntry): string {
+  if (!entry.orgFilePath) return "(unknown)";
+  const block = entry.blockName ?? (entry.blockIndex !== undefined ? `#${entry.blockIndex}` : "");
+  return block ? `${entry.orgFilePath} (${block})` : entry.orgFilePath;
+}
+
+/**
+ * Format a cache entry as a listing line
+ */
+function formatEntry(entry: ServerResultCacheEntry, now: number): string {
+  const expiry =
+    entry.expiresAt === undefined
+      ? "no expiry"
+      : entry.expired
+        ? "expired"
+        : `expires in ${formatDuration(entry.expiresAt - now)}`;
+
+  return (
+    `  ${entry.key.slice(0, 12)}  ${describeEntry(entry)}` +
+    `  ${formatDuration(now - entry.timestamp)} old, ${expiry}, ${formatSize(entry.size)}`
+  );
+}
+
+// ============================================================================
+// Main Command
+// ============================================================================
+
+/**
+ * Run cache command from CLI arguments
+ *
+ * @param args - CLI arguments (subcommand first)
+ * @param context - CLI context with project paths
+ * @returns Exit code (0 for success, 1 for an unknown subcommand)
+ */
+export async function runCache(
+  args: string[],
+  context: { projectRoot: string; config?: { cacheDir?: string } }
+): Promise<number> {
+  const [subcommand = "ls"] = args.filter((arg) => !arg.startsWith("-"));
+  const cacheDir = path.resolve(
+    context.projectRoot,
+    context.config?.cacheDir || DEFAULT_CACHE_DIR
+  );
+
+  switch (subcommand) {
+    case "ls":
+    case "list": {
+      const entries = listServerResults(cacheDir);
+      const now = Date.now();
+      const size = entries.reduce((total, entry) => total + entry.size, 0);
+
+      console.log(
+        `\n[cache] ${entries.length} cached server result${entries.length === 1 ? "" : "s"} (${formatSize(size)})\n`
+      );
+      for (const entry of entries) {
+        console.log(formatEntry(entry, now));
+      }
+      if (entries.length > 0) console.log("");
+      return 0;
+    }
+
+    case "prune": {
+      const removed = pruneServerResults(
+        {
+          orgFileExists: (orgFilePath) =>
+            fs.existsSync(path.resolve(context.projectRoot, orgFilePath)),
+        },
+        cacheDir
+      );
+
+      for (const entry of removed) {
+        console.log(`  - ${entry.key.slice(0, 12)}  ${describeEntry(entry)}`);
+      }
+      console.log(
+        `\n[cache] Pruned ${removed.length} server result${removed.length === 1 ? "" : "s"}\n`
+      );
+      return 0;
+    }
+
+    case "clear": {
+      const removed = clearServerResults(cacheDir);
+      console.log(
+        `\n[cache] Cleared ${removed} server result${removed === 1 ? "" : "s"}\n`
+      );
+      return 0;
+    }
+
+    default:
+      console.error(`[cache] Unknown subcommand "${subcommand}" (expected ls, prune or clear)`);
+      return 1;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for Detangle Command
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { tangleOrgFiles } from "./tangle.ts";
+import { detangleFiles } from "./detangle.ts";
+
+describe("Detangle Command", () => {
+  let tempDir: string;
+  let contentDir: string;
+  let orgPath: string;
+  let tangledPath: string;
+
+  const orgSource = `#+TITLE: Lib
+
+#+NAME: greet
+#+begin_src js :tangle lib.js :comments link
+export const greet = () => "hi";
+#+end_src
+
+#+begin_src js :tangle lib.js :comments link
+export const x = 1;
+#+end_src
+`;
+
+  const options = () => ({
+    projectRoot: tempDir,
+    contentDir: "content",
+    cacheDir: ".cache",
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "detangle-test-"));
+    contentDir = path.join(tempDir, "content");
+    fs.mkdirSync(contentDir, { recursive: true });
+    orgPath = path.join(contentDir, "lib.org");
+    tangledPath = path.join(contentDir, "lib.js");
+    fs.writeFileSync(orgPath, orgSource);
+    await tangleOrgFiles(options());
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const editTangled = (from: string, to: string) =>
+    fs.writeFileSync(
+      tangledPath,
+      fs.readFileSync(tangledPath, "utf-8").replace(from, to)
+    );
+
+  it("should do nothing when everything is in sync", async () => {
+    const summary = await detangleFiles(options());
+
+    expect(summary.total).toBe(2);
+    expect(summary.unchanged).toBe(2);
+    expect(fs.readFileSync(orgPath, "utf-8")).toBe(orgSource);
+  });
+
+  it("should write tangled edits back into the org block", async () => {
+    editTangled('"hi"', '"hello"');
+    editTangled("x = 1", "x = 2");
+
+    const summary = await detangleFiles(options());
+
+    expect(summary.updated).toBe(2);
+    const org = fs.readFileSync(orgPath, "utf-8");
+    expect(org).toContain('export const greet = () => "hello";');
+    expect(org).toContain("export const x = 2;");
+    expect(org).toContain("#+NAME: greet");
+
+    // A second run sees both sides in sync
+    const again = await detangleFiles(options());
+    expect(again.updated).toBe(0);
+  });
+
+  it("should not write in check mode", async () => {
+    editTangled('"hi"', '"hello"');
+
+    const summary = await detangleFiles({ ...options(), check: true });
+
+    expect(summary.updated).toBe(1);
+    expect(fs.readFileSync(orgPath, "utf-8")).toBe(orgSource);
+  });
+
+  it("should report when only the org source changed", async () => {
+    fs.writeFileSync(orgPath, orgSource.replace('"hi"', '"hey"'));
+
+    const summary = await detangleFiles(options());
+
+    expect(summary.results[0].status).toBe("org-changed");
+    expect(summary.updated).toBe(0);
+  });
+
+  it("should report conflicts when both sides changed", async () => {
+    fs.writeFileSync(orgPath, orgSource.replace('"hi"', '"hey"'));
+    editTangled('"hi"', '"hello"');
+
+    const summary = await detangleFiles(options());
+
+    expect(summary.conflicts).toBe(1);
+    expect(fs.readFileSync(orgPath, "utf-8")).toContain('"hey"');
+  });
+
+  it("should keep the tangled version on conflicts with force", async () => {
+    fs.writeFileSync(orgPath, orgSource.replace('"hi"', '"hey"'));
+    editTangled('"hi"', '"hello"');
+
+    const summary = await detangleFiles({ ...options(), force: true });
+
+    expect(summary.conflicts).toBe(0);
+    expect(fs.readFileSync(orgPath, "utf-8")).toContain('"hello"');
+  });
+
+  it("should refuse unnamed blocks whose index now points elsewhere", async () => {
+    const inserted = orgSource.replace(
+      "#+begin_src js :tangle lib.js :comments link\nexport const x",
+      "#+begin_src js\nexport const y = 0;\n#+end_src\n\n#+begin_src js :tangle lib.js :comments link\nexport const x"
+    );
+    fs.writeFileSync(orgPath, inserted);
+    editTangled("x = 1", "x = 2");
+
+    const summary = await detangleFiles({ ...options(), force: true });
+
+    expect(summary.results[1]).toMatchObject({ block: "block-1", status: "error" });
+    expect(summary.results[1].message).toContain("unnamed block block-1");
+    expect(fs.readFileSync(orgPath, "utf-8")).toBe(inserted);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Detangle Command (`orgp detangle`)
+ *
+ * Syncs edits made directly in tangled files back into the org source.
+ * Only files tangled with `:comments link` can be detangled - the link
+ * comments identify which block each region came from.
+ *
+ * Usage:
+ *   orgp detangle                    # Detangle all tangle targets
+ *   orgp detangle src/main.ts        # Detangle specific tangled files
+ *   orgp detangle --check            # Report only, exit 1 if anything would change
+ *   orgp detangle --force            # Tangled file wins on conflicts
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  computeTangleTargets,
+  extractTangleBlocks,
+  hasNowebReferences,
+} from "../../tangle/tangle.ts";
+import {
+  parseTangledRegions,
+  resolveRegionBlock,
+  classifyRegionChange,
+} from "../../tangle/detangle.ts";
+import {
+  getTangleBlockKey,
+  getTangleRecordPath,
+  hashTangleBody,
+  readTangleRecord,
+  writeTangleRecord,
+} from "../../tangle/record.ts";
+import { dangerousWriteContentBlock } from "../../content/block-io.ts";
+import { DEFAULT_CACHE_DIR } from "../../config/defaults.ts";
+import { collectOrgFiles } from "./tangle.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DetangleOptions {
+  /** Tangled files to detangle (default: all tangle targets in content dir) */
+  files?: string[];
+  /** Check only, don't write (exit 1 if any block would change) */
+  check?: boolean;
+  /** Resolve conflicts in favor of the tangled file */
+  force?: boolean;
+  /** Project root directory */
+  projectRoot?: string;
+  /** Content directory */
+  contentDir?: string;
+  /** Cache directory holding the tangle record */
+  cacheDir?: string;
+}
+
+export interface DetangleResult {
+  /** Tangled file (relative to project root) */
+  file: string;
+  /** Line of the region's link comment in the tangled file (1-based) */
+  line: number;
+  /** Org file (relative to project root) */
+  orgFile: string;
+  /** Block name or index */
+  block: string | number;
+  /**
+   * Outcome:
+   * - updated: tangled edits were written to the org block (or would be, in check mode)
+   * - unchanged: both sides agree
+   * - org-changed: only the org block changed - run `orgp tangle` instead
+   * - conflict: both sides changed since the last tangle
+   * - skipped: region cannot be detangled (e.g. noweb references)
+   * - error: block not found or write failed
+   */
+  status: "updated" | "unchanged" | "org-changed" | "conflict" | "skipped" | "error";
+  /** Explanation for non-trivial statuses */
+  message?: string;
+}
+
+export interface DetangleSummary {
+  /** Total regions processed */
+  total: number;
+  /** Regions written back (or pending, in check mode) */
+  updated: number;
+  /** Regions already in sync */
+  unchanged: number;
+  /** Regions where both sides changed */
+  conflicts: number;
+  /** Regions skipped or failed */
+  errors: number;
+  /** Individual results */
+  results: DetangleResult[];
+}
+
+// ============================================================================
+// Main Command
+// ============================================================================
+
+/**
+ * Resolve the tangled files to detangle
+ *
+ * Without explicit files, every existing tangle target of the org files
+ * in the content directory is used.
+ */
+function collectTangledFiles(
+  contentDir: string,
+  projectRoot: string,
+  files?: string[]
+): string[] {
+  if (files && files.length > 0) {
+    return files.map((f) => (path.isAbsolute(f) ? f : path.join(projectRoot, f)));
+  }
+
+  const inputs = collectOrgFiles(contentDir, projectRoot).map((orgFilePath) => ({
+    orgFilePath,
+    source: fs.readFileSync(orgFilePath, "utf-8"),
+  }));
+
+  return computeTangleTargets(inputs)
+    .targets.map((target) => target.path)
+    .filter((targetPath) => fs.existsSync(targetPath));
+}
+
+/**
+ * Write edits from tangled files back into their org source blocks
+ *
+ * @param options - Detangle options
+ * @returns Summary of detangle results
+ */
+export async function detangleFiles(
+  options: DetangleOptions
+): Promise<DetangleSummary> {
+  const projectRoot = options.projectRoot || process.cwd();
+  const contentDir = options.contentDir || "content";
+  const check = options.check ?? false;
+
+  console.log(`\n[detangle] ${check ? "Checking" : "Detangling"} tangled files...\n`);
+
+  const recordPath = getTangleRecordPath(
+    projectRoot,
+    options.cacheDir || DEFAULT_CACHE_DIR
+  );
+  const record = readTangleRecord(recordPath);
+  const results: DetangleResult[] = [];
+  let recordChanged = false;
+
+  for (const tangledFile of collectTangledFiles(contentDir, projectRoot, options.files)) {
+    const relativeFile = path.relative(projectRoot, tangledFile);
+
+    if (!fs.existsSync(tangledFile)) {
+      console.log(`  ✗ ${relativeFile} - file not found`);
+      results.push({
+        file: relativeFile,
+        line: 0,
+        orgFile: "",
+        block: "",
+        status: "error",
+        message: "File not found",
+      });
+      continue;
+    }
+
+    const regions = parseTangledRegions(
+      fs.readFileSync(tangledFile, "utf-8"),
+      tangledFile
+    );
+
+    if (regions.length === 0) {
+      console.log(`  - ${relativeFile} - no link comments (tangle with :comments link)`);
+      continue;
+    }
+
+    const targetKey = relativeFile.split(path.sep).join("/");
+
+    for (const region of regions) {
+      const relativeOrg = path.relative(projectRoot, region.orgFilePath);
+      const result: DetangleResult = {
+        file: relativeFile,
+        line: region.line,
+        orgFile: relativeOrg,
+        block: region.label,
+        status: "unchanged",
+      };
+      results.push(result);
+
+      if (!fs.existsSync(region.orgFilePath)) {
+        result.status = "error";
+        result.message = `Org file not found: ${relativeOrg}`;
+        console.log(`  ✗ ${relativeFile}:${region.line} - ${result.message}`);
+        continue;
+      }
+
+      // Re-read on every region: earlier write-backs may have changed the file
+      const blocks = extractTangleBlocks(
+        fs.readFileSync(region.orgFilePath, "utf-8"),
+        region.orgFilePath
+      );
+      const blockKey = getTangleBlockKey(relativeOrg, region.label);
+      const baseHash = record.targets[targetKey]?.[blockKey];
+      const block = resolveRegionBlock(region, blocks, baseHash);
+
+      if (!block) {
+        result.status = "error";
+        result.message = /^block-\d+$/.test(region.label)
+          ? `Can't verify unnamed block ${region.label} (blocks moved or changed since the last tangle) - run 'orgp tangle', or give it a #+NAME:`
+          : `Block not found: ${region.label}`;
+        console.log(`  ✗ ${relativeFile}:${region.line} → ${relativeOrg} - ${result.message}`);
+        continue;
+      }
+
+      const blockId = block.name ?? block.index;
+      result.block = blockId;
+      const location = `${relativeFile}:${region.line} → ${relativeOrg}:${block.startLine} (${region.label})`;
+
+      if (hasNowebReferences(block)) {
+        result.status = "skipped";
+        result.message = "Block uses noweb references and cannot be detangled";
+        console.log(`  - ${location} - ${result.message}`);
+        continue;
+      }
+
+      const fileHash = hashTangleBody(region.content);
+      let change = classifyRegionChange(fileHash, hashTangleBody(block.content), baseHash);
+
+      if (change === "conflict" && options.force) {
+        change = "file-changed";
+      }
+
+      if (change === "unchanged") {
+        continue;
+      }
+
+      if (change === "org-changed") {
+        result.status = "org-changed";
+        result.message = "Org source is newer - run 'orgp tangle' to update the file";
+        console.log(`  ○ ${location} - org source is newer`);
+        continue;
+      }
+
+      if (change === "conflict") {
+        result.status = "conflict";
+        result.message = baseHash
+          ? "Both the tangled file and the org block changed"
+          : "No tangle record for this block - cannot tell which side changed";
+        console.log(`  ✗ ${location} - conflict: ${result.message}`);
+        continue;
+      }
+
+      result.status = "updated";
+
+      if (check) {
+        console.log(`  ○ ${location} - needs detangling`);
+        continue;
+      }
+
+      const writeResult = await dangerousWriteContentBlock({
+        file: region.orgFilePath,
+        block: blockId,
+        content: region.content,
+      });
+
+      if (!writeResult.success) {
+        result.status = "error";
+        result.message = writeResult.error;
+        console.log(`  ✗ ${location} - write failed: ${writeResult.error}`);
+        continue;
+      }
+
+      record.targets[targetKey] = { ...record.targets[targetKey], [blockKey]: fileHash };
+      recordChanged = true;
+      console.log(`  ✓ ${location} - updated`);
+    }
+  }
+
+  if (recordChanged) {
+    writeTangleRecord(recordPath, record);
+  }
+
+  const count = (status: DetangleResult["status"]) =>
+    results.filter((r) => r.status === status).length;
+  const summary: DetangleSummary = {
+    total: results.length,
+    updated: count("updated"),
+    unchanged: count("unchanged") + count("org-changed"),
+    conflicts: count("conflict"),
+    errors: count("error") + count("skipped"),
+    results,
+  };
+
+  // Print summary
+  console.log("\n[detangle] Summary:");
+  console.log(`  Total:     ${summary.total}`);
+  console.log(`  ${check ? "Pending:  " : "Updated:  "} ${summary.updated}`);
+  console.log(`  Unchanged: ${summary.unchanged}`);
+  if (summary.conflicts > 0) {
+    console.log(`  Conflicts: ${summary.conflicts}`);
+  }
+  if (summary.errors > 0) {
+    console.log(`  Errors:    ${summary.errors}`);
+  }
+  console.log("");
+
+  if (summary.conflicts > 0) {
+    console.log(
+      "[detangle] Resolve conflicts by hand, or rerun with --force to keep the tangled file's version.\n"
+    );
+  }
+
+  return summary;
+}
+
+/**
+ * Run detangle command from CLI arguments
+ *
+ * @param args - CLI arguments
+ * @param context - CLI context with project paths
+ * @returns Exit code (0 for success, 1 for conflicts, errors or pending changes in check mode)
+ */
+export async function runDetangle(
+  args: string[],
+  context: { contentDir: string; projectRoot: string; config?: { cacheDir?: string } }
+): Promise<number> {
+  const options = parseDetangleArgs(args);
+
+  let summary: DetangleSummary;
+  try {
+    summary = await detangleFiles({
+      ...options,
+      contentDir: context.contentDir,
+      projectRoot: context.projectRoot,
+      cacheDir: context.config?.cacheDir,
+    });
+  } catch (error) {
+    console.error(
+      `[detangle] ${error instanceof Error ? error.message : String(error)}`
+    );
+    return 1;
+  }
+
+  if (options.check && summary.updated > 0) {
+    return 1;
+  }
+
+  if (summary.conflicts > 0 || summary.errors > 0) {
+    return 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Parse detangle command arguments
+ */
+function parseDetangleArgs(args: string[]): DetangleOptions {
+  const result: DetangleOptions = {};
+  const files: string[] = [];
+
+  for (const arg of args) {
+    if (arg === "--check" || arg === "-c") {
+      result.check = true;
+    } else if (arg === "--force" || arg === "-f") {
+      result.force = true;
+    } else if (!arg.startsWith("-")) {
+      files.push(arg);
+    }
+  }
+
+  if (files.length > 0) {
+    result.files = files;
+  }
+
+  return result;
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for Eval Command
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { evalOrgFiles, runEval } from "./eval.ts";
+
+describe("Eval Command", () => {
+  let tempDir: string;
+  let orgFile: string;
+
+  const context = () => ({ contentDir: "content", projectRoot: tempDir });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "eval-test-"));
+    fs.mkdirSync(path.join(tempDir, "content"));
+    orgFile = path.join(tempDir, "content/report.org");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should write array results as a table", async () => {
+    fs.writeFileSync(
+      orgFile,
+      `#+name: sales
+#+begin_src javascript :exec
+return [{ region: "north", total: 10 }, { region: "south", total: 7 }];
+#+end_src
+`
+    );
+
+    expect(await runEval([], context())).toBe(0);
+
+    expect(fs.readFileSync(orgFile, "utf-8")).toContain(`#+end_src
+
+#+RESULTS: sales
+| region | total |
+|--------+-------|
+| north  |    10 |
+| south  |     7 |
+`);
+  });
+
+  it("should write other results as an example block", async () => {
+    fs.writeFileSync(orgFile, `#+begin_src javascript :exec\nreturn "hello";\n#+end_src\n`);
+
+    await runEval([], context());
+
+    expect(fs.readFileSync(orgFile, "utf-8")).toContain(
+      "#+RESULTS:\n#+begin_example\nhello\n#+end_example\n"
+    );
+  });
+
+  it("should report unchanged results on re-evaluation", async () => {
+    fs.writeFileSync(orgFile, `#+begin_src javascript :exec\nreturn 1 + 1;\n#+end_src\n`);
+
+    await evalOrgFiles(context());
+    const summary = await evalOrgFiles(context());
+
+    expect(summary.results.map((r) => r.status)).toEqual(["unchanged"]);
+  });
+
+  it("should not write :results silent blocks", async () => {
+    const source = `#+begin_src javascript :exec :results silent\nreturn 1;\n#+end_src\n`;
+    fs.writeFileSync(orgFile, source);
+
+    const summary = await evalOrgFiles(context());
+
+    expect(summary.results.map((r) => r.status)).toEqual(["silent"]);
+    expect(fs.readFileSync(orgFile, "utf-8")).toBe(source);
+  });
+
+  it("should evaluate a single named block with --block", async () => {
+    fs.writeFileSync(
+      orgFile,
+      `#+name: first
+#+begin_src javascript :exec
+return "one";
+#+end_src
+
+#+name: second
+#+begin_src javascript :exec
+return "two";
+#+end_src
+`
+    );
+
+    expect(await runEval(["--block", "second"], context())).toBe(0);
+
+    const content = fs.readFileSync(orgFile, "utf-8");
+    expect(content).toContain("#+RESULTS: second\n#+begin_example\ntwo");
+    expect(content).not.toContain("#+RESULTS: first");
+  });
+
+  it("should fail when --block matches nothing", async () => {
+    fs.writeFileSync(orgFile, `#+begin_src javascript :exec\nreturn 1;\n#+end_src\n`);
+
+    expect(await runEval(["--block", "missing"], context())).toBe(1);
+  });
+
+  it("should write :file results and link them", async () => {
+    fs.writeFileSync(
+      orgFile,
+      `#+begin_src javascript :exec :file plot.svg\nreturn "<svg/>";\n#+end_src\n`
+    );
+
+    await runEval([], context());
+
+    expect(fs.readFileSync(path.join(tempDir, "content/plot.svg"), "utf-8")).toBe("<svg/>");
+    expect(fs.readFileSync(orgFile, "utf-8")).toContain("#+RESULTS:\n[[file:plot.svg]]\n");
+  });
+
+  it("should report failing blocks", async () => {
+    fs.writeFileSync(orgFile, `#+begin_src javascript :exec\nthrow new Error("boom");\n#+end_src\n`);
+
+    expect(await runEval([], context())).toBe(1);
+    expect(fs.readFileSync(orgFile, "utf-8")).not.toContain("#+RESULTS:");
+  });
+});
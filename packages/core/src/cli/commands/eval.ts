@@ -0,0 +1,274 @@
+/**
+ * Eval Command (`orgp eval`)
+ *
+ * Executes `:exec`/`:use server` blocks and writes their output back into
+ * the org file as `#+RESULTS:` sections, like org-babel. Pages then show
+ * the committed results without re-executing the blocks.
+ *
+ * Usage:
+ *   orgp eval                          # Evaluate all org files in content dir
+ *   orgp eval content/report.org       # Evaluate specific files
+ *   orgp eval report.org --block sales # Evaluate a single named block
+ *
+ * Header arguments:
+ *   :results replace|append|silent     # How results are written (default: replace)
+ *   :file plot.svg                     # Write the result to a file and link it
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { executeOrgFile } from "../execute.ts";
+import {
+  findBlock,
+  formatBlockResult,
+  getResultsMode,
+  writeBlockResults,
+} from "../../content/block-io.ts";
+import { parseBlockParameters } from "../../plugins/utils.ts";
+import { collectOrgFiles } from "./tangle.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EvalOptions {
+  /** Org files or directories to evaluate (default: all .org in content dir) */
+  files?: string[];
+  /** Evaluate only the block with this name */
+  block?: string;
+  /** Project root directory */
+  projectRoot?: string;
+  /** Content directory */
+  contentDir?: string;
+}
+
+export interface EvalBlockResult {
+  /** Org file path relative to project root */
+  file: string;
+  /** Block name, or `#index` for unnamed blocks */
+  block: string;
+  /**
+   * Outcome:
+   * - written: results were written
+   * - unchanged: results already matched
+   * - silent: `:results silent`, nothing written
+   * - empty: the block returned nothing
+   * - error: the block failed or results could not be written
+   */
+  status: "written" | "unchanged" | "silent" | "empty" | "error";
+  /** Error message if evaluation failed */
+  error?: string;
+}
+
+export interface EvalSummary {
+  /** Total evaluated blocks */
+  total: number;
+  /** Blocks whose results were written */
+  written: number;
+  /** Blocks whose results were already up to date */
+  unchanged: number;
+  /** Blocks that failed */
+  errors: number;
+  /** Individual results */
+  results: EvalBlockResult[];
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Write a `:file` result
+ *
+ * String and binary results are written to the file; otherwise the block
+ * is expected to have created the file itself.
+ */
+function writeResultFile(orgFilePath: string, target: string, value: unknown): void {
+  const filePath = path.resolve(path.dirname(orgFilePath), target);
+
+  if (typeof value === "string" || value instanceof Uint8Array) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, value);
+  } else if (!fs.existsSync(filePath)) {
+    throw new Error(`Block did not return or create :file ${target}`);
+  }
+}
+
+/**
+ * Evaluate the blocks of one org file and write their results
+ */
+async function evalOrgFile(
+  orgFilePath: string,
+  options: EvalOptions,
+  projectRoot: string
+): Promise<EvalBlockResult[]> {
+  const relativePath = path.relative(projectRoot, orgFilePath);
+  const execution = await executeOrgFile({
+    file: orgFilePath,
+    blockName: options.block,
+    quiet: true,
+  });
+  const results: EvalBlockResult[] = [];
+
+  for (const error of execution.errors) {
+    results.push({
+      file: relativePath,
+      block: error.blockName ?? `#${error.blockIndex}`,
+      status: "error",
+      error: error.message,
+    });
+  }
+
+  for (const output of execution.outputs) {
+    const label = output.blockName ?? `#${output.blockIndex}`;
+    const result: EvalBlockResult = { file: relativePath, block: label, status: "written" };
+    results.push(result);
+
+    try {
+      const before = fs.readFileSync(orgFilePath, "utf-8");
+      const blockId = output.blockName ?? output.blockIndex;
+      const location = findBlock(before, blockId);
+      const params = parseBlockParameters(location?.params);
+      const mode = getResultsMode(params.results);
+
+      if (mode === "silent") {
+        result.status = "silent";
+        continue;
+      }
+
+      if (params.file) {
+        writeResultFile(orgFilePath, params.file, output.value);
+      }
+
+      const formatted = formatBlockResult(output.value, { file: params.file });
+      if (formatted === null) {
+        result.status = "empty";
+        continue;
+      }
+
+      const written = writeBlockResults({ file: orgFilePath, block: blockId, result: formatted, mode });
+      if (!written.success) {
+        throw new Error(written.error);
+      }
+
+      if (fs.readFileSync(orgFilePath, "utf-8") === before) {
+        result.status = "unchanged";
+      }
+    } catch (error) {
+      result.status = "error";
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Main Command
+// ============================================================================
+
+/**
+ * Evaluate blocks and write their results into org files
+ *
+ * @param options - Eval options
+ * @returns Summary of eval results
+ */
+export async function evalOrgFiles(options: EvalOptions): Promise<EvalSummary> {
+  const projectRoot = options.projectRoot || process.cwd();
+  const contentDir = options.contentDir || "content";
+
+  console.log("\n[eval] Evaluating blocks...\n");
+
+  const orgFiles = collectOrgFiles(contentDir, projectRoot, options.files);
+  const results: EvalBlockResult[] = [];
+
+  for (const orgFilePath of orgFiles) {
+    for (const result of await evalOrgFile(orgFilePath, options, projectRoot)) {
+      const icon = { written: "✓", unchanged: "·", silent: "·", empty: "○", error: "✗" }[result.status];
+      const detail = result.error ?? (result.status === "written" ? "" : result.status);
+      console.log(`  ${icon} ${result.file} (${result.block})${detail ? ` - ${detail}` : ""}`);
+      results.push(result);
+    }
+  }
+
+  if (options.block && results.length === 0) {
+    console.log(`[eval] No executable block named "${options.block}" found.\n`);
+  } else if (results.length === 0) {
+    console.log("[eval] No executable blocks found.\n");
+  }
+
+  const written = results.filter((r) => r.status === "written").length;
+  const unchanged = results.filter((r) => r.status === "unchanged").length;
+  const errors = results.filter((r) => r.status === "error").length;
+
+  if (results.length > 0) {
+    console.log("\n[eval] Summary:");
+    console.log(`  Total:     ${results.length}`);
+    console.log(`  Written:   ${written}`);
+    console.log(`  Unchanged: ${unchanged}`);
+    if (errors > 0) {
+      console.log(`  Errors:    ${errors}`);
+    }
+    console.log("");
+  }
+
+  return { total: results.length, written, unchanged, errors, results };
+}
+
+/**
+ * Run eval command from CLI arguments
+ *
+ * @param args - CLI arguments
+ * @param context - CLI context with project paths
+ * @returns Exit code (0 for success, 1 for errors or a missing block)
+ */
+export async function runEval(
+  args: string[],
+  context: { contentDir: string; projectRoot: string }
+): Promise<number> {
+  const options = parseEvalArgs(args);
+
+  let summary: EvalSummary;
+  try {
+    summary = await evalOrgFiles({
+      ...options,
+      contentDir: context.contentDir,
+      projectRoot: context.projectRoot,
+    });
+  } catch (error) {
+    console.error(`[eval] ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+
+  if (summary.errors > 0 || (options.block && summary.total === 0)) {
+    return 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Parse eval command arguments
+ */
+function parseEvalArgs(args: string[]): EvalOptions {
+  const result: EvalOptions = {};
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--block" || arg === "-b") {
+      result.block = args[++i];
+    } else if (arg.startsWith("--block=")) {
+      result.block = arg.slice("--block=".length);
+    } else if (!arg.startsWith("-")) {
+      files.push(arg);
+    }
+  }
+
+  if (files.length > 0) {
+    result.files = files;
+  }
+
+  return result;
+}
@@ -8,6 +8,9 @@ import * as path from "node:path";
 import * as os from "node:os";
 import {
   formatOrgFiles,
+  formatOrgTables,
+  formatBlock,
+  runFmt,
   collectBlocks,
   type FormatOptions,
   type CollectedBlock,
@@ -371,4 +374,65 @@ More text after the code block.
       expect(content).toContain("const x = 1;"); // formatted
     });
   });
+
+  describe("formatBlock", () => {
+    it("should format content without adding a trailing newline", async () => {
+      const result = await formatBlock("const x={a:1}", "typescript", { projectRoot: tempDir });
+
+      expect(result).toEqual({ formatted: "const x = { a: 1 };", changed: true });
+    });
+
+    it("should return an error for unsupported languages", async () => {
+      const result = await formatBlock("print(1)", "python", { projectRoot: tempDir });
+
+      expect(result).toEqual({ error: "Unsupported language: python" });
+    });
+  });
+
+  describe("formatOrgTables", () => {
+    const TABLE = `#+NAME: totals
+| a | b | sum |
+|---+---+-----|
+| 1 | 2 | |
+| 10 | 20 | |
+#+TBLFM: $3=$1+$2
+`;
+
+    it("should report outdated tables in check mode without writing", async () => {
+      const orgPath = path.join(contentDir, "tables.org");
+      fs.writeFileSync(orgPath, TABLE);
+
+      const summary = await formatOrgTables({
+        check: true,
+        contentDir,
+        projectRoot: tempDir,
+      });
+
+      expect(summary.changed).toBe(1);
+      expect(summary.results).toEqual([
+        { file: "content/tables.org", block: "totals", language: "table", changed: true, error: undefined },
+      ]);
+      expect(fs.readFileSync(orgPath, "utf-8")).toBe(TABLE);
+    });
+
+    it("should write computed cells with orgp fmt --tables", async () => {
+      const orgPath = path.join(contentDir, "tables.org");
+      fs.writeFileSync(orgPath, TABLE);
+
+      const exitCode = await runFmt(["--tables"], {
+        contentDir,
+        projectRoot: tempDir,
+      });
+
+      expect(exitCode).toBe(0);
+      expect(fs.readFileSync(orgPath, "utf-8")).toBe(`#+NAME: totals
+|  a |  b | sum |
+|----+----+-----|
+|  1 |  2 |   3 |
+| 10 | 20 |  30 |
+#+TBLFM: $3=$1+$2
+`);
+      expect(await runFmt(["--tables", "--check"], { contentDir, projectRoot: tempDir })).toBe(0);
+    });
+  });
 });
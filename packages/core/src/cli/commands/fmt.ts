@@ -7,6 +7,7 @@
  *   orgp fmt                      # Format all blocks
  *   orgp fmt --check              # Check only, exit 1 if changes needed
  *   orgp fmt --languages ts,tsx   # Format only TypeScript
+ *   orgp fmt --tables             # Recalculate #+TBLFM: tables
  *   orgp fmt content/api.org      # Format specific files
  */
 
@@ -19,6 +20,7 @@ import {
   type ToolConfig,
 } from "../config-loader.ts";
 import { writeBlockContent, findBlock } from "../../content/block-io.ts";
+import { recalculateTables } from "../../content/table-io.ts";
 
 // ============================================================================
 // Types
@@ -35,6 +37,8 @@ export interface FormatOptions {
   projectRoot?: string;
   /** Content directory */
   contentDir?: string;
+  /** Recalculate tables with #+TBLFM: formulas instead of formatting blocks */
+  tables?: boolean;
 }
 
 export interface FormatResult {
@@ -114,6 +118,40 @@ function findOrgFiles(dir: string): string[] {
   return files;
 }
 
+/**
+ * Find the org files in the content directory matching file patterns
+ */
+function findTargetOrgFiles(
+  contentDir: string,
+  projectRoot: string,
+  files?: string[]
+): string[] {
+  const absoluteContentDir = path.isAbsolute(contentDir)
+    ? contentDir
+    : path.join(projectRoot, contentDir);
+
+  // Find all org files
+  const orgFiles = findOrgFiles(absoluteContentDir);
+
+  // Filter by file patterns if specified
+  if (!files || files.length === 0) {
+    return orgFiles;
+  }
+
+  const patterns = files.map((f) =>
+    path.isAbsolute(f) ? f : path.join(projectRoot, f)
+  );
+
+  return orgFiles.filter((file) =>
+    patterns.some((pattern) => {
+      if (pattern.endsWith(".org")) {
+        return file === pattern || file.endsWith(path.basename(pattern));
+      }
+      return file.includes(pattern);
+    })
+  );
+}
+
 /**
  * Extract all code blocks from an org file
  */
@@ -200,29 +238,7 @@ export function collectBlocks(
     languages?: string[];
   }
 ): CollectedBlock[] {
-  const absoluteContentDir = path.isAbsolute(contentDir)
-    ? contentDir
-    : path.join(projectRoot, contentDir);
-
-  // Find all org files
-  let orgFiles = findOrgFiles(absoluteContentDir);
-
-  // Filter by file patterns if specified
-  if (options?.files && options.files.length > 0) {
-    const patterns = options.files.map((f) =>
-      path.isAbsolute(f) ? f : path.join(projectRoot, f)
-    );
-
-    orgFiles = orgFiles.filter((file) =>
-      patterns.some((pattern) => {
-        if (pattern.endsWith(".org")) {
-          return file === pattern || file.endsWith(path.basename(pattern));
-        }
-        return file.includes(pattern);
-      })
-    );
-  }
-
+  const orgFiles = findTargetOrgFiles(contentDir, projectRoot, options?.files);
   const allBlocks: CollectedBlock[] = [];
 
   for (const orgFile of orgFiles) {
@@ -253,8 +269,17 @@ export function collectBlocks(
 
 /**
  * Format a single code block
+ *
+ * Used by `orgp fmt` and by editor integrations formatting one
+ * document (e.g. the language server).
+ *
+ * @param content - Block content
+ * @param language - Block language
+ * @param config - Tool configuration (see loadToolConfig)
+ * @param filePath - Org file path, for EditorConfig sections
+ * @returns Formatted content, or an error for unsupported languages and syntax errors
  */
-async function formatBlock(
+export async function formatBlock(
   content: string,
   language: string,
   config: ToolConfig,
@@ -442,6 +467,87 @@ export async function formatOrgFiles(
   };
 }
 
+/**
+ * Recalculate tables with #+TBLFM: formulas in org files
+ *
+ * Computed cells are written back and the tables realigned.
+ *
+ * @param options - Format options (`languages` is ignored)
+ * @returns Summary of results, one per table
+ */
+export async function formatOrgTables(
+  options: FormatOptions
+): Promise<FormatSummary> {
+  const projectRoot = options.projectRoot || process.cwd();
+  const contentDir = options.contentDir || "content";
+  const check = options.check ?? false;
+
+  console.log(`\n[fmt] ${check ? "Checking" : "Recalculating"} tables...\n`);
+
+  const results: FormatResult[] = [];
+  let changed = 0;
+  let errors = 0;
+
+  for (const orgFile of findTargetOrgFiles(contentDir, projectRoot, options.files)) {
+    const relativePath = path.relative(projectRoot, orgFile);
+    const source = fs.readFileSync(orgFile, "utf-8");
+    const { content, tables } = recalculateTables(source);
+
+    tables.forEach((table, index) => {
+      const tableId = table.name || `table ${index}`;
+      const location = `${relativePath}:${table.line} (${tableId})`;
+
+      if (table.error) {
+        errors++;
+        console.log(`  ✗ ${location} - ${table.error}`);
+      } else if (table.changed) {
+        changed++;
+        console.log(
+          check ? `  ○ ${location} - needs recalculation` : `  ✓ ${location} - recalculated`
+        );
+      }
+
+      results.push({
+        file: relativePath,
+        block: table.name || index,
+        language: "table",
+        changed: table.changed,
+        error: table.error,
+      });
+    });
+
+    if (!check && content !== source) {
+      fs.writeFileSync(orgFile, content, "utf-8");
+    }
+  }
+
+  if (results.length === 0) {
+    console.log("[fmt] No tables with formulas found.\n");
+  } else {
+    console.log("\n[fmt] Summary:");
+    console.log(`  Total:     ${results.length}`);
+    console.log(`  Changed:   ${changed}`);
+    console.log(`  Unchanged: ${results.length - changed - errors}`);
+    if (errors > 0) {
+      console.log(`  Errors:    ${errors}`);
+    }
+    console.log("");
+
+    if (check && changed > 0) {
+      console.log("[fmt] Some tables are out of date. Run 'orgp fmt --tables' to fix.\n");
+    }
+  }
+
+  return {
+    total: results.length,
+    changed,
+    errors,
+    unchanged: results.length - changed - errors,
+    skipped: 0,
+    results,
+  };
+}
+
 /**
  * Run format command from CLI arguments
  *
@@ -455,7 +561,8 @@ export async function runFmt(
 ): Promise<number> {
   const options = parseFmtArgs(args);
 
-  const summary = await formatOrgFiles({
+  const format = options.tables ? formatOrgTables : formatOrgFiles;
+  const summary = await format({
     ...options,
     contentDir: context.contentDir,
     projectRoot: context.projectRoot,
@@ -486,6 +593,8 @@ function parseFmtArgs(args: string[]): FormatOptions {
 
     if (arg === "--check" || arg === "-c") {
       result.check = true;
+    } else if (arg === "--tables" || arg === "-t") {
+      result.tables = true;
     } else if (arg === "--languages" || arg === "-l") {
       const next = args[++i];
       if (next) {
@@ -0,0 +1,125 @@
+/**
+ * Tests for Tangle Command
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { tangleOrgFiles, runTangle } from "./tangle.ts";
+
+describe("Tangle Command", () => {
+  let tempDir: string;
+  let contentDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tangle-test-"));
+    contentDir = path.join(tempDir, "content");
+    fs.mkdirSync(contentDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeOrg = (name: string, content: string) =>
+    fs.writeFileSync(path.join(contentDir, name), content);
+
+  it("should write tangled files", async () => {
+    writeOrg(
+      "lib.org",
+      `#+begin_src js :tangle lib.js
+export const a = 1;
+#+end_src
+
+#+begin_src js :tangle lib.js
+export const b = 2;
+#+end_src
+`
+    );
+
+    const summary = await tangleOrgFiles({ projectRoot: tempDir, contentDir: "content" });
+
+    expect(summary.total).toBe(1);
+    expect(summary.written).toBe(1);
+    expect(fs.readFileSync(path.join(contentDir, "lib.js"), "utf-8")).toBe(
+      "export const a = 1;\n\nexport const b = 2;\n"
+    );
+  });
+
+  it("should report unchanged files on a second run", async () => {
+    writeOrg("lib.org", "#+begin_src js :tangle lib.js\nx();\n#+end_src\n");
+
+    await tangleOrgFiles({ projectRoot: tempDir, contentDir: "content" });
+    const summary = await tangleOrgFiles({ projectRoot: tempDir, contentDir: "content" });
+
+    expect(summary.written).toBe(0);
+    expect(summary.unchanged).toBe(1);
+  });
+
+  it("should fail when the target directory is missing without :mkdirp", async () => {
+    writeOrg("lib.org", "#+begin_src js :tangle out/lib.js\nx();\n#+end_src\n");
+
+    const summary = await tangleOrgFiles({ projectRoot: tempDir, contentDir: "content" });
+
+    expect(summary.errors).toBe(1);
+    expect(summary.results[0].error).toContain(":mkdirp yes");
+    expect(fs.existsSync(path.join(contentDir, "out"))).toBe(false);
+  });
+
+  it("should create directories and executable files", async () => {
+    writeOrg(
+      "run.org",
+      `#+begin_src sh :tangle bin/run.sh :mkdirp yes :shebang "#!/bin/sh"
+echo hi
+#+end_src
+`
+    );
+
+    await tangleOrgFiles({ projectRoot: tempDir, contentDir: "content" });
+
+    const output = path.join(contentDir, "bin", "run.sh");
+    expect(fs.readFileSync(output, "utf-8")).toBe("#!/bin/sh\necho hi\n");
+    expect(fs.statSync(output).mode & 0o111).not.toBe(0);
+  });
+
+  it("should only tangle the given files", async () => {
+    writeOrg("a.org", "#+begin_src js :tangle a.js\na();\n#+end_src\n");
+    writeOrg("b.org", "#+begin_src js :tangle b.js\nb();\n#+end_src\n");
+
+    await tangleOrgFiles({
+      projectRoot: tempDir,
+      contentDir: "content",
+      files: ["content/a.org"],
+    });
+
+    expect(fs.existsSync(path.join(contentDir, "a.js"))).toBe(true);
+    expect(fs.existsSync(path.join(contentDir, "b.js"))).toBe(false);
+  });
+
+  describe("--check", () => {
+    it("should exit 1 without writing when outputs are stale", async () => {
+      writeOrg("lib.org", "#+begin_src js :tangle lib.js\nx();\n#+end_src\n");
+
+      const code = await runTangle(["--check"], {
+        projectRoot: tempDir,
+        contentDir: "content",
+      });
+
+      expect(code).toBe(1);
+      expect(fs.existsSync(path.join(contentDir, "lib.js"))).toBe(false);
+    });
+
+    it("should exit 0 when outputs are up to date", async () => {
+      writeOrg("lib.org", "#+begin_src js :tangle lib.js\nx();\n#+end_src\n");
+      await runTangle([], { projectRoot: tempDir, contentDir: "content" });
+
+      const code = await runTangle(["--check"], {
+        projectRoot: tempDir,
+        contentDir: "content",
+      });
+
+      expect(code).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Tangle Command (`orgp tangle`)
+ *
+ * Writes code blocks with a :tangle header argument to external files,
+ * without building the site.
+ *
+ * Usage:
+ *   orgp tangle                      # Tangle all org files in content dir
+ *   orgp tangle --check              # Check only, exit 1 if outputs are stale
+ *   orgp tangle content/lib.org      # Tangle specific files or directories
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  computeTangleTargets,
+  getBlockLabel,
+  type TangleInput,
+  type TangleTarget,
+} from "../../tangle/tangle.ts";
+import {
+  getTangleBlockKey,
+  getTangleRecordPath,
+  hashTangleBody,
+  readTangleRecord,
+  writeTangleRecord,
+  type TangleRecord,
+} from "../../tangle/record.ts";
+import { DEFAULT_CACHE_DIR } from "../../config/defaults.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TangleOptions {
+  /** Org files or directories to tangle (default: all .org in content dir) */
+  files?: string[];
+  /** Check only, don't write (exit 1 if outputs are missing or stale) */
+  check?: boolean;
+  /** Project root directory */
+  projectRoot?: string;
+  /** Content directory */
+  contentDir?: string;
+  /** Cache directory holding the tangle record (used by detangle) */
+  cacheDir?: string;
+}
+
+export interface TangleFileResult {
+  /** Absolute path of the tangled file */
+  path: string;
+  /** Path relative to project root */
+  relativePath: string;
+  /** Number of blocks written to this file */
+  blocks: number;
+  /**
+   * Outcome:
+   * - written: file was (re)written
+   * - unchanged: file already matched
+   * - outdated: file is missing or stale (check mode)
+   * - error: file could not be written
+   */
+  status: "written" | "unchanged" | "outdated" | "error";
+  /** Error message if writing failed */
+  error?: string;
+}
+
+export interface TangleSummary {
+  /** Total tangled files */
+  total: number;
+  /** Files written */
+  written: number;
+  /** Files already up to date */
+  unchanged: number;
+  /** Files missing or stale (check mode) */
+  outdated: number;
+  /** Files or blocks that failed */
+  errors: number;
+  /** Individual results */
+  results: TangleFileResult[];
+}
+
+// ============================================================================
+// File Collection
+// ============================================================================
+
+/**
+ * Find all org files recursively in a directory
+ */
+function findOrgFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  if (!fs.existsSync(dir)) {
+    return files;
+  }
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      // Skip node_modules and hidden directories
+      if (entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+        files.push(...findOrgFiles(fullPath));
+      }
+    } else if (entry.name.endsWith(".org")) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Resolve the org files to tangle
+ *
+ * Explicit file and directory arguments are resolved against the project
+ * root (so files outside the content directory can be tangled too).
+ * Without arguments, every org file in the content directory is used.
+ */
+export function collectOrgFiles(
+  contentDir: string,
+  projectRoot: string,
+  files?: string[]
+): string[] {
+  if (!files || files.length === 0) {
+    const absoluteContentDir = path.isAbsolute(contentDir)
+      ? contentDir
+      : path.join(projectRoot, contentDir);
+    return findOrgFiles(absoluteContentDir);
+  }
+
+  const result: string[] = [];
+  for (const file of files) {
+    const absolute = path.isAbsolute(file) ? file : path.join(projectRoot, file);
+
+    if (!fs.existsSync(absolute)) {
+      throw new Error(`File not found: ${absolute}`);
+    }
+
+    if (fs.statSync(absolute).isDirectory()) {
+      result.push(...findOrgFiles(absolute));
+    } else {
+      result.push(absolute);
+    }
+  }
+
+  return [...new Set(result)];
+}
+
+/**
+ * Remember the tangled body of every block in a target
+ *
+ * Detangle compares against these hashes to tell which side changed.
+ */
+function recordTarget(
+  record: TangleRecord,
+  target: TangleTarget,
+  projectRoot: string
+): void {
+  const entries: Record<string, string> = {};
+  target.blocks.forEach((block, i) => {
+    const key = getTangleBlockKey(
+      path.relative(projectRoot, block.orgFilePath),
+      getBlockLabel(block)
+    );
+    entries[key] = hashTangleBody(target.bodies[i]);
+  });
+  record.targets[path.relative(projectRoot, target.path).split(path.sep).join("/")] = entries;
+}
+
+// ============================================================================
+// Main Command
+// ============================================================================
+
+/**
+ * Tangle code blocks from org files into external files
+ *
+ * @param options - Tangle options
+ * @returns Summary of tangle results
+ */
+export async function tangleOrgFiles(
+  options: TangleOptions
+): Promise<TangleSummary> {
+  const projectRoot = options.projectRoot || process.cwd();
+  const contentDir = options.contentDir || "content";
+  const check = options.check ?? false;
+
+  console.log(`\n[tangle] ${check ? "Checking" : "Tangling"} code blocks...\n`);
+
+  const orgFiles = collectOrgFiles(contentDir, projectRoot, options.files);
+  const inputs: TangleInput[] = orgFiles.map((orgFilePath) => ({
+    orgFilePath,
+    source: fs.readFileSync(orgFilePath, "utf-8"),
+  }));
+
+  const { targets, errors: blockErrors } = computeTangleTargets(inputs);
+  const recordPath = getTangleRecordPath(
+    projectRoot,
+    options.cacheDir || DEFAULT_CACHE_DIR
+  );
+  const record = readTangleRecord(recordPath);
+
+  for (const error of blockErrors) {
+    const relative = path.relative(projectRoot, error.orgFilePath);
+    console.log(`  ✗ ${relative} (${error.block}) - ${error.message}`);
+  }
+
+  if (targets.length === 0) {
+    console.log("[tangle] No blocks with :tangle found.\n");
+    return {
+      total: 0,
+      written: 0,
+      unchanged: 0,
+      outdated: 0,
+      errors: blockErrors.length,
+      results: [],
+    };
+  }
+
+  const results: TangleFileResult[] = [];
+  let written = 0;
+  let unchanged = 0;
+  let outdated = 0;
+  let errors = blockErrors.length;
+
+  for (const target of targets) {
+    const relativePath = path.relative(projectRoot, target.path);
+    const result: TangleFileResult = {
+      path: target.path,
+      relativePath,
+      blocks: target.blocks.length,
+      status: "unchanged",
+    };
+
+    const existing = fs.existsSync(target.path)
+      ? fs.readFileSync(target.path, "utf-8")
+      : null;
+
+    if (existing === target.content) {
+      unchanged++;
+      if (!check) {
+        recordTarget(record, target, projectRoot);
+      }
+      results.push(result);
+      continue;
+    }
+
+    if (check) {
+      outdated++;
+      result.status = "outdated";
+      console.log(
+        `  ○ ${relativePath} - ${existing === null ? "missing" : "out of date"}`
+      );
+      results.push(result);
+      continue;
+    }
+
+    try {
+      const dir = path.dirname(target.path);
+      if (!fs.existsSync(dir)) {
+        if (!target.mkdirp) {
+          throw new Error(
+            `Directory does not exist: ${path.relative(projectRoot, dir)} (use :mkdirp yes)`
+          );
+        }
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(target.path, target.content, "utf-8");
+      if (target.executable) {
+        fs.chmodSync(target.path, 0o755);
+      }
+
+      recordTarget(record, target, projectRoot);
+      written++;
+      result.status = "written";
+      console.log(
+        `  ✓ ${relativePath} (${target.blocks.length} block${target.blocks.length === 1 ? "" : "s"})`
+      );
+    } catch (error) {
+      errors++;
+      result.status = "error";
+      result.error = error instanceof Error ? error.message : String(error);
+      console.log(`  ✗ ${relativePath} - ${result.error}`);
+    }
+
+    results.push(result);
+  }
+
+  if (!check) {
+    writeTangleRecord(recordPath, record);
+  }
+
+  // Print summary
+  console.log("\n[tangle] Summary:");
+  console.log(`  Total:     ${targets.length}`);
+  if (check) {
+    console.log(`  Outdated:  ${outdated}`);
+  } else {
+    console.log(`  Written:   ${written}`);
+  }
+  console.log(`  Unchanged: ${unchanged}`);
+  if (errors > 0) {
+    console.log(`  Errors:    ${errors}`);
+  }
+  console.log("");
+
+  if (check && outdated > 0) {
+    console.log("[tangle] Some tangled files are out of date. Run 'orgp tangle' to update.\n");
+  }
+
+  return {
+    total: targets.length,
+    written,
+    unchanged,
+    outdated,
+    errors,
+    results,
+  };
+}
+
+/**
+ * Run tangle command from CLI arguments
+ *
+ * @param args - CLI arguments
+ * @param context - CLI context with project paths
+ * @returns Exit code (0 for success, 1 for stale outputs in check mode or errors)
+ */
+export async function runTangle(
+  args: string[],
+  context: { contentDir: string; projectRoot: string; config?: { cacheDir?: string } }
+): Promise<number> {
+  const options = parseTangleArgs(args);
+
+  let summary: TangleSummary;
+  try {
+    summary = await tangleOrgFiles({
+      ...options,
+      contentDir: context.contentDir,
+      projectRoot: context.projectRoot,
+      cacheDir: context.config?.cacheDir,
+    });
+  } catch (error) {
+    console.error(
+      `[tangle] ${error instanceof Error ? error.message : String(error)}`
+    );
+    return 1;
+  }
+
+  if (options.check && summary.outdated > 0) {
+    return 1;
+  }
+
+  if (summary.errors > 0) {
+    return 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Parse tangle command arguments
+ */
+function parseTangleArgs(args: string[]): TangleOptions {
+  const result: TangleOptions = {};
+  const files: string[] = [];
+
+  for (const arg of args) {
+    if (arg === "--check" || arg === "-c") {
+      result.check = true;
+    } else if (!arg.startsWith("-")) {
+      files.push(arg);
+    }
+  }
+
+  if (files.length > 0) {
+    result.files = files;
+  }
+
+  return result;
+}
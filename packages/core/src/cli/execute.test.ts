@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { executeOrgFile } from "./execute.ts";
+import { executeOrgFile, runSingleBlock } from "./execute.ts";
 import { writeFileSync, mkdirSync, rmSync, existsSync } from "node:fs";
 import { join } from "node:path";
 
@@ -293,13 +293,13 @@ return "async complete";
       ).rejects.toThrow("File not found");
     });
 
-    it("should skip non-JavaScript blocks", async () => {
+    it("should skip unsupported languages", async () => {
       const file = createTestFile(
         "multilang.org",
         `#+TITLE: Multi Language Test
 
-#+begin_src python :exec
-print("python should be skipped")
+#+begin_src ruby :exec
+puts "ruby should be skipped"
 #+end_src
 
 #+begin_src javascript :exec
@@ -334,5 +334,148 @@ return Date.now();
       expect(result.totalTime).toBeGreaterThanOrEqual(0);
       expect(result.outputs[0].executionTime).toBeGreaterThanOrEqual(0);
     });
+
+    it("should execute shell, python and sqlite blocks", async () => {
+      const file = createTestFile(
+        "subprocess.org",
+        `#+TITLE: Subprocess Test
+
+#+NAME: shell
+#+begin_src sh :exec
+echo "shell: $(cat)"
+#+end_src
+
+#+begin_src python :exec
+print("py", 1 + 1)
+#+end_src
+
+#+begin_src sqlite :exec :db test.db
+CREATE TABLE t (a INTEGER);
+INSERT INTO t VALUES (1), (2);
+SELECT SUM(a) AS total FROM t;
+#+end_src
+`
+      );
+
+      const result = await executeOrgFile({ file, input: "piped" });
+
+      expect(result.errors).toEqual([]);
+      expect(result.outputs.map((output) => output.value)).toEqual([
+        "shell: piped",
+        "py 2",
+        [{ total: 3 }],
+      ]);
+      expect(existsSync(join(testDir, "test.db"))).toBe(true);
+    });
+
+    it("should report subprocess timeouts as block errors", async () => {
+      const file = createTestFile(
+        "slow.org",
+        `#+begin_src bash :exec
+sleep 5
+#+end_src
+`
+      );
+
+      const result = await executeOrgFile({ file, timeout: 200 });
+
+      expect(result.outputs).toHaveLength(0);
+      expect(result.errors[0].message).toBe("Execution timeout after 200ms");
+    });
+
+    it("should run :var dependencies first and only once", async () => {
+      const file = createTestFile(
+        "vars.org",
+        `#+NAME: items
+- apples
+- pears
+
+#+begin_src sh :exec :var total=count
+echo "total: $total"
+#+end_src
+
+#+NAME: count
+#+begin_src javascript :exec :var items=items
+context.runs = (context.runs || 0) + 1;
+return items.length * context.runs;
+#+end_src
+
+#+begin_src sqlite :exec :var total=count :var fruit=items
+SELECT $total AS total, (SELECT COUNT(*) FROM fruit) AS fruits;
+#+end_src
+`
+      );
+
+      const result = await executeOrgFile({ file });
+
+      expect(result.errors).toEqual([]);
+      expect(result.outputs.map((output) => output.value)).toEqual([
+        "total: 2",
+        2,
+        [{ total: 2, fruits: 2 }],
+      ]);
+    });
+
+    it("should report circular :var references", async () => {
+      const file = createTestFile(
+        "cycle.org",
+        `#+NAME: a
+#+begin_src javascript :exec :var b=b
+return b;
+#+end_src
+
+#+NAME: b
+#+begin_src javascript :exec :var a=a
+return a;
+#+end_src
+`
+      );
+
+      const result = await executeOrgFile({ file });
+
+      expect(result.outputs).toHaveLength(0);
+      expect(result.errors[0].message).toBe("Circular :var reference: a -> b -> a");
+    });
+  });
+
+  describe("runSingleBlock", () => {
+    it("should pass args to subprocess blocks and capture their output", async () => {
+      const file = createTestFile(
+        "run.org",
+        `#+NAME: greet
+#+begin_src python :exec
+import sys
+print("Hello, " + sys.argv[1])
+#+end_src
+`
+      );
+
+      const result = await runSingleBlock({ file, block: "greet", args: ["Org"] });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.value).toBe("Hello, Org");
+      expect(result.stdout).toBe("Hello, Org\n");
+    });
+
+    it("should resolve :var inputs before running the block", async () => {
+      const file = createTestFile(
+        "run-vars.org",
+        `#+NAME: config
+#+begin_example
+verbose
+#+end_example
+
+#+NAME: main
+#+begin_src javascript :exec :var mode=config :var retries=3
+return mode + " x" + retries;
+#+end_src
+`
+      );
+
+      const result = await runSingleBlock({ file, block: "main", args: [] });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.value).toBe("verbose x3");
+    });
   });
 });
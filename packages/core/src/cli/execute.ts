@@ -4,6 +4,10 @@
  * Parses org files and executes blocks marked with :exec, :executable, or :use server.
  * Used by the orgp CLI for running org files as scripts.
  *
+ * JavaScript/TypeScript blocks run in-process; sh/bash, python and sqlite
+ * blocks run in a subprocess (see plugins/builtin/process-handlers.ts).
+ * Blocks referenced with `:var` run first (see parser/variables.ts).
+ *
  * Supports:
  * - :exec parameter (original)
  * - :executable parameter (new)
@@ -13,12 +17,21 @@
  */
 
 import { readFileSync, existsSync } from "node:fs";
-import { resolve, isAbsolute } from "node:path";
+import { resolve, isAbsolute, dirname } from "node:path";
 import { createRequire } from "node:module";
 import { parse } from "uniorg-parse/lib/parser.js";
 import type { OrgData, SrcBlock } from "uniorg";
 import { parseBlockParameters } from "../plugins/utils.ts";
 import { extractMetadata } from "../parser/metadata.ts";
+import { attachTableNames } from "../parser/tables.ts";
+import { createVariableResolver, injectVariables } from "../parser/variables.ts";
+import {
+  executeProcessBlock,
+  isProcessLanguage,
+  PYTHON_LANGUAGES,
+  SHELL_LANGUAGES,
+  SQLITE_LANGUAGES,
+} from "../plugins/builtin/process-handlers.ts";
 
 const require = createRequire(import.meta.url);
 
@@ -36,8 +49,10 @@ export interface ExecuteOptions {
   json?: boolean;
   /** Suppress non-output messages */
   quiet?: boolean;
-  /** Input from stdin (available as `input` variable) */
+  /** Input from stdin (available as `input` variable, or stdin of subprocess blocks) */
   input?: string;
+  /** Timeout per subprocess block in milliseconds (default: 30000) */
+  timeout?: number;
 }
 
 /**
@@ -130,10 +145,20 @@ export interface RunBlockResult {
   value: any;
 }
 
+/**
+ * Languages executed in-process
+ */
+const JS_LANGUAGES = ["javascript", "js", "typescript", "ts", "jsx", "tsx"];
+
 /**
  * Languages supported for execution
  */
-const EXECUTABLE_LANGUAGES = ["javascript", "js", "typescript", "ts", "jsx", "tsx"];
+const EXECUTABLE_LANGUAGES = [
+  ...JS_LANGUAGES,
+  ...SHELL_LANGUAGES,
+  ...PYTHON_LANGUAGES,
+  ...SQLITE_LANGUAGES,
+];
 
 /**
  * Check if a block is marked as executable
@@ -242,6 +267,62 @@ async function executeBlock(
   return await fn(require, input, context);
 }
 
+/**
+ * Execute a block in a subprocess
+ *
+ * Subprocesses run in the org file's directory, so relative paths (and
+ * `:db` files) resolve like they do at build time.
+ */
+async function executeSubprocessBlock(
+  block: ExecutableBlock,
+  filePath: string,
+  options: {
+    args?: string[];
+    input?: string;
+    env?: Record<string, string>;
+    timeout?: number;
+  }
+): Promise<any> {
+  return executeProcessBlock(block.code, block.language, {
+    ...options,
+    cwd: dirname(filePath),
+    db: block.parameters.db,
+  });
+}
+
+/**
+ * Create a `:var` resolver that runs blocks like executeOrgFile
+ *
+ * Results are stored in the shared context under the block name and
+ * `__block_<index>`.
+ */
+function createBlockResolver(
+  ast: OrgData,
+  filePath: string,
+  context: Record<string, any>,
+  options: { input?: string; timeout?: number }
+) {
+  return createVariableResolver(ast, async (block, variables) => {
+    if (!EXECUTABLE_LANGUAGES.includes(block.language)) {
+      throw new Error(
+        `Cannot execute block ${block.name ?? block.index}: unsupported language "${block.language}"`
+      );
+    }
+
+    const code = injectVariables(block.code, block.language, variables);
+    const result = isProcessLanguage(block.language)
+      ? await executeSubprocessBlock({ ...block, code }, filePath, options)
+      : await executeBlock(code, context, options.input);
+
+    if (block.name) {
+      context[block.name] = result;
+    }
+    context[`__block_${block.index}`] = result;
+
+    return result;
+  });
+}
+
 /**
  * Execute an org file
  *
@@ -277,6 +358,7 @@ export async function executeOrgFile(options: ExecuteOptions): Promise<ExecuteRe
     : source;
 
   const ast = parse(cleanSource) as OrgData;
+  attachTableNames(ast, cleanSource);
   const metadata = extractMetadata(ast);
 
   // Extract executable blocks
@@ -290,22 +372,21 @@ export async function executeOrgFile(options: ExecuteOptions): Promise<ExecuteRe
     }
   }
 
-  // Execute blocks sequentially with shared context
+  // Execute blocks sequentially with shared context; each block runs
+  // once, after the blocks its :var inputs reference
   const outputs: BlockOutput[] = [];
   const errors: BlockError[] = [];
   const context: Record<string, any> = {};
+  const resolver = createBlockResolver(ast, filePath, context, {
+    input: options.input,
+    timeout: options.timeout,
+  });
 
   for (const block of blocks) {
     const blockStartTime = Date.now();
 
     try {
-      const result = await executeBlock(block.code, context, options.input);
-
-      // Store result in context for subsequent blocks
-      if (block.name) {
-        context[block.name] = result;
-      }
-      context[`__block_${block.index}`] = result;
+      const result = await resolver.evaluate(resolver.blocks[block.index]);
 
       outputs.push({
         blockIndex: block.index,
@@ -392,7 +473,9 @@ function parseOrgFile(filePath: string): OrgData {
     ? source.replace(/^#!.*\n/, "")
     : source;
 
-  return parse(cleanSource) as OrgData;
+  const ast = parse(cleanSource) as OrgData;
+  attachTableNames(ast, cleanSource);
+  return ast;
 }
 
 /**
@@ -505,11 +588,28 @@ export async function runSingleBlock(options: RunBlockOptions): Promise<RunBlock
       setTimeout(() => reject(new Error(`Execution timed out after ${timeoutMs}ms`)), timeoutMs);
     });
 
-    // Execute with timeout
-    const value = await Promise.race([
-      executeBlock(block.code, {}, undefined),
-      timeoutPromise,
-    ]);
+    // Execute with timeout, after the blocks referenced with :var
+    const resolver = createBlockResolver(ast, resolvedPath, {}, { timeout: timeoutMs });
+    const execution = resolver.resolveVariables(block).then((variables) => {
+      const code = injectVariables(block.code, block.language, variables);
+
+      return isProcessLanguage(block.language)
+        ? executeSubprocessBlock({ ...block, code }, resolvedPath, {
+            args: options.args,
+            env: options.env,
+            timeout: timeoutMs,
+          }).then((result) => {
+            // Subprocess output goes to stdout like console.log in JS blocks
+            const text = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+            if (text) {
+              process.stdout.write(text + "\n");
+            }
+            return result;
+          })
+        : executeBlock(code, {}, undefined);
+    });
+
+    const value = await Promise.race([execution, timeoutPromise]);
 
     return {
       exitCode: 0,
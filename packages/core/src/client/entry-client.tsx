@@ -2,15 +2,21 @@
  * Client Entry Point for Org-Press 2
  *
  * Minimal entry point for client-side JavaScript.
- * Currently reserved for future client-side initialization (hydration, interactivity, etc.).
+ * Currently only enhances theme search boxes; the search UI is loaded
+ * on demand so pages without one don't pay for it.
  *
  * Block wrappers and interactive components are imported directly via virtual modules,
  * so no global registry initialization is needed.
  */
 
-// Reserved for future client-side initialization
+const searchRoots = document.querySelectorAll<HTMLElement>("[data-org-press-search]");
+if (searchRoots.length > 0) {
+  import("./search-ui.ts").then(({ mountSearch }) => {
+    searchRoots.forEach(mountSearch);
+  });
+}
+
 // Possible future uses:
 // - React hydration for interactive components
 // - Client-side routing
-// - Progressive enhancement
 // - Analytics initialization
@@ -0,0 +1,113 @@
+/**
+ * Tests for the page HMR client
+ *
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./hydrate", () => ({
+  hydrateBlock: vi.fn(async (element: HTMLElement) => {
+    element.dataset.hydrated = "true";
+  }),
+  disposeBlock: vi.fn(),
+}));
+
+import { applyPageUpdate, normalizePagePath, patchChildren } from "./hmr.ts";
+import { disposeBlock, hydrateBlock } from "./hydrate";
+
+function parse(html: string): HTMLElement {
+  return new DOMParser().parseFromString(`<body>${html}</body>`, "text/html").body;
+}
+
+function page(prose: string, extraBlock = ""): string {
+  return `<main><h2 id="intro">Intro</h2><p>${prose}</p>
+<div id="org-block-0-result" data-org-block="block-a-0" class="org-block-result"></div>
+${extraBlock}<p>Footer</p></main>
+<script>window.__ORG_PRESS_MANIFEST__={"block-a-0":{"src":"/cache/a.js"},"block-a-1":{"src":"/cache/b.js?v=1"}};</script>`;
+}
+
+describe("normalizePagePath", () => {
+  it("should ignore .html, index and trailing slashes", () => {
+    expect(normalizePagePath("/guide/intro.html")).toBe("/guide/intro");
+    expect(normalizePagePath("/docs/index.html")).toBe("/docs");
+    expect(normalizePagePath("/docs/")).toBe("/docs");
+    expect(normalizePagePath("/")).toBe("/");
+  });
+});
+
+describe("patchChildren", () => {
+  it("should patch prose in place and keep block containers", () => {
+    const current = parse(page("Old"));
+    const block = current.querySelector("[data-org-block]")!;
+    block.innerHTML = "<canvas></canvas>";
+    const paragraph = current.querySelector("p")!;
+
+    patchChildren(current, parse(page("New")));
+
+    expect(current.querySelector("[data-org-block]")).toBe(block);
+    expect(block.innerHTML).toBe("<canvas></canvas>");
+    expect(current.querySelector("p")).toBe(paragraph);
+    expect(paragraph.textContent).toBe("New");
+  });
+
+  it("should replace changed blocks with fresh containers", () => {
+    const current = parse(page("Text"));
+    const block = current.querySelector("[data-org-block]")!;
+    block.innerHTML = "<canvas></canvas>";
+
+    patchChildren(current, parse(page("Text")), new Set(["block-a-0"]));
+
+    const replaced = current.querySelector("[data-org-block]")!;
+    expect(replaced).not.toBe(block);
+    expect(replaced.innerHTML).toBe("");
+    expect(disposeBlock).toHaveBeenCalledWith(block);
+  });
+
+  it("should keep blocks when content is inserted before them", () => {
+    const current = parse(page("Text"));
+    const block = current.querySelector("[data-org-block]")!;
+
+    patchChildren(current, parse(page("Text</p><p>Inserted")));
+
+    expect(current.querySelector("[data-org-block]")).toBe(block);
+    expect(Array.from(current.querySelectorAll("p")).map((p) => p.textContent)).toEqual([
+      "Text",
+      "Inserted",
+      "Footer",
+    ]);
+  });
+});
+
+describe("applyPageUpdate", () => {
+  beforeEach(() => {
+    vi.mocked(hydrateBlock).mockClear();
+    window.history.replaceState(null, "", "/notes.html");
+    document.body.innerHTML = page("Old");
+    document.querySelector<HTMLElement>("[data-org-block]")!.dataset.hydrated = "true";
+  });
+
+  it("should patch the page and hydrate new blocks with fresh imports", async () => {
+    const extra = '<div id="org-block-1-result" data-org-block="block-a-1"></div>';
+
+    await applyPageUpdate(
+      { file: "content/notes.org", path: "/notes", blocks: ["block-a-1"], timestamp: 42 },
+      async () => `<html><head><title>Notes</title></head><body>${page("New", extra)}</body></html>`
+    );
+
+    expect(document.querySelector("p")!.textContent).toBe("New");
+    expect(document.title).toBe("Notes");
+    expect(hydrateBlock).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(hydrateBlock).mock.calls[0][1]).toEqual({ src: "/cache/b.js?v=1&t=42" });
+  });
+
+  it("should ignore updates for other pages", async () => {
+    const fetchPage = vi.fn();
+
+    await applyPageUpdate(
+      { file: "content/other.org", path: "/other", blocks: [], timestamp: 1 },
+      fetchPage
+    );
+
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Org-Press Page HMR Client
+ *
+ * Dev-only script that applies `org-press:update` events from the dev
+ * server (see src/node/hmr.ts) without reloading the page:
+ *
+ * 1. Re-fetch the current page
+ * 2. Patch the body in place, keeping unchanged block containers (and
+ *    their interactive state) untouched
+ * 3. Re-hydrate changed and new blocks with fresh module imports
+ */
+
+import type { OrgUpdatePayload } from "../node/hmr";
+import { disposeBlock, hydrateBlock, type BlockManifest } from "./hydrate";
+
+/**
+ * Normalize a URL path for page comparison
+ *
+ * @example
+ * normalizePagePath("/guide/intro.html") // "/guide/intro"
+ * normalizePagePath("/docs/index.html")  // "/docs"
+ */
+export function normalizePagePath(pathname: string): string {
+  const normalized = pathname
+    .replace(/\.html$/, "")
+    .replace(/\/index$/, "")
+    .replace(/\/+$/, "");
+  return normalized || "/";
+}
+
+/**
+ * Key used to match nodes across renders
+ */
+function nodeKey(node: Node): string | undefined {
+  if (node.nodeType !== 1) return undefined;
+  const element = node as Element;
+  const block = element.getAttribute("data-org-block");
+  if (block) return `block:${block}`;
+  const id = element.getAttribute("id");
+  return id ? `id:${id}` : undefined;
+}
+
+/**
+ * Check if two nodes can be patched into each other
+ */
+function isSameType(a: Node, b: Node): boolean {
+  return a.nodeType === b.nodeType && a.nodeName === b.nodeName;
+}
+
+/**
+ * Patch a node to match its new version
+ */
+function patchNode(current: Node, next: Node, changedBlocks: Set<string>): void {
+  if (current.nodeType !== 1) {
+    if (current.nodeValue !== next.nodeValue) {
+      current.nodeValue = next.nodeValue;
+    }
+    return;
+  }
+
+  const element = current as HTMLElement;
+  const nextElement = next as Element;
+
+  const blockId = element.getAttribute("data-org-block");
+  if (blockId && element.tagName !== "STYLE") {
+    // Unchanged blocks keep their DOM (and state); changed ones start fresh
+    if (changedBlocks.has(blockId)) {
+      disposeBlock(element);
+      element.replaceWith(element.ownerDocument.importNode(nextElement, true));
+    }
+    return;
+  }
+
+  // Sync attributes
+  for (const { name } of Array.from(element.attributes)) {
+    if (!nextElement.hasAttribute(name)) element.removeAttribute(name);
+  }
+  for (const { name, value } of Array.from(nextElement.attributes)) {
+    if (element.getAttribute(name) !== value) element.setAttribute(name, value);
+  }
+
+  patchChildren(element, nextElement, changedBlocks);
+}
+
+/**
+ * Patch the children of an element to match a newly rendered element
+ *
+ * Children are matched by key (block ID or element ID) and otherwise by
+ * position and tag name. Unmatched nodes are inserted or removed.
+ *
+ * @param current - Element in the live document
+ * @param next - Newly rendered element (from another document)
+ * @param changedBlocks - Block IDs whose containers must be replaced
+ */
+export function patchChildren(
+  current: Element,
+  next: Element,
+  changedBlocks: Set<string> = new Set()
+): void {
+  const nextKeys = new Set(Array.from(next.childNodes).map(nodeKey).filter(Boolean));
+  const keyed = new Map<string, Node>();
+  for (const child of Array.from(current.childNodes)) {
+    const key = nodeKey(child);
+    if (!key) continue;
+
+    // Drop keyed nodes that are gone, so they don't block positional matching
+    if (nextKeys.has(key)) {
+      keyed.set(key, child);
+    } else {
+      disposeBlock(child as HTMLElement);
+      current.removeChild(child);
+    }
+  }
+
+  let cursor: Node | null = current.firstChild;
+
+  for (const nextChild of Array.from(next.childNodes)) {
+    const key = nodeKey(nextChild);
+    let match: Node | undefined;
+
+    if (key && keyed.has(key) && isSameType(keyed.get(key)!, nextChild)) {
+      match = keyed.get(key);
+      keyed.delete(key);
+    } else if (cursor && !nodeKey(cursor) && isSameType(cursor, nextChild)) {
+      match = cursor;
+    }
+
+    if (!match) {
+      current.insertBefore(current.ownerDocument.importNode(nextChild, true), cursor);
+      continue;
+    }
+
+    if (match === cursor) {
+      cursor = cursor.nextSibling;
+    } else {
+      current.insertBefore(match, cursor);
+    }
+    patchNode(match, nextChild, changedBlocks);
+  }
+
+  // Remove nodes that are not in the new render
+  while (cursor) {
+    const nextCursor: Node | null = cursor.nextSibling;
+    if (cursor.nodeType === 1) disposeBlock(cursor as HTMLElement);
+    current.removeChild(cursor);
+    cursor = nextCursor;
+  }
+}
+
+/**
+ * Read the block manifest embedded in a rendered page
+ */
+function readManifest(doc: Document): BlockManifest {
+  for (const script of Array.from(doc.querySelectorAll("script:not([src])"))) {
+    const match = script.textContent?.match(/window\.__ORG_PRESS_MANIFEST__=(.*);\s*$/s);
+    if (match) {
+      return JSON.parse(match[1]);
+    }
+  }
+  return {};
+}
+
+/**
+ * Apply an update to the current page
+ *
+ * @param payload - Update sent by the dev server
+ * @param fetchPage - Fetches the page HTML (defaults to re-fetching location)
+ */
+export async function applyPageUpdate(
+  payload: OrgUpdatePayload,
+  fetchPage: () => Promise<string> = async () => {
+    const response = await fetch(window.location.href, { headers: { Accept: "text/html" } });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.text();
+  }
+): Promise<void> {
+  if (normalizePagePath(window.location.pathname) !== normalizePagePath(payload.path)) {
+    return;
+  }
+
+  const html = await fetchPage();
+  const nextDocument = new DOMParser().parseFromString(html, "text/html");
+  const manifest = readManifest(nextDocument);
+  (window as any).__ORG_PRESS_MANIFEST__ = manifest;
+
+  const before = new Set(document.querySelectorAll("[data-org-block]"));
+  document.title = nextDocument.title;
+  patchChildren(document.body, nextDocument.body, new Set(payload.blocks));
+
+  // Hydrate replaced and new blocks, bypassing the browser module cache
+  for (const element of Array.from(document.querySelectorAll<HTMLElement>("[data-org-block]"))) {
+    const entry = manifest[element.dataset.orgBlock!];
+    if (before.has(element) || !entry) continue;
+
+    const separator = entry.src.includes("?") ? "&" : "?";
+    await hydrateBlock(element, { ...entry, src: `${entry.src}${separator}t=${payload.timestamp}` });
+  }
+}
+
+const hot = (import.meta as any).hot;
+
+if (hot) {
+  hot.on("org-press:update", (payload: OrgUpdatePayload) => {
+    applyPageUpdate(payload).catch((error) => {
+      console.error("[org-press] HMR update failed, reloading:", error);
+      window.location.reload();
+    });
+  });
+}
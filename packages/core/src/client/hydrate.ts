@@ -82,6 +82,22 @@ export interface HydrateOptions {
   showLoading?: boolean;
 }
 
+/**
+ * Release resources held by a hydrated block element
+ *
+ * Unmounts the block's React root, if any. Used before a block is
+ * replaced during HMR.
+ *
+ * @param element - Block container element
+ */
+export function disposeBlock(element: HTMLElement): void {
+  const root = reactRoots.get(element);
+  if (root) {
+    root.unmount();
+    reactRoots.delete(element);
+  }
+}
+
 /**
  * Hydrate a single block element using the Mode Plugin Architecture
  *
@@ -97,7 +113,7 @@ export interface HydrateOptions {
  * @param element - DOM element with data-org-block attribute
  * @param entry - Manifest entry for this block
  */
-async function hydrateBlock(
+export async function hydrateBlock(
   element: HTMLElement,
   entry: BlockManifestEntry
 ): Promise<void> {
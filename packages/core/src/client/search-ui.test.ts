@@ -0,0 +1,49 @@
+/**
+ * Tests for the search UI
+ *
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect } from "vitest";
+import { renderResults } from "./search-ui.ts";
+
+describe("renderResults", () => {
+  const result = {
+    url: "/guide/plugins.html#installing",
+    title: "Plugins",
+    heading: "Installing",
+    excerpt: "Add the <plugin> to your config.",
+    score: 1,
+  };
+
+  it("should link each result to its section", () => {
+    const list = document.createElement("ul");
+
+    renderResults(list, [result], "install");
+
+    const link = list.querySelector("a")!;
+    expect(list.hidden).toBe(false);
+    expect(link.getAttribute("href")).toBe("/guide/plugins.html#installing");
+    expect(link.querySelector(".search-result-title")!.textContent).toBe("Plugins › Installing");
+    expect(link.querySelector(".search-result-excerpt")!.textContent).toBe(
+      "Add the <plugin> to your config."
+    );
+  });
+
+  it("should say when nothing matches", () => {
+    const list = document.createElement("ul");
+
+    renderResults(list, [], "zzz");
+
+    expect(list.textContent).toBe("No results");
+  });
+
+  it("should hide the list for an empty query", () => {
+    const list = document.createElement("ul");
+    renderResults(list, [result], "install");
+
+    renderResults(list, [], " ");
+
+    expect(list.hidden).toBe(true);
+    expect(list.children).toHaveLength(0);
+  });
+});
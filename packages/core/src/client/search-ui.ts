@@ -0,0 +1,116 @@
+/**
+ * Search UI
+ *
+ * Wires up the markup rendered by the default theme's Search component:
+ *
+ * ```html
+ * <div class="site-search" data-org-press-search data-index="/search/index.json">
+ *   <input type="search" />
+ *   <ul class="search-results" hidden></ul>
+ * </div>
+ * ```
+ *
+ * Loaded by entry-client.tsx only on pages that contain the markup.
+ */
+
+import { createSearch, type SearchResult } from "./search.ts";
+
+/** Delay before searching after a keystroke (ms) */
+const INPUT_DELAY = 120;
+
+/**
+ * Render results into the list
+ */
+export function renderResults(list: HTMLElement, results: SearchResult[], query: string): void {
+  list.replaceChildren();
+
+  if (!query.trim()) {
+    list.hidden = true;
+    return;
+  }
+
+  if (results.length === 0) {
+    const empty = document.createElement("li");
+    empty.className = "search-empty";
+    empty.textContent = "No results";
+    list.append(empty);
+  }
+
+  for (const result of results) {
+    const item = document.createElement("li");
+    const link = document.createElement("a");
+    link.href = result.url;
+
+    const title = document.createElement("span");
+    title.className = "search-result-title";
+    title.textContent = result.heading ? `${result.title} › ${result.heading}` : result.title;
+    link.append(title);
+
+    if (result.excerpt) {
+      const excerpt = document.createElement("span");
+      excerpt.className = "search-result-excerpt";
+      excerpt.textContent = result.excerpt;
+      link.append(excerpt);
+    }
+
+    item.append(link);
+    list.append(item);
+  }
+
+  list.hidden = false;
+}
+
+/**
+ * Attach search behaviour to a search root element
+ *
+ * - typing searches after a short delay
+ * - Enter opens the first result, Escape clears the query
+ * - the root is hidden if the index can't be loaded (e.g. `search: false`)
+ */
+export function mountSearch(root: HTMLElement): void {
+  const input = root.querySelector<HTMLInputElement>("input");
+  const list = root.querySelector<HTMLElement>(".search-results");
+  const indexUrl = root.dataset.index;
+
+  if (!input || !list || !indexUrl) {
+    return;
+  }
+
+  const search = createSearch(indexUrl);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let latest = 0;
+
+  const update = async () => {
+    const query = input.value;
+    const request = ++latest;
+
+    try {
+      const results = query.trim() ? await search.search(query) : [];
+      // Ignore responses to queries that have since changed
+      if (request === latest) {
+        renderResults(list, results, query);
+      }
+    } catch (error) {
+      console.warn("[org-press] Search unavailable:", error);
+      root.hidden = true;
+    }
+  };
+
+  input.addEventListener("input", () => {
+    clearTimeout(timer);
+    timer = setTimeout(update, INPUT_DELAY);
+  });
+
+  input.addEventListener("keydown", (event) => {
+    if (event.key === "Enter") {
+      const first = list.querySelector<HTMLAnchorElement>("a");
+      if (first) {
+        event.preventDefault();
+        window.location.href = first.href;
+      }
+    } else if (event.key === "Escape") {
+      input.value = "";
+      renderResults(list, [], "");
+    }
+  });
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { createSearch, getShardKey, tokenize } from "./search.ts";
+import { buildSearchIndex } from "../node/build/search.ts";
+
+const index = buildSearchIndex([
+  {
+    url: "/guide/plugins.html",
+    title: "Plugins",
+    sections: [
+      { id: "", heading: "", level: 0, text: "Extend org-press with plugins." },
+      { id: "installing", heading: "Installing", level: 2, text: "Add the plugin to your config." },
+      { id: "writing", heading: "Writing plugins", level: 2, text: "A plugin is an object." },
+    ],
+  },
+  {
+    url: "/guide/deploy.html",
+    title: "Deploying",
+    sections: [{ id: "", heading: "", level: 0, text: "Upload dist to any static host." }],
+  },
+]);
+
+/** Serve the index from memory, recording requested URLs */
+function createFetch() {
+  const files: Record<string, unknown> = { "/search/index.json": index.manifest };
+  for (const [key, shard] of Object.entries(index.shards)) {
+    files[`/search/${key}.json`] = shard;
+  }
+
+  return vi.fn(async (url: string) => {
+    const body = files[url];
+    return {
+      ok: body !== undefined,
+      status: body === undefined ? 404 : 200,
+      json: async () => body,
+    };
+  }) as any;
+}
+
+describe("search runtime", () => {
+  describe("tokenize", () => {
+    it("should normalize words", () => {
+      expect(tokenize("Café Olé: v2 set-up, a")).toEqual(["cafe", "ole", "v2", "set", "up"]);
+    });
+  });
+
+  describe("getShardKey", () => {
+    it("should shard by leading character", () => {
+      expect(getShardKey("plugins")).toBe("p");
+      expect(getShardKey("2025")).toBe("2");
+      expect(getShardKey("日本")).toBe("_");
+    });
+  });
+
+  describe("createSearch", () => {
+    it("should deep-link to matching sections", async () => {
+      const search = createSearch("/search/index.json", { fetch: createFetch() });
+
+      const results = await search.search("installing");
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        url: "/guide/plugins.html#installing",
+        title: "Plugins",
+        heading: "Installing",
+        excerpt: "Add the plugin to your config.",
+      });
+    });
+
+    it("should rank headings and titles above body text", async () => {
+      const search = createSearch("/search/index.json", { fetch: createFetch() });
+
+      const results = await search.search("plugins");
+
+      expect(results.map((result) => result.url)).toEqual([
+        "/guide/plugins.html",
+        "/guide/plugins.html#writing",
+      ]);
+    });
+
+    it("should match the last word as a prefix and require every word", async () => {
+      const search = createSearch("/search/index.json", { fetch: createFetch() });
+
+      expect((await search.search("static ho")).map((result) => result.url)).toEqual([
+        "/guide/deploy.html",
+      ]);
+      expect(await search.search("static plugin")).toEqual([]);
+    });
+
+    it("should only fetch the shards it needs, once", async () => {
+      const fetch = createFetch();
+      const search = createSearch("/search/index.json", { fetch });
+
+      await search.search("plugin");
+      await search.search("plugins");
+
+      expect(fetch.mock.calls.map((call: string[]) => call[0])).toEqual([
+        "/search/index.json",
+        "/search/p.json",
+      ]);
+    });
+
+    it("should reject when the index is missing", async () => {
+      const search = createSearch("/missing/index.json", { fetch: createFetch() });
+
+      await expect(search.search("plugins")).rejects.toThrow("404");
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Search Runtime
+ *
+ * Queries the static search index written by `orgp build` (see
+ * node/build/search.ts). Runs entirely in the browser: the index is a
+ * small manifest plus one shard per leading character, fetched on demand
+ * from the site itself.
+ *
+ * ```ts
+ * import { createSearch } from "org-press/client/search";
+ *
+ * const search = createSearch("/search/index.json");
+ * const results = await search.search("install plug");
+ * // [{ url: "/guide/plugins.html#installing-plugins", title: "Plugins", ... }]
+ * ```
+ *
+ * All query words must match; the last one also matches as a prefix, so
+ * results update while typing.
+ */
+
+/** Search index format version */
+export const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * Search index manifest (`search/index.json`)
+ */
+export interface SearchManifest {
+  version: number;
+
+  /** `[url, title]` per page */
+  pages: Array<[string, string]>;
+
+  /** `[pageIndex, headingId, heading, excerpt]` per section */
+  sections: Array<[number, string, string, string]>;
+
+  /** Keys of the shards that exist (`search/<key>.json`) */
+  shards: string[];
+}
+
+/**
+ * Search index shard: term → `[sectionIndex, weight, sectionIndex, weight, ...]`
+ */
+export type SearchShard = Record<string, number[]>;
+
+/**
+ * Search hit
+ */
+export interface SearchResult {
+  /** Page URL, with `#heading-id` for sections below a heading */
+  url: string;
+
+  /** Page title */
+  title: string;
+
+  /** Section heading (empty for the page introduction) */
+  heading: string;
+
+  /** Beginning of the section text */
+  excerpt: string;
+
+  /** Relevance score (higher is better) */
+  score: number;
+}
+
+/**
+ * Search over a static index
+ */
+export interface Search {
+  /**
+   * Find sections matching a query
+   *
+   * @param query - Words to search for
+   * @param limit - Maximum number of results (default: 10)
+   */
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+}
+
+/**
+ * Split text into normalized search terms
+ *
+ * Lowercases, strips diacritics and drops one-character words. Used both
+ * when building the index and when querying it.
+ *
+ * @example
+ * tokenize("Café Olé: v2 set-up")
+ * // ["cafe", "ole", "v2", "set", "up"]
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1);
+}
+
+/**
+ * Get the shard a term is stored in
+ *
+ * @example
+ * getShardKey("plugins") // "p"
+ * getShardKey("日本")    // "_"
+ */
+export function getShardKey(term: string): string {
+  return /^[a-z0-9]/.test(term) ? term[0] : "_";
+}
+
+/**
+ * Create a search over the index at `indexUrl`
+ *
+ * The manifest and shards are fetched on first use and cached.
+ *
+ * @param indexUrl - URL of `search/index.json`
+ * @param options.fetch - Fetch implementation (default: global fetch)
+ */
+export function createSearch(
+  indexUrl: string,
+  options: { fetch?: typeof fetch } = {}
+): Search {
+  const fetchJson = async (url: string) => {
+    const response = await (options.fetch ?? fetch)(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load search index ${url}: ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const shardBase = indexUrl.replace(/[^/]*$/, "");
+  const shards = new Map<string, Promise<SearchShard>>();
+  let manifest: Promise<SearchManifest> | null = null;
+
+  const loadManifest = () => {
+    manifest ??= fetchJson(indexUrl).then((data: SearchManifest) => {
+      if (data.version !== SEARCH_INDEX_VERSION) {
+        throw new Error(`Unsupported search index version ${data.version}`);
+      }
+      return data;
+    });
+    return manifest;
+  };
+
+  const loadShard = (key: string) => {
+    if (!shards.has(key)) {
+      shards.set(key, fetchJson(`${shardBase}${key}.json`));
+    }
+    return shards.get(key)!;
+  };
+
+  return {
+    async search(query, limit = 10) {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) {
+        return [];
+      }
+
+      const index = await loadManifest();
+      let scores: Map<number, number> | null = null;
+
+      for (const [position, term] of terms.entries()) {
+        const key = getShardKey(term);
+        const shard = index.shards.includes(key) ? await loadShard(key) : {};
+        const isPrefix = position === terms.length - 1;
+        const matches = new Map<number, number>();
+
+        for (const [candidate, postings] of Object.entries(shard)) {
+          const exact = candidate === term;
+          if (!exact && !(isPrefix && candidate.startsWith(term))) {
+            continue;
+          }
+
+          // Rarer terms count more; prefix matches count half
+          const idf = Math.log(1 + index.sections.length / (postings.length / 2));
+          const boost = exact ? 1 : 0.5;
+          for (let i = 0; i < postings.length; i += 2) {
+            const section = postings[i];
+            matches.set(section, (matches.get(section) ?? 0) + postings[i + 1] * idf * boost);
+          }
+        }
+
+        // Every term must match
+        if (scores === null) {
+          scores = matches;
+        } else {
+          const previous: Map<number, number> = scores;
+          scores = new Map();
+          for (const [section, score] of matches) {
+            if (previous.has(section)) {
+              scores.set(section, previous.get(section)! + score);
+            }
+          }
+        }
+
+        if (scores.size === 0) {
+          return [];
+        }
+      }
+
+      return [...scores!]
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, limit)
+        .map(([sectionIndex, score]) => {
+          const [pageIndex, id, heading, excerpt] = index.sections[sectionIndex];
+          const [url, title] = index.pages[pageIndex];
+          return { url: id ? `${url}#${id}` : url, title, heading, excerpt, score };
+        });
+    },
+  };
+}
@@ -152,6 +152,12 @@ export async function resolveConfig(
     languageDefaults: userConfig.languageDefaults
       ? { ...defaults.languageDefaults, ...userConfig.languageDefaults }
       : defaults.languageDefaults,
+    api: userConfig.api,
+    site: userConfig.site,
+    feeds: userConfig.feeds,
+    search: userConfig.search,
+    tags: userConfig.tags,
+    i18n: userConfig.i18n,
   };
 
   // Apply environment variable overrides
@@ -1,5 +1,8 @@
 import type { UserConfig as ViteUserConfig } from "vite";
 import type { BlockPlugin } from "../plugins/types.ts";
+import type { ApiServerAdapter } from "../plugins/builtin/api/types.ts";
+import type { BuiltinApiAdapterName } from "../plugins/builtin/api/adapters.ts";
+import type { Translation } from "../routing/i18n.ts";
 
 /**
  * User-facing org-press configuration
@@ -108,6 +111,240 @@ export interface OrgPressUserConfig {
    * };
    */
   languageDefaults?: Record<string, string>;
+
+  /**
+   * API server output for :use api endpoints
+   */
+  api?: ApiConfig;
+
+  /**
+   * Public site settings for crawlers (sitemap, robots.txt, canonical links)
+   */
+  site?: SiteConfig;
+
+  /**
+   * Feeds generated from content directories (requires `site.url`)
+   *
+   * @example
+   * export default {
+   *   site: { url: "https://example.com" },
+   *   feeds: [{ directory: "blog", formats: ["rss", "atom", "json"] }]
+   * };
+   */
+  feeds?: FeedConfig[];
+
+  /**
+   * Write a full-text search index to `search/` during build
+   * @default true
+   */
+  search?: boolean;
+
+  /**
+   * Tag listing pages (`/tags/`, `/tags/<tag>/`), generated when pages
+   * carry #+FILETAGS: or heading tags
+   *
+   * @example
+   * export default {
+   *   tags: { layout: "tags" }  // Theme layout for the listings
+   * };
+   */
+  tags?: boolean | TagsConfig;
+
+  /**
+   * Translated content trees
+   *
+   * @example
+   * export default {
+   *   // content/guide/intro.org -> /guide/intro
+   *   // content/ja/guide/intro.org -> /ja/guide/intro
+   *   i18n: { locales: ["en", "ja"], defaultLocale: "en" }
+   * };
+   */
+  i18n?: I18nConfig;
+}
+
+/**
+ * Public site configuration
+ */
+export interface SiteConfig {
+  /**
+   * Absolute URL the site is served from, without the base path
+   * Required for sitemap.xml and canonical links
+   * @example "https://org-press.dev"
+   */
+  url?: string;
+
+  /**
+   * Generate sitemap.xml (requires `url`)
+   * @default true
+   */
+  sitemap?: boolean;
+
+  /**
+   * Generate robots.txt: `false` to skip, or custom rules
+   * @default true (allow all crawlers)
+   *
+   * @example
+   * export default {
+   *   site: {
+   *     url: "https://example.com",
+   *     robots: { rules: [{ userAgent: "*", disallow: ["/drafts/"] }] }
+   *   }
+   * };
+   */
+  robots?: boolean | RobotsConfig;
+}
+
+/**
+ * Feed output format
+ * - rss: RSS 2.0 (`rss.xml`)
+ * - atom: Atom 1.0 (`atom.xml`)
+ * - json: JSON Feed 1.1 (`feed.json`)
+ */
+export type FeedFormat = "rss" | "atom" | "json";
+
+/**
+ * Feed of the pages in a content directory
+ */
+export interface FeedConfig {
+  /** Directory to list, relative to the content dir (e.g. "blog") */
+  directory: string;
+
+  /**
+   * Output directory, relative to the output dir
+   * @default same as `directory`
+   */
+  output?: string;
+
+  /**
+   * Formats to generate
+   * @default ["rss"]
+   */
+  formats?: FeedFormat[];
+
+  /**
+   * Feed title
+   * @default title of the directory's index.org, or the directory name
+   */
+  title?: string;
+
+  /**
+   * Feed description
+   * @default #+DESCRIPTION: of the directory's index.org
+   */
+  description?: string;
+
+  /** Author for entries without #+AUTHOR: */
+  author?: string;
+
+  /**
+   * Include each page's rendered HTML, not just its #+DESCRIPTION:
+   * @default false
+   */
+  fullContent?: boolean;
+
+  /**
+   * Maximum number of entries (newest first)
+   * @default 20
+   */
+  limit?: number;
+
+  /**
+   * Locale of the entries, with `i18n` (`directory` stays locale-neutral)
+   * @default i18n.defaultLocale
+   */
+  locale?: string;
+}
+
+/**
+ * Tag listing pages
+ */
+export interface TagsConfig {
+  /**
+   * Theme layout for `/tags/` and `/tags/<tag>/`
+   * @default the theme's default layout
+   */
+  layout?: string;
+}
+
+/**
+ * Translated content trees
+ */
+export interface I18nConfig {
+  /** Locales of the site (e.g. ["en", "ja"]) */
+  locales: string[];
+
+  /** Locale of untranslated paths, served without a prefix */
+  defaultLocale: string;
+
+  /**
+   * Where translations live:
+   * - "directory": content/ja/guide/intro.org
+   * - "suffix": content/guide/intro.ja.org
+   *
+   * @default "directory"
+   */
+  strategy?: "directory" | "suffix";
+
+  /**
+   * Render the default-locale page at a locale's URL when a translation is
+   * missing (e.g. /ja/guide/intro from guide/intro.org)
+   *
+   * @default true
+   */
+  fallback?: boolean;
+}
+
+/**
+ * robots.txt configuration
+ */
+export interface RobotsConfig {
+  /**
+   * Rule groups, one per user agent
+   * @default [{ userAgent: "*", allow: ["/"] }]
+   */
+  rules?: RobotsRule[];
+}
+
+/**
+ * robots.txt rule group
+ */
+export interface RobotsRule {
+  /** User agent the rules apply to (e.g. "*", "Googlebot") */
+  userAgent: string;
+  /** Allowed path prefixes */
+  allow?: string[];
+  /** Disallowed path prefixes */
+  disallow?: string[];
+}
+
+/**
+ * API server output configuration
+ */
+export interface ApiConfig {
+  /**
+   * Adapters emitted into the server directory by `orgp build`
+   * Built-in names or custom adapter objects
+   * @default ["node", "fetch", "lambda", "express"]
+   *
+   * @example
+   * export default {
+   *   api: { adapters: ["node", "lambda"] }
+   * };
+   */
+  adapters?: Array<BuiltinApiAdapterName | ApiServerAdapter>;
+
+  /**
+   * Server output directory, relative to the project root
+   * The build refuses to overwrite a directory it did not create
+   * @default Next to the static output: "dist/server" for "dist/static", "<outDir>-server" otherwise
+   *
+   * @example
+   * export default {
+   *   api: { outDir: "build/api" }
+   * };
+   */
+  outDir?: string;
 }
 
 /**
@@ -126,6 +363,12 @@ export interface OrgPressConfig {
   vite: ViteUserConfig;
   defaultUse: string;
   languageDefaults: Record<string, string>;
+  api?: ApiConfig;
+  site?: SiteConfig;
+  feeds?: FeedConfig[];
+  search?: boolean;
+  tags?: boolean | TagsConfig;
+  i18n?: I18nConfig;
 }
 
 /**
@@ -162,6 +405,12 @@ export interface LayoutProps {
 
   /** Base URL path */
   base: string;
+
+  /** Locale of the page (with i18n) */
+  locale?: string;
+
+  /** Translations of the page, including itself (with i18n) */
+  translations?: Translation[];
 }
 
 /**
@@ -183,6 +432,9 @@ export interface PageMetadata {
   /** Status (from #+STATUS: or #+STATE:) - draft/published */
   status?: string;
 
+  /** Tags (from #+FILETAGS: and heading tags) */
+  tags?: string[];
+
   /** Custom metadata (any other #+KEY: value pairs) */
   [key: string]: any;
 }
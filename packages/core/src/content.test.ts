@@ -1,8 +1,24 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdirSync, writeFileSync, rmSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
 import {
   isDevelopment,
+  filterPages,
+  getAdjacentPages,
+  getCollection,
+  getContentPages,
+  getPageContentHelpers,
+  getPageTranslations,
+  getPaginationUrl,
+  groupPagesByDate,
+  paginatePages,
+  parsePaginateDirective,
+  renderPagination,
+  getPagesByTag,
+  getTagSlug,
+  getTags,
+  groupPagesByTag,
   renderPageList,
   clearContentCache,
   dangerousWriteContentBlock,
@@ -155,6 +171,276 @@ describe("Content API", () => {
   // require actual .org files on disk, so they should be in integration tests
 });
 
+describe("Tags", () => {
+  const pages: ContentPage[] = [
+    { file: "a.org", url: "/a", metadata: { title: "A", tags: ["Emacs", "lisp"] } },
+    { file: "b.org", url: "/b", metadata: { title: "B", tags: ["emacs"] } },
+    { file: "c.org", url: "/c", metadata: { title: "C" } },
+  ];
+
+  describe("getTagSlug", () => {
+    it("should make URL-safe slugs", () => {
+      expect(getTagSlug("Emacs Lisp")).toBe("emacs-lisp");
+      expect(getTagSlug("Café_2")).toBe("cafe-2");
+      expect(getTagSlug("++")).toBe("tag");
+    });
+  });
+
+  describe("groupPagesByTag", () => {
+    it("should group pages by slug, keeping the first spelling", () => {
+      const groups = groupPagesByTag(pages);
+
+      expect(groups.map(({ tag, slug }) => [tag, slug])).toEqual([
+        ["Emacs", "emacs"],
+        ["lisp", "lisp"],
+      ]);
+      expect(groups[0].pages.map((page) => page.file)).toEqual(["a.org", "b.org"]);
+    });
+  });
+
+  describe("getPagesByTag / getTags", () => {
+    let tempDir: string;
+    let contentDir: string;
+
+    beforeEach(() => {
+      clearContentCache();
+      tempDir = join(tmpdir(), `content-tags-${process.pid}`);
+      mkdirSync(join(tempDir, "blog"), { recursive: true });
+      writeFileSync(join(tempDir, "blog/one.org"), "#+TITLE: One\n#+FILETAGS: :emacs:\n");
+      writeFileSync(join(tempDir, "blog/two.org"), "#+TITLE: Two\n\n* Setup :Emacs:org:\n");
+      writeFileSync(join(tempDir, "three.org"), "#+TITLE: Three\n");
+      contentDir = relative(process.cwd(), tempDir);
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should find pages by tag, ignoring case", async () => {
+      const tagged = await getPagesByTag("EMACS", { contentDir, sortBy: "file", sortOrder: "asc" });
+
+      expect(tagged.map((page) => page.file)).toEqual(["blog/one.org", "blog/two.org"]);
+    });
+
+    it("should list every tag", async () => {
+      const tags = await getTags({ contentDir, sortBy: "file", sortOrder: "asc" });
+
+      expect(tags.map(({ slug, pages }) => [slug, pages.length])).toEqual([
+        ["emacs", 2],
+        ["org", 1],
+      ]);
+    });
+  });
+});
+
+describe("Collections", () => {
+  const posts: ContentPage[] = [
+    { file: "c.org", url: "/c", metadata: { title: "C", date: "2025-03-02", author: "Ada", tags: ["emacs"] } },
+    { file: "b.org", url: "/b", metadata: { title: "B", date: "2025-03-01", author: "Grace" } },
+    { file: "a.org", url: "/a", metadata: { title: "A", date: "2024-12-24", author: "Ada", weight: "10" } },
+    { file: "d.org", url: "/d", metadata: { title: "D", weight: "9" } },
+  ];
+
+  describe("filterPages", () => {
+    it("should match values, lists of values, presence and predicates", () => {
+      const files = (where: Parameters<typeof filterPages>[1]) =>
+        filterPages(posts, where).map((page) => page.file);
+
+      expect(files({ author: "Ada" })).toEqual(["c.org", "a.org"]);
+      expect(files({ author: ["Grace", "Linus"] })).toEqual(["b.org"]);
+      expect(files({ tags: "emacs" })).toEqual(["c.org"]);
+      expect(files({ date: false })).toEqual(["d.org"]);
+      expect(files({ author: "Ada", date: (date) => date >= "2025" })).toEqual(["c.org"]);
+    });
+  });
+
+  describe("paginatePages", () => {
+    it("should slice pages and link neighbouring pages", () => {
+      const second = paginatePages(posts, { page: 2, perPage: 3 });
+
+      expect(second.pages.map((page) => page.file)).toEqual(["d.org"]);
+      expect(second).toMatchObject({ page: 2, perPage: 3, totalPages: 2, totalItems: 4, prevPage: 1 });
+      expect(second.nextPage).toBeUndefined();
+      expect(paginatePages(posts, { perPage: 3 }).nextPage).toBe(2);
+    });
+
+    it("should return everything on one page by default", () => {
+      expect(paginatePages(posts)).toMatchObject({ totalPages: 1, perPage: 4 });
+      expect(paginatePages([])).toMatchObject({ pages: [], totalPages: 1, totalItems: 0 });
+    });
+  });
+
+  describe("groupPagesByDate", () => {
+    it("should group dated pages by year or month", () => {
+      const byYear = groupPagesByDate(posts);
+      const byMonth = groupPagesByDate(posts, "month");
+
+      expect(byYear.map(({ key, pages }) => [key, pages.length])).toEqual([
+        ["2025", 2],
+        ["2024", 1],
+      ]);
+      expect(byMonth.map(({ key, month }) => [key, month])).toEqual([
+        ["2025-03", "03"],
+        ["2024-12", "12"],
+      ]);
+    });
+  });
+
+  describe("getAdjacentPages", () => {
+    it("should find the pages around a page", () => {
+      const { prev, next } = getAdjacentPages(posts, "/b");
+
+      expect(prev?.file).toBe("c.org");
+      expect(next?.file).toBe("a.org");
+      expect(getAdjacentPages(posts, "/c").prev).toBeUndefined();
+      expect(getAdjacentPages(posts, "/missing")).toEqual({});
+    });
+  });
+
+  describe("parsePaginateDirective", () => {
+    it("should read the directory and page size", () => {
+      expect(parsePaginateDirective("blog 5")).toEqual({ directory: "blog", perPage: 5 });
+      expect(parsePaginateDirective("/blog/")).toEqual({ directory: "blog", perPage: 10 });
+      expect(parsePaginateDirective(".")).toEqual({ directory: ".", perPage: 10 });
+      expect(parsePaginateDirective("blog zero")).toBeUndefined();
+      expect(parsePaginateDirective(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("renderPagination", () => {
+    it("should link the other pages", () => {
+      const html = renderPagination(paginatePages(posts, { page: 2, perPage: 1 }), "/blog");
+
+      expect(getPaginationUrl("/", 3)).toBe("/page/3/");
+      expect(html).toBe(
+        '<nav class="pagination"><a href="/blog/" rel="prev">&larr; Previous</a> ' +
+          '<a href="/blog/">1</a> <span aria-current="page">2</span> ' +
+          '<a href="/blog/page/3/">3</a> <a href="/blog/page/4/">4</a> ' +
+          '<a href="/blog/page/3/" rel="next">Next &rarr;</a></nav>'
+      );
+    });
+
+    it("should render nothing for a single page", () => {
+      expect(renderPagination(paginatePages(posts), "/blog")).toBe("");
+    });
+  });
+
+  describe("getCollection / getPageContentHelpers", () => {
+    let tempDir: string;
+    let contentDir: string;
+
+    beforeEach(() => {
+      clearContentCache();
+      tempDir = join(tmpdir(), `content-collection-${process.pid}`);
+      mkdirSync(join(tempDir, "blog"), { recursive: true });
+      writeFileSync(join(tempDir, "blog/index.org"), "#+TITLE: Blog\n#+PAGINATE: blog 2\n");
+      for (const [name, date, author, weight] of [
+        ["one", "2025-01-01", "Ada", "3"],
+        ["two", "2025-02-01", "Grace", "20"],
+        ["three", "2025-03-01", "Ada", "100"],
+      ]) {
+        writeFileSync(
+          join(tempDir, `blog/${name}.org`),
+          `#+TITLE: ${name}\n#+DATE: ${date}\n#+AUTHOR: ${author}\n#+WEIGHT: ${weight}\n`
+        );
+      }
+      contentDir = relative(process.cwd(), tempDir);
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should filter, sort and page content pages", async () => {
+      const collection = await getCollection({
+        contentDir,
+        where: { author: "Ada" },
+        sortBy: "date",
+        perPage: 1,
+        page: 2,
+      });
+
+      expect(collection.pages.map((page) => page.file)).toEqual(["blog/one.org"]);
+      expect(collection).toMatchObject({ totalPages: 2, totalItems: 2, prevPage: 1 });
+    });
+
+    it("should sort by any metadata field, comparing numbers as numbers", async () => {
+      const pages = await getContentPages({ contentDir, directory: "blog", sortBy: "weight", sortOrder: "asc" });
+
+      expect(pages.map((page) => page.metadata.title)).toEqual(["Blog", "one", "two", "three"]);
+    });
+
+    it("should give #+PAGINATE: pages the page being rendered", async () => {
+      const source = readFileSync(join(tempDir, "blog/index.org"), "utf-8");
+      const { pagination } = await getPageContentHelpers(source, "/blog", { contentDir, page: 2 });
+
+      expect(pagination?.pages.map((page) => page.metadata.title)).toEqual(["one"]);
+      expect(pagination).toMatchObject({ url: "/blog", page: 2, totalPages: 2, totalItems: 3 });
+      expect((await getPageContentHelpers("#+TITLE: Plain\n", "/")).pagination).toBeUndefined();
+    });
+  });
+});
+
+describe("Translations", () => {
+  const i18n = { locales: ["en", "ja", "fr"], defaultLocale: "en" };
+  let tempDir: string;
+  let contentDir: string;
+
+  beforeEach(() => {
+    clearContentCache();
+    tempDir = join(tmpdir(), `content-i18n-${process.pid}`);
+    mkdirSync(join(tempDir, "ja/blog"), { recursive: true });
+    mkdirSync(join(tempDir, "blog"), { recursive: true });
+    writeFileSync(join(tempDir, "blog/hello.org"), "#+TITLE: Hello\n");
+    writeFileSync(join(tempDir, "blog/later.org"), "#+TITLE: Later\n");
+    writeFileSync(join(tempDir, "ja/blog/hello.org"), "#+TITLE: Konnichiwa\n");
+    contentDir = relative(process.cwd(), tempDir);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should query the pages of a locale", async () => {
+    const all = await getContentPages({ contentDir, directory: "blog", i18n, sortOrder: "asc" });
+    expect(all.map((page) => [page.url, page.locale])).toEqual([
+      ["/blog/hello", "en"],
+      ["/blog/later", "en"],
+      ["/ja/blog/hello", "ja"],
+    ]);
+
+    const ja = await getContentPages({ contentDir, directory: "blog", i18n, locale: "ja" });
+    expect(ja.map((page) => page.metadata.title)).toEqual(["Konnichiwa"]);
+  });
+
+  it("should default a translated page's queries to its locale", async () => {
+    const helpers = await getPageContentHelpers("#+TITLE: Blog\n", "/ja/blog", {
+      contentDir,
+      i18n,
+      locale: "ja",
+    });
+
+    expect((await helpers.getContentPages({ contentDir })).map((page) => page.url)).toEqual([
+      "/ja/blog/hello",
+    ]);
+    expect(
+      (await helpers.getContentPages({ contentDir, locale: "en" })).map((page) => page.url).sort()
+    ).toEqual(["/blog/hello", "/blog/later"]);
+  });
+
+  it("should list translations, with fallbacks for missing ones", async () => {
+    expect(await getPageTranslations("/ja/blog/hello", { contentDir, i18n })).toEqual([
+      { locale: "en", url: "/blog/hello" },
+      { locale: "ja", url: "/ja/blog/hello" },
+      { locale: "fr", url: "/fr/blog/hello" },
+    ]);
+    expect(
+      await getPageTranslations("/blog/later", { contentDir, i18n: { ...i18n, fallback: false } })
+    ).toEqual([{ locale: "en", url: "/blog/later" }]);
+    expect(await getPageTranslations("/blog/hello", { contentDir })).toEqual([]);
+  });
+});
+
 describe("dangerousWriteContentBlock", () => {
   const testDir = join(process.cwd(), "content", "__test_write_block__");
   const testFile = "test.org";
@@ -11,6 +11,13 @@ import { join, relative } from "node:path";
 import { parse } from "uniorg-parse/lib/parser.js";
 import { extractMetadata } from "./parser/metadata.ts";
 import type { PageMetadata } from "./parser/types.ts";
+import type { I18nConfig } from "./config/types.ts";
+import {
+  getFileLocale,
+  getTranslations,
+  localizeUrl,
+  type Translation,
+} from "./routing/i18n.ts";
 
 /**
  * Content page with metadata and URL
@@ -24,6 +31,9 @@ export interface ContentPage {
 
   /** Extracted metadata from org file */
   metadata: PageMetadata;
+
+  /** Locale of the page (when queried with `i18n`) */
+  locale?: string;
 }
 
 /**
@@ -39,11 +49,17 @@ export interface ContentQueryOptions {
   /** Content directory (default: "content") */
   contentDir?: string;
 
-  /** Sort by field (default: "file") */
-  sortBy?: "file" | "date" | "title";
+  /** Sort by field: "file", "date", "title" or any metadata field (default: "file") */
+  sortBy?: "file" | "date" | "title" | (string & {});
 
   /** Sort order (default: "desc") */
   sortOrder?: "asc" | "desc";
+
+  /** Locales of translated content (pages get `locale` and prefixed URLs) */
+  i18n?: I18nConfig;
+
+  /** Only pages in this locale (requires `i18n`) */
+  locale?: string;
 }
 
 /**
@@ -109,6 +125,10 @@ async function getOrgFilesRecursive(dir: string): Promise<string[]> {
  *   sortBy: "date",
  *   sortOrder: "desc"
  * });
+ *
+ * @example
+ * // Japanese blog posts (content/ja/blog/*.org -> /ja/blog/*)
+ * const posts = await getContentPages({ directory: "blog", i18n, locale: "ja" });
  */
 export async function getContentPages(
   options: ContentQueryOptions = {}
@@ -119,17 +139,20 @@ export async function getContentPages(
     contentDir: contentDirOption = "content",
     sortBy = "file",
     sortOrder = "desc",
+    i18n,
+    locale,
   } = options;
 
   // Check cache
-  const cacheKey = `${contentDirOption}:${directory || ""}:${includeDrafts}`;
+  const cacheKey = `${contentDirOption}:${directory || ""}:${includeDrafts}:${i18n ? JSON.stringify(i18n) : ""}`;
   if (contentCache.has(cacheKey)) {
     const cached = contentCache.get(cacheKey)!;
-    return sortPages(cached, sortBy, sortOrder);
+    return sortPages(filterLocale(cached, locale), sortBy, sortOrder);
   }
 
   const contentDir = join(process.cwd(), contentDirOption);
-  const searchDir = directory ? join(contentDir, directory) : contentDir;
+  // Translations of a directory live outside it with the directory strategy
+  const searchDir = directory && !i18n ? join(contentDir, directory) : contentDir;
 
   const orgFiles = await getOrgFilesRecursive(searchDir);
   const pages: ContentPage[] = [];
@@ -146,17 +169,27 @@ export async function getContentPages(
       }
 
       const relPath = relative(contentDir, filePath);
+      const localized = i18n
+        ? getFileLocale(relPath, i18n)
+        : { locale: undefined, path: relPath };
+
+      if (i18n && directory && !localized.path.startsWith(`${directory.replace(/\/+$/, "")}/`)) {
+        continue;
+      }
+
       const url =
         "/" +
-        relPath
+        localized.path
           .replace(/\.org$/, "")
           .replace(/\/index$/, "")
           .toLowerCase();
+      const pageUrl = url === "/index" ? "/" : url;
 
       pages.push({
         file: relPath,
-        url: url === "/index" ? "/" : url,
+        url: i18n && localized.locale ? localizeUrl(pageUrl, localized.locale, i18n) : pageUrl,
         metadata,
+        ...(localized.locale && { locale: localized.locale }),
       });
     } catch (error) {
       console.warn(`[content] Error parsing ${filePath}:`, error);
@@ -166,7 +199,56 @@ export async function getContentPages(
   // Cache the result
   contentCache.set(cacheKey, pages);
 
-  return sortPages(pages, sortBy, sortOrder);
+  return sortPages(filterLocale(pages, locale), sortBy, sortOrder);
+}
+
+/**
+ * Keep the pages of a locale
+ *
+ * @param pages - Pages queried with `i18n`
+ * @param locale - Locale to keep (all pages when undefined)
+ */
+function filterLocale(pages: ContentPage[], locale: string | undefined): ContentPage[] {
+  return locale ? pages.filter((page) => page.locale === locale) : pages;
+}
+
+/**
+ * List the translations of a page for its layout
+ *
+ * Locales without a translation get the URL of the default-locale page
+ * rendered in their place, unless `i18n.fallback` is false.
+ *
+ * @param url - URL path of any translation of the page
+ * @param options - Query options with `i18n`
+ * @returns Translations in the order of `i18n.locales` (none without `i18n`)
+ *
+ * @example
+ * // content/guide/intro.org, no Japanese translation
+ * await getPageTranslations("/guide/intro", { i18n });
+ * // [{ locale: "en", url: "/guide/intro" }, { locale: "ja", url: "/ja/guide/intro" }]
+ */
+export async function getPageTranslations(
+  url: string,
+  options: Omit<ContentQueryOptions, "directory" | "locale"> = {}
+): Promise<Translation[]> {
+  const { i18n } = options;
+  if (!i18n) {
+    return [];
+  }
+
+  const translations = getTranslations(await getContentPages(options), url, i18n);
+  const original = translations.find((translation) => translation.locale === i18n.defaultLocale);
+  if (!original || i18n.fallback === false) {
+    return translations;
+  }
+
+  return i18n.locales.map(
+    (locale) =>
+      translations.find((translation) => translation.locale === locale) ?? {
+        locale,
+        url: localizeUrl(original.url, locale, i18n),
+      }
+  );
 }
 
 /**
@@ -195,6 +277,430 @@ export async function getContentPagesFromDirectory(
   return getContentPages({ ...options, directory });
 }
 
+/**
+ * Pages sharing a tag
+ */
+export interface TagGroup {
+  /** Tag as first written (e.g. "JavaScript") */
+  tag: string;
+
+  /** URL-safe tag (e.g. "javascript") */
+  slug: string;
+
+  /** Pages carrying the tag */
+  pages: ContentPage[];
+}
+
+/**
+ * Convert a tag to a URL-safe slug
+ *
+ * Tags differing only in case or punctuation share a slug.
+ *
+ * @example
+ * getTagSlug("Emacs Lisp") // "emacs-lisp"
+ * getTagSlug("C++")        // "c"
+ */
+export function getTagSlug(tag: string): string {
+  return (
+    tag
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "tag"
+  );
+}
+
+/**
+ * Group pages by tag
+ *
+ * @param pages - Pages to group (order is kept within each group)
+ * @returns Groups sorted by tag
+ *
+ * @example
+ * groupPagesByTag(pages)
+ * // [{ tag: "emacs", slug: "emacs", pages: [...] }, ...]
+ */
+export function groupPagesByTag(pages: ContentPage[]): TagGroup[] {
+  const groups = new Map<string, TagGroup>();
+
+  for (const page of pages) {
+    for (const tag of page.metadata.tags ?? []) {
+      const slug = getTagSlug(tag);
+      const group = groups.get(slug) ?? { tag, slug, pages: [] };
+      if (!group.pages.includes(page)) {
+        group.pages.push(page);
+      }
+      groups.set(slug, group);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Get content pages carrying a tag
+ *
+ * Tags match case-insensitively (see getTagSlug).
+ *
+ * @param tag - Tag to look for (from #+FILETAGS: or heading tags)
+ * @param options - Additional query options
+ * @returns Array of content pages
+ *
+ * @example
+ * // Newest posts tagged "emacs"
+ * const posts = await getPagesByTag("emacs", { sortBy: "date" });
+ */
+export async function getPagesByTag(
+  tag: string,
+  options: ContentQueryOptions = {}
+): Promise<ContentPage[]> {
+  const slug = getTagSlug(tag);
+  const pages = await getContentPages(options);
+  return pages.filter((page) =>
+    (page.metadata.tags ?? []).some((pageTag) => getTagSlug(pageTag) === slug)
+  );
+}
+
+/**
+ * Get every tag with the pages carrying it
+ *
+ * @param options - Query options
+ * @returns Groups sorted by tag
+ *
+ * @example
+ * const tags = await getTags();
+ * return tags.map(({ tag, pages }) => `${tag} (${pages.length})`).join(", ");
+ */
+export async function getTags(
+  options: ContentQueryOptions = {}
+): Promise<TagGroup[]> {
+  return groupPagesByTag(await getContentPages(options));
+}
+
+/**
+ * Filter on a metadata field
+ *
+ * - string/number: the field equals the value (or contains it, for lists
+ *   like `tags`)
+ * - array: the field matches any of the values
+ * - boolean: the field is set (`true`) or missing (`false`)
+ * - function: called with the field value and the page
+ */
+export type MetadataFilter =
+  | string
+  | number
+  | boolean
+  | Array<string | number>
+  | ((value: any, page: ContentPage) => boolean);
+
+/**
+ * Options for querying a collection of pages
+ */
+export interface CollectionOptions extends ContentQueryOptions {
+  /** Metadata filters, all of which must match (e.g. { author: "Ada" }) */
+  where?: Record<string, MetadataFilter>;
+
+  /** Page number, starting at 1 (default: 1) */
+  page?: number;
+
+  /** Pages per page (default: all pages) */
+  perPage?: number;
+}
+
+/**
+ * One page of a collection
+ */
+export interface PageCollection {
+  /** Pages on this page */
+  pages: ContentPage[];
+
+  /** Page number, starting at 1 */
+  page: number;
+
+  /** Pages per page */
+  perPage: number;
+
+  /** Number of pages (at least 1) */
+  totalPages: number;
+
+  /** Number of pages in the whole collection */
+  totalItems: number;
+
+  /** Previous page number, if any */
+  prevPage?: number;
+
+  /** Next page number, if any */
+  nextPage?: number;
+}
+
+/**
+ * Page of the collection a #+PAGINATE: page is rendered for
+ */
+export interface Pagination extends PageCollection {
+  /** URL of the first page (the page with #+PAGINATE:) */
+  url: string;
+}
+
+/**
+ * A #+PAGINATE: directive (e.g. `#+PAGINATE: blog 10`)
+ */
+export interface PaginateDirective {
+  /** Directory to list, relative to the content directory ("." for all) */
+  directory: string;
+
+  /** Pages per page */
+  perPage: number;
+}
+
+/**
+ * Pages sharing a year or month
+ */
+export interface DateGroup {
+  /** "2025" or "2025-03" */
+  key: string;
+
+  /** Year (e.g. "2025") */
+  year: string;
+
+  /** Month, when grouped by month (e.g. "03") */
+  month?: string;
+
+  /** Pages in the group */
+  pages: ContentPage[];
+}
+
+/**
+ * Neighbours of a page in a list
+ */
+export interface AdjacentPages {
+  /** Page before it in the list */
+  prev?: ContentPage;
+
+  /** Page after it in the list */
+  next?: ContentPage;
+}
+
+/** Default pages per page of #+PAGINATE: */
+const DEFAULT_PER_PAGE = 10;
+
+/**
+ * Check a metadata value against a filter
+ */
+function matchesFilter(value: any, filter: MetadataFilter, page: ContentPage): boolean {
+  if (typeof filter === "function") {
+    return filter(value, page);
+  }
+  if (typeof filter === "boolean") {
+    return (value !== undefined && value !== null && value !== "") === filter;
+  }
+
+  const wanted = (Array.isArray(filter) ? filter : [filter]).map(String);
+  const values = Array.isArray(value) ? value.map(String) : [String(value ?? "")];
+  return values.some((item) => wanted.includes(item));
+}
+
+/**
+ * Filter pages on metadata fields
+ *
+ * @param pages - Pages to filter
+ * @param where - Filters by field, all of which must match
+ * @returns Matching pages, in order
+ *
+ * @example
+ * filterPages(pages, { author: "Ada", tags: ["emacs", "vim"] });
+ * filterPages(pages, { date: (date) => date >= "2025" });
+ */
+export function filterPages(
+  pages: ContentPage[],
+  where: Record<string, MetadataFilter>
+): ContentPage[] {
+  const filters = Object.entries(where);
+  return pages.filter((page) =>
+    filters.every(([field, filter]) => matchesFilter(page.metadata[field], filter, page))
+  );
+}
+
+/**
+ * Get one page of a list of pages
+ *
+ * @param pages - All pages, in order
+ * @param options - Page number (from 1) and pages per page (default: all)
+ * @returns The page, with totals and prev/next page numbers
+ *
+ * @example
+ * const { pages, totalPages, nextPage } = paginatePages(posts, { page: 2, perPage: 10 });
+ */
+export function paginatePages(
+  pages: ContentPage[],
+  options: { page?: number; perPage?: number } = {}
+): PageCollection {
+  const perPage = Math.max(1, Math.floor(options.perPage ?? pages.length) || 1);
+  const totalPages = Math.max(1, Math.ceil(pages.length / perPage));
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const start = (page - 1) * perPage;
+
+  return {
+    pages: pages.slice(start, start + perPage),
+    page,
+    perPage,
+    totalPages,
+    totalItems: pages.length,
+    ...(page > 1 && { prevPage: Math.min(page - 1, totalPages) }),
+    ...(page < totalPages && { nextPage: page + 1 }),
+  };
+}
+
+/**
+ * Group pages by the year or month of their #+DATE:
+ *
+ * Groups keep the order of the pages; undated pages are left out.
+ *
+ * @param pages - Pages to group (e.g. sorted by date)
+ * @param by - "year" (default) or "month"
+ * @returns Groups in order of their first page
+ *
+ * @example
+ * groupPagesByDate(posts, "month")
+ * // [{ key: "2025-03", year: "2025", month: "03", pages: [...] }, ...]
+ */
+export function groupPagesByDate(
+  pages: ContentPage[],
+  by: "year" | "month" = "year"
+): DateGroup[] {
+  const groups = new Map<string, DateGroup>();
+
+  for (const page of pages) {
+    const match = /^(\d{4})(?:-(\d{2}))?/.exec(page.metadata.date?.trim() ?? "");
+    if (!match || (by === "month" && !match[2])) {
+      continue;
+    }
+
+    const [, year, month] = match;
+    const key = by === "month" ? `${year}-${month}` : year;
+    const group =
+      groups.get(key) ?? { key, year, ...(by === "month" && { month }), pages: [] };
+    group.pages.push(page);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Get the pages before and after a page in a list
+ *
+ * @param pages - List of pages (e.g. blog posts sorted by date)
+ * @param url - URL of the current page
+ * @returns Neighbours (empty when the page isn't in the list)
+ *
+ * @example
+ * const posts = await getContentPages({ directory: "blog", sortBy: "date" });
+ * const { prev, next } = getAdjacentPages(posts, "/blog/my-post");
+ */
+export function getAdjacentPages(pages: ContentPage[], url: string): AdjacentPages {
+  const index = pages.findIndex((page) => page.url === url);
+  if (index === -1) {
+    return {};
+  }
+
+  return {
+    ...(index > 0 && { prev: pages[index - 1] }),
+    ...(index < pages.length - 1 && { next: pages[index + 1] }),
+  };
+}
+
+/**
+ * Query a filtered, sorted and paged collection of pages
+ *
+ * @param options - Query, filter and paging options
+ * @returns The requested page of the collection
+ *
+ * @example
+ * // Second page of Ada's posts, newest first
+ * const { pages, totalPages } = await getCollection({
+ *   directory: "blog",
+ *   where: { author: "Ada" },
+ *   sortBy: "date",
+ *   page: 2,
+ *   perPage: 10,
+ * });
+ */
+export async function getCollection(
+  options: CollectionOptions = {}
+): Promise<PageCollection> {
+  const { where, page, perPage, ...query } = options;
+  const pages = await getContentPages(query);
+  return paginatePages(where ? filterPages(pages, where) : pages, { page, perPage });
+}
+
+/**
+ * Parse a #+PAGINATE: value
+ *
+ * @param value - Keyword value, e.g. "blog 10"
+ * @returns The directive, or undefined when empty or invalid
+ *
+ * @example
+ * parsePaginateDirective("blog 10") // { directory: "blog", perPage: 10 }
+ * parsePaginateDirective("blog")    // { directory: "blog", perPage: 10 }
+ */
+export function parsePaginateDirective(
+  value: string | undefined
+): PaginateDirective | undefined {
+  const [directory, perPage, ...rest] = (value ?? "").trim().split(/\s+/);
+  const count = perPage === undefined ? DEFAULT_PER_PAGE : Number(perPage);
+
+  if (!directory || rest.length > 0 || !Number.isInteger(count) || count < 1) {
+    return undefined;
+  }
+
+  return { directory: directory.replace(/^\/+|\/+$/g, "") || ".", perPage: count };
+}
+
+/**
+ * Get the URL of a page of a paginated listing
+ *
+ * @param url - URL of the first page (e.g. "/blog")
+ * @param page - Page number
+ *
+ * @example
+ * getPaginationUrl("/blog", 1) // "/blog/"
+ * getPaginationUrl("/blog", 2) // "/blog/page/2/"
+ */
+export function getPaginationUrl(url: string, page: number): string {
+  const base = url.replace(/\/+$/, "");
+  return page <= 1 ? `${base}/` : `${base}/page/${page}/`;
+}
+
+/**
+ * Get the pagination of a #+PAGINATE: page
+ *
+ * Lists the directory's pages newest first, leaving out the paginated page
+ * itself.
+ *
+ * @param url - URL of the paginated page (e.g. "/blog")
+ * @param directive - Parsed #+PAGINATE: directive
+ * @param page - Page number being rendered
+ * @param options - Query options (drafts, content directory)
+ * @returns The page of the collection and the URL of the first page
+ */
+export async function getPagination(
+  url: string,
+  directive: PaginateDirective,
+  page: number,
+  options: Omit<ContentQueryOptions, "directory" | "sortBy" | "sortOrder"> = {}
+): Promise<Pagination> {
+  const pages = await getContentPages({
+    ...options,
+    directory: directive.directory === "." ? undefined : directive.directory,
+    sortBy: "date",
+    sortOrder: "desc",
+  });
+  const listed = pages.filter((item) => item.url !== url);
+
+  return { ...paginatePages(listed, { page, perPage: directive.perPage }), url };
+}
+
 /**
  * Sort pages by specified field and order
  *
@@ -205,7 +711,7 @@ export async function getContentPagesFromDirectory(
  */
 function sortPages(
   pages: ContentPage[],
-  sortBy: "file" | "date" | "title",
+  sortBy: string,
   sortOrder: "asc" | "desc"
 ): ContentPage[] {
   const sorted = [...pages];
@@ -229,6 +735,13 @@ function sortPages(
         const titleB = b.metadata.title || "";
         comparison = titleA.localeCompare(titleB);
         break;
+
+      default:
+        comparison = String(a.metadata[sortBy] ?? "").localeCompare(
+          String(b.metadata[sortBy] ?? ""),
+          undefined,
+          { numeric: true }
+        );
     }
 
     return sortOrder === "asc" ? comparison : -comparison;
@@ -292,6 +805,49 @@ export function renderPageList(
   return `<ul class="content-list">${items.join("")}</ul>`;
 }
 
+/**
+ * Render prev/next and numbered links for a paged collection
+ *
+ * Links are root-relative (`/blog/`, `/blog/page/2/`); the build applies
+ * the base path.
+ *
+ * @param collection - Page of the collection (e.g. `content.pagination`)
+ * @param url - URL of the first page
+ * @returns HTML nav, or an empty string for a single page
+ *
+ * @example
+ * const { pagination } = content;
+ * return content.renderPageList(pagination.pages) +
+ *   content.renderPagination(pagination, pagination.url);
+ */
+export function renderPagination(collection: PageCollection, url: string): string {
+  const { page, totalPages, prevPage, nextPage } = collection;
+
+  if (totalPages <= 1) {
+    return "";
+  }
+
+  const link = (number: number, label: string, rel?: string) =>
+    `<a href="${escapeHtml(getPaginationUrl(url, number))}"${rel ? ` rel="${rel}"` : ""}>${label}</a>`;
+
+  const parts: string[] = [];
+  if (prevPage) {
+    parts.push(link(prevPage, "&larr; Previous", "prev"));
+  }
+  for (let number = 1; number <= totalPages; number++) {
+    parts.push(
+      number === page
+        ? `<span aria-current="page">${number}</span>`
+        : link(number, String(number))
+    );
+  }
+  if (nextPage) {
+    parts.push(link(nextPage, "Next &rarr;", "next"));
+  }
+
+  return `<nav class="pagination">${parts.join(" ")}</nav>`;
+}
+
 /**
  * Clear content cache
  *
@@ -527,13 +1083,89 @@ export async function dangerousWriteContentBlock(
 export const contentHelpers = {
   getContentPages,
   getContentPagesFromDirectory,
+  getPagesByTag,
+  getTags,
+  getCollection,
+  filterPages,
+  paginatePages,
+  groupPagesByDate,
+  getAdjacentPages,
   renderPageList,
+  renderPagination,
   clearCache: clearContentCache,
   isDevelopment,
   dangerousWriteContentBlock,
+  /** Page being rendered of a #+PAGINATE: page (see getPageContentHelpers) */
+  pagination: undefined as Pagination | undefined,
 };
 
 /**
  * Type for content helpers (used in parser/execute.ts)
  */
 export type ContentHelpers = typeof contentHelpers;
+
+/**
+ * Content helpers whose queries default to one locale
+ *
+ * @param i18n - I18n config
+ * @param locale - Locale of the page being rendered
+ */
+function localizeContentHelpers(i18n: I18nConfig, locale: string): ContentHelpers {
+  const defaults = { i18n, locale };
+
+  return {
+    ...contentHelpers,
+    getContentPages: (options = {}) => getContentPages({ ...defaults, ...options }),
+    getContentPagesFromDirectory: (directory, options = {}) =>
+      getContentPagesFromDirectory(directory, { ...defaults, ...options }),
+    getPagesByTag: (tag, options = {}) => getPagesByTag(tag, { ...defaults, ...options }),
+    getTags: (options = {}) => getTags({ ...defaults, ...options }),
+    getCollection: (options = {}) => getCollection({ ...defaults, ...options }),
+  };
+}
+
+/**
+ * Get the content helpers for rendering a page
+ *
+ * With `i18n` and `locale`, queries list the page's locale unless they
+ * pass another `locale`. Pages with a #+PAGINATE: directive get
+ * `pagination` for the page number being rendered.
+ *
+ * @param orgContent - Org source of the page
+ * @param url - URL of the page's first page (e.g. "/blog")
+ * @param options - Page number (default: 1) and query options
+ * @returns Content helpers for the page's server blocks
+ *
+ * @example
+ * // Rendering /blog/page/2/ from content/blog/index.org
+ * const helpers = await getPageContentHelpers(source, "/blog", { page: 2 });
+ * helpers.pagination?.pages; // posts 11-20
+ */
+export async function getPageContentHelpers(
+  orgContent: string,
+  url: string,
+  options: Omit<ContentQueryOptions, "directory" | "sortBy" | "sortOrder"> & {
+    page?: number;
+  } = {}
+): Promise<ContentHelpers> {
+  const { page = 1, ...query } = options;
+  const helpers =
+    query.i18n && query.locale
+      ? localizeContentHelpers(query.i18n, query.locale)
+      : contentHelpers;
+
+  // Skip parsing pages without the keyword
+  if (!/^[ \t]*#\+paginate:/im.test(orgContent)) {
+    return helpers;
+  }
+
+  const directive = parsePaginateDirective(extractMetadata(parse(orgContent)).paginate);
+  if (!directive) {
+    return helpers;
+  }
+
+  return {
+    ...helpers,
+    pagination: await getPagination(url, directive, page, query),
+  };
+}
@@ -11,6 +11,10 @@ import {
   readBlockContent,
   writeBlockContent,
   dangerousWriteContentBlock,
+  getResultsMode,
+  formatBlockResult,
+  findBlockResults,
+  writeBlockResults,
 } from "./block-io.ts";
 
 describe("Block I/O", () => {
@@ -237,4 +241,160 @@ console.log("hello");
       expect(content).toBe('{"async": true}');
     });
   });
+
+  describe("getResultsMode", () => {
+    it("should default to replace", () => {
+      expect(getResultsMode(undefined)).toBe("replace");
+      expect(getResultsMode("output")).toBe("replace");
+    });
+
+    it("should read append and silent", () => {
+      expect(getResultsMode("output append")).toBe("append");
+      expect(getResultsMode("silent")).toBe("silent");
+    });
+  });
+
+  describe("formatBlockResult", () => {
+    it("should format arrays of objects as a table with a header", () => {
+      expect(formatBlockResult([{ region: "north", total: 10 }, { region: "south", total: 7 }])).toBe(
+        "| region | total |\n|--------+-------|\n| north  |    10 |\n| south  |     7 |"
+      );
+    });
+
+    it("should format arrays of arrays as a table", () => {
+      expect(formatBlockResult([["a", 1], ["b", 2]])).toBe("| a | 1 |\n| b | 2 |");
+    });
+
+    it("should escape pipes in cells", () => {
+      expect(formatBlockResult([["a|b"]])).toBe("| a\\vert{}b |");
+    });
+
+    it("should format other values as an example block", () => {
+      expect(formatBlockResult("hello\n* not a heading")).toBe(
+        "#+begin_example\nhello\n,* not a heading\n#+end_example"
+      );
+      expect(formatBlockResult({ ok: true })).toContain('"ok": true');
+    });
+
+    it("should link :file results", () => {
+      expect(formatBlockResult("<svg/>", { file: "plot.svg" })).toBe("[[file:plot.svg]]");
+    });
+
+    it("should return null without a result", () => {
+      expect(formatBlockResult(undefined)).toBeNull();
+      expect(formatBlockResult(null)).toBeNull();
+    });
+  });
+
+  describe("findBlockResults", () => {
+    const withResults = `#+name: sales
+#+begin_src js :exec
+return 1;
+#+end_src
+
+#+RESULTS: sales
+| a | 1 |
+
+Text.
+`;
+
+    it("should find results after the block", () => {
+      const block = findBlock(withResults, "sales")!;
+      expect(findBlockResults(withResults, block)).toEqual({ startLine: 5, endLine: 6, kind: "table" });
+    });
+
+    it("should find named results elsewhere in the file", () => {
+      const moved = `#+name: sales
+#+begin_src js :exec
+return 1;
+#+end_src
+
+Text.
+
+#+RESULTS: sales
+#+begin_example
+1
+#+end_example
+`;
+      const block = findBlock(moved, "sales")!;
+      expect(findBlockResults(moved, block)).toEqual({ startLine: 7, endLine: 10, kind: "example" });
+    });
+
+    it("should return null when a block has no results", () => {
+      const block = findBlock(sampleOrg, "first-block")!;
+      expect(findBlockResults(sampleOrg, block)).toBeNull();
+    });
+  });
+
+  describe("writeBlockResults", () => {
+    const source = `#+name: sales
+#+begin_src js :exec
+return 1;
+#+end_src
+
+Text.
+`;
+
+    it("should insert results after the block", () => {
+      const filePath = path.join(tempDir, "test.org");
+      fs.writeFileSync(filePath, source);
+
+      const result = writeBlockResults({ file: filePath, block: "sales", result: "| a | 1 |" });
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(filePath, "utf-8")).toBe(`#+name: sales
+#+begin_src js :exec
+return 1;
+#+end_src
+
+#+RESULTS: sales
+| a | 1 |
+
+Text.
+`);
+    });
+
+    it("should replace existing results", () => {
+      const filePath = path.join(tempDir, "test.org");
+      fs.writeFileSync(filePath, source);
+
+      writeBlockResults({ file: filePath, block: "sales", result: "| a | 1 |" });
+      writeBlockResults({ file: filePath, block: "sales", result: "| b | 2 |" });
+
+      const content = fs.readFileSync(filePath, "utf-8");
+      expect(content).toContain("#+RESULTS: sales\n| b | 2 |\n\nText.");
+      expect(content).not.toContain("| a | 1 |");
+    });
+
+    it("should append rows to existing table results", () => {
+      const filePath = path.join(tempDir, "test.org");
+      fs.writeFileSync(filePath, source);
+
+      writeBlockResults({ file: filePath, block: "sales", result: "| x |\n|---|\n| a |" });
+      writeBlockResults({ file: filePath, block: "sales", result: "| x |\n|---|\n| b |", mode: "append" });
+
+      expect(fs.readFileSync(filePath, "utf-8")).toContain("#+RESULTS: sales\n| x |\n|---|\n| a |\n| b |\n");
+    });
+
+    it("should write results of unnamed blocks by index", () => {
+      const filePath = path.join(tempDir, "test.org");
+      fs.writeFileSync(filePath, "#+begin_src js :exec\nreturn 1;\n#+end_src\n");
+
+      writeBlockResults({ file: filePath, block: 0, result: "[[file:a.svg]]" });
+
+      expect(fs.readFileSync(filePath, "utf-8")).toBe(
+        "#+begin_src js :exec\nreturn 1;\n#+end_src\n\n#+RESULTS:\n[[file:a.svg]]\n"
+      );
+    });
+
+    it("should fail for a missing block", () => {
+      const filePath = path.join(tempDir, "test.org");
+      fs.writeFileSync(filePath, source);
+
+      const result = writeBlockResults({ file: filePath, block: "missing", result: "x" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Block not found");
+    });
+  });
 });
@@ -1,12 +1,13 @@
 /**
  * Block I/O Utilities
  *
- * Read and write code block content in org files.
- * Used by preview:api handlers to persist changes.
+ * Read and write code block content and `#+RESULTS:` sections in org files.
+ * Used by preview:api handlers to persist changes, and by `orgp eval`.
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { alignTable, isTableLine, parseTableLine } from "./table-io.ts";
 
 export interface WriteBlockOptions {
   /** Org file path (relative to content dir or absolute) */
@@ -78,12 +79,18 @@ export function findBlock(
     const line = lines[i];
 
     // Check for #+NAME: directive
-    const nameMatch = line.match(/^#\+(?:NAME|name):\s*(.+)$/);
+    const nameMatch = line.match(/^#\+name:\s*(.+)$/i);
     if (nameMatch) {
       pendingName = nameMatch[1].trim();
       continue;
     }
 
+    // A name only applies to the element directly below it
+    if (!line.startsWith("#+")) {
+      pendingName = undefined;
+      continue;
+    }
+
     // Check for #+begin_src
     const beginMatch = line.match(/^#\+begin_src\s+(\w+)\s*(.*)?$/i);
     if (beginMatch) {
@@ -207,6 +214,307 @@ export function writeBlockContent(options: WriteBlockOptions): WriteBlockResult
   return { success: true, line: location.startLine + 1 };
 }
 
+// ===== Results =====
+
+/**
+ * How a block's results are written (`:results` header argument)
+ *
+ * - replace: replace the existing `#+RESULTS:` section (default)
+ * - append: add to the existing section
+ * - silent: don't write results
+ */
+export type ResultsMode = "replace" | "append" | "silent";
+
+/**
+ * Kind of element holding a block's results
+ */
+export type ResultsKind =
+  | "table"
+  | "example"
+  | "block"
+  | "fixed-width"
+  | "drawer"
+  | "paragraph"
+  | "empty";
+
+export interface ResultsLocation {
+  /** Line of the #+RESULTS: keyword (0-indexed) */
+  startLine: number;
+
+  /** Last line of the results (0-indexed, startLine if empty) */
+  endLine: number;
+
+  /** Kind of result element */
+  kind: ResultsKind;
+}
+
+export interface FormatResultOptions {
+  /** File the result was written to (`:file`), shown as a link */
+  file?: string;
+}
+
+export interface WriteResultsOptions {
+  /** Org file path (relative to content dir or absolute) */
+  file: string;
+
+  /** Block name (from #+NAME:) or 0-based index */
+  block: string | number;
+
+  /** Formatted result (see formatBlockResult) */
+  result: string;
+
+  /** Replace or append to existing results (default: replace) */
+  mode?: Exclude<ResultsMode, "silent">;
+
+  /** Content directory (for relative paths) */
+  contentDir?: string;
+}
+
+const RESULTS_KEYWORD = /^\s*#\+results(?:\[[^\]]*\])?:\s*(\S*)\s*$/i;
+
+/**
+ * Get the results mode from a `:results` parameter
+ *
+ * Other org-babel `:results` words (value, output, table, ...) are ignored.
+ *
+ * @example
+ * getResultsMode("output append") // "append"
+ * getResultsMode(undefined)       // "replace"
+ */
+export function getResultsMode(results: string | undefined): ResultsMode {
+  const words = (results ?? "").toLowerCase().split(/\s+/);
+  if (words.includes("silent")) return "silent";
+  if (words.includes("append")) return "append";
+  return "replace";
+}
+
+/**
+ * Format a table cell
+ */
+function formatCell(value: unknown): string {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return text.replace(/\r?\n/g, " ").replace(/\|/g, "\\vert{}");
+}
+
+/**
+ * Check if a value is a plain (row) object
+ */
+function isRowObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Format a block's result as org text
+ *
+ * - `:file` results → `[[file:path]]` link
+ * - arrays of objects → table with a header row (keys in first-seen order)
+ * - arrays of arrays → table
+ * - anything else → example block (objects as JSON)
+ *
+ * @param value - Block result
+ * @param options - Format options
+ * @returns Org text, or null when there is no result
+ *
+ * @example
+ * formatBlockResult([{ region: "north", total: 10 }])
+ * // "| region | total |\n|--------+-------|\n| north  |    10 |"
+ */
+export function formatBlockResult(
+  value: unknown,
+  options: FormatResultOptions = {}
+): string | null {
+  if (options.file) {
+    return `[[file:${options.file}]]`;
+  }
+
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (Array.isArray(value) && value.length > 0 && value.every(isRowObject)) {
+    const columns = [...new Set(value.flatMap((row) => Object.keys(row)))];
+    return alignTable([
+      columns.map(formatCell),
+      "hline",
+      ...value.map((row) => columns.map((column) => formatCell(row[column]))),
+    ]).join("\n");
+  }
+
+  if (Array.isArray(value) && value.length > 0 && value.every(Array.isArray)) {
+    return alignTable(value.map((row) => (row as unknown[]).map(formatCell))).join("\n");
+  }
+
+  const text = (
+    typeof value === "string" ? value : JSON.stringify(value, null, 2) ?? String(value)
+  ).replace(/\s+$/, "");
+
+  // Escape lines org would read as headlines or keywords
+  const escaped = text
+    .split("\n")
+    .map((line) => line.replace(/^(\s*)(,*(?:\*|#\+))/, "$1,$2"));
+
+  return ["#+begin_example", ...escaped, "#+end_example"].join("\n");
+}
+
+/**
+ * Find where the result element starting at a line ends
+ */
+function findResultsEnd(lines: string[], start: number): { kind: ResultsKind; end: number } {
+  const first = lines[start];
+  if (first === undefined || first.trim() === "") {
+    return { kind: "empty", end: start - 1 };
+  }
+
+  const findLine = (pattern: RegExp) => {
+    for (let i = start + 1; i < lines.length; i++) {
+      if (pattern.test(lines[i])) return i;
+    }
+    return start;
+  };
+
+  const begin = first.match(/^\s*#\+begin_(\S+)/i);
+  if (begin) {
+    const name = begin[1].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const end = findLine(new RegExp(`^\\s*#\\+end_${name}\\s*$`, "i"));
+    return { kind: begin[1].toLowerCase() === "example" ? "example" : "block", end };
+  }
+
+  if (/^\s*:results:\s*$/i.test(first)) {
+    return { kind: "drawer", end: findLine(/^\s*:end:\s*$/i) };
+  }
+
+  const [kind, continues]: [ResultsKind, (line: string) => boolean] = isTableLine(first)
+    ? ["table", (line) => isTableLine(line) || /^\s*#\+tblfm:/i.test(line)]
+    : /^\s*:( |$)/.test(first)
+      ? ["fixed-width", (line) => /^\s*:( |$)/.test(line)]
+      : ["paragraph", (line) => line.trim() !== "" && !/^(\*+\s|\s*#\+)/.test(line)];
+
+  let end = start;
+  while (end + 1 < lines.length && continues(lines[end + 1])) {
+    end++;
+  }
+  return { kind, end };
+}
+
+/**
+ * Find the `#+RESULTS:` section of a code block
+ *
+ * Results directly below the block (blank lines allowed) belong to it if
+ * unnamed or named after the block; a named block's results may also be
+ * anywhere in the file as `#+RESULTS: name`.
+ *
+ * @param content - Org file content
+ * @param location - Block location (from findBlock)
+ * @returns Results location, or null if the block has no results
+ */
+export function findBlockResults(
+  content: string,
+  location: BlockLocation
+): ResultsLocation | null {
+  const lines = content.split("\n");
+
+  let keywordLine = location.endLine + 1;
+  while (keywordLine < lines.length && lines[keywordLine].trim() === "") {
+    keywordLine++;
+  }
+
+  const adjacent = lines[keywordLine]?.match(RESULTS_KEYWORD);
+  if (!adjacent || (adjacent[1] && adjacent[1] !== location.name)) {
+    keywordLine = location.name
+      ? lines.findIndex((line) => line.match(RESULTS_KEYWORD)?.[1] === location.name)
+      : -1;
+  }
+
+  if (keywordLine === -1) {
+    return null;
+  }
+
+  const { kind, end } = findResultsEnd(lines, keywordLine + 1);
+  return { startLine: keywordLine, endLine: Math.max(end, keywordLine), kind };
+}
+
+/**
+ * Append result lines to existing results
+ *
+ * Tables get the new rows (without a repeated header) and are realigned;
+ * example blocks get the new text; other results get the lines below.
+ */
+function appendResultLines(existing: string[], kind: ResultsKind, added: string[]): string[] {
+  const addedKind = findResultsEnd(added, 0).kind;
+
+  if (kind === "table" && addedKind === "table") {
+    const rows = existing.filter(isTableLine).map(parseTableLine);
+    const formulas = existing.filter((line) => !isTableLine(line));
+    let newRows = added.map(parseTableLine);
+
+    if (newRows[1] === "hline" && JSON.stringify(newRows[0]) === JSON.stringify(rows[0])) {
+      newRows = newRows.slice(2);
+    }
+
+    const indent = existing[0].match(/^\s*/)![0];
+    return [...alignTable([...rows, ...newRows], indent), ...formulas];
+  }
+
+  if (kind === "example" && addedKind === "example") {
+    return [...existing.slice(0, -1), ...added.slice(1)];
+  }
+
+  return [...existing, ...added];
+}
+
+/**
+ * Write a code block's `#+RESULTS:` section
+ *
+ * Replaces (or appends to) the block's existing results, or inserts a new
+ * section below the block, separated by a blank line.
+ */
+export function writeBlockResults(options: WriteResultsOptions): WriteBlockResult {
+  const { file, block, result, mode = "replace", contentDir } = options;
+
+  const filePath = path.isAbsolute(file)
+    ? file
+    : path.resolve(contentDir || process.cwd(), file);
+
+  if (!fs.existsSync(filePath)) {
+    return { success: false, error: `File not found: ${filePath}` };
+  }
+
+  const fileContent = fs.readFileSync(filePath, "utf-8");
+  const location = findBlock(fileContent, block);
+
+  if (!location) {
+    return {
+      success: false,
+      error: `Block not found: ${typeof block === "number" ? `index ${block}` : block}`,
+    };
+  }
+
+  const lines = fileContent.split("\n");
+  const resultLines = result.split("\n");
+  const existing = findBlockResults(fileContent, location);
+
+  if (!existing) {
+    const keyword = `#+RESULTS:${location.name ? ` ${location.name}` : ""}`;
+    lines.splice(location.endLine + 1, 0, "", keyword, ...resultLines);
+  } else {
+    const existingLines = lines.slice(existing.startLine + 1, existing.endLine + 1);
+    const body =
+      mode === "append" && existing.kind !== "empty"
+        ? appendResultLines(existingLines, existing.kind, resultLines)
+        : resultLines;
+    lines.splice(existing.startLine + 1, existing.endLine - existing.startLine, ...body);
+  }
+
+  fs.writeFileSync(filePath, lines.join("\n"), "utf-8");
+
+  return { success: true, line: location.startLine + 1 };
+}
+
 /**
  * Async wrapper for writeBlockContent (for API handlers)
  */
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { alignTable, recalculateTables } from "./table-io.ts";
+
+describe("alignTable", () => {
+  it("should pad cells and right-align numeric columns", () => {
+    expect(alignTable([["item", "qty"], "hline", ["pens", "12"], ["paper", "3"]])).toEqual([
+      "| item  | qty |",
+      "|-------+-----|",
+      "| pens  |  12 |",
+      "| paper |   3 |",
+    ]);
+  });
+});
+
+describe("recalculateTables", () => {
+  it("should write computed cells back and keep formulas", () => {
+    const source = `* Budget
+
+#+NAME: budget
+| item | qty | price | total |
+|------+-----+-------+-------|
+| pens | 3 | 1.5 | |
+| paper | 2 | 4 | |
+|------+-----+-------+-------|
+| | | | |
+#+TBLFM: $4=$2*$3
+#+TBLFM: @>$4=vsum(@I..@II)
+
+Done.
+`;
+
+    const { content, tables } = recalculateTables(source);
+
+    expect(tables).toEqual([{ name: "budget", line: 4, changed: true }]);
+    expect(content).toBe(`* Budget
+
+#+NAME: budget
+| item  | qty | price | total |
+|-------+-----+-------+-------|
+| pens  |   3 |   1.5 |   4.5 |
+| paper |   2 |     4 |     8 |
+|-------+-----+-------+-------|
+|       |     |       |  12.5 |
+#+TBLFM: $4=$2*$3
+#+TBLFM: @>$4=vsum(@I..@II)
+
+Done.
+`);
+    expect(recalculateTables(content).tables[0].changed).toBe(false);
+  });
+
+  it("should leave tables without formulas and tables in blocks alone", () => {
+    const source = `| a |  b |
+#+begin_example
+| 1 | 2 | |
+#+TBLFM: $3=$1+$2
+#+end_example
+`;
+
+    expect(recalculateTables(source)).toEqual({ content: source, tables: [] });
+  });
+
+  it("should report invalid formulas", () => {
+    const { content, tables } = recalculateTables("| 1 |\n#+TBLFM: $5=1\n");
+
+    expect(content).toBe("| 1 |\n#+TBLFM: $5=1\n");
+    expect(tables[0]).toEqual({
+      name: undefined,
+      line: 1,
+      changed: false,
+      error: "Column reference $5 out of range",
+    });
+  });
+});
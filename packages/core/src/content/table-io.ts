@@ -0,0 +1,179 @@
+/**
+ * Table I/O Utilities
+ *
+ * Recalculate org tables with #+TBLFM: formulas and write the computed
+ * cells back into the source. Used by `orgp fmt --tables`.
+ */
+
+import {
+  evaluateTableFormulas,
+  type TableRow,
+} from "../parser/table-formulas.ts";
+
+export interface TableRecalculation {
+  /** Table name (from #+NAME:) */
+  name?: string;
+  /** Line of the first table row (1-based) */
+  line: number;
+  /** Whether the table text changed */
+  changed: boolean;
+  /** Error message if the formulas are invalid */
+  error?: string;
+}
+
+export interface RecalculateTablesResult {
+  /** Source with recalculated tables */
+  content: string;
+  /** One entry per table with formulas */
+  tables: TableRecalculation[];
+}
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Check if a line is a table row or rule
+ */
+export function isTableLine(line: string): boolean {
+  return /^\s*\|/.test(line);
+}
+
+/**
+ * Parse a table line into cells ("hline" for rules)
+ */
+export function parseTableLine(line: string): TableRow {
+  const trimmed = line.trim();
+  if (/^\|-/.test(trimmed)) {
+    return "hline";
+  }
+  return trimmed
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Align table rows, right-aligning mostly numeric columns like org
+ *
+ * @param rows - Table rows
+ * @param indent - Indentation of the table
+ * @returns Table lines
+ */
+export function alignTable(rows: TableRow[], indent = ""): string[] {
+  const dataRows = rows.filter((row): row is string[] => row !== "hline");
+  const columns = Math.max(0, ...dataRows.map((row) => row.length));
+  const widths: number[] = [];
+  const numeric: boolean[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    const cells = dataRows.map((row) => row[column] ?? "");
+    const filled = cells.filter(Boolean);
+    widths.push(Math.max(1, ...cells.map((cell) => cell.length)));
+    numeric.push(
+      filled.length > 0 &&
+        filled.filter((cell) => NUMBER.test(cell)).length * 2 >= filled.length
+    );
+  }
+
+  if (columns === 0) {
+    return rows.map(() => `${indent}|`);
+  }
+
+  return rows.map((row) => {
+    if (row === "hline") {
+      return `${indent}|${widths.map((width) => "-".repeat(width + 2)).join("+")}|`;
+    }
+    const cells = widths.map((width, column) => {
+      const cell = row[column] ?? "";
+      return numeric[column] ? cell.padStart(width) : cell.padEnd(width);
+    });
+    return `${indent}| ${cells.join(" | ")} |`;
+  });
+}
+
+/**
+ * Recalculate every table with #+TBLFM: formulas in an org source
+ *
+ * Tables inside blocks are ignored. Tables without formulas are left as is.
+ *
+ * @param content - Org source
+ * @returns Updated source and a report per table
+ */
+export function recalculateTables(content: string): RecalculateTablesResult {
+  const lines = content.split("\n");
+  const output: string[] = [];
+  const tables: TableRecalculation[] = [];
+  let blockEnd: RegExp | undefined;
+  let pendingName: string | undefined;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Skip block contents
+    if (blockEnd) {
+      if (blockEnd.test(line)) blockEnd = undefined;
+      output.push(line);
+      i++;
+      continue;
+    }
+    const beginMatch = line.match(/^\s*#\+begin_(\S+)/i);
+    if (beginMatch) {
+      blockEnd = new RegExp(`^\\s*#\\+end_${beginMatch[1]}\\s*$`, "i");
+      pendingName = undefined;
+      output.push(line);
+      i++;
+      continue;
+    }
+
+    const nameMatch = line.match(/^\s*#\+name:\s*(\S+)\s*$/i);
+    if (nameMatch) {
+      pendingName = nameMatch[1];
+      output.push(line);
+      i++;
+      continue;
+    }
+
+    if (!isTableLine(line)) {
+      if (!/^\s*#\+/.test(line)) pendingName = undefined;
+      output.push(line);
+      i++;
+      continue;
+    }
+
+    // Collect the table and its formulas
+    const start = i;
+    while (i < lines.length && isTableLine(lines[i])) i++;
+    const tableLines = lines.slice(start, i);
+    const formulas: string[] = [];
+    while (i < lines.length) {
+      const formulaMatch = lines[i].match(/^\s*#\+tblfm:\s*(.*?)\s*$/i);
+      if (!formulaMatch) break;
+      formulas.push(formulaMatch[1]);
+      i++;
+    }
+
+    const name = pendingName;
+    pendingName = undefined;
+
+    if (formulas.length === 0) {
+      output.push(...tableLines);
+      continue;
+    }
+
+    const report: TableRecalculation = { name, line: start + 1, changed: false };
+    let newLines = tableLines;
+    try {
+      const rows = evaluateTableFormulas(tableLines.map(parseTableLine), formulas.join("::"));
+      newLines = alignTable(rows, tableLines[0].match(/^\s*/)![0]);
+      report.changed = newLines.join("\n") !== tableLines.join("\n");
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+    }
+
+    tables.push(report);
+    output.push(...newLines, ...lines.slice(i - formulas.length, i));
+  }
+
+  return { content: output.join("\n"), tables };
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for DTS Generator
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { DtsGenerator, generateTableDeclaration } from "./generator.ts";
+
+const testDir = path.join(process.cwd(), ".test-dts-generator");
+
+describe("DTS Generator", () => {
+  describe("generateTableDeclaration", () => {
+    it("infers row object types from the columns", () => {
+      expect(
+        generateTableDeclaration([
+          { region: "north", total: 10, "unit price": 1 },
+          { region: "south", total: 32.5, "unit price": "n/a" },
+        ])
+      ).toBe(
+        'declare const rows: Array<{ "region": string; "total": number; "unit price": number | string }>;\n' +
+          "export default rows;\n"
+      );
+    });
+
+    it("declares cell arrays for tables without a header", () => {
+      expect(generateTableDeclaration([[1, 2], [3, 4]])).toBe(
+        "declare const rows: Array<Array<number>>;\nexport default rows;\n"
+      );
+    });
+
+    it("falls back to records for empty tables", () => {
+      expect(generateTableDeclaration([])).toContain(
+        "Array<Record<string, string | number>>"
+      );
+    });
+  });
+
+  describe("generateDeclarations", () => {
+    beforeEach(() => {
+      fs.mkdirSync(path.join(testDir, "content"), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("declares named tables next to the file's blocks", async () => {
+      fs.writeFileSync(
+        path.join(testDir, "content", "data.org"),
+        "#+NAME: q3-sales\n| region | total |\n|---+---|\n| north | 10 |\n"
+      );
+
+      const generator = new DtsGenerator({ contentDir: "content", projectRoot: testDir });
+      await generator.loadBlocks();
+      const result = generator.generateDeclarations();
+      generator.cleanup();
+
+      expect(result.declarations.get("content/data/q3-sales.d.ts")).toBe(
+        'declare const rows: Array<{ "region": string; "total": number }>;\nexport default rows;\n'
+      );
+    });
+  });
+});
@@ -10,14 +10,19 @@
  * 3. Run TypeScript compiler to generate declarations
  * 4. Map declarations back to virtual module structure
  * 5. Clean up temporary files
+ *
+ * Named tables have no source to compile: their declarations are
+ * inferred from the table data (see generateTableDeclaration).
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
 import ts from "typescript";
+import type { TableData } from "../parser/tables.ts";
 import type {
   BlockManifest,
   BlockInfo,
+  TableInfo,
   DtsGeneratorOptions,
   DtsGenerationResult,
   SerializableManifest,
@@ -40,6 +45,48 @@ const TS_JS_LANGUAGES = [
   "jsx",
 ];
 
+/**
+ * Infer the TypeScript type of table cells
+ */
+function inferCellType(values: unknown[]): string {
+  const types = new Set(values.map((value) => (typeof value === "number" ? "number" : "string")));
+  return types.size === 0 ? "string | number" : [...types].sort().join(" | ");
+}
+
+/**
+ * Generate the declaration of a named table import
+ *
+ * Row objects get one property per header cell, typed from the values in
+ * that column (number, string, or both).
+ *
+ * @example
+ * generateTableDeclaration([{ region: "north", total: 10 }])
+ * // declare const rows: Array<{ "region": string; "total": number }>;
+ * // export default rows;
+ *
+ * @param rows - Table data
+ * @returns Declaration file content
+ */
+export function generateTableDeclaration(rows: TableData): string {
+  let type: string;
+
+  if (rows.length === 0) {
+    type = "Array<Record<string, string | number>>";
+  } else if (Array.isArray(rows[0])) {
+    type = `Array<Array<${inferCellType((rows as unknown[][]).flat())}>>`;
+  } else {
+    const records = rows as Array<Record<string, unknown>>;
+    const columns = [...new Set(records.flatMap((record) => Object.keys(record)))];
+    const properties = columns.map(
+      (column) =>
+        `${JSON.stringify(column)}: ${inferCellType(records.map((record) => record[column]))}`
+    );
+    type = `Array<{ ${properties.join("; ")} }>`;
+  }
+
+  return `declare const rows: ${type};\nexport default rows;\n`;
+}
+
 /**
  * DTS Generator class
  *
@@ -124,6 +171,14 @@ export class DtsGenerator {
     return EXTENSION_MAP[language.toLowerCase()] || "ts";
   }
 
+  /**
+   * Get the declaration path of a table (relative to the output directory)
+   */
+  private getTableDeclarationPath(table: TableInfo): string {
+    const orgBase = table.orgFilePath.replace(/\.org$/, "");
+    return path.join(orgBase, `${table.name}.d.ts`);
+  }
+
   /**
    * Write temporary TypeScript/JavaScript files
    *
@@ -183,6 +238,13 @@ export class DtsGenerator {
     const declarations = new Map<string, string>();
     const errors: Array<{ file: string; message: string }> = [];
 
+    // Tables are declared from their data, next to the file's blocks
+    for (const [_filePath, tables] of this.manifest.tablesByFile ?? []) {
+      for (const table of tables) {
+        declarations.set(this.getTableDeclarationPath(table), generateTableDeclaration(table.rows));
+      }
+    }
+
     if (files.length === 0) {
       return {
         declarations,
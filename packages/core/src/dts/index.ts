@@ -33,6 +33,7 @@
 export type {
   BlockInfo,
   BlockManifest,
+  TableInfo,
   Position,
   Range,
   Location,
@@ -47,6 +48,7 @@ export type {
 // Manifest generation
 export {
   extractBlocksFromFile,
+  extractTablesFromFile,
   generateBlockManifest,
   filterTsJsBlocks,
   isTsJsLanguage,
@@ -68,4 +70,4 @@ export {
 } from "./position-mapping.ts";
 
 // DTS Generator (will be added in generator.ts)
-export { DtsGenerator } from "./generator.ts";
+export { DtsGenerator, generateTableDeclaration } from "./generator.ts";
@@ -5,7 +5,13 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { extractBlocksFromFile, generateBlockManifest, filterTsJsBlocks, isTsJsLanguage } from "./manifest.ts";
+import {
+  extractBlocksFromFile,
+  extractTablesFromFile,
+  generateBlockManifest,
+  filterTsJsBlocks,
+  isTsJsLanguage,
+} from "./manifest.ts";
 
 // Create a temp directory for test files
 const testDir = path.join(process.cwd(), ".test-dts-manifest");
@@ -155,6 +161,41 @@ const y = 2;
     });
   });
 
+  describe("extractTablesFromFile", () => {
+    it("extracts named tables with their rows and lines", () => {
+      const orgContent = `#+TITLE: Data
+
+#+NAME: q3-sales
+#+CAPTION: Sales
+| region | total |
+|--------+-------|
+| north  |    10 |
+| south  |  32.5 |
+
+| unnamed |
+`;
+      const orgFile = path.join(testDir, "data.org");
+      fs.writeFileSync(orgFile, orgContent);
+
+      const tables = extractTablesFromFile(orgFile, testDir);
+
+      expect(tables).toEqual([
+        {
+          id: "data.org:table:q3-sales",
+          orgFilePath: "data.org",
+          name: "q3-sales",
+          startLine: 5,
+          endLine: 8,
+          virtualModuleId: "virtual:org-press:block:table:data.org:NAME:q3-sales.js",
+          rows: [
+            { region: "north", total: 10 },
+            { region: "south", total: 32.5 },
+          ],
+        },
+      ]);
+    });
+  });
+
   describe("generateBlockManifest", () => {
     it("generates manifest from directory", async () => {
       const orgContent = `#+TITLE: Test
@@ -173,6 +214,18 @@ const x = 1;
       expect(manifest.projectRoot).toBe(testDir);
       expect(manifest.blocksByFile.size).toBe(1);
       expect(manifest.blocksByVirtualId.size).toBe(1);
+      expect(manifest.tablesByFile?.size).toBe(0);
+    });
+
+    it("indexes named tables by file", async () => {
+      const subDir = path.join(testDir, "content");
+      fs.mkdirSync(subDir, { recursive: true });
+      fs.writeFileSync(path.join(subDir, "data.org"), "#+NAME: t\n| a |\n| 1 |\n");
+
+      const manifest = await generateBlockManifest(subDir, testDir);
+
+      expect(manifest.tablesByFile?.get("content/data.org")?.[0].rows).toEqual([["a"], [1]]);
+      expect(filterTsJsBlocks(manifest).tablesByFile).toBe(manifest.tablesByFile);
     });
 
     it("handles nested directories", async () => {
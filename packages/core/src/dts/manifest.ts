@@ -9,8 +9,9 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { parse } from "uniorg-parse/lib/parser.js";
 import type { OrgData } from "uniorg";
-import { parseBlockParameters } from "../plugins/utils.ts";
-import type { BlockInfo, BlockManifest } from "./types.ts";
+import { createVirtualModuleId, parseBlockParameters } from "../plugins/utils.ts";
+import { findNamedTables } from "../parser/tables.ts";
+import type { BlockInfo, BlockManifest, TableInfo } from "./types.ts";
 
 /** Languages that should be processed for TypeScript/JavaScript DTS generation */
 const TS_JS_LANGUAGES = [
@@ -168,6 +169,35 @@ export function extractBlocksFromFile(
   return blocks;
 }
 
+/**
+ * Extract named tables from a single org file
+ *
+ * @param orgFilePath - Path to the org file (absolute or relative to projectRoot)
+ * @param projectRoot - Project root directory
+ * @returns Array of table info objects
+ */
+export function extractTablesFromFile(
+  orgFilePath: string,
+  projectRoot: string
+): TableInfo[] {
+  const absolutePath = path.isAbsolute(orgFilePath)
+    ? orgFilePath
+    : path.join(projectRoot, orgFilePath);
+  const relativePath = path.relative(projectRoot, absolutePath);
+  const content = fs.readFileSync(absolutePath, "utf-8");
+  const ast = parse(content) as OrgData;
+
+  return findNamedTables(ast, content).map((table) => ({
+    id: `${relativePath}:table:${table.name}`,
+    orgFilePath: relativePath,
+    name: table.name,
+    startLine: table.startLine,
+    endLine: table.endLine,
+    virtualModuleId: createVirtualModuleId("table", relativePath, 0, "js", table.name),
+    rows: table.rows,
+  }));
+}
+
 /**
  * Find all org files recursively in a directory
  *
@@ -206,7 +236,8 @@ function findOrgFiles(dir: string): string[] {
  * Generate block manifest for an entire project
  *
  * Scans all org files in the content directory and extracts
- * block information into a manifest for DTS generation and LSP.
+ * block and named table information into a manifest for DTS
+ * generation and LSP.
  *
  * @param contentDir - Content directory containing org files
  * @param projectRoot - Project root directory (defaults to cwd)
@@ -222,6 +253,7 @@ export async function generateBlockManifest(
 
   const blocksByFile = new Map<string, BlockInfo[]>();
   const blocksByVirtualId = new Map<string, BlockInfo>();
+  const tablesByFile = new Map<string, TableInfo[]>();
 
   // Find all org files
   const orgFiles = findOrgFiles(absoluteContentDir);
@@ -237,6 +269,11 @@ export async function generateBlockManifest(
       for (const block of blocks) {
         blocksByVirtualId.set(block.virtualModuleId, block);
       }
+
+      const tables = extractTablesFromFile(orgFile, projectRoot);
+      if (tables.length > 0) {
+        tablesByFile.set(relativePath, tables);
+      }
     } catch (error) {
       console.warn(
         `[org-press] Warning: Failed to parse ${orgFile}: ${
@@ -252,6 +289,7 @@ export async function generateBlockManifest(
     projectRoot,
     blocksByFile,
     blocksByVirtualId,
+    tablesByFile,
   };
 }
 
@@ -259,7 +297,7 @@ export async function generateBlockManifest(
  * Filter blocks to only TypeScript/JavaScript blocks
  *
  * @param manifest - Full block manifest
- * @returns New manifest with only TS/JS blocks
+ * @returns New manifest with only TS/JS blocks (tables are kept)
  */
 export function filterTsJsBlocks(manifest: BlockManifest): BlockManifest {
   const blocksByFile = new Map<string, BlockInfo[]>();
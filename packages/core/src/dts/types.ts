@@ -6,6 +6,8 @@
  * and the DTS generator.
  */
 
+import type { TableData } from "../parser/tables.ts";
+
 /**
  * Information about a single code block in an org file
  */
@@ -34,6 +36,28 @@ export interface BlockInfo {
   content: string;
 }
 
+/**
+ * Information about a named table in an org file
+ *
+ * Named tables are importable like blocks: `./file.org?name=table-name`
+ */
+export interface TableInfo {
+  /** Unique table ID: "{relativePath}:table:{name}" */
+  id: string;
+  /** Path to the org file (relative to project root) */
+  orgFilePath: string;
+  /** Table name from #+NAME: directive */
+  name: string;
+  /** Line of the first table row (1-based) */
+  startLine: number;
+  /** Line of the last table row (1-based) */
+  endLine: number;
+  /** Virtual module ID for this table */
+  virtualModuleId: string;
+  /** Row objects keyed by the header row (or cell arrays) */
+  rows: TableData;
+}
+
 /**
  * Block manifest for an entire project
  *
@@ -51,6 +75,8 @@ export interface BlockManifest {
   blocksByFile: Map<string, BlockInfo[]>;
   /** All blocks indexed by virtual module ID */
   blocksByVirtualId: Map<string, BlockInfo>;
+  /** Named tables indexed by org file path (relative) */
+  tablesByFile?: Map<string, TableInfo[]>;
 }
 
 /**
@@ -58,6 +58,40 @@ export {
 
 export type { BuildOptions, BuildResult } from "./node/build/build.ts";
 
+export {
+  generateSitemap,
+  generateRobotsTxt,
+  getPageUrl,
+  isIndexable,
+} from "./node/build/sitemap.ts";
+
+export type { SitemapEntry, SitePage } from "./node/build/sitemap.ts";
+
+export {
+  collectFeed,
+  generateRss,
+  generateAtom,
+  generateJsonFeed,
+} from "./node/build/feeds.ts";
+
+export type { Feed, FeedEntry } from "./node/build/feeds.ts";
+
+export {
+  buildSearchIndex,
+  collectSearchDocuments,
+} from "./node/build/search.ts";
+
+export type { SearchDocument, SearchIndex } from "./node/build/search.ts";
+
+export { createSearch, tokenize } from "./client/search.ts";
+
+export type {
+  Search,
+  SearchManifest,
+  SearchResult,
+  SearchShard,
+} from "./client/search.ts";
+
 export {
   resolveBuildOutputs,
   getSingleFileOutput,
@@ -140,6 +174,14 @@ export type {
   OrgPressConfig,
   OrgPressUserConfig,
   ThemeConfig,
+  ApiConfig,
+  SiteConfig,
+  RobotsConfig,
+  RobotsRule,
+  FeedConfig,
+  FeedFormat,
+  TagsConfig,
+  I18nConfig,
 } from "./config/types.ts";
 
 // ===== Plugin System =====
@@ -202,9 +244,21 @@ export {
   writeBlockContent,
   readBlockContent,
   findBlock,
+  // #+RESULTS: sections
+  getResultsMode,
+  formatBlockResult,
+  findBlockResults,
+  writeBlockResults,
 } from "./content/block-io.ts";
 
-export type { BlockLocation } from "./content/block-io.ts";
+export type {
+  BlockLocation,
+  ResultsMode,
+  ResultsKind,
+  ResultsLocation,
+  FormatResultOptions,
+  WriteResultsOptions,
+} from "./content/block-io.ts";
 
 /**
  * Org Import Resolution
@@ -232,6 +286,8 @@ export {
 export type {
   OrgImportQuery,
   ResolvedOrgImport,
+  ResolvedOrgBlockImport,
+  ResolvedOrgTableImport,
   OrgImportError,
   OrgImportResult,
 } from "./resolve/org-imports.ts";
@@ -260,17 +316,35 @@ export {
   fmtPlugin,
   lintPlugin,
   typeCheckPlugin,
+  tanglePlugin,
+  detanglePlugin,
+  cachePlugin,
+  evalPlugin,
   // Server handlers
   createServerHandler,
   createDefaultJavaScriptHandler,
+  createShellHandler,
+  createPythonHandler,
+  createSqliteHandler,
+  createDefaultProcessHandlers,
 } from "./plugins/builtin/index.ts";
 
+export type { ProcessHandlerOptions } from "./plugins/builtin/process-handlers.ts";
+
 // API plugin types (re-export for convenience)
 export type {
   ApiRequest,
   ApiResponse,
   ApiHandler,
   ApiRouteDefinition,
+  ApiServerBuildResult,
+  ApiRouteManifestEntry,
+  ApiServerAdapter,
+  ApiAdapterContext,
+  BuiltinApiAdapterName,
+  ApiSchema,
+  ApiValidationIssue,
+  OpenApiDocument,
 } from "./plugins/builtin/api/index.ts";
 
 export {
@@ -279,6 +353,14 @@ export {
   clearRoutes as clearApiRoutes,
   registerApiRoute,
   isEndpointRegistered,
+  buildApiServer,
+  writeApiServer,
+  nodeAdapter,
+  fetchAdapter,
+  lambdaAdapter,
+  expressAdapter,
+  validateApiRequest,
+  generateOpenApiDocument,
 } from "./plugins/builtin/api/index.ts";
 
 /**
@@ -444,6 +526,7 @@ export {
   withErrorBoundary,
   withConsole,
   withCollapse,
+  withTabs,
   builtinWrappers,
   registerBuiltinWrappers,
 } from "./plugins/preview-wrappers/index.ts";
@@ -454,6 +537,7 @@ export type {
   WithErrorBoundaryConfig,
   WithConsoleConfig,
   WithCollapseConfig,
+  WithTabsConfig,
 } from "./plugins/preview-wrappers/index.ts";
 
 /**
@@ -599,9 +683,20 @@ export { parseOrgContent, getOrgFileFromUrl } from "./parser/parse-content.ts";
 
 export { processCodeBlocks } from "./parser/exporter.ts";
 
-export { extractMetadata } from "./parser/metadata.ts";
+export { extractMetadata, extractTags } from "./parser/metadata.ts";
+
+export { parseCodeBlockParameters, HEADER_ARGS } from "./parser/parameters.ts";
+export type { HeaderArgInfo } from "./parser/parameters.ts";
+
+export { getTableData, findNamedTables } from "./parser/tables.ts";
+
+export type { TableData, TableCell, NamedTable } from "./parser/tables.ts";
 
-export { parseCodeBlockParameters } from "./parser/parameters.ts";
+export { evaluateTableFormulas, parseTableFormulas } from "./parser/table-formulas.ts";
+
+export type { TableRow, TableFormula } from "./parser/table-formulas.ts";
+
+export { recalculateTables } from "./content/table-io.ts";
 
 export { executeServerBlock } from "./parser/execute.ts";
 
@@ -630,6 +725,7 @@ export {
   renderOrg,
   renderOrgToHtml,
   renderOrgWithPlugins,
+  extractSearchSections,
 } from "./render/render.ts";
 
 export { renderWithLayout } from "./render/render-static.tsx";
@@ -644,6 +740,8 @@ export { rehypeHeadingIds } from "./render/rehype-heading-ids.ts";
 
 export { rehypeTocExtract } from "./render/rehype-toc-extract.ts";
 
+export { rehypeSearchExtract } from "./render/rehype-search-extract.ts";
+
 export type {
   RenderContext,
   RenderResult,
@@ -652,6 +750,7 @@ export type {
   SSRRenderOptions,
   PageRenderOptions,
   TocItem,
+  SearchSection,
 } from "./render/types.ts";
 
 // ===== Layout System =====
@@ -671,6 +770,19 @@ export {
   preloadLayouts,
 } from "./layouts/index.ts";
 
+/**
+ * Search box for custom themes (see client/search-ui.ts)
+ *
+ * @example
+ * import { SearchBox } from 'org-press';
+ *
+ * <SearchBox base={base} placeholder="Search docs" />
+ */
+export {
+  default as SearchBox,
+  getSearchIndexUrl,
+} from "./layouts/default/SearchBox.tsx";
+
 /**
  * Org-defined layout system
  *
@@ -758,7 +870,22 @@ export type { CrossFileLayoutRef } from "./render/cross-file-layout.ts";
 export {
   getContentPages,
   getContentPagesFromDirectory,
+  getPagesByTag,
+  getTags,
+  getTagSlug,
+  groupPagesByTag,
+  getCollection,
+  filterPages,
+  paginatePages,
+  groupPagesByDate,
+  getAdjacentPages,
+  parsePaginateDirective,
+  getPaginationUrl,
+  getPagination,
+  getPageContentHelpers,
+  getPageTranslations,
   renderPageList,
+  renderPagination,
   clearContentCache,
   isDevelopment,
   contentHelpers,
@@ -782,18 +909,34 @@ export {
   getChildRoutes,
   getRoutesAtDepth,
   buildRouteTree,
+  getFileLocale,
+  getUrlLocale,
+  localizeUrl,
+  getTranslations,
+  resolveLocalizedOrgFile,
 } from "./routing/index.ts";
 
 export type {
   RouteEntry,
   ResolveRoutesOptions,
   RouteTreeNode,
+  LocalizedPath,
+  Translation,
+  LocalizedOrgFile,
 } from "./routing/index.ts";
 
 export type {
   ContentPage,
   ContentQueryOptions,
   ContentHelpers,
+  TagGroup,
+  MetadataFilter,
+  CollectionOptions,
+  PageCollection,
+  Pagination,
+  PaginateDirective,
+  DateGroup,
+  AdjacentPages,
 } from "./content.ts";
 
 // ===== Cache System =====
@@ -815,11 +958,28 @@ export {
   cacheFileExists,
   ensureCacheDir,
   // Server result caching
+  getServerResultKey,
+  parseCachePolicy,
   cacheServerResult,
   readCachedServerResult,
+  listServerResults,
+  removeServerResults,
+  pruneServerResults,
+  clearServerResults,
   invalidateServerResultCache,
 } from "./cache.ts";
 
+export type {
+  ServerCachePolicy,
+  ServerResultKeyInput,
+  ServerResultSource,
+  ServerResultCacheEntry,
+  PruneServerResultsOptions,
+} from "./cache.ts";
+
+export { collectServerDependencies } from "./plugins/builtin/server-dependencies.ts";
+export type { ServerDependencyOptions } from "./plugins/builtin/server-dependencies.ts";
+
 // ===== DTS Generation =====
 
 /**
@@ -848,8 +1008,10 @@ export {
 export {
   // DTS Generator
   DtsGenerator,
+  generateTableDeclaration,
   // Manifest generation
   extractBlocksFromFile,
+  extractTablesFromFile,
   generateBlockManifest,
   filterTsJsBlocks,
   isTsJsLanguage,
@@ -871,6 +1033,7 @@ export type {
   // Block types
   BlockInfo,
   BlockManifest,
+  TableInfo,
   // Position types
   Position as DtsPosition,
   Range as DtsRange,
@@ -934,6 +1097,8 @@ export type {
  */
 export {
   formatOrgFiles,
+  formatOrgTables,
+  formatBlock,
   collectBlocks,
   runFmt,
 } from "./cli/commands/fmt.ts";
@@ -1010,6 +1175,96 @@ export type {
   TypeCheckSummary,
 } from "./cli/commands/type-check.ts";
 
+// ===== Tangle Command =====
+
+/**
+ * Tangle code blocks into external files (literate programming)
+ *
+ * @example
+ * import { tangleOrgFiles, computeTangleTargets } from 'org-press';
+ *
+ * // Write all :tangle targets
+ * await tangleOrgFiles({ contentDir: 'content', projectRoot: process.cwd() });
+ *
+ * // Verify tangled files are up to date
+ * const summary = await tangleOrgFiles({ check: true, contentDir: 'content' });
+ */
+export {
+  tangleOrgFiles,
+  runTangle,
+} from "./cli/commands/tangle.ts";
+
+export type {
+  TangleOptions,
+  TangleFileResult,
+  TangleSummary,
+} from "./cli/commands/tangle.ts";
+
+/**
+ * Inspect and evict cached server block results (`orgp cache`)
+ *
+ * @example
+ * import { runCache } from 'org-press';
+ *
+ * await runCache(['prune'], { projectRoot: process.cwd() });
+ */
+export { runCache } from "./cli/commands/cache.ts";
+
+/**
+ * Execute blocks and write their output as #+RESULTS: sections
+ *
+ * @example
+ * import { evalOrgFiles } from 'org-press';
+ *
+ * await evalOrgFiles({ files: ['content/report.org'], block: 'sales' });
+ */
+export { evalOrgFiles, runEval } from "./cli/commands/eval.ts";
+
+export type {
+  EvalOptions,
+  EvalBlockResult,
+  EvalSummary,
+} from "./cli/commands/eval.ts";
+
+/**
+ * Sync edits in tangled files back into org source blocks
+ *
+ * @example
+ * import { detangleFiles } from 'org-press';
+ *
+ * const summary = await detangleFiles({ files: ['src/main.ts'] });
+ * if (summary.conflicts > 0) process.exit(1);
+ */
+export {
+  detangleFiles,
+  runDetangle,
+} from "./cli/commands/detangle.ts";
+
+export type {
+  DetangleOptions,
+  DetangleResult,
+  DetangleSummary,
+} from "./cli/commands/detangle.ts";
+
+export {
+  extractTangleBlocks,
+  resolveTanglePath,
+  expandNoweb,
+  computeTangleTargets,
+  parseTangledRegions,
+  classifyRegionChange,
+} from "./tangle/index.ts";
+
+export type {
+  TangleSourceBlock,
+  TangleInput,
+  TangleTarget,
+  TangleError,
+  TangleResult,
+  DetangledRegion,
+  DetangleChange,
+} from "./tangle/index.ts";
+
 // ===== Target Resolution =====
 
 /**
@@ -7,9 +7,12 @@
  * - Responsive viewport
  * - Basic styling
  * - Accessibility features
+ * - Full-text search
+ * - Language switcher (with i18n)
  */
 
 import type { LayoutProps } from "../../render/types.ts";
+import SearchBox from "./SearchBox.tsx";
 
 // Import CSS - Vite will handle bundling this
 import "./index.css";
@@ -24,6 +27,8 @@ export default function DefaultLayout({
   children,
   metadata,
   base,
+  locale,
+  translations = [],
 }: LayoutProps) {
   const title = metadata.title || "Org-Press";
   const description = metadata.description;
@@ -31,7 +36,7 @@ export default function DefaultLayout({
   const date = metadata.date;
 
   return (
-    <html lang="en">
+    <html lang={locale || "en"}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -55,6 +60,22 @@ export default function DefaultLayout({
                   <a href="/">Home</a>
                 </li>
               </ul>
+              {translations.length > 1 && (
+                <ul className="nav-links locale-links">
+                  {translations.map((translation) => (
+                    <li key={translation.locale}>
+                      <a
+                        href={`${base.replace(/\/*$/, "")}${translation.url}`}
+                        hrefLang={translation.locale}
+                        aria-current={translation.locale === locale ? "page" : undefined}
+                      >
+                        {translation.locale}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <SearchBox base={base} />
             </nav>
           </header>
 
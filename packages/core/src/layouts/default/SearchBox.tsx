@@ -0,0 +1,53 @@
+/**
+ * Search box for Org-Press themes
+ *
+ * Server-rendered markup that client/search-ui.ts turns into a live
+ * search over the index written by `orgp build`. Results link straight
+ * to the matching heading (`page.html#heading-id`).
+ *
+ * Custom themes can render it anywhere:
+ *
+ * ```tsx
+ * import { SearchBox } from "org-press";
+ *
+ * <SearchBox base={base} />
+ * ```
+ */
+
+interface SearchBoxProps {
+  /** Base URL path of the site */
+  base: string;
+
+  /** Input placeholder (default: "Search") */
+  placeholder?: string;
+}
+
+/**
+ * Get the URL of the search index manifest
+ *
+ * @example
+ * getSearchIndexUrl("/docs") // "/docs/search/index.json"
+ */
+export function getSearchIndexUrl(base: string): string {
+  return `${base.replace(/\/*$/, "")}/search/index.json`;
+}
+
+/**
+ * Search box component
+ *
+ * @param props - Search box props
+ * @returns Search form markup
+ */
+export default function SearchBox({ base, placeholder = "Search" }: SearchBoxProps) {
+  return (
+    <div
+      className="site-search"
+      role="search"
+      data-org-press-search=""
+      data-index={getSearchIndexUrl(base)}
+    >
+      <input type="search" placeholder={placeholder} aria-label={placeholder} autoComplete="off" />
+      <ul className="search-results" hidden />
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  PAGE_LIST_INPUT,
+  collectPageInputs,
+  hashConfig,
+  hashLockfile,
+  hashPageList,
+  loadBuildGraph,
+  planBuild,
+  saveBuildGraph,
+  type BuildGraph,
+  type GlobalInputs,
+} from "./build-graph.ts";
+
+const globals: GlobalInputs = {
+  config: "c1",
+  theme: "t1",
+  orgPress: "1.0.0",
+  lockfile: "l1",
+};
+
+function graphWith(pages: Record<string, Record<string, string>>): BuildGraph {
+  return {
+    version: 2,
+    globals,
+    assets: { css: [], js: null },
+    pages: Object.fromEntries(
+      Object.entries(pages).map(([file, inputs]) => [
+        file,
+        { url: `/${file.replace(/\.org$/, "")}`, inputs, hydrateBlocks: [] },
+      ])
+    ),
+  };
+}
+
+describe("build graph", () => {
+  let tempDir: string;
+  let contentDir: string;
+  const key = (file: string) => path.relative(process.cwd(), file).replace(/\\/g, "/");
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "build-graph-test-"));
+    contentDir = path.join(tempDir, "content");
+    fs.mkdirSync(contentDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("planBuild", () => {
+    const sourceKeys = { "a.org": "content/a.org", "b.org": "content/b.org" };
+
+    it("should rebuild everything without a previous build", () => {
+      const plan = planBuild(null, globals, { "a.org": { "content/a.org": "1" } }, sourceKeys);
+
+      expect(plan.full).toBe(true);
+      expect(plan.fullReasons).toEqual(["no previous build"]);
+      expect(plan.rebuild.map((r) => r.file)).toEqual(["a.org"]);
+    });
+
+    it("should rebuild everything when the config or theme changes", () => {
+      const previous = graphWith({ "a.org": { "content/a.org": "1" } });
+      const plan = planBuild(
+        previous,
+        { ...globals, config: "c2", theme: "t2" },
+        { "a.org": { "content/a.org": "1" } },
+        sourceKeys
+      );
+
+      expect(plan.full).toBe(true);
+      expect(plan.fullReasons).toEqual(["config changed", "theme changed"]);
+    });
+
+    it("should rebuild everything when the lockfile changes", () => {
+      const previous = graphWith({ "a.org": { "content/a.org": "1" } });
+      const plan = planBuild(
+        previous,
+        { ...globals, lockfile: "l2" },
+        { "a.org": { "content/a.org": "1" } },
+        sourceKeys
+      );
+
+      expect(plan.full).toBe(true);
+      expect(plan.fullReasons).toEqual(["dependencies changed"]);
+    });
+
+    it("should only rebuild pages whose inputs changed", () => {
+      const previous = graphWith({
+        "a.org": { "content/a.org": "1" },
+        "b.org": { "content/b.org": "1", "content/data.org": "1" },
+      });
+      const plan = planBuild(
+        previous,
+        globals,
+        {
+          "a.org": { "content/a.org": "1" },
+          "b.org": { "content/b.org": "1", "content/data.org": "2" },
+        },
+        sourceKeys
+      );
+
+      expect(plan.full).toBe(false);
+      expect(plan.reuse).toEqual(["a.org"]);
+      expect(plan.rebuild).toEqual([
+        { file: "b.org", reasons: ["dependency changed: content/data.org"] },
+      ]);
+    });
+
+    it("should report new, changed and removed pages", () => {
+      const previous = graphWith({
+        "a.org": { "content/a.org": "1", [PAGE_LIST_INPUT]: "x" },
+        "old.org": { "content/old.org": "1" },
+      });
+      const plan = planBuild(
+        previous,
+        globals,
+        {
+          "a.org": { "content/a.org": "2", [PAGE_LIST_INPUT]: "y" },
+          "b.org": { "content/b.org": "1" },
+        },
+        sourceKeys
+      );
+
+      expect(plan.rebuild).toEqual([
+        { file: "a.org", reasons: ["source changed", "page list changed"] },
+        { file: "b.org", reasons: ["new page"] },
+      ]);
+      expect(plan.removed).toEqual(["old.org"]);
+    });
+  });
+
+  describe("collectPageInputs", () => {
+    it("should hash the page and its local imports", () => {
+      const page = path.join(contentDir, "index.org");
+      fs.writeFileSync(
+        page,
+        `#+begin_src js :use dom
+import chart from "./chart.ts";
+import rows from "./data.org?name=sales";
+import { h } from "preact";
+#+end_src
+`
+      );
+      fs.writeFileSync(path.join(contentDir, "chart.ts"), "export default 1;");
+      fs.writeFileSync(path.join(contentDir, "data.org"), "#+NAME: sales\n| a |\n");
+
+      const inputs = collectPageInputs(page, contentDir, "pages");
+
+      expect(Object.keys(inputs).sort()).toEqual(
+        [key(page), key(path.join(contentDir, "chart.ts")), key(path.join(contentDir, "data.org"))].sort()
+      );
+    });
+
+    it("should follow cross-file layouts and their imports", () => {
+      const page = path.join(contentDir, "post.org");
+      fs.mkdirSync(path.join(contentDir, "shared"));
+      fs.writeFileSync(page, "#+LAYOUT: /shared/layouts.org#base\n\nHello\n");
+      fs.writeFileSync(
+        path.join(contentDir, "shared/layouts.org"),
+        '#+NAME: base\n#+begin_src tsx\nimport Nav from "./nav.tsx";\n#+end_src\n'
+      );
+
+      const inputs = collectPageInputs(page, contentDir, "pages");
+
+      expect(inputs[key(path.join(contentDir, "shared/layouts.org"))]).toMatch(/^[0-9a-f]{16}$/);
+      expect(inputs[key(path.join(contentDir, "shared/nav.tsx"))]).toBe("missing");
+    });
+
+    it("should depend on the page list when the page queries pages", () => {
+      const page = path.join(contentDir, "blog.org");
+      fs.writeFileSync(
+        page,
+        "#+begin_src js :use server\nreturn renderPageList(await getContentPages());\n#+end_src\n"
+      );
+
+      expect(collectPageInputs(page, contentDir, "pages")[PAGE_LIST_INPUT]).toBe("pages");
+    });
+
+    it("should follow relative imports of imported modules transitively", () => {
+      const page = path.join(contentDir, "index.org");
+      fs.mkdirSync(path.join(contentDir, "lib"));
+      fs.writeFileSync(
+        page,
+        '#+begin_src tsx :use dom\nimport Chart from "./chart.tsx";\n#+end_src\n'
+      );
+      fs.writeFileSync(
+        path.join(contentDir, "chart.tsx"),
+        'import { scale } from "./lib/scale.js";\nimport { h } from "preact";\nexport default () => scale;\n'
+      );
+      fs.writeFileSync(
+        path.join(contentDir, "lib/scale.ts"),
+        'export { palette } from "./colors";\nexport const scale = 2;\n'
+      );
+      fs.writeFileSync(path.join(contentDir, "lib/colors.ts"), "export const palette = [];\n");
+
+      const inputs = collectPageInputs(page, contentDir, "pages");
+
+      expect(Object.keys(inputs).sort()).toEqual(
+        [
+          key(page),
+          key(path.join(contentDir, "chart.tsx")),
+          key(path.join(contentDir, "lib/scale.ts")),
+          key(path.join(contentDir, "lib/colors.ts")),
+        ].sort()
+      );
+    });
+  });
+
+  describe("hashLockfile", () => {
+    it("should hash the nearest lockfile of the project or its parents", () => {
+      const project = path.join(tempDir, "packages/site");
+      fs.mkdirSync(project, { recursive: true });
+      fs.writeFileSync(path.join(tempDir, "pnpm-lock.yaml"), "lockfileVersion: '9.0'\n");
+
+      const before = hashLockfile(project);
+      expect(before).toMatch(/^[0-9a-f]{16}$/);
+
+      fs.writeFileSync(path.join(tempDir, "pnpm-lock.yaml"), "lockfileVersion: '9.1'\n");
+      expect(hashLockfile(project)).not.toBe(before);
+    });
+  });
+
+  describe("hashPageList", () => {
+    it("should ignore page order but not metadata", () => {
+      const a = { file: "a.org", url: "/a", metadata: { title: "A" } };
+      const b = { file: "b.org", url: "/b", metadata: { title: "B" } };
+
+      expect(hashPageList([a, b])).toBe(hashPageList([b, a]));
+      expect(hashPageList([a, b])).not.toBe(
+        hashPageList([a, { ...b, metadata: { title: "B2" } }])
+      );
+    });
+  });
+
+  describe("hashConfig", () => {
+    it("should hash functions by their source", () => {
+      const base = { plugins: [{ name: "p", transform: (code: string) => code }] };
+      const changed = { plugins: [{ name: "p", transform: (code: string) => code.trim() }] };
+
+      expect(hashConfig(base)).toBe(hashConfig({ ...base }));
+      expect(hashConfig(base)).not.toBe(hashConfig(changed));
+    });
+
+    it("should handle circular references", () => {
+      const config: any = { contentDir: "content" };
+      config.self = config;
+
+      expect(() => hashConfig(config)).not.toThrow();
+    });
+  });
+
+  describe("loadBuildGraph / saveBuildGraph", () => {
+    it("should round-trip the graph", () => {
+      const { version, ...graph } = graphWith({ "a.org": { "content/a.org": "1" } });
+      saveBuildGraph(tempDir, graph);
+
+      expect(loadBuildGraph(tempDir)).toEqual({ version, ...graph });
+    });
+
+    it("should ignore missing graphs and other versions", () => {
+      expect(loadBuildGraph(tempDir)).toBeNull();
+
+      fs.writeFileSync(path.join(tempDir, "build-graph.json"), JSON.stringify({ version: 0 }));
+      expect(loadBuildGraph(tempDir)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,492 @@
+/**
+ * Build Graph - Records the inputs of each rendered page
+ *
+ * `orgp build` persists the graph in the cache directory. The next build
+ * compares every page's inputs against it and only re-renders pages whose
+ * inputs changed:
+ *
+ * - the page's org source
+ * - files it imports from code blocks (`./chart.ts`, `./data.org?name=sales`),
+ *   and the relative imports of imported JS/TS modules, transitively
+ * - cross-file layouts and wrappers (`#+LAYOUT: ./layouts.org#base`)
+ * - the page list, for pages that query other pages (`getContentPages`)
+ *
+ * Global inputs (config, theme, org-press version, package lockfile)
+ * invalidate every page.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  parseCrossFileLayoutRef,
+  resolveCrossFilePath,
+} from "../../render/cross-file-layout.ts";
+import type { BlockEntry } from "./hydrate-registry.ts";
+
+/** Graph file name inside the cache directory */
+export const BUILD_GRAPH_FILE = "build-graph.json";
+
+/** Bumped when the graph format changes (older graphs are discarded) */
+const BUILD_GRAPH_VERSION = 2;
+
+/** Input key of the page list fingerprint */
+export const PAGE_LIST_INPUT = "<pages>";
+
+/** Input key of a translated page's translation URLs */
+export const TRANSLATIONS_INPUT = "<translations>";
+
+/**
+ * Global build inputs (a change rebuilds every page)
+ */
+export interface GlobalInputs {
+  /** Hash of the resolved config */
+  config: string;
+  /** Hash of the theme directory */
+  theme: string;
+  /** Installed org-press version */
+  orgPress: string;
+  /** Hash of the package manager lockfile (see hashLockfile) */
+  lockfile: string;
+}
+
+/**
+ * Recorded state of a rendered page
+ */
+export interface PageRecord {
+  /** Page URL */
+  url: string;
+  /** Input hashes, keyed by project-relative path (or PAGE_LIST_INPUT) */
+  inputs: Record<string, string>;
+  /** Blocks registered for hydration during pre-parse */
+  hydrateBlocks: BlockEntry[];
+  /** Hydrate script injected into the page, if any */
+  hydrateScript?: string;
+}
+
+/**
+ * Client assets injected into every page
+ */
+export interface RecordedAssets {
+  css: string[];
+  js: string | null;
+}
+
+/**
+ * Persisted build graph
+ */
+export interface BuildGraph {
+  version: number;
+  globals: GlobalInputs;
+  assets: RecordedAssets;
+  /** Page records keyed by org path relative to the content dir */
+  pages: Record<string, PageRecord>;
+  /** URLs of generated pages (tag listings) */
+  generated?: string[];
+}
+
+/**
+ * Why a page is re-rendered
+ */
+export interface RebuildReason {
+  /** Org path relative to the content dir */
+  file: string;
+  /** Human-readable reasons, e.g. "source changed" */
+  reasons: string[];
+}
+
+/**
+ * Pages to re-render and pages to reuse
+ */
+export interface BuildPlan {
+  /** True when every page is re-rendered */
+  full: boolean;
+  /** Reasons for a full build */
+  fullReasons: string[];
+  /** Pages to re-render */
+  rebuild: RebuildReason[];
+  /** Pages whose previous output is reused */
+  reuse: string[];
+  /** Pages of the previous build that no longer exist */
+  removed: string[];
+}
+
+/**
+ * Hash a file or string
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+/**
+ * Convert an absolute path to a project-relative input key
+ */
+function toInputKey(absolutePath: string): string {
+  return path.relative(process.cwd(), absolutePath).replace(/\\/g, "/");
+}
+
+/**
+ * Hash a file, or return "missing" if it doesn't exist
+ */
+function hashFile(absolutePath: string): string {
+  try {
+    return hashContent(fs.readFileSync(absolutePath));
+  } catch {
+    return "missing";
+  }
+}
+
+/**
+ * Load the graph of the previous build
+ *
+ * @param cacheDir - Cache directory
+ * @returns Graph, or null if there is none or it has an older format
+ */
+export function loadBuildGraph(cacheDir: string): BuildGraph | null {
+  try {
+    const graph = JSON.parse(
+      fs.readFileSync(path.join(cacheDir, BUILD_GRAPH_FILE), "utf-8")
+    ) as BuildGraph;
+    return graph.version === BUILD_GRAPH_VERSION ? graph : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist the build graph
+ *
+ * @param cacheDir - Cache directory
+ * @param graph - Graph without version (added here)
+ */
+export function saveBuildGraph(
+  cacheDir: string,
+  graph: Omit<BuildGraph, "version">
+): void {
+  fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(cacheDir, BUILD_GRAPH_FILE),
+    JSON.stringify({ version: BUILD_GRAPH_VERSION, ...graph }, null, 2)
+  );
+}
+
+/**
+ * Hash a config object
+ *
+ * Functions (plugin hooks, vite plugins) are hashed by their source.
+ */
+export function hashConfig(config: unknown): string {
+  const seen = new WeakSet<object>();
+  return hashContent(
+    JSON.stringify(config, (_key, value) => {
+      if (typeof value === "function") {
+        return value.toString();
+      }
+      if (typeof value === "object" && value !== null) {
+        if (seen.has(value)) return "[Circular]";
+        seen.add(value);
+      }
+      return value;
+    }) ?? ""
+  );
+}
+
+/**
+ * Hash every file of a directory (node_modules excluded)
+ */
+export function hashDirectory(dir: string): string {
+  const hash = createHash("sha256");
+
+  function walk(current: string): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== "node_modules") walk(fullPath);
+      } else if (entry.isFile()) {
+        hash.update(path.relative(dir, fullPath));
+        hash.update(fs.readFileSync(fullPath));
+      }
+    }
+  }
+
+  walk(dir);
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Package manager lockfiles, in lookup order
+ */
+const LOCKFILES = ["pnpm-lock.yaml", "package-lock.json", "yarn.lock", "bun.lock", "bun.lockb"];
+
+/**
+ * Hash the package manager lockfile
+ *
+ * Looks in the project root, then its parents (workspace roots), so
+ * dependency upgrades invalidate every page.
+ *
+ * @param projectRoot - Absolute project root
+ * @returns Hash of the nearest lockfile, or "missing"
+ */
+export function hashLockfile(projectRoot: string): string {
+  for (let dir = projectRoot; ; dir = path.dirname(dir)) {
+    for (const name of LOCKFILES) {
+      const lockfile = path.join(dir, name);
+      if (fs.existsSync(lockfile)) {
+        return hashFile(lockfile);
+      }
+    }
+    if (path.dirname(dir) === dir) {
+      return "missing";
+    }
+  }
+}
+
+/**
+ * Match import specifiers in static imports, re-exports and dynamic imports
+ */
+const IMPORT_PATTERN = /(?:\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)["']([^"'\n]+)["']/g;
+
+/**
+ * Match #+LAYOUT: and #+WRAPPER: keywords
+ */
+const LAYOUT_KEYWORD = /^\s*#\+(?:layout|wrapper):\s*(\S+)\s*$/gim;
+
+/**
+ * Match calls that list other pages, and #+PAGINATE: listings
+ */
+const PAGE_QUERY_PATTERN = /\b(getContentPages|getContentPagesFromDirectory|getPagesByTag|getTags|getCollection|renderPageList)\b|^[ \t]*#\+paginate:/im;
+
+/**
+ * JS/TS modules whose relative imports are followed
+ */
+const MODULE_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+/**
+ * Extensions tried for extensionless module imports (`./utils`)
+ */
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mts", ".mjs", ".cts", ".cjs"];
+
+/**
+ * Resolve an import to an existing file
+ *
+ * Tries the path as written, TypeScript's `.js` -> `.ts` mapping, added
+ * extensions and directory indexes. Unresolvable paths are returned as is
+ * (and hashed as "missing").
+ */
+function resolveImportFile(candidate: string): string {
+  const ext = path.extname(candidate);
+  const stem = candidate.slice(0, candidate.length - ext.length);
+  const tries = [
+    candidate,
+    ...(/^\.[cm]?jsx?$/.test(ext) ? [stem + ext.replace("js", "ts")] : []),
+    ...MODULE_EXTENSIONS.map((extension) => candidate + extension),
+    ...MODULE_EXTENSIONS.map((extension) => path.join(candidate, `index${extension}`)),
+  ];
+
+  return tries.find((file) => fs.statSync(file, { throwIfNoEntry: false })?.isFile()) ?? candidate;
+}
+
+/**
+ * Resolve the relative imports of a JS/TS module
+ */
+function resolveModuleDependencies(content: string, moduleFile: string): string[] {
+  const dependencies: string[] = [];
+
+  for (const match of content.matchAll(IMPORT_PATTERN)) {
+    const specifier = match[1].split("?")[0];
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+      dependencies.push(resolveImportFile(path.resolve(path.dirname(moduleFile), specifier)));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Resolve the local files an org file depends on
+ *
+ * - `./x` and `../x` imports resolve from the org file's directory
+ * - `/x.org` imports and layouts resolve from the content dir, other `/x`
+ *   imports from the project root
+ * - package imports are ignored
+ */
+function resolveFileDependencies(
+  content: string,
+  orgFile: string,
+  contentDir: string
+): string[] {
+  const dependencies: string[] = [];
+
+  for (const match of content.matchAll(IMPORT_PATTERN)) {
+    const specifier = match[1].split("?")[0];
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+      dependencies.push(resolveImportFile(path.resolve(path.dirname(orgFile), specifier)));
+    } else if (specifier.startsWith("/")) {
+      const root = specifier.endsWith(".org") ? contentDir : process.cwd();
+      dependencies.push(resolveImportFile(path.join(root, specifier.slice(1))));
+    }
+  }
+
+  for (const match of content.matchAll(LAYOUT_KEYWORD)) {
+    const ref = parseCrossFileLayoutRef(match[1]);
+    if (ref) {
+      dependencies.push(resolveCrossFilePath(ref, orgFile, contentDir));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Collect the input hashes of a page
+ *
+ * Dependencies of imported org files (e.g. a layout file importing a
+ * component) and relative imports of JS/TS modules (a component importing
+ * a helper) are followed as well.
+ *
+ * @param orgFile - Absolute path to the page's org file
+ * @param contentDir - Absolute content directory
+ * @param pageListHash - Fingerprint of the page list (see hashPageList)
+ * @returns Input hashes keyed by project-relative path
+ */
+export function collectPageInputs(
+  orgFile: string,
+  contentDir: string,
+  pageListHash: string
+): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  const pending = [orgFile];
+
+  while (pending.length > 0) {
+    const file = pending.shift()!;
+    const key = toInputKey(file);
+    if (key in inputs) continue;
+
+    inputs[key] = hashFile(file);
+
+    if (file.endsWith(".org") && inputs[key] !== "missing") {
+      const content = fs.readFileSync(file, "utf-8");
+      pending.push(...resolveFileDependencies(content, file, contentDir));
+
+      if (PAGE_QUERY_PATTERN.test(content)) {
+        inputs[PAGE_LIST_INPUT] = pageListHash;
+      }
+    } else if (MODULE_FILE.test(file) && inputs[key] !== "missing") {
+      pending.push(...resolveModuleDependencies(fs.readFileSync(file, "utf-8"), file));
+    }
+  }
+
+  return inputs;
+}
+
+/**
+ * Hash the page list (URLs and metadata of all pages)
+ */
+export function hashPageList(
+  pages: Array<{ file: string; url: string; metadata: Record<string, any> }>
+): string {
+  return hashContent(
+    JSON.stringify(
+      pages
+        .map(({ file, url, metadata }) => ({ file, url, metadata }))
+        .sort((a, b) => a.file.localeCompare(b.file))
+    )
+  );
+}
+
+/**
+ * Describe why a page's inputs differ from its record
+ */
+function describeChanges(
+  inputs: Record<string, string>,
+  previous: Record<string, string>,
+  sourceKey: string
+): string[] {
+  const reasons: string[] = [];
+  const keys = new Set([...Object.keys(inputs), ...Object.keys(previous)]);
+
+  for (const key of keys) {
+    if (inputs[key] === previous[key]) continue;
+
+    if (key === sourceKey) {
+      reasons.push("source changed");
+    } else if (key === PAGE_LIST_INPUT) {
+      reasons.push("page list changed");
+    } else if (!(key in inputs)) {
+      reasons.push(`no longer depends on ${key}`);
+    } else if (!(key in previous)) {
+      reasons.push(`new dependency ${key}`);
+    } else {
+      reasons.push(`dependency changed: ${key}`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Plan which pages to re-render
+ *
+ * @param previous - Graph of the previous build (null for a full build)
+ * @param globals - Global inputs of this build
+ * @param pages - Input hashes of every page, keyed by content-relative path
+ * @param sourceKeys - Input key of each page's own org file
+ * @returns Build plan
+ */
+export function planBuild(
+  previous: BuildGraph | null,
+  globals: GlobalInputs,
+  pages: Record<string, Record<string, string>>,
+  sourceKeys: Record<string, string>
+): BuildPlan {
+  const files = Object.keys(pages);
+  const fullReasons: string[] = [];
+
+  if (!previous) {
+    fullReasons.push("no previous build");
+  } else {
+    if (previous.globals.config !== globals.config) fullReasons.push("config changed");
+    if (previous.globals.theme !== globals.theme) fullReasons.push("theme changed");
+    if (previous.globals.orgPress !== globals.orgPress) fullReasons.push("org-press version changed");
+    if (previous.globals.lockfile !== globals.lockfile) fullReasons.push("dependencies changed");
+  }
+
+  const removed = previous
+    ? Object.keys(previous.pages).filter((file) => !(file in pages))
+    : [];
+
+  if (fullReasons.length > 0) {
+    return {
+      full: true,
+      fullReasons,
+      rebuild: files.map((file) => ({ file, reasons: fullReasons })),
+      reuse: [],
+      removed,
+    };
+  }
+
+  const rebuild: RebuildReason[] = [];
+  const reuse: string[] = [];
+
+  for (const file of files) {
+    const record = previous!.pages[file];
+    const reasons = record
+      ? describeChanges(pages[file], record.inputs, sourceKeys[file])
+      : ["new page"];
+
+    if (reasons.length > 0) {
+      rebuild.push({ file, reasons });
+    } else {
+      reuse.push(file);
+    }
+  }
+
+  return { full: false, fullReasons, rebuild, reuse, removed };
+}
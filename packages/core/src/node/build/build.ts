@@ -13,7 +13,29 @@ import pMap from "p-map";
 import type { OrgPressConfig, ThemeConfig } from "../../config/types.ts";
 import { getContentPages } from "../../content.ts";
 import { HydrateRegistry } from "./hydrate-registry.ts";
+import { injectCanonicalLink, isIndexPage, writeSiteFiles } from "./sitemap.ts";
+import { injectFeedLinks, writeFeeds } from "./feeds.ts";
+import { writeSearchIndex } from "./search.ts";
+import { getTagPages, type GeneratedPage } from "./taxonomy.ts";
+import { getPaginatedPages, type PaginatedPage } from "./paginate.ts";
+import { getFallbackPages, injectAlternateLinks, type FallbackPage } from "./i18n.ts";
+import { getTranslations } from "../../routing/i18n.ts";
+import {
+  TRANSLATIONS_INPUT,
+  collectPageInputs,
+  hashConfig,
+  hashDirectory,
+  hashLockfile,
+  hashPageList,
+  loadBuildGraph,
+  planBuild,
+  saveBuildGraph,
+  type BuildPlan,
+  type GlobalInputs,
+  type PageRecord,
+} from "./build-graph.ts";
 import { initializeRenderApi } from "../../plugins/preview-init.ts";
+import { buildApiServer } from "../../plugins/builtin/api/server-build.ts";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -42,6 +64,12 @@ export interface BuildOptions {
 
   /** Parallel rendering (default: true) */
   parallel?: boolean;
+
+  /** Only re-render pages whose inputs changed since the last build (default: true) */
+  incremental?: boolean;
+
+  /** Log why each page is re-rendered */
+  explain?: boolean;
 }
 
 /**
@@ -51,11 +79,20 @@ export interface BuildResult {
   /** Number of pages rendered */
   pageCount: number;
 
+  /** Number of unchanged pages reused from the previous build */
+  reusedCount: number;
+
   /** Build duration in milliseconds */
   duration: number;
 
   /** Output directory */
   outDir: string;
+
+  /** Number of API routes in the server bundle */
+  apiRouteCount: number;
+
+  /** API server output directory (null if there are no :use api endpoints) */
+  serverDir: string | null;
 }
 
 /**
@@ -89,11 +126,15 @@ interface ViteManifest {
  * Build org-press site
  *
  * Process:
- * 1. Build client assets (Vite build)
- * 2. Build SSR bundle (Vite build --ssr)
- * 3. Pre-render pages (parallel)
- * 4. Copy cache files to dist
- * 5. Generate asset manifest
+ * 1. Plan which pages changed since the last build (see build-graph.ts)
+ * 2. Pre-parse changed pages to collect hydrated blocks
+ * 3. Build client assets (Vite build), unless no hydrated page changed
+ * 4. Build SSR bundle (Vite build --ssr), unless only content changed
+ * 5. Pre-render changed pages (parallel), write sitemap, robots.txt,
+ *    feeds and the search index
+ * 6. Copy cache files to dist
+ * 7. Emit API server for :use api endpoints
+ * 8. Save the build graph
  *
  * @param options - Build options
  * @returns Build result
@@ -115,61 +156,243 @@ export async function build(options: BuildOptions): Promise<BuildResult> {
 
   try {
     const absoluteOutDir = path.resolve(process.cwd(), outDir);
+    const absoluteContentDir = path.resolve(process.cwd(), contentDir);
+
+    // Step 1: Compare page inputs with the previous build
+    const pages = await getContentPages({
+      includeDrafts: false,
+      contentDir: config.contentDir,
+      i18n: config.i18n,
+    });
+    const previous =
+      options.incremental !== false && fs.existsSync(absoluteOutDir)
+        ? loadBuildGraph(config.cacheDir)
+        : null;
+    const globals = await getGlobalInputs(config);
+    const pageListHash = hashPageList(pages);
+    const inputs: Record<string, Record<string, string>> = {};
+    const sourceKeys: Record<string, string> = {};
+    for (const page of pages) {
+      const orgFile = path.join(absoluteContentDir, page.file);
+      inputs[page.file] = collectPageInputs(orgFile, absoluteContentDir, pageListHash);
+      if (config.i18n) {
+        // hreflang alternates and layouts list the page's translations
+        inputs[page.file][TRANSLATIONS_INPUT] = getTranslations(pages, page.url, config.i18n)
+          .map((translation) => translation.url)
+          .join(" ");
+      }
+      sourceKeys[page.file] = path.relative(process.cwd(), orgFile).replace(/\\/g, "/");
+    }
+
+    const plan = planBuild(previous, globals, inputs, sourceKeys);
+    for (const file of [...plan.reuse]) {
+      const page = pages.find((p) => p.file === file)!;
+      if (!fs.existsSync(getPageOutputPath(config, page))) {
+        markForRebuild(plan, file, "output missing");
+      }
+    }
 
     // Create hydrate registry
     const registry = new HydrateRegistry();
+    const registryPath = (file: string) => path.join(contentDir, file);
 
-    // Step 1: Pre-parse all org files to collect blocks
+    // Step 2: Pre-parse changed org files to collect blocks
     console.log("[org-press:build] Pre-parsing org files...");
-    await preparsePagesForHydration(config, registry);
+    if (plan.full) {
+      await preparsePagesForHydration(config, registry);
+    } else {
+      await preparsePagesForHydration(
+        config,
+        registry,
+        plan.rebuild.map(({ file }) => file)
+      );
+      // Unchanged pages keep the blocks recorded by the previous build
+      for (const file of plan.reuse) {
+        for (const block of previous!.pages[file].hydrateBlocks) {
+          registry.addModule(
+            registryPath(file),
+            block.blockId,
+            block.ext,
+            block.cachePath,
+            block.virtualModuleId,
+            block.modeName
+          );
+        }
+      }
+    }
 
-    // Step 2: Generate hydrate entry files
+    // Step 3: Generate hydrate entry files
     const hydrateEntries = registry.generateEntries(config.cacheDir);
     if (hydrateEntries.length > 0) {
       console.log(`[org-press:build] Generated ${hydrateEntries.length} hydrate entries`);
     }
 
-    // Step 3: Build client assets (pass hydrate entries)
-    console.log("[org-press:build] Building client assets...");
-    const assetManifest = await buildClientAssets(absoluteOutDir, config, hydrateEntries);
+    // Step 4: Build client assets (pass hydrate entries)
+    const clientChanged =
+      plan.full ||
+      !fs.existsSync(getClientManifestPath(config)) ||
+      plan.rebuild.some(
+        ({ file }) =>
+          (registry.getBlocks(registryPath(file))?.length ?? 0) > 0 ||
+          (previous?.pages[file]?.hydrateBlocks.length ?? 0) > 0
+      );
+
+    let assetManifest: AssetManifest;
+    if (clientChanged) {
+      console.log("[org-press:build] Building client assets...");
+      assetManifest = await buildClientAssets(absoluteOutDir, config, hydrateEntries, {
+        keepPages: !plan.full,
+      });
+    } else {
+      console.log("[org-press:build] Reusing client assets...");
+      assetManifest = readAssetManifest(config, hydrateEntries);
+    }
 
-    // Step 4: Build SSR bundle
-    console.log("[org-press:build] Building SSR bundle...");
-    await buildSSRBundle(config);
+    // Unchanged pages link the previous assets and hydrate scripts
+    if (previous && !plan.full) {
+      const assetsChanged =
+        JSON.stringify(previous.assets) !==
+        JSON.stringify({ css: assetManifest.css, js: assetManifest.js });
+      for (const file of [...plan.reuse]) {
+        const hydrateScript = assetManifest.hydrateEntries.get(registryPath(file));
+        if (assetsChanged) {
+          markForRebuild(plan, file, "client assets changed");
+        } else if (hydrateScript !== previous.pages[file].hydrateScript) {
+          markForRebuild(plan, file, "hydrate entry changed");
+        }
+      }
+    }
 
-    // Step 5: Get all routes and pre-render pages
-    console.log("[org-press:build] Pre-rendering pages...");
-    const pages = await getContentPages({
-      includeDrafts: false,
-      contentDir: config.contentDir,
-    });
+    // Step 5: Build SSR bundle
+    if (plan.full || !findServerEntry(config)) {
+      console.log("[org-press:build] Building SSR bundle...");
+      await buildSSRBundle(config);
+    } else {
+      console.log("[org-press:build] Reusing SSR bundle...");
+    }
 
-    const { successful, failed } = await prerenderPages(
+    // Step 6: Pre-render changed pages
+    logBuildPlan(plan, pages.length, options.explain);
+    console.log("[org-press:build] Pre-rendering pages...");
+    const rebuildFiles = new Set(plan.rebuild.map(({ file }) => file));
+    const { successful, failed, rendered } = await prerenderPages(
       config,
-      pages,
-      assetManifest
+      pages.filter((page) => rebuildFiles.has(page.file)),
+      assetManifest,
+      pages
     );
 
-    // Step 6: Copy cache directory to dist
+    for (const file of plan.removed) {
+      const outputPath = getPageOutputPath(config, {
+        file,
+        url: previous!.pages[file].url,
+      });
+      fs.rmSync(outputPath, { force: true });
+    }
+
+    // Tag and paginated listings list other pages, and translation fallbacks
+    // depend on which translations exist, so they are rendered on every build
+    const tagPages = getTagPages(config, pages);
+    const paginatedPages = await getPaginatedPages(config, pages);
+    const fallbackPages = getFallbackPages(config, pages);
+    const generatedPages = [...tagPages, ...paginatedPages, ...fallbackPages];
+    const generatedResult = await prerenderPages(config, generatedPages, assetManifest, pages);
+    for (const url of previous?.generated ?? []) {
+      // A content page may have taken over the URL
+      if (![...generatedPages, ...pages].some((page) => page.url === url)) {
+        fs.rmSync(getPageOutputPath(config, { file: "index.org", url }), { force: true });
+      }
+    }
+    if (generatedPages.length > 0) {
+      console.log(
+        `[org-press:build] Rendered ${generatedResult.successful} generated pages (tags, pagination, translation fallbacks)`
+      );
+    }
+
+    // Sitemap, robots.txt and feeds list every page, reused or not
+    // (fallbacks duplicate their original, so they are left out)
+    const siteFiles = writeSiteFiles(config, [...pages, ...tagPages, ...paginatedPages]);
+    const feedFiles = await writeFeeds(config);
+    for (const file of [siteFiles.sitemap, siteFiles.robots, ...feedFiles]) {
+      if (file) {
+        console.log(`[org-press:build] Wrote ${path.relative(process.cwd(), file)}`);
+      }
+    }
+
+    // So does the search index
+    const searchFiles = await writeSearchIndex(config, pages);
+    if (searchFiles.length > 0) {
+      console.log(
+        `[org-press:build] Wrote search index (${searchFiles.length} files) to ${path.relative(process.cwd(), path.dirname(searchFiles[0]))}`
+      );
+    }
+
+    // Step 7: Copy cache directory to dist
     console.log("[org-press:build] Copying cache directory...");
     await copyCacheToDist(config);
 
-    // Step 7: Cleanup
+    // Step 8: Emit API server (handlers never ship to the client)
+    const api = await buildApiServer(
+      config,
+      discoverPages(absoluteContentDir).map((orgFile) =>
+        path.join(contentDir, orgFile)
+      ),
+      absoluteOutDir
+    );
+    if (api.serverDir) {
+      console.log(
+        `[org-press:build] Emitted API server with ${api.routeCount} route${api.routeCount === 1 ? "" : "s"} to ${path.relative(process.cwd(), api.serverDir)}/`
+      );
+    }
+
+    // Step 9: Record page inputs for the next build (failed pages are left out)
+    const renderedFiles = new Set(rendered);
+    const records: Record<string, PageRecord> = {};
+    for (const page of pages) {
+      if (!renderedFiles.has(page.file) && !plan.reuse.includes(page.file)) {
+        continue;
+      }
+      records[page.file] = {
+        url: page.url,
+        inputs: inputs[page.file],
+        hydrateBlocks: registry.getBlocks(registryPath(page.file)) ?? [],
+        hydrateScript: assetManifest.hydrateEntries.get(registryPath(page.file)),
+      };
+    }
+    saveBuildGraph(config.cacheDir, {
+      globals,
+      assets: { css: assetManifest.css, js: assetManifest.js },
+      pages: records,
+      generated: generatedResult.renderedUrls,
+    });
+
+    // Step 10: Cleanup
     console.log("[org-press:build] Cleaning up...");
     await cleanup(config);
 
     // Summary
     const duration = Date.now() - startTime;
     console.log(`\n[org-press:build] Build complete in ${(duration / 1000).toFixed(2)}s!`);
-    console.log(`[org-press:build] ✓ ${successful} pages rendered successfully`);
-    if (failed > 0) {
-      console.log(`[org-press:build] ✗ ${failed} pages failed`);
+    console.log(`[org-press:build] ✓ ${successful + generatedResult.successful} pages rendered successfully`);
+    if (plan.reuse.length > 0) {
+      console.log(`[org-press:build] ✓ ${plan.reuse.length} unchanged pages reused`);
+    }
+    if (failed + generatedResult.failed > 0) {
+      console.log(`[org-press:build] ✗ ${failed + generatedResult.failed} pages failed`);
+    }
+    if (api.serverDir) {
+      console.log(
+        `[org-press:build] ✓ API server: node ${path.relative(process.cwd(), path.join(api.serverDir, "server.mjs"))}`
+      );
     }
 
     return {
-      pageCount: successful,
+      pageCount: successful + generatedResult.successful,
+      reusedCount: plan.reuse.length,
       duration,
       outDir: absoluteOutDir,
+      apiRouteCount: api.routeCount,
+      serverDir: api.serverDir,
     };
   } catch (error) {
     console.error("[org-press:build] Build failed:", error);
@@ -177,6 +400,68 @@ export async function build(options: BuildOptions): Promise<BuildResult> {
   }
 }
 
+/**
+ * Get the inputs that invalidate every page
+ */
+async function getGlobalInputs(config: OrgPressConfig): Promise<GlobalInputs> {
+  const themePathStr = resolveThemePath(config.theme);
+  const themePath = path.isAbsolute(themePathStr)
+    ? themePathStr
+    : path.resolve(process.cwd(), themePathStr);
+
+  let orgPressVersion = "unknown";
+  try {
+    const { createRequire } = await import("node:module");
+    const require = createRequire(import.meta.url);
+    orgPressVersion = require("org-press/package.json").version;
+  } catch {
+    // Not resolvable (e.g. running from source)
+  }
+
+  return {
+    config: hashConfig(config),
+    theme: hashDirectory(path.dirname(themePath)),
+    orgPress: orgPressVersion,
+    lockfile: hashLockfile(process.cwd()),
+  };
+}
+
+/**
+ * Move a page from the reused pages to the re-rendered pages
+ */
+function markForRebuild(plan: BuildPlan, file: string, reason: string): void {
+  plan.reuse = plan.reuse.filter((reused) => reused !== file);
+  plan.rebuild.push({ file, reasons: [reason] });
+}
+
+/**
+ * Log which pages are re-rendered (and why, with --explain)
+ */
+function logBuildPlan(plan: BuildPlan, pageCount: number, explain?: boolean): void {
+  if (plan.full) {
+    console.log(
+      `[org-press:build] Full build of ${pageCount} pages (${plan.fullReasons.join(", ")})`
+    );
+    return;
+  }
+
+  console.log(
+    `[org-press:build] Incremental build: ${plan.rebuild.length} changed, ${plan.reuse.length} unchanged` +
+      (plan.removed.length > 0 ? `, ${plan.removed.length} removed` : "")
+  );
+
+  if (!explain) {
+    return;
+  }
+
+  for (const { file, reasons } of plan.rebuild) {
+    console.log(`  ↻ ${file} - ${reasons.join(", ")}`);
+  }
+  for (const file of plan.removed) {
+    console.log(`  - ${file} - removed`);
+  }
+}
+
 /**
  * Get all script files in cache directory (JS, TS, TSX, JSX)
  */
@@ -239,19 +524,26 @@ function getThemeEntryPoint(config: OrgPressConfig): Record<string, string> {
  *
  * This runs BEFORE client build so we know all blocks upfront.
  * Blocks are written to cache and registered with the HydrateRegistry.
+ *
+ * @param files - Org files to parse, relative to the content dir (default: all)
  */
 async function preparsePagesForHydration(
   config: OrgPressConfig,
-  registry: HydrateRegistry
+  registry: HydrateRegistry,
+  files?: string[]
 ): Promise<void> {
   const contentDir = config.contentDir || "content";
   const absoluteContentDir = path.resolve(process.cwd(), contentDir);
 
   // Discover all .org files
-  const orgFiles = discoverPages(absoluteContentDir);
+  const orgFiles = files ?? discoverPages(absoluteContentDir);
 
   if (orgFiles.length === 0) {
-    console.log("[org-press:build] No org files found to pre-parse");
+    console.log(
+      files
+        ? "[org-press:build] No changed org files to pre-parse"
+        : "[org-press:build] No org files found to pre-parse"
+    );
     return;
   }
 
@@ -288,13 +580,24 @@ async function preparsePagesForHydration(
   }
 }
 
+/**
+ * Get the Vite manifest path of the client build
+ */
+function getClientManifestPath(config: OrgPressConfig): string {
+  return path.join(config.cacheDir, "client", ".vite/manifest.json");
+}
+
 /**
  * Build client assets using Vite
+ *
+ * @param options.keepPages - Only replace dist/assets, keeping rendered pages
+ *   of the previous build (incremental builds)
  */
 async function buildClientAssets(
   outDir: string,
   config: OrgPressConfig,
-  hydrateEntries: string[] = []
+  hydrateEntries: string[] = [],
+  options: { keepPages?: boolean } = {}
 ): Promise<AssetManifest> {
   const cacheScriptFiles = getCacheScriptFiles(config);
   const themeFiles = getThemeEntryPoint(config);
@@ -461,15 +764,24 @@ async function buildClientAssets(
   console.log(
     `[org-press:build] Copying client assets to ${outDir}`
   );
-  if (fs.existsSync(outDir)) {
-    fs.rmSync(outDir, { recursive: true });
+  const staleDir = options.keepPages ? path.join(outDir, "assets") : outDir;
+  if (fs.existsSync(staleDir)) {
+    fs.rmSync(staleDir, { recursive: true });
   }
   copyDirectoryRecursive(clientBuildDir, outDir);
 
-  // Read manifest for asset paths
-  const manifestPath = path.join(clientBuildDir, ".vite/manifest.json");
+  return readAssetManifest(config, hydrateEntries);
+}
+
+/**
+ * Read asset paths from the client build's Vite manifest
+ */
+function readAssetManifest(
+  config: OrgPressConfig,
+  hydrateEntries: string[]
+): AssetManifest {
   const viteManifest: ViteManifest = JSON.parse(
-    fs.readFileSync(manifestPath, "utf-8")
+    fs.readFileSync(getClientManifestPath(config), "utf-8")
   );
 
   const cssPaths: string[] = [];
@@ -636,38 +948,78 @@ interface ContentPage {
 }
 
 /**
- * Pre-render all pages to static HTML
+ * Find the SSR bundle entry
+ *
+ * Vite outputs .mjs for ESM projects by default, falling back to .js.
+ *
+ * @returns Absolute entry path, or null if the SSR bundle wasn't built
+ */
+function findServerEntry(config: OrgPressConfig): string | null {
+  for (const file of ["server/entry-generate.mjs", "server/entry-generate.js"]) {
+    const entryPath = path.resolve(config.cacheDir, file);
+    if (fs.existsSync(entryPath)) {
+      return entryPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the output HTML path of a page
+ *
+ * index.org files -> dir/index.html (e.g., guide/index.org -> guide/index.html,
+ *   guide/index.ja.org -> ja/guide/index.html)
+ * other files -> path.html (e.g., guide/getting-started.org -> guide/getting-started.html)
+ */
+function getPageOutputPath(
+  config: OrgPressConfig,
+  page: { file: string; url: string }
+): string {
+  if (page.url === "/") {
+    return `${config.outDir}/index.html`;
+  }
+  if (isIndexPage(page)) {
+    return `${config.outDir}${page.url}/index.html`;
+  }
+  return `${config.outDir}${page.url}.html`;
+}
+
+/**
+ * Pre-render pages to static HTML
+ *
+ * Generated pages (tag listings) are rendered from their org source, and
+ * paginated pages from their #+PAGINATE: page. Translation fallbacks are
+ * rendered from their URL like content pages.
+ *
+ * @param sitePages - All published pages (for hreflang alternates)
+ * @returns Counts, and the content-relative files and URLs rendered successfully
  */
 async function prerenderPages(
   config: OrgPressConfig,
-  pages: ContentPage[],
-  assetManifest: AssetManifest
-): Promise<{ successful: number; failed: number }> {
-  // Vite outputs .mjs for ESM projects by default, fall back to .js
-  const serverEntryMjs = path.resolve(
-    config.cacheDir,
-    "server/entry-generate.mjs"
-  );
-  const serverEntryJs = path.resolve(
-    config.cacheDir,
-    "server/entry-generate.js"
-  );
-  const serverEntryPath = fs.existsSync(serverEntryMjs)
-    ? serverEntryMjs
-    : serverEntryJs;
+  pages: Array<ContentPage | GeneratedPage | PaginatedPage | FallbackPage>,
+  assetManifest: AssetManifest,
+  sitePages: ContentPage[]
+): Promise<{ successful: number; failed: number; rendered: string[]; renderedUrls: string[] }> {
+  if (pages.length === 0) {
+    return { successful: 0, failed: 0, rendered: [], renderedUrls: [] };
+  }
+
+  const serverEntryPath = findServerEntry(config);
 
-  if (!fs.existsSync(serverEntryPath)) {
+  if (!serverEntryPath) {
     throw new Error(
-      `Server entry not found at ${serverEntryJs} or ${serverEntryMjs}. Run server build first.`
+      `Server entry not found in ${path.resolve(config.cacheDir, "server")}. Run server build first.`
     );
   }
 
   const serverModule = await import(serverEntryPath);
-  const { render } = serverModule;
+  const { render, renderGenerated, renderPaginated } = serverModule;
 
   let successful = 0;
   let failed = 0;
   let rendered = 0;
+  const renderedFiles: string[] = [];
+  const renderedUrls: string[] = [];
 
   const clientBuildDir = path.join(config.cacheDir, "client");
 
@@ -676,7 +1028,18 @@ async function prerenderPages(
     async (page) => {
       const routeUrl = page.url;
       try {
-        const { html, collectedBlocks } = await render(routeUrl, {});
+        if (
+          ("source" in page && !renderGenerated) ||
+          ("template" in page && !renderPaginated)
+        ) {
+          throw new Error("SSR bundle can't render generated pages, rebuild with --force");
+        }
+        const { html, collectedBlocks } =
+          "source" in page
+            ? await renderGenerated(routeUrl, page.source)
+            : "template" in page
+              ? await renderPaginated(page.template.url, page.pageNumber)
+              : await render(routeUrl, {});
 
         if (!html) {
           console.warn(`[org-press:build] Skipped (no content): ${routeUrl}`);
@@ -714,31 +1077,28 @@ async function prerenderPages(
           assetManifest,
           config,
           collectedBlocks || [],
-          page.file  // Pass the org file path
+          // Pass the org file path (paginated pages share their template's blocks)
+          "template" in page ? page.template.file : page.file
         );
 
         // Apply base path
         let processedHtml = applyBasePath(htmlWithAssets, config.base);
+        processedHtml = injectCanonicalLink(
+          processedHtml,
+          "original" in page ? page.original : page,
+          config
+        );
+        processedHtml = injectAlternateLinks(processedHtml, page, sitePages, config);
+        processedHtml = injectFeedLinks(processedHtml, config);
 
-        // Determine output path
-        // index.org files -> dir/index.html (e.g., guide/index.org -> guide/index.html)
-        // other files -> path.html (e.g., guide/getting-started.org -> guide/getting-started.html)
-        let filePath: string;
-        const isIndexFile = page.file.endsWith("index.org");
-        if (routeUrl === "/") {
-          filePath = `${config.outDir}/index.html`;
-        } else if (isIndexFile) {
-          // index.org -> dir/index.html
-          filePath = `${config.outDir}${routeUrl}/index.html`;
-        } else {
-          filePath = `${config.outDir}${routeUrl}.html`;
-        }
-
+        const filePath = getPageOutputPath(config, page);
         fs.mkdirSync(path.dirname(filePath), { recursive: true });
         fs.writeFileSync(filePath, processedHtml);
 
         successful++;
         rendered++;
+        renderedFiles.push(page.file);
+        renderedUrls.push(page.url);
 
         if (rendered % 10 === 0 || rendered === pages.length) {
           console.log(
@@ -753,7 +1113,7 @@ async function prerenderPages(
     { concurrency: config.buildConcurrency }
   );
 
-  return { successful, failed };
+  return { successful, failed, rendered: renderedFiles, renderedUrls };
 }
 
 /**
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  absolutizeUrls,
+  collectFeed,
+  generateAtom,
+  generateJsonFeed,
+  generateRss,
+  injectFeedLinks,
+  parseOrgDate,
+  writeFeeds,
+  type Feed,
+} from "./feeds.ts";
+import type { OrgPressConfig } from "../../config/types.ts";
+
+const feed: Feed = {
+  title: "Team Blog",
+  description: "News & notes",
+  homePageUrl: "https://example.com/blog/",
+  feedUrls: {
+    rss: "https://example.com/blog/rss.xml",
+    atom: "https://example.com/blog/atom.xml",
+    json: "https://example.com/blog/feed.json",
+  },
+  entries: [
+    {
+      url: "https://example.com/blog/hello.html",
+      title: "Hello <world>",
+      author: "Ada",
+      date: new Date("2025-01-15T00:00:00Z"),
+      summary: "First post",
+      contentHtml: "<p>Hi</p>",
+    },
+  ],
+};
+
+describe("feeds", () => {
+  describe("parseOrgDate", () => {
+    it("should parse plain dates and timestamps", () => {
+      expect(parseOrgDate("2025-01-15")?.toISOString()).toBe("2025-01-15T00:00:00.000Z");
+      expect(parseOrgDate("<2025-01-15 Wed 9:30>")?.toISOString()).toBe(
+        "2025-01-15T09:30:00.000Z"
+      );
+      expect(parseOrgDate("someday")).toBeUndefined();
+      expect(parseOrgDate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("absolutizeUrls", () => {
+    it("should resolve root-relative and relative URLs", () => {
+      const html =
+        '<a href="/docs/guide/intro.html">a</a><img src="./img.png"/><a href="https://x.dev">b</a><a href="#top">c</a>';
+
+      expect(absolutizeUrls(html, "https://example.com/docs/blog/post.html")).toBe(
+        '<a href="https://example.com/docs/guide/intro.html">a</a><img src="https://example.com/docs/blog/img.png"/><a href="https://x.dev">b</a><a href="#top">c</a>'
+      );
+    });
+  });
+
+  describe("generators", () => {
+    it("should generate RSS 2.0", () => {
+      const rss = generateRss(feed);
+
+      expect(rss).toContain('<rss version="2.0"');
+      expect(rss).toContain("<title>Hello &lt;world&gt;</title>");
+      expect(rss).toContain("<pubDate>Wed, 15 Jan 2025 00:00:00 GMT</pubDate>");
+      expect(rss).toContain("<dc:creator>Ada</dc:creator>");
+      expect(rss).toContain("<content:encoded><![CDATA[<p>Hi</p>]]></content:encoded>");
+      expect(rss).toContain('<atom:link href="https://example.com/blog/rss.xml" rel="self"');
+    });
+
+    it("should generate Atom 1.0", () => {
+      const atom = generateAtom(feed);
+
+      expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(atom).toContain("<updated>2025-01-15T00:00:00.000Z</updated>");
+      expect(atom).toContain("<author><name>Ada</name></author>");
+      expect(atom).toContain('<content type="html">&lt;p&gt;Hi&lt;/p&gt;</content>');
+    });
+
+    it("should generate JSON Feed 1.1", () => {
+      const json = JSON.parse(generateJsonFeed(feed));
+
+      expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+      expect(json.feed_url).toBe("https://example.com/blog/feed.json");
+      expect(json.items[0]).toMatchObject({
+        id: "https://example.com/blog/hello.html",
+        content_html: "<p>Hi</p>",
+        date_published: "2025-01-15T00:00:00.000Z",
+        authors: [{ name: "Ada" }],
+      });
+    });
+  });
+
+  describe("injectFeedLinks", () => {
+    it("should link every feed format", () => {
+      const config = {
+        base: "/",
+        site: { url: "https://example.com" },
+        feeds: [{ directory: "blog", title: "Blog", formats: ["rss", "json"] }],
+      } as OrgPressConfig;
+
+      const html = injectFeedLinks("<head></head>", config);
+
+      expect(html).toBe(
+        '<head><link rel="alternate" type="application/rss+xml" title="Blog" href="https://example.com/blog/rss.xml"/>' +
+          '<link rel="alternate" type="application/feed+json" title="Blog" href="https://example.com/blog/feed.json"/></head>'
+      );
+    });
+
+    it("should leave pages unchanged without site.url", () => {
+      const config = { base: "/", feeds: [{ directory: "blog" }] } as OrgPressConfig;
+
+      expect(injectFeedLinks("<head></head>", config)).toBe("<head></head>");
+    });
+  });
+
+  describe("collectFeed / writeFeeds", () => {
+    let tempDir: string;
+    let config: OrgPressConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "feeds-test-"));
+      const blogDir = path.join(tempDir, "content/blog");
+      fs.mkdirSync(blogDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(blogDir, "index.org"),
+        "#+TITLE: Team Blog\n#+DESCRIPTION: What we're up to\n"
+      );
+      fs.writeFileSync(
+        path.join(blogDir, "older.org"),
+        "#+TITLE: Older\n#+DATE: <2024-12-01 Sun>\n#+AUTHOR: Ada\n\nSee [[file:/blog/newer.org][newer]].\n"
+      );
+      fs.writeFileSync(
+        path.join(blogDir, "newer.org"),
+        "#+TITLE: Newer\n#+DATE: 2025-01-15\n#+DESCRIPTION: Latest news\n\n* Body\n"
+      );
+      fs.writeFileSync(path.join(blogDir, "draft.org"), "#+TITLE: Draft\n#+STATUS: draft\n");
+      fs.writeFileSync(
+        path.join(blogDir, "hidden.org"),
+        "#+TITLE: Hidden\n#+DATE: 2025-02-01\n#+NOINDEX: t\n"
+      );
+
+      config = {
+        base: "/",
+        contentDir: path.relative(process.cwd(), path.join(tempDir, "content")),
+        outDir: path.join(tempDir, "dist"),
+        site: { url: "https://example.com" },
+        feeds: [{ directory: "blog", formats: ["rss", "atom", "json"], fullContent: true }],
+      } as OrgPressConfig;
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should list published posts newest first", async () => {
+      const result = await collectFeed(config, config.feeds![0]);
+
+      expect(result.title).toBe("Team Blog");
+      expect(result.description).toBe("What we're up to");
+      expect(result.homePageUrl).toBe("https://example.com/blog/");
+      expect(result.entries.map((entry) => entry.title)).toEqual(["Newer", "Older"]);
+      expect(result.entries[0]).toMatchObject({
+        url: "https://example.com/blog/newer.html",
+        summary: "Latest news",
+      });
+      expect(result.entries[1].author).toBe("Ada");
+      expect(result.entries[0].contentHtml).toContain("Body");
+    });
+
+    it("should not repeat the base path in absolute content links", async () => {
+      const result = await collectFeed({ ...config, base: "/docs" }, config.feeds![0]);
+      const older = result.entries.find((entry) => entry.title === "Older")!;
+
+      expect(older.url).toBe("https://example.com/docs/blog/older.html");
+      expect(older.contentHtml).toContain('href="https://example.com/docs/blog/newer.html"');
+    });
+
+    it("should title the head links like the feed", async () => {
+      const html = injectFeedLinks("<head></head>", { ...config, feeds: [{ directory: "blog" }] });
+
+      expect(html).toContain('title="Team Blog"');
+    });
+
+    it("should respect the entry limit", async () => {
+      const result = await collectFeed(config, { directory: "blog", limit: 1 });
+
+      expect(result.entries.map((entry) => entry.title)).toEqual(["Newer"]);
+    });
+
+    it("should write each format", async () => {
+      const files = await writeFeeds(config);
+
+      expect(files.map((file) => path.relative(tempDir, file))).toEqual([
+        "dist/blog/rss.xml",
+        "dist/blog/atom.xml",
+        "dist/blog/feed.json",
+      ]);
+      expect(fs.readFileSync(files[0], "utf-8")).toContain("<title>Newer</title>");
+    });
+
+    it("should skip feeds without site.url", async () => {
+      delete config.site;
+      const warn = console.warn;
+      console.warn = () => {};
+
+      try {
+        expect(await writeFeeds(config)).toEqual([]);
+      } finally {
+        console.warn = warn;
+      }
+    });
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * RSS, Atom and JSON feeds
+ *
+ * Generates feeds for the content directories listed in the `feeds` config:
+ *
+ * ```ts
+ * export default {
+ *   site: { url: "https://example.com" },
+ *   feeds: [{ directory: "blog", formats: ["rss", "atom", "json"] }],
+ * };
+ * ```
+ *
+ * Entries are the directory's published pages, newest first by `#+DATE:`,
+ * with title, author, date and `#+DESCRIPTION:` summary. With
+ * `fullContent: true` they also carry the page's rendered HTML, with links
+ * made absolute. Every page head links the feeds with
+ * `<link rel="alternate">`. With `i18n`, a feed lists one locale
+ * (`locale`, default: the default locale) and is written to the localized
+ * directory (e.g. `ja/blog/`).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { FeedConfig, FeedFormat, OrgPressConfig } from "../../config/types.ts";
+import { getContentPagesFromDirectory, type ContentPage } from "../../content.ts";
+import { getFileLocale, localizeUrl } from "../../routing/i18n.ts";
+import { parseOrgFile } from "../../parser/parse-content.ts";
+import { renderOrgToHtml } from "../../render/render.ts";
+import { escapeXml, getPageUrl, isIndexable } from "./sitemap.ts";
+
+/**
+ * Feed entry
+ */
+export interface FeedEntry {
+  /** Absolute page URL (also the entry id) */
+  url: string;
+  title: string;
+  author?: string;
+  /** Publication date */
+  date: Date;
+  /** #+DESCRIPTION: summary */
+  summary?: string;
+  /** Rendered HTML with absolute URLs (fullContent) */
+  contentHtml?: string;
+}
+
+/**
+ * Feed with its entries
+ */
+export interface Feed {
+  title: string;
+  description?: string;
+  /** Absolute URL of the directory's page */
+  homePageUrl: string;
+  /** Absolute URL of each generated format */
+  feedUrls: Partial<Record<FeedFormat, string>>;
+  entries: FeedEntry[];
+}
+
+/** File name of each format */
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: "rss.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+const FEED_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+  json: "application/feed+json",
+};
+
+/**
+ * Parse an org date (`2025-01-15`, `<2025-01-15 Wed 10:30>`)
+ *
+ * @returns Date (UTC), or undefined if the value has no date
+ */
+export function parseOrgDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/(\d{4}-\d{2}-\d{2})(?:\s+[^\s\d>\]]+)?(?:\s+(\d{1,2}:\d{2}))?/);
+  if (!match) {
+    return undefined;
+  }
+  const time = match[2] ? match[2].padStart(5, "0") : "00:00";
+  const date = new Date(`${match[1]}T${time}:00Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Make root-relative and relative URLs in HTML absolute
+ *
+ * Rendered links already carry the base path (`/docs/guide/intro.html`),
+ * so root-relative URLs are joined to the origin only.
+ *
+ * @param html - Rendered page HTML
+ * @param pageUrl - Absolute URL of the page
+ */
+export function absolutizeUrls(html: string, pageUrl: string): string {
+  return html.replace(/\b(href|src)="([^"]*)"/g, (match, attribute, url: string) => {
+    if (/^([a-z][a-z0-9+.-]*:|#|\/\/)/i.test(url)) {
+      return match;
+    }
+    return `${attribute}="${new URL(url, pageUrl).href}"`;
+  });
+}
+
+/**
+ * Get a feed's output directory, relative to the output dir
+ *
+ * Feeds of a translation default to the localized directory (e.g. "ja/blog").
+ */
+function getFeedOutput(config: OrgPressConfig, feed: FeedConfig): string {
+  if (feed.output !== undefined || !config.i18n || !feed.locale) {
+    return (feed.output ?? feed.directory).replace(/^\/+|\/+$/g, "");
+  }
+  const directory = feed.directory.replace(/^\/+|\/+$/g, "");
+  return localizeUrl(`/${directory}`, feed.locale, config.i18n).replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Get the absolute URL of a feed file
+ */
+function getFeedFileUrl(config: OrgPressConfig, feed: FeedConfig, format: FeedFormat): string {
+  const siteRoot = getPageUrl(config.site!.url!, config.base, { file: "", url: "/" });
+  const output = getFeedOutput(config, feed);
+  return `${siteRoot}${output ? `${output}/` : ""}${FEED_FILES[format]}`;
+}
+
+/**
+ * Get a feed's title
+ *
+ * Defaults to the title of the feed directory's index page (in the
+ * feed's locale), then to the directory name.
+ */
+function getFeedTitle(config: OrgPressConfig, feed: FeedConfig): string {
+  if (feed.title) {
+    return feed.title;
+  }
+
+  const directory = feed.directory.replace(/^\/+|\/+$/g, "");
+  let indexFile = directory ? `${directory}/index.org` : "index.org";
+  if (config.i18n && feed.locale && feed.locale !== config.i18n.defaultLocale) {
+    indexFile =
+      config.i18n.strategy === "suffix"
+        ? indexFile.replace(/\.org$/, `.${feed.locale}.org`)
+        : `${feed.locale}/${indexFile}`;
+  }
+
+  const indexPath = path.resolve(process.cwd(), config.contentDir, indexFile);
+  const indexTitle = fs.existsSync(indexPath)
+    ? parseOrgFile(fs.readFileSync(indexPath, "utf-8")).metadata.title
+    : undefined;
+
+  return indexTitle || path.basename(directory) || "Feed";
+}
+
+/**
+ * Collect a feed's entries and metadata
+ *
+ * @param config - Org-press config (with `site.url`)
+ * @param feed - Feed config
+ * @returns Feed
+ */
+export async function collectFeed(config: OrgPressConfig, feed: FeedConfig): Promise<Feed> {
+  const siteUrl = config.site!.url!;
+  const siteRoot = getPageUrl(siteUrl, config.base, { file: "", url: "/" });
+  const contentDir = path.resolve(process.cwd(), config.contentDir);
+  const directory = feed.directory.replace(/^\/+|\/+$/g, "");
+  const indexFile = directory ? `${directory}/index.org` : "index.org";
+
+  const pages = await getContentPagesFromDirectory(directory, {
+    contentDir: config.contentDir,
+    includeDrafts: false,
+    sortBy: "date",
+    sortOrder: "desc",
+    ...(config.i18n && {
+      i18n: config.i18n,
+      locale: feed.locale ?? config.i18n.defaultLocale,
+    }),
+  });
+
+  // Translations are matched by their locale-neutral file
+  const isIndexFile = (page: ContentPage) =>
+    (config.i18n ? getFileLocale(page.file, config.i18n).path : page.file) === indexFile;
+  const indexPage = pages.find(isIndexFile);
+
+  // Re-sort by parsed date: #+DATE: values mix plain and <timestamp> forms
+  const posts = pages
+    .filter((page) => !isIndexFile(page) && isIndexable(page.metadata))
+    .map((page) => ({
+      page,
+      date:
+        parseOrgDate(page.metadata.date) ??
+        fs.statSync(path.join(contentDir, page.file)).mtime,
+    }))
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+    .slice(0, feed.limit ?? 20);
+
+  const entries: FeedEntry[] = [];
+  for (const { page, date } of posts) {
+    const orgFile = path.join(contentDir, page.file);
+    const url = getPageUrl(siteUrl, config.base, page);
+    const entry: FeedEntry = {
+      url,
+      title: page.metadata.title || path.basename(page.file, ".org"),
+      author: page.metadata.author || feed.author,
+      date,
+      summary: page.metadata.description,
+    };
+
+    if (feed.fullContent) {
+      const { ast, metadata } = parseOrgFile(fs.readFileSync(orgFile, "utf-8"));
+      const html = await renderOrgToHtml(ast, { base: config.base, metadata });
+      entry.contentHtml = absolutizeUrls(html, url);
+    }
+
+    entries.push(entry);
+  }
+
+  return {
+    title: getFeedTitle(config, feed),
+    description: feed.description || indexPage?.metadata.description,
+    homePageUrl: indexPage ? getPageUrl(siteUrl, config.base, indexPage) : siteRoot,
+    feedUrls: Object.fromEntries(
+      (feed.formats ?? ["rss"]).map((format) => [format, getFeedFileUrl(config, feed, format)])
+    ),
+    entries,
+  };
+}
+
+/**
+ * Wrap HTML in CDATA (splitting any "]]>" it contains)
+ */
+function cdata(html: string): string {
+  return `<![CDATA[${html.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * Generate an RSS 2.0 feed
+ */
+export function generateRss(feed: Feed): string {
+  const items = feed.entries.map((entry) =>
+    [
+      "    <item>",
+      `      <title>${escapeXml(entry.title)}</title>`,
+      `      <link>${escapeXml(entry.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>`,
+      `      <pubDate>${entry.date.toUTCString()}</pubDate>`,
+      entry.author ? `      <dc:creator>${escapeXml(entry.author)}</dc:creator>` : "",
+      entry.summary ? `      <description>${escapeXml(entry.summary)}</description>` : "",
+      entry.contentHtml ? `      <content:encoded>${cdata(entry.contentHtml)}</content:encoded>` : "",
+      "    </item>",
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description ?? feed.title)}</description>`,
+    feed.feedUrls.rss
+      ? `    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="${FEED_TYPES.rss}"/>`
+      : "",
+    feed.entries[0] ? `    <lastBuildDate>${feed.entries[0].date.toUTCString()}</lastBuildDate>` : "",
+    ...items,
+    "  </channel>",
+    "</rss>",
+  ]
+    .filter(Boolean)
+    .join("\n") + "\n";
+}
+
+/**
+ * Generate an Atom 1.0 feed
+ */
+export function generateAtom(feed: Feed): string {
+  const updated = (feed.entries[0]?.date ?? new Date(0)).toISOString();
+  const entries = feed.entries.map((entry) =>
+    [
+      "  <entry>",
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <id>${escapeXml(entry.url)}</id>`,
+      `    <link href="${escapeXml(entry.url)}"/>`,
+      `    <updated>${entry.date.toISOString()}</updated>`,
+      `    <author><name>${escapeXml(entry.author ?? feed.title)}</name></author>`,
+      entry.summary ? `    <summary>${escapeXml(entry.summary)}</summary>` : "",
+      entry.contentHtml ? `    <content type="html">${escapeXml(entry.contentHtml)}</content>` : "",
+      "  </entry>",
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    feed.description ? `  <subtitle>${escapeXml(feed.description)}</subtitle>` : "",
+    `  <id>${escapeXml(feed.feedUrls.atom ?? feed.homePageUrl)}</id>`,
+    feed.feedUrls.atom ? `  <link href="${escapeXml(feed.feedUrls.atom)}" rel="self"/>` : "",
+    `  <link href="${escapeXml(feed.homePageUrl)}"/>`,
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    "</feed>",
+  ]
+    .filter(Boolean)
+    .join("\n") + "\n";
+}
+
+/**
+ * Generate a JSON Feed 1.1
+ */
+export function generateJsonFeed(feed: Feed): string {
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: feed.title,
+      home_page_url: feed.homePageUrl,
+      feed_url: feed.feedUrls.json,
+      description: feed.description,
+      items: feed.entries.map((entry) => ({
+        id: entry.url,
+        url: entry.url,
+        title: entry.title,
+        summary: entry.summary,
+        content_html: entry.contentHtml,
+        date_published: entry.date.toISOString(),
+        authors: entry.author ? [{ name: entry.author }] : undefined,
+      })),
+    },
+    null,
+    2
+  ) + "\n";
+}
+
+const GENERATORS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: generateRss,
+  atom: generateAtom,
+  json: generateJsonFeed,
+};
+
+/**
+ * Add `<link rel="alternate">` tags for every feed to a page's head
+ *
+ * @param html - Rendered page HTML
+ * @param config - Org-press config
+ * @returns HTML with the links injected (unchanged without feeds or `site.url`)
+ */
+export function injectFeedLinks(html: string, config: OrgPressConfig): string {
+  if (!config.site?.url || !config.feeds?.length || !html.includes("</head>")) {
+    return html;
+  }
+
+  const links = config.feeds.flatMap((feed) => {
+    const title = getFeedTitle(config, feed);
+    return (feed.formats ?? ["rss"]).map(
+      (format) =>
+        `<link rel="alternate" type="${FEED_TYPES[format]}" title="${escapeXml(title)}" href="${escapeXml(getFeedFileUrl(config, feed, format))}"/>`
+    );
+  });
+
+  return html.replace("</head>", `${links.join("")}</head>`);
+}
+
+/**
+ * Write all configured feeds to the output directory
+ *
+ * @param config - Org-press config
+ * @returns Paths of the written files
+ */
+export async function writeFeeds(config: OrgPressConfig): Promise<string[]> {
+  if (!config.feeds?.length) {
+    return [];
+  }
+
+  if (!config.site?.url) {
+    console.warn("[org-press:build] Skipping feeds: site.url is not set");
+    return [];
+  }
+
+  const outDir = path.resolve(process.cwd(), config.outDir);
+  const written: string[] = [];
+
+  for (const feedConfig of config.feeds) {
+    const feed = await collectFeed(config, feedConfig);
+    const dir = path.join(outDir, getFeedOutput(config, feedConfig));
+    fs.mkdirSync(dir, { recursive: true });
+
+    for (const format of feedConfig.formats ?? ["rss"]) {
+      const file = path.join(dir, FEED_FILES[format]);
+      fs.writeFileSync(file, GENERATORS[format](feed));
+      written.push(file);
+    }
+  }
+
+  return written;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { getFallbackPages, injectAlternateLinks } from "./i18n.ts";
+import type { ContentPage } from "../../content.ts";
+import type { OrgPressConfig } from "../../config/types.ts";
+
+describe("translated pages", () => {
+  const config = {
+    base: "/",
+    site: { url: "https://example.com" },
+    i18n: { locales: ["en", "ja", "fr"], defaultLocale: "en" },
+  } as OrgPressConfig;
+
+  const pages: ContentPage[] = [
+    { file: "index.org", url: "/", metadata: {}, locale: "en" },
+    { file: "guide/intro.org", url: "/guide/intro", metadata: {}, locale: "en" },
+    { file: "ja/guide/intro.org", url: "/ja/guide/intro", metadata: {}, locale: "ja" },
+    { file: "ja/notes.org", url: "/ja/notes", metadata: {}, locale: "ja" },
+  ];
+
+  describe("getFallbackPages", () => {
+    it("should stand in for missing translations", () => {
+      const fallbacks = getFallbackPages(config, pages);
+
+      expect(fallbacks.map((page) => [page.url, page.locale, page.file])).toEqual([
+        ["/ja", "ja", "index.org"],
+        ["/fr", "fr", "index.org"],
+        ["/fr/guide/intro", "fr", "guide/intro.org"],
+      ]);
+      expect(fallbacks[2].original).toBe(pages[1]);
+    });
+
+    it("should do nothing without i18n or with fallback off", () => {
+      expect(getFallbackPages({ ...config, i18n: undefined }, pages)).toEqual([]);
+      expect(
+        getFallbackPages({ ...config, i18n: { ...config.i18n!, fallback: false } }, pages)
+      ).toEqual([]);
+    });
+  });
+
+  describe("injectAlternateLinks", () => {
+    const html = "<html><head><title>Intro</title></head><body></body></html>";
+
+    it("should link every translation and the default locale", () => {
+      const result = injectAlternateLinks(html, { url: "/ja/guide/intro" }, pages, config);
+
+      expect(result).toContain(
+        '<link rel="alternate" hreflang="en" href="https://example.com/guide/intro.html"/>' +
+          '<link rel="alternate" hreflang="ja" href="https://example.com/ja/guide/intro.html"/>' +
+          '<link rel="alternate" hreflang="x-default" href="https://example.com/guide/intro.html"/>' +
+          "</head>"
+      );
+    });
+
+    it("should leave untranslated and noindex pages alone", () => {
+      expect(injectAlternateLinks(html, { url: "/ja/notes" }, pages, config)).toBe(html);
+
+      const noindex = pages.map((page) =>
+        page.locale === "ja" ? { ...page, metadata: { noindex: "t" } } : page
+      );
+      expect(injectAlternateLinks(html, { url: "/guide/intro" }, noindex, config)).toBe(html);
+    });
+  });
+});
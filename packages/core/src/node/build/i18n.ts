@@ -0,0 +1,111 @@
+/**
+ * Translated pages
+ *
+ * With `i18n`, every page links its translations with
+ * `<link rel="alternate" hreflang>`, and the build renders the
+ * default-locale page at a locale's URL when the translation is missing
+ * (`/ja/guide/intro` from `guide/intro.org`), unless `i18n.fallback` is
+ * false. Fallback pages point their canonical link at the original.
+ */
+
+import type { OrgPressConfig } from "../../config/types.ts";
+import type { ContentPage } from "../../content.ts";
+import { getUrlLocale, localizeUrl } from "../../routing/i18n.ts";
+import { escapeXml, getPageUrl, isIndexable } from "./sitemap.ts";
+
+/**
+ * Default-locale page rendered at a translation's URL
+ */
+export interface FallbackPage extends ContentPage {
+  /** Page standing in for the missing translation */
+  original: ContentPage;
+}
+
+/**
+ * Get the pages standing in for missing translations
+ *
+ * @param config - Org-press config
+ * @param pages - Published pages (queried with `i18n`)
+ * @returns A page per locale and untranslated default-locale page
+ *
+ * @example
+ * // guide/intro.org, no ja/guide/intro.org
+ * getFallbackPages(config, pages).map((page) => page.url)
+ * // ["/ja/guide/intro"]
+ */
+export function getFallbackPages(
+  config: OrgPressConfig,
+  pages: ContentPage[]
+): FallbackPage[] {
+  const i18n = config.i18n;
+  if (!i18n || i18n.fallback === false) {
+    return [];
+  }
+
+  const taken = new Set(pages.map((page) => page.url));
+  const fallbacks: FallbackPage[] = [];
+
+  for (const locale of i18n.locales) {
+    if (locale === i18n.defaultLocale) {
+      continue;
+    }
+    for (const original of pages) {
+      if (original.locale !== i18n.defaultLocale) {
+        continue;
+      }
+      const url = localizeUrl(original.url, locale, i18n);
+      if (!taken.has(url)) {
+        fallbacks.push({ ...original, url, locale, original });
+      }
+    }
+  }
+
+  return fallbacks;
+}
+
+/**
+ * Link a page to its translations with hreflang alternates
+ *
+ * Adds a link per translation (including the page itself) and an
+ * `x-default` link to the default-locale page. URLs are absolute with
+ * `site.url`, root-relative (with the base path) otherwise.
+ *
+ * @param html - Rendered page HTML
+ * @param page - Page being rendered
+ * @param pages - Published pages (queried with `i18n`)
+ * @param config - Org-press config
+ * @returns HTML with the links injected (unchanged without translations)
+ */
+export function injectAlternateLinks(
+  html: string,
+  page: { url: string },
+  pages: ContentPage[],
+  config: OrgPressConfig
+): string {
+  const i18n = config.i18n;
+  if (!i18n || !html.includes("</head>")) {
+    return html;
+  }
+
+  const { path } = getUrlLocale(page.url, i18n);
+  const translations = pages
+    .filter((other) => isIndexable(other.metadata) && getUrlLocale(other.url, i18n).path === path)
+    .sort((a, b) => i18n.locales.indexOf(a.locale!) - i18n.locales.indexOf(b.locale!));
+
+  if (translations.length < 2) {
+    return html;
+  }
+
+  const href = (translation: ContentPage) =>
+    escapeXml(getPageUrl(config.site?.url ?? "", config.base, translation));
+  const links = translations.map(
+    (translation) =>
+      `<link rel="alternate" hreflang="${escapeXml(translation.locale!)}" href="${href(translation)}"/>`
+  );
+  const original = translations.find((translation) => translation.locale === i18n.defaultLocale);
+  if (original) {
+    links.push(`<link rel="alternate" hreflang="x-default" href="${href(original)}"/>`);
+  }
+
+  return html.replace("</head>", `${links.join("")}</head>`);
+}
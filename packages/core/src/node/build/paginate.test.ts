@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { getPaginatedPages } from "./paginate.ts";
+import { clearContentCache, type ContentPage } from "../../content.ts";
+import type { OrgPressConfig } from "../../config/types.ts";
+
+describe("getPaginatedPages", () => {
+  let tempDir: string;
+  let config: OrgPressConfig;
+
+  const blog: ContentPage = {
+    file: "blog/index.org",
+    url: "/blog",
+    metadata: { title: "Blog", paginate: "blog 2" },
+  };
+
+  beforeEach(() => {
+    clearContentCache();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "paginate-test-"));
+    fs.mkdirSync(path.join(tempDir, "blog"), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, "blog/index.org"), "#+TITLE: Blog\n#+PAGINATE: blog 2\n");
+    for (const name of ["one", "two", "three", "four", "five"]) {
+      fs.writeFileSync(path.join(tempDir, `blog/${name}.org`), `#+TITLE: ${name}\n`);
+    }
+    fs.writeFileSync(path.join(tempDir, "blog/draft.org"), "#+TITLE: Draft\n#+STATUS: draft\n");
+    config = { contentDir: path.relative(process.cwd(), tempDir) } as OrgPressConfig;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should add a page for each further page of published posts", async () => {
+    const pages = await getPaginatedPages(config, [blog]);
+
+    expect(pages.map(({ file, url, pageNumber }) => [file, url, pageNumber])).toEqual([
+      ["blog/page/2/index.org", "/blog/page/2", 2],
+      ["blog/page/3/index.org", "/blog/page/3", 3],
+    ]);
+    expect(pages[0].template).toBe(blog);
+  });
+
+  it("should leave URLs of content pages alone", async () => {
+    const pages = await getPaginatedPages(config, [
+      blog,
+      { file: "blog/page/2.org", url: "/blog/page/2", metadata: {} },
+    ]);
+
+    expect(pages.map((page) => page.url)).toEqual(["/blog/page/3"]);
+  });
+
+  it("should skip pages without a valid directive", async () => {
+    const pages = await getPaginatedPages(config, [
+      { ...blog, metadata: { title: "Blog" } },
+      { ...blog, metadata: { paginate: "blog none" } },
+    ]);
+
+    expect(pages).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Paginated listing pages
+ *
+ * A page with `#+PAGINATE: blog 10` lists the pages of content/blog ten at a
+ * time. The page itself is page 1; the build renders it again for
+ * `/blog/page/2/`, `/blog/page/3/`, ... with `content.pagination` set to the
+ * page being rendered. Content pages at the same URLs take precedence.
+ */
+
+import type { OrgPressConfig } from "../../config/types.ts";
+import {
+  getPagination,
+  getPaginationUrl,
+  parsePaginateDirective,
+  type ContentPage,
+} from "../../content.ts";
+
+/**
+ * Page 2 and up of a #+PAGINATE: page
+ */
+export interface PaginatedPage extends ContentPage {
+  /** The #+PAGINATE: page rendered for this URL */
+  template: ContentPage;
+
+  /** Page number (from 2) */
+  pageNumber: number;
+}
+
+/**
+ * Get the extra pages of every #+PAGINATE: page
+ *
+ * @param config - Org-press config
+ * @param pages - Published pages
+ * @returns Pages from 2 up, e.g. `/blog/page/2` (page 1 is the page itself)
+ *
+ * @example
+ * (await getPaginatedPages(config, pages)).map((page) => page.url)
+ * // ["/blog/page/2", "/blog/page/3"]
+ */
+export async function getPaginatedPages(
+  config: OrgPressConfig,
+  pages: ContentPage[]
+): Promise<PaginatedPage[]> {
+  const taken = new Set(pages.map((page) => page.url));
+  const paginated: PaginatedPage[] = [];
+
+  for (const template of pages) {
+    const directive = parsePaginateDirective(template.metadata.paginate);
+    if (!directive) {
+      continue;
+    }
+
+    const { totalPages } = await getPagination(template.url, directive, 1, {
+      includeDrafts: false,
+      contentDir: config.contentDir,
+      i18n: config.i18n,
+      locale: template.locale,
+    });
+
+    for (let pageNumber = 2; pageNumber <= totalPages; pageNumber++) {
+      const url = getPaginationUrl(template.url, pageNumber).replace(/\/$/, "");
+      if (taken.has(url)) {
+        continue;
+      }
+      paginated.push({
+        file: `${url.slice(1)}/index.org`,
+        url,
+        metadata: template.metadata,
+        template,
+        pageNumber,
+      });
+    }
+  }
+
+  return paginated;
+}
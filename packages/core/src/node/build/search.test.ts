@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  buildSearchIndex,
+  collectSearchDocuments,
+  createExcerpt,
+  writeSearchIndex,
+} from "./search.ts";
+import type { OrgPressConfig } from "../../config/types.ts";
+
+describe("search index", () => {
+  describe("createExcerpt", () => {
+    it("should cut long text at a word boundary", () => {
+      expect(createExcerpt("short")).toBe("short");
+      expect(createExcerpt("The quick brown fox", 12)).toBe("The quick…");
+    });
+  });
+
+  describe("buildSearchIndex", () => {
+    it("should shard weighted postings by leading character", () => {
+      const { manifest, shards } = buildSearchIndex([
+        {
+          url: "/a.html",
+          title: "Alpha",
+          sections: [
+            { id: "", heading: "", level: 0, text: "alpha beta beta" },
+            { id: "beta", heading: "Beta", level: 2, text: "" },
+          ],
+        },
+      ]);
+
+      expect(manifest.pages).toEqual([["/a.html", "Alpha"]]);
+      expect(manifest.sections).toEqual([
+        [0, "", "", "alpha beta beta"],
+        [0, "beta", "Beta", ""],
+      ]);
+      expect(manifest.shards).toEqual(["a", "b"]);
+      // Body words weigh 1, heading words 5, title words 10 (first section)
+      expect(shards.a).toEqual({ alpha: [0, 11] });
+      expect(shards.b).toEqual({ beta: [0, 2, 1, 5] });
+    });
+
+    it("should index terms named like Object.prototype members", () => {
+      const { manifest, shards } = buildSearchIndex([
+        {
+          url: "/js.html",
+          title: "JS",
+          sections: [{ id: "", heading: "", level: 0, text: "constructor toString hasOwnProperty" }],
+        },
+      ]);
+
+      expect(manifest.shards).toEqual(["c", "h", "j", "t"]);
+      expect(shards.c).toEqual({ constructor: [0, 1] });
+      expect(shards.h).toEqual({ hasownproperty: [0, 1] });
+      expect(shards.t).toEqual({ tostring: [0, 1] });
+    });
+  });
+
+  describe("collectSearchDocuments / writeSearchIndex", () => {
+    let tempDir: string;
+    let config: OrgPressConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "search-test-"));
+      fs.mkdirSync(path.join(tempDir, "content/guide"), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, "content/guide/intro.org"),
+        "#+TITLE: Introduction\n\n* Install\nRun the installer.\n"
+      );
+      config = {
+        base: "/docs/",
+        contentDir: path.join(tempDir, "content"),
+        outDir: path.join(tempDir, "dist"),
+      } as OrgPressConfig;
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const pages = [
+      { file: "guide/intro.org", url: "/guide/intro", metadata: { title: "Introduction" } },
+      { file: "secret.org", url: "/secret", metadata: { noindex: "t" } },
+    ];
+
+    it("should index indexable pages with a section for the page itself", async () => {
+      const documents = await collectSearchDocuments(config, pages);
+
+      expect(documents).toEqual([
+        {
+          url: "/docs/guide/intro.html",
+          title: "Introduction",
+          sections: [
+            { id: "", heading: "", level: 0, text: "" },
+            { id: "install", heading: "Install", level: 1, text: "Run the installer." },
+          ],
+        },
+      ]);
+    });
+
+    it("should write the manifest and shards, replacing stale shards", async () => {
+      const searchDir = path.join(tempDir, "dist/search");
+      fs.mkdirSync(searchDir, { recursive: true });
+      fs.writeFileSync(path.join(searchDir, "z.json"), "{}");
+      fs.writeFileSync(path.join(searchDir, "page.html"), "<html></html>");
+
+      const files = await writeSearchIndex(config, pages);
+
+      expect(files[0]).toBe(path.join(searchDir, "index.json"));
+      expect(fs.readdirSync(searchDir).sort()).toEqual(
+        ["i.json", "index.json", "page.html", "r.json", "t.json"]
+      );
+      expect(JSON.parse(fs.readFileSync(path.join(searchDir, "r.json"), "utf-8"))).toEqual({
+        run: [1, 1],
+      });
+    });
+
+    it("should do nothing when search is disabled", async () => {
+      config.search = false;
+
+      expect(await writeSearchIndex(config, pages)).toEqual([]);
+      expect(fs.existsSync(path.join(tempDir, "dist"))).toBe(false);
+    });
+  });
+});
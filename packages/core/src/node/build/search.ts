@@ -0,0 +1,211 @@
+/**
+ * Full-text search index
+ *
+ * Writes a static, sharded index of every indexable page to
+ * `<outDir>/search/`, queried in the browser by client/search.ts:
+ *
+ * - `search/index.json` - pages, sections (heading, anchor, excerpt) and
+ *   the list of shards
+ * - `search/<key>.json` - postings for the terms starting with `<key>`
+ *   (`a`-`z`, `0`-`9`, `_` for everything else)
+ *
+ * Sections come from the rendered HAST (rehypeSearchExtract), so their
+ * anchors are the heading IDs of the built pages. Drafts and pages marked
+ * `#+NOINDEX: t` are not indexed.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { OrgPressConfig } from "../../config/types.ts";
+import { parseOrgFile } from "../../parser/parse-content.ts";
+import { extractSearchSections } from "../../render/render.ts";
+import type { SearchSection } from "../../render/types.ts";
+import {
+  SEARCH_INDEX_VERSION,
+  getShardKey,
+  tokenize,
+  type SearchManifest,
+  type SearchShard,
+} from "../../client/search.ts";
+import { getPageUrl, isIndexable, type SitePage } from "./sitemap.ts";
+
+/** Output directory of the index, relative to outDir */
+export const SEARCH_DIR = "search";
+
+/** Maximum excerpt length (characters) */
+const EXCERPT_LENGTH = 160;
+
+/** Term weight of a word in a heading (body words weigh 1) */
+const HEADING_WEIGHT = 5;
+
+/** Term weight of a word in the page title (added to the first section) */
+const TITLE_WEIGHT = 10;
+
+/**
+ * Page to index
+ */
+export interface SearchDocument {
+  /** Root-relative page URL including the base path */
+  url: string;
+
+  /** Page title */
+  title: string;
+
+  /** Sections in document order */
+  sections: SearchSection[];
+}
+
+/**
+ * Search index ready to write
+ */
+export interface SearchIndex {
+  manifest: SearchManifest;
+  shards: Record<string, SearchShard>;
+}
+
+/**
+ * Shorten text to an excerpt, cutting at a word boundary
+ *
+ * @example
+ * createExcerpt("The quick brown fox", 12) // "The quick…"
+ */
+export function createExcerpt(text: string, length: number = EXCERPT_LENGTH): string {
+  if (text.length <= length) {
+    return text;
+  }
+  const cut = text.slice(0, length);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > length / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+/**
+ * Build the search index from documents
+ *
+ * @param documents - Pages to index
+ * @returns Manifest and shards
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const manifest: SearchManifest = {
+    version: SEARCH_INDEX_VERSION,
+    pages: [],
+    sections: [],
+    shards: [],
+  };
+  // Prototype-free maps: terms like "constructor" are ordinary keys
+  const shards: Record<string, SearchShard> = Object.create(null);
+
+  for (const document of documents) {
+    const pageIndex = manifest.pages.push([document.url, document.title]) - 1;
+
+    document.sections.forEach((section, position) => {
+      const sectionIndex = manifest.sections.push([
+        pageIndex,
+        section.id,
+        section.heading,
+        createExcerpt(section.text),
+      ]) - 1;
+
+      const weights = new Map<string, number>();
+      const add = (text: string, weight: number) => {
+        for (const term of tokenize(text)) {
+          weights.set(term, (weights.get(term) ?? 0) + weight);
+        }
+      };
+      add(section.text, 1);
+      add(section.heading, HEADING_WEIGHT);
+      if (position === 0) {
+        add(document.title, TITLE_WEIGHT);
+      }
+
+      for (const [term, weight] of weights) {
+        const shard = (shards[getShardKey(term)] ??= Object.create(null) as SearchShard);
+        (shard[term] ??= []).push(sectionIndex, weight);
+      }
+    });
+  }
+
+  manifest.shards = Object.keys(shards).sort();
+  return { manifest, shards };
+}
+
+/**
+ * Parse pages and extract their search sections
+ *
+ * Every document starts with a section for the page itself (empty id),
+ * so page titles are searchable even when the content opens with a
+ * heading.
+ *
+ * @param config - Org-press config
+ * @param pages - Published pages (see getContentPages)
+ * @returns Documents for indexable pages
+ */
+export async function collectSearchDocuments(
+  config: OrgPressConfig,
+  pages: SitePage[]
+): Promise<SearchDocument[]> {
+  const contentDir = path.resolve(process.cwd(), config.contentDir);
+  const documents: SearchDocument[] = [];
+
+  for (const page of pages) {
+    if (!isIndexable(page.metadata)) {
+      continue;
+    }
+
+    const source = fs.readFileSync(path.join(contentDir, page.file), "utf-8");
+    const { ast, metadata } = parseOrgFile(source);
+    const sections = await extractSearchSections(ast, { base: config.base, metadata });
+
+    if (sections[0]?.id !== "") {
+      sections.unshift({ id: "", heading: "", level: 0, text: "" });
+    }
+
+    documents.push({
+      url: getPageUrl("", config.base, page),
+      title: page.metadata.title || page.url,
+      sections,
+    });
+  }
+
+  return documents;
+}
+
+/**
+ * Write the search index to `<outDir>/search/`
+ *
+ * @param config - Org-press config
+ * @param pages - Published pages
+ * @returns Paths of the written files (empty when `search: false`)
+ */
+export async function writeSearchIndex(
+  config: OrgPressConfig,
+  pages: SitePage[]
+): Promise<string[]> {
+  if (config.search === false) {
+    return [];
+  }
+
+  const { manifest, shards } = buildSearchIndex(
+    await collectSearchDocuments(config, pages)
+  );
+
+  const searchDir = path.resolve(process.cwd(), config.outDir, SEARCH_DIR);
+  fs.mkdirSync(searchDir, { recursive: true });
+
+  // Drop shards of the previous build (pages under content/search/ stay)
+  for (const file of fs.readdirSync(searchDir)) {
+    if (/^[a-z0-9_]\.json$/.test(file)) {
+      fs.rmSync(path.join(searchDir, file));
+    }
+  }
+
+  const files = [path.join(searchDir, "index.json")];
+  fs.writeFileSync(files[0], JSON.stringify(manifest));
+
+  for (const [key, shard] of Object.entries(shards)) {
+    const file = path.join(searchDir, `${key}.json`);
+    fs.writeFileSync(file, JSON.stringify(shard));
+    files.push(file);
+  }
+
+  return files;
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  generateRobotsTxt,
+  generateSitemap,
+  getLastModified,
+  getPageUrl,
+  injectCanonicalLink,
+  isIndexPage,
+  isIndexable,
+  writeSiteFiles,
+} from "./sitemap.ts";
+import type { OrgPressConfig } from "../../config/types.ts";
+
+describe("sitemap", () => {
+  describe("getPageUrl", () => {
+    it("should map pages to their built HTML", () => {
+      const site = "https://example.com";
+
+      expect(getPageUrl(site, "/", { file: "index.org", url: "/" })).toBe("https://example.com/");
+      expect(getPageUrl(site, "/", { file: "guide/index.org", url: "/guide" })).toBe(
+        "https://example.com/guide/"
+      );
+      expect(getPageUrl(site, "/", { file: "guide/intro.org", url: "/guide/intro" })).toBe(
+        "https://example.com/guide/intro.html"
+      );
+    });
+
+    it("should respect the base path", () => {
+      expect(
+        getPageUrl("https://example.com/", "/docs/", { file: "intro.org", url: "/intro" })
+      ).toBe("https://example.com/docs/intro.html");
+      expect(getPageUrl("https://example.com", "docs", { file: "index.org", url: "/" })).toBe(
+        "https://example.com/docs/"
+      );
+    });
+  });
+
+  describe("isIndexPage", () => {
+    it("should recognise index files, including translations", () => {
+      expect(isIndexPage({ file: "guide/index.org", url: "/guide" })).toBe(true);
+      expect(isIndexPage({ file: "guide/index.ja.org", url: "/ja/guide" })).toBe(true);
+      expect(isIndexPage({ file: "guide/intro.org", url: "/guide/intro" })).toBe(false);
+      // A page routed to /index is not a directory index
+      expect(isIndexPage({ file: "guide/index.org", url: "/guide/index" })).toBe(false);
+    });
+  });
+
+  describe("isIndexable", () => {
+    it("should exclude drafts and #+NOINDEX: pages", () => {
+      expect(isIndexable({ title: "Intro" })).toBe(true);
+      expect(isIndexable({ status: "draft" })).toBe(false);
+      expect(isIndexable({ noindex: "t" })).toBe(false);
+      expect(isIndexable({ noindex: "nil" })).toBe(true);
+    });
+  });
+
+  describe("getLastModified", () => {
+    it("should prefer the #+DATE: day", () => {
+      expect(getLastModified("<2025-01-15 Wed>", "/missing.org")).toBe("2025-01-15");
+    });
+
+    it("should fall back to the file modification time", () => {
+      const file = path.join(os.tmpdir(), `sitemap-mtime-${process.pid}.org`);
+      fs.writeFileSync(file, "* Page\n");
+      fs.utimesSync(file, new Date("2024-03-02T12:00:00Z"), new Date("2024-03-02T12:00:00Z"));
+
+      try {
+        expect(getLastModified(undefined, file)).toBe("2024-03-02");
+      } finally {
+        fs.rmSync(file);
+      }
+    });
+  });
+
+  describe("generateSitemap", () => {
+    it("should list entries with lastmod", () => {
+      const xml = generateSitemap([
+        { loc: "https://example.com/", lastmod: "2025-01-15" },
+        { loc: "https://example.com/a.html?x=1&y=2" },
+      ]);
+
+      expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+      expect(xml).toContain("<url><loc>https://example.com/</loc><lastmod>2025-01-15</lastmod></url>");
+      expect(xml).toContain("<url><loc>https://example.com/a.html?x=1&amp;y=2</loc></url>");
+    });
+  });
+
+  describe("generateRobotsTxt", () => {
+    it("should allow all crawlers by default", () => {
+      expect(generateRobotsTxt(undefined, "https://example.com/sitemap.xml")).toBe(
+        "User-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml\n"
+      );
+    });
+
+    it("should write custom rules", () => {
+      expect(
+        generateRobotsTxt([{ userAgent: "*", disallow: ["/drafts/", "/tmp/"] }])
+      ).toBe("User-agent: *\nDisallow: /drafts/\nDisallow: /tmp/\n");
+    });
+  });
+
+  describe("injectCanonicalLink", () => {
+    const config = { base: "/docs/", site: { url: "https://example.com" } } as OrgPressConfig;
+    const html = "<html><head><title>x</title></head><body></body></html>";
+
+    it("should add a canonical link", () => {
+      const result = injectCanonicalLink(
+        html,
+        { file: "intro.org", url: "/intro", metadata: {} },
+        config
+      );
+
+      expect(result).toContain(
+        '<link rel="canonical" href="https://example.com/docs/intro.html"/></head>'
+      );
+    });
+
+    it("should mark noindex pages instead", () => {
+      const result = injectCanonicalLink(
+        html,
+        { file: "intro.org", url: "/intro", metadata: { noindex: "t" } },
+        config
+      );
+
+      expect(result).toContain('<meta name="robots" content="noindex"/>');
+      expect(result).not.toContain("canonical");
+    });
+
+    it("should leave pages unchanged without site.url", () => {
+      expect(
+        injectCanonicalLink(html, { file: "a.org", url: "/a", metadata: {} }, {
+          base: "/",
+        } as OrgPressConfig)
+      ).toBe(html);
+    });
+  });
+
+  describe("writeSiteFiles", () => {
+    let tempDir: string;
+    let config: OrgPressConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sitemap-test-"));
+      config = {
+        base: "/",
+        contentDir: path.join(tempDir, "content"),
+        outDir: path.join(tempDir, "dist"),
+        site: { url: "https://example.com" },
+      } as OrgPressConfig;
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should write the sitemap and robots.txt", () => {
+      const files = writeSiteFiles(config, [
+        { file: "index.org", url: "/", metadata: { date: "2025-01-15" } },
+        { file: "secret.org", url: "/secret", metadata: { date: "2025-01-15", noindex: "t" } },
+      ]);
+
+      const sitemap = fs.readFileSync(files.sitemap!, "utf-8");
+      expect(sitemap).toContain("<loc>https://example.com/</loc>");
+      expect(sitemap).not.toContain("secret");
+      expect(fs.readFileSync(files.robots!, "utf-8")).toContain(
+        "Sitemap: https://example.com/sitemap.xml"
+      );
+    });
+
+    it("should skip disabled files", () => {
+      config.site = { url: "https://example.com", sitemap: false, robots: false };
+
+      expect(writeSiteFiles(config, [])).toEqual({ sitemap: null, robots: null });
+      expect(fs.existsSync(path.join(tempDir, "dist"))).toBe(false);
+    });
+
+    it("should do nothing without site config", () => {
+      delete config.site;
+
+      expect(writeSiteFiles(config, [])).toEqual({ sitemap: null, robots: null });
+    });
+  });
+});
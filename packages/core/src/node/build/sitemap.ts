@@ -0,0 +1,288 @@
+/**
+ * Sitemap, robots.txt and canonical links
+ *
+ * Describes the built site to crawlers, based on the `site` config:
+ *
+ * ```ts
+ * export default {
+ *   base: "/docs/",
+ *   site: { url: "https://example.com" },
+ * };
+ * ```
+ *
+ * - `sitemap.xml` lists every indexable page, with `<lastmod>` from
+ *   `#+DATE:` or the org file's modification time
+ * - `robots.txt` allows all crawlers (or `site.robots` rules) and points
+ *   to the sitemap
+ * - each page gets `<link rel="canonical">`, or
+ *   `<meta name="robots" content="noindex">` when it isn't indexable
+ *
+ * Drafts and pages marked `#+NOINDEX: t` are not indexable.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  OrgPressConfig,
+  PageMetadata,
+  RobotsRule,
+} from "../../config/types.ts";
+
+/**
+ * Page to describe (see getContentPages)
+ */
+export interface SitePage {
+  /** Org path relative to the content dir */
+  file: string;
+  /** Page URL (e.g. "/guide/intro") */
+  url: string;
+  /** Page metadata */
+  metadata: PageMetadata;
+}
+
+/**
+ * Sitemap entry
+ */
+export interface SitemapEntry {
+  /** Absolute page URL */
+  loc: string;
+  /** Last modification date (YYYY-MM-DD) */
+  lastmod?: string;
+}
+
+/**
+ * Files written by writeSiteFiles
+ */
+export interface SiteFiles {
+  /** Path to sitemap.xml, or null if not generated */
+  sitemap: string | null;
+  /** Path to robots.txt, or null if not generated */
+  robots: string | null;
+}
+
+const DEFAULT_ROBOTS_RULES: RobotsRule[] = [{ userAgent: "*", allow: ["/"] }];
+
+/**
+ * Escape text for XML and HTML attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Check if a page may be indexed by crawlers
+ *
+ * @example
+ * isIndexable({ status: "draft" }) // false
+ * isIndexable({ noindex: "t" })    // false
+ * isIndexable({ title: "Intro" })  // true
+ */
+export function isIndexable(metadata: PageMetadata): boolean {
+  if (metadata.status === "draft") {
+    return false;
+  }
+  const noindex = String(metadata.noindex ?? "").trim().toLowerCase();
+  return !["t", "true", "yes"].includes(noindex);
+}
+
+/**
+ * Check if a page is served from its directory
+ *
+ * True for index.org files, and for index.<locale>.org translations.
+ *
+ * @example
+ * isIndexPage({ file: "guide/index.ja.org", url: "/ja/guide" }) // true
+ * isIndexPage({ file: "guide/intro.org", url: "/guide/intro" }) // false
+ */
+export function isIndexPage(page: { file: string; url: string }): boolean {
+  const match = /(?:^|\/)(index(?:\.[^./]+)?)\.org$/.exec(page.file);
+  return !!match && !page.url.toLowerCase().endsWith(`/${match[1].toLowerCase()}`);
+}
+
+/**
+ * Get the absolute URL of a page's built HTML
+ *
+ * Matches the output layout of prerenderPages: index pages are served
+ * from their directory, other pages from `.html` files.
+ *
+ * @param siteUrl - Site URL from `site.url`
+ * @param base - Base path
+ * @param page - Page file and URL
+ *
+ * @example
+ * getPageUrl("https://example.com", "/docs/", { file: "guide/intro.org", url: "/guide/intro" })
+ * // "https://example.com/docs/guide/intro.html"
+ */
+export function getPageUrl(
+  siteUrl: string,
+  base: string,
+  page: { file: string; url: string }
+): string {
+  const origin = siteUrl.replace(/\/+$/, "");
+  const basePath = `/${base.replace(/^\/+|\/+$/g, "")}/`.replace(/^\/\/$/, "/");
+
+  let pagePath: string;
+  if (page.url === "/") {
+    pagePath = "";
+  } else if (isIndexPage(page)) {
+    pagePath = `${page.url.replace(/^\//, "")}/`;
+  } else {
+    pagePath = `${page.url.replace(/^\//, "")}.html`;
+  }
+
+  return `${origin}${basePath}${pagePath}`;
+}
+
+/**
+ * Get a page's last modification date
+ *
+ * Uses the date part of `#+DATE:` (`2025-01-15`, `<2025-01-15 Wed>`),
+ * falling back to the org file's modification time.
+ *
+ * @param date - `#+DATE:` value
+ * @param orgFile - Absolute org file path
+ * @returns Date as YYYY-MM-DD, or undefined if neither is available
+ */
+export function getLastModified(
+  date: string | undefined,
+  orgFile: string
+): string | undefined {
+  const match = date?.match(/\d{4}-\d{2}-\d{2}/);
+  if (match) {
+    return match[0];
+  }
+
+  try {
+    return fs.statSync(orgFile).mtime.toISOString().slice(0, 10);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Generate sitemap.xml
+ *
+ * @param entries - Pages to list
+ * @returns Sitemap XML
+ */
+export function generateSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lastmod = entry.lastmod ? `<lastmod>${entry.lastmod}</lastmod>` : "";
+    return `  <url><loc>${escapeXml(entry.loc)}</loc>${lastmod}</url>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Generate robots.txt
+ *
+ * @param rules - Rule groups (default: allow all crawlers)
+ * @param sitemapUrl - Absolute sitemap URL to advertise
+ * @returns robots.txt content
+ */
+export function generateRobotsTxt(
+  rules: RobotsRule[] = DEFAULT_ROBOTS_RULES,
+  sitemapUrl?: string
+): string {
+  const groups = rules.map((rule) =>
+    [
+      `User-agent: ${rule.userAgent}`,
+      ...(rule.allow ?? []).map((prefix) => `Allow: ${prefix}`),
+      ...(rule.disallow ?? []).map((prefix) => `Disallow: ${prefix}`),
+    ].join("\n")
+  );
+
+  if (sitemapUrl) {
+    groups.push(`Sitemap: ${sitemapUrl}`);
+  }
+
+  return groups.join("\n\n") + "\n";
+}
+
+/**
+ * Add a canonical link (or noindex meta tag) to a page's head
+ *
+ * @param html - Rendered page HTML
+ * @param page - Page being rendered
+ * @param config - Org-press config
+ * @returns HTML with the tag injected (unchanged without `site.url`)
+ */
+export function injectCanonicalLink(
+  html: string,
+  page: SitePage,
+  config: OrgPressConfig
+): string {
+  if (!html.includes("</head>")) {
+    return html;
+  }
+
+  if (!isIndexable(page.metadata)) {
+    return html.replace("</head>", '<meta name="robots" content="noindex"/></head>');
+  }
+
+  if (!config.site?.url || html.includes('rel="canonical"')) {
+    return html;
+  }
+
+  const href = escapeXml(getPageUrl(config.site.url, config.base, page));
+  return html.replace("</head>", `<link rel="canonical" href="${href}"/></head>`);
+}
+
+/**
+ * Write sitemap.xml and robots.txt to the output directory
+ *
+ * @param config - Org-press config
+ * @param pages - All published pages
+ * @returns Paths of the written files
+ */
+export function writeSiteFiles(
+  config: OrgPressConfig,
+  pages: SitePage[]
+): SiteFiles {
+  const site = config.site;
+  const files: SiteFiles = { sitemap: null, robots: null };
+
+  if (!site) {
+    return files;
+  }
+
+  const outDir = path.resolve(process.cwd(), config.outDir);
+  const contentDir = path.resolve(process.cwd(), config.contentDir);
+  let sitemapUrl: string | undefined;
+
+  if (site.url && site.sitemap !== false) {
+    const entries = pages
+      .filter((page) => isIndexable(page.metadata))
+      .map((page) => ({
+        loc: getPageUrl(site.url!, config.base, page),
+        lastmod: getLastModified(page.metadata.date, path.join(contentDir, page.file)),
+      }))
+      .sort((a, b) => a.loc.localeCompare(b.loc));
+
+    files.sitemap = path.join(outDir, "sitemap.xml");
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(files.sitemap, generateSitemap(entries));
+    sitemapUrl = getPageUrl(site.url, config.base, { file: "", url: "/" }) + "sitemap.xml";
+  }
+
+  if (site.robots !== false) {
+    const rules = typeof site.robots === "object" ? site.robots.rules : undefined;
+    files.robots = path.join(outDir, "robots.txt");
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(files.robots, generateRobotsTxt(rules, sitemapUrl));
+  }
+
+  return files;
+}
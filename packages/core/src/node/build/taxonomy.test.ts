@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { getTagPages } from "./taxonomy.ts";
+import type { OrgPressConfig } from "../../config/types.ts";
+import type { ContentPage } from "../../content.ts";
+
+const pages: ContentPage[] = [
+  {
+    file: "blog/old.org",
+    url: "/blog/old",
+    metadata: { title: "Old <post>", date: "2024-01-01", tags: ["emacs"] },
+  },
+  {
+    file: "blog/new.org",
+    url: "/blog/new",
+    metadata: { title: "New", date: "2025-01-01", tags: ["Emacs", "org mode"] },
+  },
+  { file: "guide/index.org", url: "/guide", metadata: { title: "Guide", tags: ["org mode"] } },
+  { file: "hidden.org", url: "/hidden", metadata: { title: "Hidden", tags: ["secret"], noindex: "t" } },
+];
+
+describe("getTagPages", () => {
+  it("should generate an index and a page per tag", () => {
+    // Tags are spelled as on the newest page
+    const generated = getTagPages({} as OrgPressConfig, pages);
+
+    expect(generated.map((page) => page.url)).toEqual(["/tags", "/tags/emacs", "/tags/org-mode"]);
+    expect(generated[0].source).toContain(
+      '<ul class="tag-list"><li><a href="/tags/emacs/">Emacs</a> <span class="tag-count">2</span></li>'
+    );
+  });
+
+  it("should list tagged pages newest first", () => {
+    const [, emacs, orgMode] = getTagPages({} as OrgPressConfig, pages);
+
+    expect(emacs.metadata).toMatchObject({ title: "Tag: Emacs", tag: "Emacs" });
+    expect(emacs.source).toContain("#+TITLE: Tag: Emacs\n#+TAG: Emacs\n");
+    expect(emacs.source).toContain(
+      '<li><a href="/blog/new.html">New</a> <time>2025-01-01</time></li>' +
+        '<li><a href="/blog/old.html">Old &lt;post&gt;</a> <time>2024-01-01</time></li>'
+    );
+    expect(orgMode.source).toContain('<a href="/guide/">Guide</a>');
+  });
+
+  it("should use the configured theme layout", () => {
+    const generated = getTagPages({ tags: { layout: "tags" } } as OrgPressConfig, pages);
+
+    expect(generated.every((page) => page.source.includes("#+LAYOUT: tags\n"))).toBe(true);
+  });
+
+  it("should leave URLs of content pages alone", () => {
+    const generated = getTagPages({} as OrgPressConfig, [
+      ...pages,
+      { file: "tags/index.org", url: "/tags", metadata: { title: "My tags" } },
+    ]);
+
+    expect(generated.map((page) => page.url)).toEqual(["/tags/emacs", "/tags/org-mode"]);
+  });
+
+  it("should generate nothing when disabled or untagged", () => {
+    expect(getTagPages({ tags: false } as OrgPressConfig, pages)).toEqual([]);
+    expect(getTagPages({} as OrgPressConfig, [pages[3]])).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tag listing pages
+ *
+ * Groups pages by their tags (#+FILETAGS: and heading tags) and generates
+ * org sources for:
+ *
+ * - `/tags/` - every tag with its page count
+ * - `/tags/<tag>/` - the pages carrying a tag, newest first
+ *
+ * The build renders them through the SSR bundle like any other page, with
+ * the theme layout from `tags.layout`. Content pages at the same URLs
+ * (e.g. `content/tags/index.org`) take precedence.
+ */
+
+import type { OrgPressConfig } from "../../config/types.ts";
+import { groupPagesByTag, type ContentPage } from "../../content.ts";
+import { escapeXml, getPageUrl, isIndexable } from "./sitemap.ts";
+
+/** URL prefix of the tag pages */
+export const TAGS_PATH = "tags";
+
+/**
+ * Page without an org file, rendered from a generated org source
+ */
+export interface GeneratedPage extends ContentPage {
+  /** Org source to render */
+  source: string;
+}
+
+/**
+ * Render the pages of a tag as a list
+ *
+ * Links are root-relative; the build applies the base path.
+ */
+function renderTaggedPageList(pages: ContentPage[]): string {
+  const items = pages.map((page) => {
+    const href = escapeXml(getPageUrl("", "/", page));
+    const title = escapeXml(page.metadata.title || page.url);
+    const date = page.metadata.date
+      ? ` <time>${escapeXml(page.metadata.date)}</time>`
+      : "";
+    return `<li><a href="${href}">${title}</a>${date}</li>`;
+  });
+
+  return `<ul class="content-list">${items.join("")}</ul>`;
+}
+
+/**
+ * Create the org source of a generated page
+ *
+ * The listing goes in an export block, so it's rendered as-is.
+ */
+function createPageSource(
+  title: string,
+  html: string,
+  keywords: Record<string, string | undefined>
+): string {
+  const lines = [`#+TITLE: ${title}`];
+  for (const [key, value] of Object.entries(keywords)) {
+    if (value) {
+      lines.push(`#+${key.toUpperCase()}: ${value}`);
+    }
+  }
+  lines.push("", "#+begin_export html", html, "#+end_export", "");
+  return lines.join("\n");
+}
+
+/**
+ * Get the tag listing pages for a site
+ *
+ * @param config - Org-press config
+ * @param pages - Published pages
+ * @returns Pages for `/tags/` and each tag (empty when `tags: false` or
+ *   no page is tagged)
+ *
+ * @example
+ * getTagPages(config, pages).map((page) => page.url)
+ * // ["/tags", "/tags/emacs", "/tags/org-mode"]
+ */
+export function getTagPages(
+  config: OrgPressConfig,
+  pages: ContentPage[]
+): GeneratedPage[] {
+  if (config.tags === false) {
+    return [];
+  }
+
+  const layout = typeof config.tags === "object" ? config.tags.layout : undefined;
+  const listed = pages
+    .filter((page) => isIndexable(page.metadata))
+    .sort((a, b) => (b.metadata.date || "").localeCompare(a.metadata.date || ""));
+  const groups = groupPagesByTag(listed);
+
+  if (groups.length === 0) {
+    return [];
+  }
+
+  const tagIndex = groups.map(
+    ({ tag, slug, pages: tagged }) =>
+      `<li><a href="/${TAGS_PATH}/${slug}/">${escapeXml(tag)}</a> <span class="tag-count">${tagged.length}</span></li>`
+  );
+
+  const generated: GeneratedPage[] = [
+    {
+      file: `${TAGS_PATH}/index.org`,
+      url: `/${TAGS_PATH}`,
+      metadata: { title: "Tags", layout },
+      source: createPageSource(
+        "Tags",
+        `<ul class="tag-list">${tagIndex.join("")}</ul>`,
+        { layout }
+      ),
+    },
+    ...groups.map(({ tag, slug, pages: tagged }) => ({
+      file: `${TAGS_PATH}/${slug}/index.org`,
+      url: `/${TAGS_PATH}/${slug}`,
+      metadata: { title: `Tag: ${tag}`, layout, tag },
+      source: createPageSource(`Tag: ${tag}`, renderTaggedPageList(tagged), {
+        layout,
+        tag,
+      }),
+    })),
+  ];
+
+  // Content pages win over generated ones
+  const taken = new Set(pages.map((page) => page.url));
+  return generated.filter((page) => !taken.has(page.url));
+}
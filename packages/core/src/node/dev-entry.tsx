@@ -12,7 +12,8 @@ import type { OrgPressConfig, ThemeConfig } from "../config/types.ts";
 import { parseOrgContent } from "../parser/parse-content.ts";
 import { renderWithLayout } from "../render/render-static.tsx";
 import { loadLayout } from "../layouts/index.ts";
-import { contentHelpers } from "../content.ts";
+import { getContentPages, getPageContentHelpers, getPageTranslations } from "../content.ts";
+import { getUrlLocale } from "../routing/i18n.ts";
 import type { BlockPlugin } from "../plugins/types.ts";
 import {
   hasOrgLayout,
@@ -25,6 +26,7 @@ import {
   renderWithOrgLayoutAsync,
 } from "../render/org-layout.ts";
 import { renderOrgToHtml } from "../render/render.ts";
+import type { RenderContext } from "../render/types.ts";
 import { resolve } from "node:path";
 
 /**
@@ -69,6 +71,9 @@ export interface DevRenderOptions {
 
   /** Path to .org file */
   orgPath: string;
+
+  /** Requested URL path (used with i18n, where it sets the page's locale) */
+  url?: string;
 }
 
 /**
@@ -129,15 +134,45 @@ export async function renderOrgFile(
     outDir: config.outDir,
   };
 
+  // Compute URL path for navigation highlighting
+  // (translated pages and fallbacks are identified by their URL)
+  const currentPath =
+    config.i18n && options.url ? options.url : orgPathToUrl(orgPath, config.contentDir);
+  const pageUrl = currentPath.replace(/(\/index)?\.html$/, "").toLowerCase() || "/";
+  const locale = config.i18n ? getUrlLocale(pageUrl, config.i18n).locale : undefined;
+
   // Parse with full content helpers (imported from content.ts)
-  const parsed = await parseOrgContent(
-    orgContent,
-    parseContext,
-    contentHelpers
-  );
+  // #+PAGINATE: pages show their first page
+  const helpers = await getPageContentHelpers(orgContent, pageUrl, {
+    contentDir: config.contentDir,
+    i18n: config.i18n,
+    locale,
+  });
 
-  // Compute URL path for navigation highlighting
-  const currentPath = orgPathToUrl(orgPath, config.contentDir);
+  // Layouts get the page's locale and translations
+  const localeProps = config.i18n
+    ? {
+        locale,
+        translations: await getPageTranslations(pageUrl, {
+          contentDir: config.contentDir,
+          i18n: config.i18n,
+        }),
+      }
+    : {};
+  const parsed = await parseOrgContent(orgContent, parseContext, helpers);
+
+  // Links in translated pages go to the translations that exist
+  const renderContext: RenderContext = {
+    base: config.base,
+    metadata: parsed.metadata,
+    ...(config.i18n && {
+      locale,
+      i18n: config.i18n,
+      pageUrls: (
+        await getContentPages({ contentDir: config.contentDir, i18n: config.i18n })
+      ).map((page) => page.url),
+    }),
+  };
 
   // 4. Check for cross-file layout/wrapper (#+LAYOUT: ./path.org#block)
   if (hasCrossFileLayout(parsed.metadata) || hasCrossFileWrapper(parsed.metadata)) {
@@ -148,10 +183,7 @@ export async function renderOrgFile(
       parsed.ast,
       parsed.metadata,
       async (ast) => {
-        return renderOrgToHtml(ast, {
-          base: config.base,
-          metadata: parsed.metadata,
-        });
+        return renderOrgToHtml(ast, renderContext);
       },
       {
         currentOrgFile: absoluteOrgPath,
@@ -173,14 +205,12 @@ export async function renderOrgFile(
 
     const renderedHtml = await renderWithLayout({
       ast: parsed.ast,
-      context: {
-        base: config.base,
-        metadata: parsed.metadata,
-      },
+      context: renderContext,
       Layout,
       layoutProps: {
         content: html,
         currentPath,
+        ...localeProps,
       },
     });
 
@@ -194,10 +224,7 @@ export async function renderOrgFile(
       parsed.ast,
       parsed.metadata,
       async (ast) => {
-        return renderOrgToHtml(ast, {
-          base: config.base,
-          metadata: parsed.metadata,
-        });
+        return renderOrgToHtml(ast, renderContext);
       }
     );
 
@@ -215,15 +242,13 @@ export async function renderOrgFile(
 
     const renderedHtml = await renderWithLayout({
       ast: parsed.ast,
-      context: {
-        base: config.base,
-        metadata: parsed.metadata,
-      },
+      context: renderContext,
       Layout,
       layoutProps: {
         // Pass pre-wrapped content
         content: html,
         currentPath,
+        ...localeProps,
       },
     });
 
@@ -237,13 +262,11 @@ export async function renderOrgFile(
 
     const renderedHtml = await renderWithLayout({
       ast: parsed.ast,
-      context: {
-        base: config.base,
-        metadata: parsed.metadata,
-      },
+      context: renderContext,
       Layout,
       layoutProps: {
         currentPath,
+        ...localeProps,
       },
     });
 
@@ -256,13 +279,11 @@ export async function renderOrgFile(
   // 8. Render with theme layout
   const renderedHtml = await renderWithLayout({
     ast: parsed.ast,
-    context: {
-      base: config.base,
-      metadata: parsed.metadata,
-    },
+    context: renderContext,
     Layout,
     layoutProps: {
       currentPath,
+      ...localeProps,
     },
   });
 
@@ -14,6 +14,8 @@ import {
   collectCssFromModuleGraph,
   generateCssLinkTags,
 } from "./css-collector.ts";
+import { createPageSnapshot, type PageSnapshot } from "./hmr.ts";
+import { resolveLocalizedOrgFile } from "../routing/i18n.ts";
 
 // Get the package root directory for resolving dev-entry path
 // At runtime, this file is in dist/ but we need to resolve to src/node/dev-entry.tsx
@@ -41,6 +43,9 @@ export interface DevServerOptions {
 
   /** Vite dev server instance */
   server: ViteDevServer;
+
+  /** Snapshots of rendered pages by absolute path, used to diff edits for HMR */
+  snapshots?: Map<string, PageSnapshot>;
 }
 
 /**
@@ -93,8 +98,16 @@ export function createDevServerMiddleware(
     // / → index.org
     // /about → about.org
     // /blog/post → blog/post.org
+    // With i18n: /ja/guide/intro → ja/guide/intro.org (or guide/intro.ja.org),
+    // falling back to guide/intro.org
     let orgPath: string;
-    if (urlWithoutQuery === "/" || urlWithoutQuery === "") {
+    if (config.i18n) {
+      const localized = resolveLocalizedOrgFile(urlWithoutQuery || "/", contentDir, config.i18n);
+      if (!localized) {
+        return next();
+      }
+      orgPath = localized.file;
+    } else if (urlWithoutQuery === "/" || urlWithoutQuery === "") {
       orgPath = path.join(contentDir, "index.org");
     } else {
       // Remove leading slash and .html extension if present
@@ -108,7 +121,7 @@ export function createDevServerMiddleware(
     }
 
     try {
-      const html = await renderOrgFile(orgPath, { config, server });
+      const html = await renderOrgFile(orgPath, { config, server }, urlWithoutQuery || "/");
 
       // Transform HTML with Vite (resolves virtual modules, etc.)
       const transformedHtml = await server.transformIndexHtml(
@@ -162,18 +175,28 @@ export function createDevServerMiddleware(
  *
  * @param orgPath - Path to .org file
  * @param options - Render options
+ * @param url - Requested URL path (the page's locale with i18n)
  * @returns Rendered HTML
  */
 async function renderOrgFile(
   orgPath: string,
-  options: DevServerOptions
+  options: DevServerOptions,
+  url?: string
 ): Promise<string> {
-  const { config, server } = options;
+  const { config, server, snapshots } = options;
 
   // Load plugins
   const { loadPlugins } = await import("../plugins/loader.ts");
   const { plugins } = await loadPlugins(config);
 
+  // Remember what this page looked like, so edits can be diffed
+  if (snapshots) {
+    snapshots.set(
+      path.resolve(orgPath),
+      createPageSnapshot(fs.readFileSync(orgPath, "utf-8"), path.relative(process.cwd(), orgPath))
+    );
+  }
+
   // Load dev entry module via Vite SSR
   // Use source path from package root (Vite needs to transform TSX)
   const devEntryPath = path.resolve(packageRoot, "src/node/dev-entry.tsx");
@@ -184,8 +207,17 @@ async function renderOrgFile(
     config,
     plugins,
     orgPath,
+    url,
   });
 
+  // Block modules were just rewritten: drop stale transforms before the
+  // client re-imports them
+  for (const block of collectedBlocks as CollectedBlockInfo[]) {
+    for (const mod of server.moduleGraph.getModulesByFile(path.resolve(block.cachePath)) ?? []) {
+      server.moduleGraph.invalidateModule(mod);
+    }
+  }
+
   // Collect CSS from module graph and inject link tags
   // This mimics what Vite does in production builds
   const themePath = resolveThemePath(config.theme);
@@ -228,22 +260,26 @@ async function renderOrgFile(
 }
 
 /**
- * Inject Vite client script for HMR
+ * Inject Vite client and org-press HMR client scripts
  *
  * @param html - Rendered HTML
- * @returns HTML with Vite client injected
+ * @returns HTML with HMR clients injected
  */
 function injectViteClient(html: string): string {
   // Inject Vite client script into <head>
   const viteScript = '<script type="module" src="/@vite/client"></script>';
 
+  // Page HMR client (patches the page on .org edits), from source for Vite
+  const hmrPath = path.resolve(packageRoot, "src/client/hmr.ts").replace(/\\/g, "/");
+  const hmrScript = `<script type="module" src="/@fs${hmrPath}"></script>`;
+
   // Find </head> tag and inject before it
   if (html.includes("</head>")) {
-    return html.replace("</head>", `  ${viteScript}\n</head>`);
+    return html.replace("</head>", `  ${viteScript}\n  ${hmrScript}\n</head>`);
   }
 
   // Fallback: inject at the beginning
-  return viteScript + "\n" + html;
+  return viteScript + "\n" + hmrScript + "\n" + html;
 }
 
 /**
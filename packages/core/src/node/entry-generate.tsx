@@ -12,10 +12,21 @@
 import { readFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { relative, resolve } from "node:path";
-import type { OrgPressConfig, LayoutComponent, BlockPlugin } from "org-press";
+import type {
+  OrgPressConfig,
+  LayoutComponent,
+  BlockPlugin,
+  ContentHelpers,
+  RenderContext,
+} from "org-press";
 import {
   getContentPages,
+  getPageContentHelpers,
+  getPageTranslations,
+  getPaginationUrl,
   getOrgFileFromUrl,
+  getUrlLocale,
+  resolveLocalizedOrgFile,
   loadConfig,
   loadPlugins,
   loadDefaultLayout,
@@ -113,6 +124,28 @@ function getLayoutByName(layoutName: string): LayoutComponent {
   return cachedLayout!;
 }
 
+/**
+ * Find the org file and locale of a URL
+ *
+ * With i18n, a missing translation resolves to the default-locale page.
+ *
+ * @param url - URL path (e.g., "/ja/guide/intro")
+ * @returns Org file (null if not found) and the URL's locale
+ */
+function resolvePage(url: string): { orgFile: string | null; locale?: string } {
+  const config = cachedConfig!;
+
+  if (!config.i18n) {
+    return { orgFile: getOrgFileFromUrl(url, config.contentDir) };
+  }
+
+  const localized = resolveLocalizedOrgFile(url, config.contentDir, config.i18n);
+  return {
+    orgFile: localized?.file ?? null,
+    locale: localized?.locale ?? getUrlLocale(url, config.i18n).locale,
+  };
+}
+
 /**
  * Collected block info for hydration
  */
@@ -154,11 +187,9 @@ export async function render(
   await initialize();
 
   const config = cachedConfig!;
-  const Layout = cachedLayout!;
-  const plugins = cachedPlugins!;
 
   // Find org file for this URL
-  const orgFile = getOrgFileFromUrl(url, config.contentDir);
+  const { orgFile, locale } = resolvePage(url);
 
   if (!orgFile) {
     console.warn(`[entry-generate] Org file not found for URL: ${url}`);
@@ -172,6 +203,112 @@ export async function render(
 
   // Read org file
   const orgContent = await readFile(orgFile, "utf-8");
+  const helpers = await getPageContentHelpers(orgContent, url, {
+    includeDrafts: false,
+    contentDir: config.contentDir,
+    i18n: config.i18n,
+    locale,
+  });
+
+  return renderSource(orgContent, orgFile, url, helpers);
+}
+
+/**
+ * Render a page of a #+PAGINATE: page (e.g. /blog/page/2/)
+ *
+ * @param url - URL path of the #+PAGINATE: page (e.g., "/blog")
+ * @param page - Page number to render
+ * @returns Rendered HTML, preload links, and collected blocks for hydration
+ *
+ * @example
+ * const { html } = await renderPaginated("/blog", 2);
+ */
+export async function renderPaginated(
+  url: string,
+  page: number
+): Promise<RenderResult> {
+  await initialize();
+
+  const config = cachedConfig!;
+  const { orgFile, locale } = resolvePage(url);
+
+  if (!orgFile || !existsSync(orgFile)) {
+    console.warn(`[entry-generate] Org file not found for URL: ${url}`);
+    return { html: null, preloadLinks: "", collectedBlocks: [] };
+  }
+
+  const orgContent = await readFile(orgFile, "utf-8");
+  const helpers = await getPageContentHelpers(orgContent, url, {
+    page,
+    includeDrafts: false,
+    contentDir: config.contentDir,
+    i18n: config.i18n,
+    locale,
+  });
+
+  return renderSource(
+    orgContent,
+    orgFile,
+    getPaginationUrl(url, page).replace(/\/$/, ""),
+    helpers
+  );
+}
+
+/**
+ * Render a page that has no org file (e.g. generated tag listings)
+ *
+ * @param url - URL path of the page (e.g., "/tags/emacs")
+ * @param orgContent - Org source of the page
+ * @returns Rendered HTML, preload links, and collected blocks for hydration
+ *
+ * @example
+ * const { html } = await renderGenerated("/tags", "#+TITLE: Tags\n...");
+ */
+export async function renderGenerated(
+  url: string,
+  orgContent: string
+): Promise<RenderResult> {
+  await initialize();
+
+  const orgFile = resolve(
+    process.cwd(),
+    cachedConfig!.contentDir,
+    `${url.replace(/^\/+/, "")}/index.org`
+  );
+
+  return renderSource(orgContent, orgFile, url, contentHelpers);
+}
+
+/**
+ * Render org source with the page's layout
+ *
+ * @param orgContent - Org source
+ * @param orgFile - Org file path (used to resolve relative references)
+ * @param url - URL path of the page
+ * @param helpers - Content helpers for the page's server blocks
+ */
+async function renderSource(
+  orgContent: string,
+  orgFile: string,
+  url: string,
+  helpers: ContentHelpers
+): Promise<RenderResult> {
+  const config = cachedConfig!;
+  const Layout = cachedLayout!;
+  const plugins = cachedPlugins!;
+
+  // Layouts get the page's locale and translations (e.g. for a language switcher)
+  const locale = config.i18n ? getUrlLocale(url, config.i18n).locale : undefined;
+  const localeProps = config.i18n
+    ? {
+        locale,
+        translations: await getPageTranslations(url, {
+          includeDrafts: false,
+          contentDir: config.contentDir,
+          i18n: config.i18n,
+        }),
+      }
+    : {};
 
   // Get relative path from PROJECT ROOT (not content dir)
   // Virtual blocks plugin expects paths relative to project root
@@ -189,7 +326,24 @@ export async function render(
   };
 
   // Parse with full content helpers (imported from content.ts)
-  const parsed = await parseOrgContent(orgContent, parseContext, contentHelpers);
+  const parsed = await parseOrgContent(orgContent, parseContext, helpers);
+
+  // Links in translated pages go to the translations that exist
+  const renderContext: RenderContext = {
+    base: config.base,
+    metadata: parsed.metadata,
+    ...(config.i18n && {
+      locale,
+      i18n: config.i18n,
+      pageUrls: (
+        await getContentPages({
+          includeDrafts: false,
+          contentDir: config.contentDir,
+          i18n: config.i18n,
+        })
+      ).map((page) => page.url),
+    }),
+  };
 
   // Check for cross-file layout/wrapper (#+LAYOUT: ./path.org#block)
   if (hasCrossFileLayout(parsed.metadata) || hasCrossFileWrapper(parsed.metadata)) {
@@ -200,10 +354,7 @@ export async function render(
       parsed.ast,
       parsed.metadata,
       async (ast) => {
-        return renderOrgToHtml(ast, {
-          base: config.base,
-          metadata: parsed.metadata,
-        });
+        return renderOrgToHtml(ast, renderContext);
       },
       {
         currentOrgFile: absoluteOrgPath,
@@ -224,14 +375,12 @@ export async function render(
 
     const renderedHtml = await renderWithLayout({
       ast: parsed.ast,
-      context: {
-        base: config.base,
-        metadata: parsed.metadata,
-      },
+      context: renderContext,
       Layout: LayoutToUse,
       layoutProps: {
         content: orgHtml,
         currentPath: url,
+        ...localeProps,
       },
     });
 
@@ -246,10 +395,7 @@ export async function render(
       parsed.ast,
       parsed.metadata,
       async (ast) => {
-        return renderOrgToHtml(ast, {
-          base: config.base,
-          metadata: parsed.metadata,
-        });
+        return renderOrgToHtml(ast, renderContext);
       }
     );
 
@@ -266,15 +412,13 @@ export async function render(
 
     const renderedHtml = await renderWithLayout({
       ast: parsed.ast,
-      context: {
-        base: config.base,
-        metadata: parsed.metadata,
-      },
+      context: renderContext,
       Layout: LayoutToUse,
       layoutProps: {
         // Pass pre-wrapped content
         content: orgHtml,
         currentPath: url,
+        ...localeProps,
       },
     });
 
@@ -289,13 +433,11 @@ export async function render(
 
     const renderedHtml = await renderWithLayout({
       ast: parsed.ast,
-      context: {
-        base: config.base,
-        metadata: parsed.metadata,
-      },
+      context: renderContext,
       Layout: LayoutToUse,
       layoutProps: {
         currentPath: url,
+        ...localeProps,
       },
     });
 
@@ -306,13 +448,11 @@ export async function render(
   // Render with default theme layout (no layout specified)
   const renderedHtml = await renderWithLayout({
     ast: parsed.ast,
-    context: {
-      base: config.base,
-      metadata: parsed.metadata,
-    },
+    context: renderContext,
     Layout,
     layoutProps: {
       currentPath: url,
+      ...localeProps,
     },
   });
 
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { createPageSnapshot, diffPageSnapshots, getPagePath } from "./hmr.ts";
+
+const PAGE = `#+TITLE: Notes
+
+Some prose.
+
+#+begin_src javascript :use preview
+export default 1;
+#+end_src
+
+#+NAME: chart
+#+begin_src javascript :use preview
+export default 2;
+#+end_src
+`;
+
+const FILE = "content/notes.org";
+
+describe("createPageSnapshot", () => {
+  it("should key blocks by their hydration ID", () => {
+    const snapshot = createPageSnapshot(PAGE, FILE);
+
+    expect([...snapshot.blocks.keys()]).toEqual([
+      "block-content-notes-org-0",
+      "block-content-notes-org-1",
+    ]);
+    expect(JSON.parse(snapshot.metadata).title).toBe("Notes");
+  });
+});
+
+describe("diffPageSnapshots", () => {
+  const previous = createPageSnapshot(PAGE, FILE);
+
+  it("should patch prose-only edits without touching blocks", () => {
+    const next = createPageSnapshot(PAGE.replace("Some prose.", "Other prose."), FILE);
+
+    expect(diffPageSnapshots(previous, next)).toEqual({ type: "update", blocks: [] });
+  });
+
+  it("should report changed code blocks", () => {
+    const next = createPageSnapshot(PAGE.replace("export default 2;", "export default 3;"), FILE);
+
+    expect(diffPageSnapshots(previous, next)).toEqual({
+      type: "update",
+      blocks: ["block-content-notes-org-1"],
+    });
+  });
+
+  it("should report changed block parameters", () => {
+    const next = createPageSnapshot(PAGE.replace(":use preview\nexport default 1", ":use sourceOnly\nexport default 1"), FILE);
+
+    expect(diffPageSnapshots(previous, next)).toEqual({
+      type: "update",
+      blocks: ["block-content-notes-org-0"],
+    });
+  });
+
+  it("should report blocks shifted by an inserted block", () => {
+    const next = createPageSnapshot(
+      PAGE.replace("Some prose.", "#+begin_src javascript\nexport default 0;\n#+end_src"),
+      FILE
+    );
+
+    expect(diffPageSnapshots(previous, next)).toEqual({
+      type: "update",
+      blocks: ["block-content-notes-org-0", "block-content-notes-org-1", "block-content-notes-org-2"],
+    });
+  });
+
+  it("should fully reload when metadata changes", () => {
+    const next = createPageSnapshot(PAGE.replace("#+TITLE: Notes", "#+TITLE: Notes\n#+LAYOUT: wide"), FILE);
+
+    expect(diffPageSnapshots(previous, next)).toEqual({ type: "full-reload" });
+  });
+});
+
+describe("getPagePath", () => {
+  it("should map org files to page paths", () => {
+    expect(getPagePath("content/guide/intro.org", "content")).toBe("/guide/intro");
+    expect(getPagePath("content/index.org", "./content/")).toBe("/");
+    expect(getPagePath("content/guide/index.org", "content", "/docs/")).toBe("/docs/guide");
+  });
+
+  it("should prefix translations with their locale", () => {
+    const i18n = { locales: ["en", "ja"], defaultLocale: "en" };
+
+    expect(getPagePath("content/ja/intro.org", "content", "/", i18n)).toBe("/ja/intro");
+    expect(getPagePath("content/ja/index.org", "content", "/docs/", i18n)).toBe("/docs/ja");
+    expect(getPagePath("content/intro.org", "content", "/", i18n)).toBe("/intro");
+    expect(
+      getPagePath("content/intro.ja.org", "content", "/", { ...i18n, strategy: "suffix" })
+    ).toBe("/ja/intro");
+  });
+});
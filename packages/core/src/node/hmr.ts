@@ -0,0 +1,143 @@
+/**
+ * Org-Press Dev HMR
+ *
+ * Decides how an edited .org file reaches open pages:
+ *
+ * - Metadata changes (#+TITLE:, #+LAYOUT:, ...) → full reload
+ * - Code block changes → patch the page and re-hydrate the changed blocks
+ * - Prose-only changes → patch the page, keeping every block's state
+ *
+ * The server keeps a snapshot of each rendered page; on change it diffs the
+ * snapshots and sends an `org-press:update` event. The client
+ * (src/client/hmr.ts) re-fetches the page and patches the DOM in place.
+ */
+
+import type { OrgData } from "uniorg";
+import type { I18nConfig } from "../config/types.ts";
+import { parseOrgFile } from "../parser/parse-content.ts";
+import { getFileLocale, localizeUrl } from "../routing/i18n.ts";
+import { createBlockId } from "../plugins/utils.ts";
+
+/**
+ * Custom HMR event sent to the client
+ */
+export const ORG_UPDATE_EVENT = "org-press:update";
+
+/**
+ * What the dev server knows about a rendered page
+ */
+export interface PageSnapshot {
+  /** Serialized page metadata */
+  metadata: string;
+  /** Block source (language, parameters, name, code) by block ID */
+  blocks: Map<string, string>;
+}
+
+/**
+ * Result of diffing two page snapshots
+ */
+export type PageUpdate =
+  | { type: "full-reload" }
+  | {
+      type: "update";
+      /** IDs of blocks that are new or changed */
+      blocks: string[];
+    };
+
+/**
+ * Payload of the `org-press:update` event
+ */
+export interface OrgUpdatePayload {
+  /** Org file path relative to the project root */
+  file: string;
+  /** Page URL path (e.g., "/guide/intro") */
+  path: string;
+  /** IDs of blocks to re-hydrate */
+  blocks: string[];
+  /** Timestamp for cache-busting block modules */
+  timestamp: number;
+}
+
+/**
+ * Create a snapshot of an org page
+ *
+ * @param source - Org source
+ * @param orgFilePath - Path relative to the project root (as used for block IDs)
+ * @returns Page snapshot
+ */
+export function createPageSnapshot(source: string, orgFilePath: string): PageSnapshot {
+  const cleanSource = source.startsWith("#!") ? source.replace(/^#!.*\n/, "") : source;
+  const { ast, metadata } = parseOrgFile(cleanSource);
+  const blocks = new Map<string, string>();
+  let index = 0;
+
+  function walk(node: any): void {
+    if (node.type === "src-block") {
+      blocks.set(
+        createBlockId(orgFilePath, index++),
+        [node.language, node.parameters, node.affiliated?.NAME, node.value].join("\0")
+      );
+      return;
+    }
+    if (Array.isArray(node.children)) {
+      node.children.forEach(walk);
+    }
+  }
+
+  walk(ast as OrgData);
+  return { metadata: JSON.stringify(metadata), blocks };
+}
+
+/**
+ * Diff two snapshots of the same page
+ *
+ * @param previous - Snapshot of the page currently shown
+ * @param next - Snapshot after the edit
+ * @returns Full reload when metadata changed, otherwise the changed blocks
+ */
+export function diffPageSnapshots(previous: PageSnapshot, next: PageSnapshot): PageUpdate {
+  if (previous.metadata !== next.metadata) {
+    return { type: "full-reload" };
+  }
+
+  const blocks: string[] = [];
+  for (const [id, source] of next.blocks) {
+    if (previous.blocks.get(id) !== source) {
+      blocks.push(id);
+    }
+  }
+
+  return { type: "update", blocks };
+}
+
+/**
+ * Get the URL path of a page
+ *
+ * Translations get their locale prefix, as in resolveRoutes.
+ *
+ * @param orgFilePath - Org file path relative to the project root
+ * @param contentDir - Content directory
+ * @param base - Base URL path
+ * @param i18n - I18n config
+ *
+ * @example
+ * getPagePath("content/guide/intro.org", "content", "/docs/") // "/docs/guide/intro"
+ * getPagePath("content/index.org", "content", "/")            // "/"
+ * getPagePath("content/intro.ja.org", "content", "/", i18n)   // "/ja/intro"
+ */
+export function getPagePath(
+  orgFilePath: string,
+  contentDir: string,
+  base = "/",
+  i18n?: I18nConfig
+): string {
+  const normalized = orgFilePath.replace(/\\/g, "/");
+  const dir = contentDir.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/$/, "");
+  const relative = normalized.startsWith(dir + "/") ? normalized.slice(dir.length + 1) : normalized;
+  const localized = i18n ? getFileLocale(relative, i18n) : { locale: undefined, path: relative };
+  const page = `/${localized.path.replace(/\.org$/, "").replace(/(^|\/)index$/, "")}`;
+  const url = i18n && localized.locale ? localizeUrl(page, localized.locale, i18n) : page;
+  const prefix = base.replace(/\/$/, "");
+
+  return `${prefix}${url}`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for named table imports in the virtual blocks plugin
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createVirtualBlocksPlugin } from "./virtual-blocks.ts";
+
+const fixtureDir = "test-fixtures-virtual-blocks";
+
+describe("Virtual blocks plugin", () => {
+  const plugin = createVirtualBlocksPlugin([], { command: "serve" }) as any;
+  const context = { error: vi.fn() };
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(process.cwd(), fixtureDir), { recursive: true });
+    fs.writeFileSync(
+      path.join(process.cwd(), fixtureDir, "data.org"),
+      `#+NAME: q3-sales
+| region | total |
+|--------+-------|
+| north  |    10 |
+| south  |  32.5 |
+
+#+NAME: helper
+#+begin_src javascript
+export const x = 1;
+#+end_src
+`
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(process.cwd(), fixtureDir), { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve named tables to table modules", async () => {
+    const importer = path.join(process.cwd(), fixtureDir, "page.org");
+    const id = plugin.resolveId.call(context, "./data.org?name=q3-sales", importer);
+
+    expect(id).toBe(`\0virtual:org-press:block:table:${fixtureDir}/data.org:NAME:q3-sales.js`);
+
+    const code = await plugin.load.call(context, id);
+    expect(code).toBe(
+      `export default ${JSON.stringify(
+        [
+          { region: "north", total: 10 },
+          { region: "south", total: 32.5 },
+        ],
+        null,
+        2
+      )};\n`
+    );
+  });
+
+  it("should prefer blocks over tables and ignore unknown names", () => {
+    const importer = path.join(process.cwd(), fixtureDir, "page.org");
+
+    expect(plugin.resolveId.call(context, "./data.org?name=helper", importer)).toBe(
+      `\0virtual:org-press:block:default:${fixtureDir}/data.org:NAME:helper.js`
+    );
+    expect(plugin.resolveId.call(context, "./data.org?name=missing", importer)).toBeNull();
+  });
+});
@@ -3,6 +3,7 @@
  *
  * Handles virtual:org-press:block:... imports for org-press blocks.
  * Resolves .org?name= and .org?index= queries to virtual modules.
+ * Names that match no block resolve to named tables (parser "table").
  *
  * Features:
  * - Named block support (#+NAME: directives)
@@ -27,6 +28,7 @@ import type { BlockPlugin, CodeBlock, TransformContext } from "../../plugins/typ
 import { parseBlockParameters, createVirtualModuleId as createVMID } from "../../plugins/utils.ts";
 import { findMatchingPlugin } from "../../plugins/loader.ts";
 import { extractMetadata } from "../../parser/metadata.ts";
+import { findNamedTables, generateTableModule } from "../../parser/tables.ts";
 import {
   isOrgImport,
   parseOrgImportQuery,
@@ -639,6 +641,11 @@ export function createVirtualBlocksPlugin(
           // Find by name
           const foundIndex = blocks.findIndex((b) => b.name === blockName);
           if (foundIndex === -1) {
+            // Fall back to a named table
+            if (findNamedTables(ast, content).some((table) => table.name === blockName)) {
+              return "\0" + createVMID("table", resolvedRelativePath, 0, "js", blockName);
+            }
+
             const availableNames = blocks.filter(b => b.name).map(b => b.name).join(", ");
             console.warn(
               `[virtual-blocks] Block '${blockName}' not found in ${resolvedRelativePath}. Available: ${availableNames || "(none)"}`
@@ -772,6 +779,19 @@ export function createVirtualBlocksPlugin(
       // Parse org file (cached)
       const { ast, content } = parseOrgFile(fullPath);
 
+      // Handle 'table' parser - named org tables as row data
+      if (parser === "table") {
+        const table = findNamedTables(ast, content).find((t) => t.name === blockName);
+        if (!table) {
+          this.error(`Table with name "${blockName}" not found in ${orgFilePath}`);
+          return null;
+        }
+
+        const code = generateTableModule(table.rows);
+        blockCache.set(cacheKey, code);
+        return code;
+      }
+
       // Extract blocks (with names)
       const blocks = extractCodeBlocks(ast, content);
 
@@ -1048,10 +1068,6 @@ export function createVirtualBlocksPlugin(
         });
         keysToDelete.forEach((key) => blockCache.delete(key));
 
-        // Invalidate server result cache for this file
-        const { invalidateServerResultCache } = await import("../../cache.ts");
-        await invalidateServerResultCache(relativeFile);
-
         // Clear cross-file layout cache for this file
         const { clearCrossFileCache } = await import("../../render/cross-file-layout.ts");
         clearCrossFileCache(file);
@@ -5,6 +5,8 @@
  * Uses the new unified architecture with dependency injection.
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
 import type { Plugin } from "vite";
 import type { OrgPressConfig } from "../config/types.ts";
 import { loadConfig, invalidateConfigCache } from "../config/loader.ts";
@@ -12,6 +14,14 @@ import { loadPlugins, invalidatePluginCache } from "../plugins/loader.ts";
 import { createVirtualBlocksPlugin } from "./plugins/virtual-blocks.ts";
 import { createApiMiddleware } from "../plugins/builtin/api/index.ts";
 import { initializeRenderApi } from "../plugins/preview-init.ts";
+import {
+  ORG_UPDATE_EVENT,
+  createPageSnapshot,
+  diffPageSnapshots,
+  getPagePath,
+  type OrgUpdatePayload,
+  type PageSnapshot,
+} from "./hmr.ts";
 
 /**
  * Plugin options (can override config file)
@@ -110,12 +120,16 @@ export function createOrgPressPlugins(
  * Responsibilities:
  * - Mark .org files as modules (placeholder export)
  * - Watch content directory for changes
- * - Trigger HMR for .org file changes
+ * - Trigger HMR for .org file changes (see ./hmr.ts)
  * - Register API middleware for :use api blocks
  */
 function transformOrgModePlugin(
   config: OrgPressConfig
 ): Plugin {
+  // Snapshots of rendered pages, diffed on each edit
+  const snapshots = new Map<string, PageSnapshot>();
+  const cacheDir = path.resolve(config.cacheDir || ".org-press-cache");
+
   return {
     name: "org-press:transform",
     enforce: "pre",
@@ -167,19 +181,17 @@ function transformOrgModePlugin(
       return null;
     },
 
-    handleHotUpdate({ server, modules, timestamp }) {
-      // Check if any of the modules are .org files
-      const hasOrgFile = modules.some((mod) => mod.file?.endsWith(".org"));
+    handleHotUpdate({ file, modules }) {
+      if (file.endsWith(".org")) {
+        // Pages are updated by the content watcher below. Block imports
+        // (.org?name=...) propagate through Vite like any other module.
+        return modules.filter((mod) => mod.id?.includes("?"));
+      }
 
-      if (hasOrgFile) {
-        // Trigger full reload for .org file changes
-        // This ensures the SSR-rendered content is re-fetched
-        for (const mod of modules) {
-          server.moduleGraph.invalidateModule(mod);
-        }
-        server.moduleGraph.invalidateAll();
-        server.ws.send({ type: "full-reload" });
-        return [];
+      if (file.startsWith(cacheDir + path.sep)) {
+        // Block modules are rewritten on every render and re-imported by
+        // the page HMR client; only propagate to modules that accept them
+        return modules.filter((mod) => mod.isSelfAccepting || mod.importers.size > 0);
       }
 
       // Let Vite handle other file types normally
@@ -196,22 +208,52 @@ function transformOrgModePlugin(
 
       // Listen for .org file changes and additions, trigger HMR
       const handleOrgFileChange = (file: string) => {
-        if (file.endsWith(".org")) {
-          // Invalidate caches
-          invalidateConfigCache();
-          invalidatePluginCache();
-
-          // Invalidate all modules to ensure fresh SSR render
-          server.moduleGraph.invalidateAll();
-
-          // Send full reload to all connected clients
-          if (server.ws.clients.size > 0) {
-            server.ws.send({
-              type: "full-reload",
-              path: "*",
-            });
-          }
+        if (!file.endsWith(".org")) {
+          return;
+        }
+
+        // Invalidate caches
+        invalidateConfigCache();
+        invalidatePluginCache();
+
+        for (const mod of server.moduleGraph.getModulesByFile(file) ?? []) {
+          server.moduleGraph.invalidateModule(mod);
+        }
+
+        if (server.ws.clients.size === 0) {
+          return;
+        }
+
+        // Patch open pages in place when only prose or blocks changed
+        const key = path.resolve(file);
+        const relativePath = path.relative(process.cwd(), key);
+        const previous = snapshots.get(key);
+        const update =
+          previous && fs.existsSync(key)
+            ? diffPageSnapshots(
+                previous,
+                createPageSnapshot(fs.readFileSync(key, "utf-8"), relativePath)
+              )
+            : { type: "full-reload" as const };
+
+        if (update.type === "update") {
+          const payload: OrgUpdatePayload = {
+            file: relativePath,
+            path: getPagePath(relativePath, contentDir, config.base, config.i18n),
+            blocks: update.blocks,
+            timestamp: Date.now(),
+          };
+          server.ws.send({ type: "custom", event: ORG_UPDATE_EVENT, data: payload });
+          return;
         }
+
+        // Metadata or layout changed (or the page was never rendered)
+        snapshots.delete(key);
+        server.moduleGraph.invalidateAll();
+        server.ws.send({
+          type: "full-reload",
+          path: "*",
+        });
       };
 
       server.watcher.on("change", handleOrgFileChange);
@@ -232,7 +274,7 @@ function transformOrgModePlugin(
 
       // Install middleware BEFORE Vite's internal middlewares
       // This ensures we can handle .org routes before Vite's SPA fallback
-      server.middlewares.use(createDevServerMiddleware({ config, server }));
+      server.middlewares.use(createDevServerMiddleware({ config, server, snapshots }));
     },
   };
 }
@@ -143,3 +143,34 @@ describe("ES Module Server Execution", () => {
     });
   });
 });
+
+describe("Subprocess Server Execution", () => {
+  it("should render shell output as preformatted text", async () => {
+    const result = await executeServerBlock("echo '<hi>'", "bash", mockContentHelpers);
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe('<pre class="org-results">&lt;hi&gt;</pre>');
+  });
+
+  it("should render sqlite rows as a table", async () => {
+    const result = await executeServerBlock(
+      "SELECT 1 AS one;",
+      "sqlite",
+      mockContentHelpers,
+      { params: { use: "server" }, orgFilePath: "content/page.org" }
+    );
+    expect(result.error).toBeUndefined();
+    expect(result.output).toContain("<th>one</th>");
+    expect(result.output).toContain("<td>1</td>");
+  });
+
+  it("should return python errors", async () => {
+    const result = await executeServerBlock("raise SystemExit('boom')", "python", mockContentHelpers);
+    expect(result.output).toBe("");
+    expect(result.error?.message).toBe("python3 exited with code 1: boom");
+  });
+
+  it("should reject unsupported languages", async () => {
+    const result = await executeServerBlock("puts 1", "ruby", mockContentHelpers);
+    expect(result.error?.message).toContain("Unsupported language for server execution: ruby");
+  });
+});
@@ -3,6 +3,15 @@ import { writeFileSync, unlinkSync, mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { randomUUID } from "crypto";
 import type { ServerExecutionResult } from "./types.ts";
+import {
+  createDefaultProcessHandlers,
+  formatProcessResult,
+  isProcessLanguage,
+  PYTHON_LANGUAGES,
+  SHELL_LANGUAGES,
+  SQLITE_LANGUAGES,
+} from "../plugins/builtin/process-handlers.ts";
+import { injectVariables } from "./variables.ts";
 
 /**
  * Server-side code execution
@@ -30,6 +39,11 @@ async function getEsbuildTransform() {
  */
 const JS_COMPATIBLE_LANGUAGES = ["javascript", "js", "typescript", "ts", "jsx", "tsx"];
 
+/**
+ * Handlers for languages executed in a subprocess (sh/bash, python, sqlite)
+ */
+const processHandlers = createDefaultProcessHandlers();
+
 /**
  * Transform code to capture the last expression value
  *
@@ -163,12 +177,43 @@ export interface ContentHelpers {
     options?: any
   ) => Promise<any[]>;
 
+  /**
+   * Get content pages carrying a tag
+   * @param tag - Tag to filter by
+   * @param options - Optional filtering options
+   */
+  getPagesByTag: (tag: string, options?: any) => Promise<any[]>;
+
+  /**
+   * Get every tag with the pages carrying it
+   * @param options - Optional filtering options
+   */
+  getTags: (options?: any) => Promise<any[]>;
+
+  /**
+   * Get a filtered, sorted and paged collection of pages
+   * @param options - Filter, sort and paging options
+   */
+  getCollection: (options?: any) => Promise<any>;
+
   /**
    * Render a list of pages as HTML
    * @param pages - Pages to render
    */
   renderPageList: (pages: any[]) => string;
 
+  /**
+   * Render prev/next and numbered links for a paged collection
+   * @param collection - Page of the collection
+   * @param url - URL of the first page
+   */
+  renderPagination: (collection: any, url: string) => string;
+
+  /**
+   * Page being rendered, on pages with #+PAGINATE:
+   */
+  pagination?: any;
+
   /**
    * Check if running in development mode
    */
@@ -258,6 +303,7 @@ ${transformedCode}
 
     return {
       output,
+      value: result,
       executionTime,
     };
   } catch (error) {
@@ -282,15 +328,62 @@ ${transformedCode}
   }
 }
 
+/**
+ * Block details for server execution
+ */
+export interface ServerBlockOptions {
+  /** Parsed block parameters (e.g. `:db` for sqlite) */
+  params?: Record<string, string>;
+  /** Org file path, relative to the project root (default: "") */
+  orgFilePath?: string;
+  /** 0-based index of the block in the file */
+  blockIndex?: number;
+  /** Resolved `:var` inputs, defined in the block's scope */
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Execute a block in a subprocess via its built-in handler
+ *
+ * The handler applies its timeout; rows and text are rendered as HTML.
+ */
+async function executeProcess(
+  code: string,
+  language: string,
+  contentHelpers: ContentHelpers,
+  options: ServerBlockOptions
+): Promise<ServerExecutionResult> {
+  const params = { ...options.params, use: "server" };
+  const block = { language, value: code };
+  const handler = processHandlers.find((h) => h.matches(params, block))!;
+
+  const { result, error, executionTime } = await handler.onServer(code, {
+    contentHelpers,
+    orgFilePath: options.orgFilePath || "",
+    blockIndex: options.blockIndex ?? 0,
+    params,
+    block,
+  });
+
+  return {
+    output: error ? "" : formatProcessResult(result),
+    value: error ? undefined : result,
+    error,
+    executionTime,
+  };
+}
+
 /**
  * Execute a server-side code block
  *
  * Executes code marked with :use server during build/SSR.
- * Currently only supports JavaScript/TypeScript.
+ * JavaScript/TypeScript runs in-process; sh/bash, python and sqlite run
+ * in a subprocess.
  *
  * @param code - Code to execute
  * @param language - Programming language
  * @param contentHelpers - Content helper functions to inject
+ * @param options - Block parameters and location
  * @returns Execution result
  *
  * @example
@@ -312,7 +405,8 @@ ${transformedCode}
 export async function executeServerBlock(
   code: string,
   language: string,
-  contentHelpers: ContentHelpers
+  contentHelpers: ContentHelpers,
+  options: ServerBlockOptions = {}
 ): Promise<ServerExecutionResult> {
   // Prevent execution in browser
   if (isBrowser()) {
@@ -326,13 +420,27 @@ export async function executeServerBlock(
 
   const normalizedLanguage = language.toLowerCase();
 
+  if (options.variables) {
+    code = injectVariables(code, normalizedLanguage, options.variables);
+  }
+
+  if (isProcessLanguage(normalizedLanguage)) {
+    return executeProcess(code, normalizedLanguage, contentHelpers, options);
+  }
+
   // Check if language is supported
   if (!JS_COMPATIBLE_LANGUAGES.includes(normalizedLanguage)) {
+    const supported = [
+      ...JS_COMPATIBLE_LANGUAGES,
+      ...SHELL_LANGUAGES,
+      ...PYTHON_LANGUAGES,
+      ...SQLITE_LANGUAGES,
+    ];
     return {
       output: "",
       error: new Error(
         `Unsupported language for server execution: ${language}. ` +
-          `Supported languages: ${JS_COMPATIBLE_LANGUAGES.join(", ")}`
+          `Supported languages: ${supported.join(", ")}`
       ),
     };
   }
@@ -351,18 +459,36 @@ export async function executeServerBlock(
  * @param getContentPagesFromDirectory - Implementation of getContentPagesFromDirectory
  * @param renderPageList - Implementation of renderPageList
  * @param isDevelopment - Implementation of isDevelopment
+ * @param getPagesByTag - Implementation of getPagesByTag (default: no pages)
+ * @param getTags - Implementation of getTags (default: no tags)
+ * @param getCollection - Implementation of getCollection (default: empty collection)
+ * @param renderPagination - Implementation of renderPagination (default: no links)
  * @returns Content helpers object
  */
 export function createContentHelpers(
   getContentPages: ContentHelpers["getContentPages"],
   getContentPagesFromDirectory: ContentHelpers["getContentPagesFromDirectory"],
   renderPageList: ContentHelpers["renderPageList"],
-  isDevelopment: ContentHelpers["isDevelopment"]
+  isDevelopment: ContentHelpers["isDevelopment"],
+  getPagesByTag: ContentHelpers["getPagesByTag"] = async () => [],
+  getTags: ContentHelpers["getTags"] = async () => [],
+  getCollection: ContentHelpers["getCollection"] = async () => ({
+    pages: [],
+    page: 1,
+    perPage: 1,
+    totalPages: 1,
+    totalItems: 0,
+  }),
+  renderPagination: ContentHelpers["renderPagination"] = () => ""
 ): ContentHelpers {
   return {
     getContentPages,
     getContentPagesFromDirectory,
+    getPagesByTag,
+    getTags,
+    getCollection,
     renderPageList,
+    renderPagination,
     isDevelopment,
   };
 }
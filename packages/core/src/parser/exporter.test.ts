@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { processCodeBlocks } from "./exporter.ts";
-import { parseOrgContent } from "./parse-content.ts";
+import { parseOrgContent, parseOrgFile } from "./parse-content.ts";
 import { cssPlugin } from "../plugins/builtin/css.ts";
 import { javascriptPlugin } from "../plugins/builtin/javascript.ts";
 import { parse } from "uniorg-parse/lib/parser.js";
@@ -220,6 +220,160 @@ export default 42;
       expect(htmlContent).not.toContain('<script type="module">');
     });
   });
+
+  describe("subprocess server blocks", () => {
+    it("should replace :use server shell blocks with their output", async () => {
+      const orgContent = `#+TITLE: Test
+
+#+begin_src sh :use server
+echo "built at server time"
+#+end_src
+
+#+begin_src python
+print("not executed")
+#+end_src
+`;
+
+      const ast = parse(orgContent) as OrgData;
+      const context = {
+        orgFilePath: "content/test.org",
+        plugins: [javascriptPlugin],
+        config: {} as any,
+        cacheDir: "/tmp/cache",
+        base: "/",
+        contentDir: "content",
+        outDir: "dist",
+      };
+      const contentHelpers = {
+        getContentPages: async () => [],
+        getContentPagesFromDirectory: async () => [],
+        renderPageList: () => "",
+        isDevelopment: () => false,
+      };
+
+      const { modifiedAst } = await processCodeBlocks(ast, context, contentHelpers);
+
+      expect(findExportBlockValues(modifiedAst)).toEqual([
+        '<pre class="org-results">built at server time</pre>',
+      ]);
+    });
+
+    it("should pass tables and block results to :var inputs", async () => {
+      const orgContent = `#+NAME: sales
+| region | total |
+|--------+-------|
+| north  |    10 |
+| south  |    32 |
+
+#+NAME: sum
+#+begin_src python :use server :var rows=sales
+print(sum(row["total"] for row in rows))
+#+end_src
+
+#+begin_src javascript :use server :var total=sum :var label="Total"
+return label + ": " + total;
+#+end_src
+`;
+
+      const { ast } = parseOrgFile(orgContent);
+      const context = {
+        orgFilePath: "content/test.org",
+        plugins: [javascriptPlugin],
+        config: {} as any,
+        cacheDir: "/tmp/cache",
+        base: "/",
+        contentDir: "content",
+        outDir: "dist",
+      };
+      const contentHelpers = {
+        getContentPages: async () => [],
+        getContentPagesFromDirectory: async () => [],
+        renderPageList: () => "",
+        isDevelopment: () => false,
+      };
+
+      const { modifiedAst } = await processCodeBlocks(ast, context, contentHelpers);
+      const values = findExportBlockValues(modifiedAst);
+
+      expect(values[0]).toBe('<pre class="org-results">42</pre>');
+      expect(values[1]).toContain("Total: 42");
+    });
+  });
+  describe("committed results", () => {
+    const context = {
+      orgFilePath: "content/test.org",
+      plugins: [javascriptPlugin],
+      config: {} as any,
+      cacheDir: "/tmp/cache",
+      base: "/",
+      contentDir: "content",
+      outDir: "dist",
+    };
+    const contentHelpers = {
+      getContentPages: async () => [],
+      getContentPagesFromDirectory: async () => [],
+      renderPageList: () => "",
+      isDevelopment: () => false,
+    };
+
+    function findNodeTypes(ast: any): string[] {
+      return (ast.children || []).flatMap((node: any) =>
+        node.type === "section" ? findNodeTypes(node) : [node.type]
+      );
+    }
+
+    it("should render #+RESULTS: instead of executing server blocks", async () => {
+      const orgContent = `#+begin_src sh :use server
+echo "executed"
+#+end_src
+
+#+RESULTS:
+#+begin_example
+committed
+#+end_example
+`;
+
+      const { ast } = parseOrgFile(orgContent);
+      const { modifiedAst } = await processCodeBlocks(ast, context, contentHelpers);
+
+      expect(findExportBlockValues(modifiedAst)).toEqual([]);
+      expect(findNodeTypes(modifiedAst)).toEqual(["example-block"]);
+    });
+
+    it("should match named results anywhere in the file", async () => {
+      const orgContent = `#+NAME: totals
+#+begin_src javascript :use server
+throw new Error("not executed");
+#+end_src
+
+Some text.
+
+#+RESULTS: totals
+| north | 10 |
+`;
+
+      const { ast } = parseOrgFile(orgContent);
+      const { modifiedAst } = await processCodeBlocks(ast, context, contentHelpers);
+
+      expect(findExportBlockValues(modifiedAst)).toEqual([]);
+      expect(findNodeTypes(modifiedAst)).toEqual(["paragraph", "table"]);
+    });
+
+    it("should keep the source of withSourceCode blocks", async () => {
+      const orgContent = `#+begin_src sh :use server | withSourceCode
+echo "executed"
+#+end_src
+
+#+RESULTS:
+: committed
+`;
+
+      const { ast } = parseOrgFile(orgContent);
+      const { modifiedAst } = await processCodeBlocks(ast, context, contentHelpers);
+
+      expect(findNodeTypes(modifiedAst)).toEqual(["src-block", "fixed-width"]);
+    });
+  });
 });
 
 describe("parseOrgContent", () => {
@@ -7,6 +7,7 @@ import type {
   ParsedCodeBlock,
   CollectedBlock,
   BlockParameters,
+  ServerExecutionResult,
 } from "./types.ts";
 import {
   parseCodeBlockParameters,
@@ -23,6 +24,8 @@ import {
 } from "../plugins/utils.ts";
 import { writeToCache, getCachePath } from "../cache.ts";
 import { executeServerBlock, type ContentHelpers } from "./execute.ts";
+import { createVariableResolver } from "./variables.ts";
+import { isProcessLanguage } from "../plugins/builtin/process-handlers.ts";
 import * as fs from "node:fs";
 import { parsePipe } from "../plugins/pipe-parser.ts";
 import { composeWrappersSync, globalRegistry } from "../plugins/wrapper-compose.ts";
@@ -227,6 +230,14 @@ export async function processCodeBlocks(
   // Collect node replacements (blocks with :use dom or withSourceCode wrapper)
   const nodeReplacements = new Map<any, any[]>();
 
+  // Server blocks run through the :var resolver (before the AST is modified)
+  const evaluateServerBlock = contentHelpers
+    ? createServerBlockEvaluator(ast, context, contentHelpers)
+    : null;
+
+  // Server blocks whose output was committed with `orgp eval`
+  const committedResults = findCommittedResults(ast);
+
   // Walk AST and process code blocks
   await walkAst(ast, async (node: any) => {
     if (node.type !== "src-block") return;
@@ -243,6 +254,15 @@ export async function processCodeBlocks(
       return;
     }
 
+    // Committed #+RESULTS: render in place of executing the block
+    if (isServerBlock(params) && committedResults.has(node)) {
+      if (!shouldShowSource(params)) {
+        nodesToRemove.add(node);
+      }
+      blockIndex++;
+      return;
+    }
+
     // Extract name from affiliated keywords (#+NAME: directive)
     const blockName = (node as any).affiliated?.NAME as string | undefined;
 
@@ -263,15 +283,21 @@ export async function processCodeBlocks(
       meta: parsedBlock.meta,  // Raw parameters string for plugin matching
     });
 
-    if (plugin) {
-      parsedBlock.plugin = plugin;
+    // Subprocess languages (sh, python, sqlite) have no block plugin but
+    // still execute on the server
+    const isProcessServerBlock =
+      !plugin && isServerBlock(params) && isProcessLanguage(parsedBlock.language);
+
+    if (plugin || isProcessServerBlock) {
+      parsedBlock.plugin = plugin ?? undefined;
 
       // Handle server-side execution
-      if (isServerBlock(params) && contentHelpers) {
+      if (isServerBlock(params) && contentHelpers && evaluateServerBlock) {
         const replacement = await processServerBlock(
           parsedBlock,
           context,
           contentHelpers,
+          evaluateServerBlock,
           virtualModules,
           cacheFiles,
           node
@@ -281,7 +307,7 @@ export async function processCodeBlocks(
         if (replacement) {
           nodeReplacements.set(node, replacement);
         }
-      } else {
+      } else if (plugin) {
         // Client-side transformation
         const replacement = await processClientBlock(
           parsedBlock,
@@ -321,6 +347,92 @@ export async function processCodeBlocks(
   };
 }
 
+/**
+ * Find the source blocks that have committed `#+RESULTS:`
+ *
+ * A block's results are the element directly after it marked with
+ * `#+RESULTS:` (unnamed, or named after the block), or for a named block
+ * any element marked `#+RESULTS: name`.
+ */
+function findCommittedResults(ast: OrgData): Set<any> {
+  const namedResults = new Set<string>();
+  const blocks = new Set<any>();
+
+  function collectNames(node: any): void {
+    const results = node.affiliated?.RESULTS;
+    if (typeof results === "string" && results) {
+      namedResults.add(results);
+    }
+    if (Array.isArray(node.children)) {
+      node.children.forEach(collectNames);
+    }
+  }
+
+  function walk(node: any): void {
+    if (!Array.isArray(node.children)) return;
+
+    node.children.forEach((child: any, i: number) => {
+      if (child.type === "src-block") {
+        const name = child.affiliated?.NAME as string | undefined;
+        const next = node.children[i + 1]?.affiliated?.RESULTS;
+        if ((typeof next === "string" && (!next || next === name)) || (name && namedResults.has(name))) {
+          blocks.add(child);
+        }
+      }
+      walk(child);
+    });
+  }
+
+  collectNames(ast);
+  walk(ast);
+  return blocks;
+}
+
+/**
+ * Runs the server block at an index, returning its execution result
+ */
+type ServerBlockEvaluator = (blockIndex: number) => Promise<ServerExecutionResult>;
+
+/**
+ * Create the server block evaluator for a file
+ *
+ * Blocks run through a `:var` resolver: blocks referenced with `:var` run
+ * first, and every block runs at most once per file.
+ */
+function createServerBlockEvaluator(
+  ast: OrgData,
+  context: ParseContext,
+  contentHelpers: ContentHelpers
+): ServerBlockEvaluator {
+  const results = new Map<number, ServerExecutionResult>();
+
+  const resolver = createVariableResolver(ast, async (block, variables) => {
+    const result = await executeServerBlock(block.code, block.language, contentHelpers, {
+      params: block.parameters,
+      orgFilePath: context.orgFilePath,
+      blockIndex: block.index,
+      variables,
+    });
+    results.set(block.index, result);
+    if (result.error) {
+      throw result.error;
+    }
+    return result.value;
+  });
+
+  return async (blockIndex) => {
+    try {
+      await resolver.evaluate(resolver.blocks[blockIndex]);
+    } catch (error) {
+      // Failed before the block itself ran (variable resolution or a dependency)
+      if (!results.has(blockIndex)) {
+        return { output: "", error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    }
+    return results.get(blockIndex)!;
+  };
+}
+
 /**
  * Process a server-side code block
  *
@@ -335,6 +447,7 @@ async function processServerBlock(
   block: ParsedCodeBlock,
   context: ParseContext,
   contentHelpers: ContentHelpers,
+  evaluateServerBlock: ServerBlockEvaluator,
   virtualModules: VirtualModule[],
   cacheFiles: CacheFile[],
   originalNode: any
@@ -381,18 +494,10 @@ async function processServerBlock(
     // Note: In the new architecture, the plugin handles execution and returns
     // display code. For SSR, we still need the actual result.
     // For now, we execute via the legacy path to get the actual HTML output.
-    result = await executeServerBlock(
-      block.value,
-      block.language,
-      contentHelpers
-    );
+    result = await evaluateServerBlock(block.index);
   } else {
     // Fallback: Execute server-side directly
-    result = await executeServerBlock(
-      block.value,
-      block.language,
-      contentHelpers
-    );
+    result = await evaluateServerBlock(block.index);
   }
 
   if (result.error) {
@@ -696,42 +801,6 @@ export function findCodeBlocks(ast: OrgData): SrcBlock[] {
   return blocks;
 }
 
-/**
- * Handle tangle operation (literate programming)
- *
- * Extracts code blocks to external files based on :tangle parameter.
- *
- * @param block - Parsed code block with :tangle parameter
- * @param context - Parse context
- */
-export async function handleTangle(
-  block: ParsedCodeBlock,
-  context: ParseContext
-): Promise<void> {
-  if (!block.parameters.tangle) return;
-
-  // Prevent tangle in browser
-  if (typeof window !== "undefined") {
-    console.warn("Tangle is not supported in browser environment");
-    return;
-  }
-
-  const tanglePath = block.parameters.tangle;
-
-  // Write block content to tangle file
-  // For now, use simple file write - could be enhanced with:
-  // - Appending multiple blocks to same file
-  // - Debouncing writes
-  // - Handling org-mode noweb syntax
-  const fs = await import("node:fs/promises");
-  const path = await import("node:path");
-
-  const fullPath = path.join(process.cwd(), tanglePath);
-
-  await fs.mkdir(path.dirname(fullPath), { recursive: true });
-  await fs.writeFile(fullPath, block.value, "utf-8");
-}
-
 /**
  * Remove nodes from AST
  *
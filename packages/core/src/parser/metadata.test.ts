@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { parse } from "uniorg-parse/lib/parser.js";
+import type { OrgData } from "uniorg";
+import { extractMetadata, extractTags } from "./metadata.ts";
+
+const parseOrg = (source: string) => parse(source) as OrgData;
+
+describe("extractTags", () => {
+  it("should combine file tags and heading tags", () => {
+    const ast = parseOrg(`#+FILETAGS: :emacs:org:
+#+TITLE: Notes
+
+* Setup :tutorial:emacs:
+** Details :noexport:
+* Other :ARCHIVE:misc:
+`);
+
+    expect(extractTags(ast)).toEqual(["emacs", "org", "tutorial", "misc"]);
+  });
+
+  it("should accept space- and comma-separated file tags", () => {
+    expect(extractTags(parseOrg("#+FILETAGS: web, js css\n"))).toEqual(["web", "js", "css"]);
+  });
+
+  it("should read #+TAGS: like #+FILETAGS:", () => {
+    expect(extractTags(parseOrg("#+TAGS: javascript, tutorial\n"))).toEqual([
+      "javascript",
+      "tutorial",
+    ]);
+  });
+
+  it("should return undefined without tags", () => {
+    expect(extractTags(parseOrg("#+TITLE: Plain\n\n* Heading\n"))).toBeUndefined();
+  });
+});
+
+describe("extractMetadata", () => {
+  it("should expose tags as an array", () => {
+    const metadata = extractMetadata(parseOrg("#+TITLE: Post\n#+FILETAGS: :a:b:\n#+TAGS: a b c\n"));
+
+    expect(metadata.tags).toEqual(["a", "b", "c"]);
+    expect(metadata).not.toHaveProperty("filetags");
+  });
+
+  it("should leave untagged pages without tags", () => {
+    expect(extractMetadata(parseOrg("#+TITLE: Post\n"))).not.toHaveProperty("tags");
+  });
+});
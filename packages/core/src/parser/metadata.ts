@@ -165,19 +165,69 @@ export function extractStatus(ast: OrgData): string {
   return "published";
 }
 
+/**
+ * Org tags that control export rather than describe content
+ */
+const SPECIAL_TAGS = new Set(["noexport", "export", "ARCHIVE"]);
+
+/**
+ * Extract tags from an org-mode AST
+ *
+ * Combines #+FILETAGS: and #+TAGS: (`:a:b:`, or space/comma separated,
+ * as in `#+TAGS: javascript, tutorial`) with the tags of every heading, in
+ * document order and without duplicates.
+ * Export tags (`:noexport:`, `:ARCHIVE:`) are ignored.
+ *
+ * @param ast - Org-mode AST
+ * @returns Tags, or undefined if the file has none
+ *
+ * @example
+ * #+FILETAGS: :emacs:org:
+ * * Setup :tutorial:
+ * // Returns: ["emacs", "org", "tutorial"]
+ */
+export function extractTags(ast: OrgData): string[] | undefined {
+  if (!ast?.children) return undefined;
+
+  const tags = new Set<string>();
+  const add = (tag: string) => {
+    const trimmed = tag.trim();
+    if (trimmed && !SPECIAL_TAGS.has(trimmed)) {
+      tags.add(trimmed);
+    }
+  };
+
+  for (const node of ast.children) {
+    if (node.type === "keyword" && ["filetags", "tags"].includes(node.key?.toLowerCase())) {
+      node.value?.split(/[:,\s]+/).forEach(add);
+    }
+  }
+
+  const walk = (node: any) => {
+    if (node.type === "headline") {
+      node.tags?.forEach(add);
+    }
+    node.children?.forEach(walk);
+  };
+  walk(ast);
+
+  return tags.size > 0 ? [...tags] : undefined;
+}
+
 /**
  * Extract custom metadata from org keywords
  *
  * Extracts all #+KEY: value pairs that aren't standard keywords
- * Useful for custom metadata like tags, categories, etc.
+ * Useful for custom metadata like descriptions, categories, etc.
+ * #+FILETAGS: and #+TAGS: are left to extractTags.
  *
  * @param ast - Org-mode AST
  * @returns Object with custom metadata
  *
  * @example
- * #+TAGS: javascript, tutorial
+ * #+DESCRIPTION: Getting started
  * #+CATEGORY: blog
- * // Returns: { tags: "javascript, tutorial", category: "blog" }
+ * // Returns: { description: "Getting started", category: "blog" }
  */
 export function extractCustomMetadata(
   ast: OrgData
@@ -195,6 +245,8 @@ export function extractCustomMetadata(
     "status",
     "state",
     "property",
+    "filetags",
+    "tags",
   ]);
 
   for (const node of ast.children) {
@@ -225,7 +277,7 @@ export function extractCustomMetadata(
  * const metadata = extractMetadata(ast);
  * console.log(metadata.title); // "My Post"
  * console.log(metadata.author); // "John Doe"
- * console.log(metadata.tags); // "javascript, tutorial" (custom)
+ * console.log(metadata.tags); // ["javascript", "tutorial"]
  */
 export function extractMetadata(ast: OrgData): PageMetadata {
   const standard = {
@@ -237,9 +289,11 @@ export function extractMetadata(ast: OrgData): PageMetadata {
   };
 
   const custom = extractCustomMetadata(ast);
+  const tags = extractTags(ast);
 
   return {
     ...standard,
     ...custom,
+    ...(tags && { tags }),
   };
 }
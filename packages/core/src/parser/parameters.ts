@@ -9,6 +9,88 @@ import type { BlockParameters } from "./types.ts";
  * The `:use` parameter controls block behavior through the Render API.
  */
 
+/**
+ * A header argument understood by org-press
+ */
+export interface HeaderArgInfo {
+  /** Argument name, without the leading colon */
+  name: string;
+  /** What the argument does */
+  description: string;
+  /** Accepted values, when there is a fixed set */
+  values?: string[];
+}
+
+/**
+ * Header arguments understood by org-press
+ *
+ * Used by editor integrations to complete `#+begin_src` lines.
+ */
+export const HEADER_ARGS: HeaderArgInfo[] = [
+  {
+    name: "use",
+    description: "Mode and wrapper pipeline (e.g. `dom | withSourceCode`)",
+  },
+  {
+    name: "exec",
+    description: "Execute the block with `orgp eval` and write its results",
+  },
+  {
+    name: "results",
+    description: "How executed results are written",
+    values: ["replace", "append", "silent"],
+  },
+  {
+    name: "var",
+    description: "Bind a variable to a value or another block's result (`name=block`)",
+  },
+  {
+    name: "cache",
+    description: "Cache policy for server blocks (`never`, `forever` or a duration like `1h`)",
+    values: ["forever", "never"],
+  },
+  {
+    name: "endpoint",
+    description: "Route of an `:use api` block (e.g. `/api/users`)",
+  },
+  {
+    name: "method",
+    description: "HTTP method of an `:use api` block",
+    values: ["GET", "POST", "PUT", "PATCH", "DELETE"],
+  },
+  {
+    name: "db",
+    description: "SQLite database file for SQL blocks",
+  },
+  {
+    name: "tangle",
+    description: "File to tangle the block to",
+  },
+  {
+    name: "mkdirp",
+    description: "Create missing directories when tangling",
+    values: ["yes", "no"],
+  },
+  {
+    name: "comments",
+    description: "Add link comments to tangled code",
+    values: ["link", "no"],
+  },
+  {
+    name: "shebang",
+    description: "First line of the tangled file (e.g. `#!/usr/bin/env node`)",
+  },
+  {
+    name: "noweb",
+    description: "Expand `<<name>>` references",
+    values: ["yes", "tangle", "no"],
+  },
+  {
+    name: "height",
+    description: "Height of the rendered block (e.g. `400px`)",
+  },
+];
+
 /**
  * Parse code block parameters into typed structure
  *
@@ -3,6 +3,7 @@ import type { OrgData } from "uniorg";
 import type { ParseContext, ParsedOrg } from "./types.ts";
 import { extractMetadata } from "./metadata.ts";
 import { processCodeBlocks } from "./exporter.ts";
+import { attachTableFormulas, attachTableNames } from "./tables.ts";
 import type { ContentHelpers } from "./execute.ts";
 import { join } from "node:path";
 import { existsSync, readdirSync } from "node:fs";
@@ -64,6 +65,8 @@ export async function parseOrgContent(
 
   // 1. Parse org-mode source to AST
   const ast = parse(cleanSource) as OrgData;
+  attachTableNames(ast, cleanSource);
+  attachTableFormulas(ast, cleanSource);
 
   // 2. Extract metadata from keywords
   const metadata = extractMetadata(ast);
@@ -103,6 +106,8 @@ export function parseOrgFile(source: string): {
   metadata: ReturnType<typeof extractMetadata>;
 } {
   const ast = parse(source) as OrgData;
+  attachTableNames(ast, source);
+  attachTableFormulas(ast, source);
   const metadata = extractMetadata(ast);
 
   return {
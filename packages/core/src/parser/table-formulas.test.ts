@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateTableFormulas,
+  parseTableFormulas,
+  type TableRow,
+} from "./table-formulas.ts";
+
+const INVOICE: TableRow[] = [
+  ["item", "qty", "price", "total"],
+  "hline",
+  ["pens", "3", "1.5", ""],
+  ["paper", "2", "4", ""],
+  "hline",
+  ["", "", "", ""],
+];
+
+describe("parseTableFormulas", () => {
+  it("should split formulas and formats", () => {
+    expect(parseTableFormulas("$3=$1*$2:: @>$3=vsum(@I..@II);%.2f")).toEqual([
+      { target: "$3", expression: "$1*$2", format: undefined },
+      { target: "@>$3", expression: "vsum(@I..@II)", format: "%.2f" },
+    ]);
+  });
+
+  it("should reject formulas without a target", () => {
+    expect(() => parseTableFormulas("vsum(@2..@3)")).toThrow(
+      'Invalid table formula "vsum(@2..@3)"'
+    );
+  });
+});
+
+describe("evaluateTableFormulas", () => {
+  it("should evaluate column formulas below the header", () => {
+    const rows = evaluateTableFormulas(INVOICE, "$4=$2*$3");
+
+    expect(rows[0]).toEqual(["item", "qty", "price", "total"]);
+    expect(rows[2]).toEqual(["pens", "3", "1.5", "4.5"]);
+    expect(rows[3]).toEqual(["paper", "2", "4", "8"]);
+    expect(rows[1]).toBe("hline");
+  });
+
+  it("should evaluate field formulas after column formulas", () => {
+    const rows = evaluateTableFormulas(INVOICE, "@>$4=vsum(@I..@II)::$4=$2*$3");
+
+    expect(rows[5]).toEqual(["", "", "", "12.5"]);
+  });
+
+  it("should not modify the input rows", () => {
+    evaluateTableFormulas(INVOICE, "$4=$2*$3");
+    expect(INVOICE[2]).toEqual(["pens", "3", "1.5", ""]);
+  });
+
+  it("should support aggregates over row and column ranges", () => {
+    const rows: TableRow[] = [
+      ["1", "2", "3", ""],
+      ["4", "5", "", ""],
+      ["", "", "", ""],
+    ];
+
+    const result = evaluateTableFormulas(
+      rows,
+      "@1$4=vmean($1..$3)::@2$4=vcount($1..$3)::@3$1=vmax(@1..@2)::@3$2=vmedian(@1$1..@2$3)"
+    );
+
+    expect(result[0][3]).toBe("2");
+    expect(result[1][3]).toBe("2");
+    expect(result[2][0]).toBe("4");
+    expect(result[2][1]).toBe("3");
+  });
+
+  it("should support relative references and row formulas", () => {
+    const rows: TableRow[] = [
+      ["1", "2"],
+      ["3", "4"],
+      ["", ""],
+    ];
+
+    expect(evaluateTableFormulas(rows, "@>=@-1+@-2")[2]).toEqual(["4", "6"]);
+    expect(evaluateTableFormulas(rows, "$>=$-1*10")[1]).toEqual(["3", "30"]);
+  });
+
+  it("should evaluate JavaScript expressions", () => {
+    const rows: TableRow[] = [["ada", "2", ""]];
+
+    expect(
+      evaluateTableFormulas(rows, `$3=$1.toUpperCase() + "-" + Math.max($2, 5)`)[0][2]
+    ).toBe("ADA-5");
+    expect(evaluateTableFormulas(rows, "$3=$2^3")[0][2]).toBe("8");
+  });
+
+  it("should apply formats and round floating point noise", () => {
+    const rows: TableRow[] = [["0.1", "0.2", ""]];
+
+    expect(evaluateTableFormulas(rows, "$3=$1+$2")[0][2]).toBe("0.3");
+    expect(evaluateTableFormulas(rows, "$3=$1/$2*100;%.2f")[0][2]).toBe("50.00");
+    expect(evaluateTableFormulas(rows, "$3=$2*12;%d")[0][2]).toBe("2");
+  });
+
+  it("should report failing formulas as #ERROR", () => {
+    const rows: TableRow[] = [["1", "0", ""]];
+
+    expect(evaluateTableFormulas(rows, "$3=$1/$2")[0][2]).toBe("#ERROR");
+    expect(evaluateTableFormulas(rows, "$3=@5$1")[0][2]).toBe("#ERROR");
+    expect(evaluateTableFormulas(rows, "$3=nope(")[0][2]).toBe("#ERROR");
+  });
+
+  it("should reject invalid targets", () => {
+    expect(() => evaluateTableFormulas([["1"]], "$9=1")).toThrow(
+      "Column reference $9 out of range"
+    );
+  });
+});
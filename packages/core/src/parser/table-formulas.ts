@@ -0,0 +1,368 @@
+/**
+ * Table formulas (`#+TBLFM:`)
+ *
+ * Evaluates org spreadsheet formulas on table rows:
+ *
+ *   | item  | qty | price | total |
+ *   |-------+-----+-------+-------|
+ *   | pens  |   3 |   1.5 |   4.5 |
+ *   | paper |   2 |     4 |     8 |
+ *   |-------+-----+-------+-------|
+ *   |       |     |       |  12.5 |
+ *   #+TBLFM: $4=$2*$3::@>$4=vsum(@I..@II)
+ *
+ * Supported:
+ * - Column formulas (`$4=...`), applied to every row below the header
+ * - Field formulas (`@2$3=...`) and row formulas (`@>=...`)
+ * - References: `$N`, `$<`, `$>`, `$-1`, `@N`, `@<`, `@>`, `@-1`, `@I` (hlines)
+ * - Ranges: `$1..$3`, `@2..@>`, `@I..@II`, `@2$1..@4$3`
+ * - Aggregates: vsum, vmean, vmedian, vmin, vmax, vcount
+ * - Any JavaScript expression (`Math.round($2 * 100) / 100`, `$1.toUpperCase()`)
+ * - printf-style formats: `$3=$1/$2;%.2f`
+ *
+ * Rows are numbered like org: hlines don't count, @1 is the first row.
+ * Column formulas are evaluated before field formulas, each in order, so
+ * later formulas see earlier results. Failing formulas produce `#ERROR`.
+ */
+
+/**
+ * A table row: cell texts, or "hline" for a rule
+ */
+export type TableRow = string[] | "hline";
+
+/**
+ * A parsed formula
+ */
+export interface TableFormula {
+  /** Target reference (`$3`, `@2$3`, `@>`) */
+  target: string;
+  /** Expression to evaluate */
+  expression: string;
+  /** printf-style format (`%.2f`) */
+  format?: string;
+}
+
+/**
+ * Split a #+TBLFM value into formulas
+ *
+ * @example
+ * parseTableFormulas("$3=$1*$2::@>$3=vsum(@I..@II);%.2f")
+ * // [{ target: "$3", expression: "$1*$2" },
+ * //  { target: "@>$3", expression: "vsum(@I..@II)", format: "%.2f" }]
+ *
+ * @throws If a formula has no `=`
+ */
+export function parseTableFormulas(tblfm: string): TableFormula[] {
+  return tblfm
+    .split("::")
+    .map((formula) => formula.trim())
+    .filter(Boolean)
+    .map((formula) => {
+      const separator = formula.indexOf("=");
+      if (separator <= 0) {
+        throw new Error(`Invalid table formula "${formula}"`);
+      }
+
+      let expression = formula.slice(separator + 1).trim();
+      let format: string | undefined;
+      const formatMatch = expression.match(/^(.*);\s*(%[^;'"]*)$/);
+      if (formatMatch) {
+        expression = formatMatch[1].trim();
+        format = formatMatch[2].trim();
+      }
+
+      return { target: formula.slice(0, separator).trim(), expression, format };
+    });
+}
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Aggregate functions available in formulas
+ */
+const FUNCTIONS: Record<string, (values: unknown[]) => number> = {
+  vsum: (values) => numbers(values).reduce((sum, value) => sum + value, 0),
+  vmean: (values) => {
+    const list = numbers(values);
+    return list.length ? list.reduce((sum, value) => sum + value, 0) / list.length : 0;
+  },
+  vmedian: (values) => {
+    const list = numbers(values).sort((a, b) => a - b);
+    if (list.length === 0) return 0;
+    const middle = Math.floor(list.length / 2);
+    return list.length % 2 ? list[middle] : (list[middle - 1] + list[middle]) / 2;
+  },
+  vmin: (values) => Math.min(...numbers(values)),
+  vmax: (values) => Math.max(...numbers(values)),
+  vcount: (values) => values.length,
+};
+
+function numbers(values: unknown[]): number[] {
+  return (Array.isArray(values) ? values : [values]).map(Number).filter((value) => !isNaN(value));
+}
+
+/**
+ * Table being evaluated
+ */
+interface Sheet {
+  /** Data rows (hlines removed) */
+  rows: string[][];
+  /** Index of the first row after each hline */
+  hlines: number[];
+  columns: number;
+}
+
+/**
+ * Resolve a row reference (without `@`) to a row index
+ *
+ * Hline references point to the first row after the hline, or the last
+ * row before it when they end a range.
+ */
+function resolveRow(ref: string, sheet: Sheet, current: number, end = false): number {
+  let index: number;
+
+  if (ref === "<") {
+    index = 0;
+  } else if (ref === ">") {
+    index = sheet.rows.length - 1;
+  } else if (/^[-+]\d+$/.test(ref)) {
+    index = current + Number(ref);
+  } else if (/^\d+$/.test(ref)) {
+    index = Number(ref) - 1;
+  } else if (/^I+$/.test(ref)) {
+    const hline = sheet.hlines[ref.length - 1];
+    if (hline === undefined) {
+      throw new Error(`No hline @${ref}`);
+    }
+    index = end ? hline - 1 : hline;
+  } else {
+    throw new Error(`Invalid row reference @${ref}`);
+  }
+
+  if (index < 0 || index >= sheet.rows.length) {
+    throw new Error(`Row reference @${ref} out of range`);
+  }
+  return index;
+}
+
+/**
+ * Resolve a column reference (without `$`) to a column index
+ */
+function resolveColumn(ref: string, sheet: Sheet, current: number): number {
+  let index: number;
+
+  if (ref === "<") {
+    index = 0;
+  } else if (ref === ">") {
+    index = sheet.columns - 1;
+  } else if (/^[-+]\d+$/.test(ref)) {
+    index = current + Number(ref);
+  } else if (/^\d+$/.test(ref)) {
+    index = Number(ref) - 1;
+  } else {
+    throw new Error(`Invalid column reference $${ref}`);
+  }
+
+  if (index < 0 || index >= sheet.columns) {
+    throw new Error(`Column reference $${ref} out of range`);
+  }
+  return index;
+}
+
+/**
+ * Convert a cell to a formula value (numbers stay numbers)
+ */
+function cellValue(text: string | undefined): number | string {
+  const trimmed = (text ?? "").trim();
+  if (trimmed === "") return 0;
+  return NUMBER.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+const ROW_REF = "@(?:[<>]|[-+]?\\d+|I+)";
+const COLUMN_REF = "\\$(?:[<>]|[-+]?\\d+)";
+const FIELD_REF = `(?:${ROW_REF}(?:${COLUMN_REF})?|${COLUMN_REF})`;
+const REFERENCE = new RegExp(`(${FIELD_REF})(?:\\.\\.(${FIELD_REF}))?`, "y");
+
+/**
+ * Split a reference into its row and column parts
+ */
+function splitReference(ref: string): { row?: string; column?: string } {
+  const match = ref.match(/^(?:@([^$]+))?(?:\$(.+))?$/)!;
+  return { row: match[1], column: match[2] };
+}
+
+/**
+ * Compile an expression to JavaScript, replacing references with values
+ */
+function compileExpression(expression: string, sheet: Sheet, row: number, column: number): string {
+  let output = "";
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    // Copy string literals unchanged
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < expression.length && expression[end] !== char) {
+        end += expression[end] === "\\" ? 2 : 1;
+      }
+      output += expression.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === "@" || char === "$") {
+      REFERENCE.lastIndex = i;
+      const match = REFERENCE.exec(expression);
+      if (match) {
+        output += match[2]
+          ? JSON.stringify(rangeValues(match[1], match[2], sheet, row, column))
+          : JSON.stringify(fieldValue(match[1], sheet, row, column));
+        i = REFERENCE.lastIndex;
+        continue;
+      }
+    }
+
+    // Calc-style exponentiation
+    output += char === "^" ? "**" : char;
+    i++;
+  }
+
+  return output;
+}
+
+function fieldValue(ref: string, sheet: Sheet, row: number, column: number): number | string {
+  const parts = splitReference(ref);
+  const r = parts.row !== undefined ? resolveRow(parts.row, sheet, row) : row;
+  const c = parts.column !== undefined ? resolveColumn(parts.column, sheet, column) : column;
+  return cellValue(sheet.rows[r][c]);
+}
+
+function rangeValues(
+  from: string,
+  to: string,
+  sheet: Sheet,
+  row: number,
+  column: number
+): Array<number | string> {
+  const start = splitReference(from);
+  const end = splitReference(to);
+
+  const r1 = start.row !== undefined ? resolveRow(start.row, sheet, row) : row;
+  const r2 = end.row !== undefined ? resolveRow(end.row, sheet, row, true) : r1;
+  const c1 = start.column !== undefined ? resolveColumn(start.column, sheet, column) : column;
+  const c2 = end.column !== undefined ? resolveColumn(end.column, sheet, column) : c1;
+
+  const values: Array<number | string> = [];
+  for (let r = Math.min(r1, r2); r <= Math.max(r1, r2); r++) {
+    for (let c = Math.min(c1, c2); c <= Math.max(c1, c2); c++) {
+      // Empty fields are skipped in ranges, like org
+      const text = (sheet.rows[r][c] ?? "").trim();
+      if (text !== "") {
+        values.push(cellValue(text));
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Format a formula result for a cell
+ */
+function formatResult(value: unknown, format?: string): string {
+  if (typeof value === "number") {
+    if (!isFinite(value)) {
+      return "#ERROR";
+    }
+
+    const fixed = format?.match(/^%\.(\d+)f$/);
+    if (fixed) {
+      return value.toFixed(Number(fixed[1]));
+    }
+    if (format === "%d") {
+      return String(Math.round(value));
+    }
+    return String(Number(value.toPrecision(12)));
+  }
+
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return String(value);
+}
+
+/**
+ * Evaluate one expression for a field
+ */
+function evaluateField(formula: TableFormula, sheet: Sheet, row: number, column: number): string {
+  try {
+    const code = compileExpression(formula.expression, sheet, row, column);
+    const names = [...Object.keys(FUNCTIONS), "Math"];
+    const fn = new Function(...names, `return (${code});`);
+    return formatResult(fn(...Object.values(FUNCTIONS), Math), formula.format);
+  } catch {
+    return "#ERROR";
+  }
+}
+
+/**
+ * Evaluate table formulas
+ *
+ * @param rows - Table rows (cell texts and hlines)
+ * @param tblfm - Formulas, separated by `::`
+ * @returns New rows with computed cells (the input is not modified)
+ */
+export function evaluateTableFormulas(rows: TableRow[], tblfm: string): TableRow[] {
+  const formulas = parseTableFormulas(tblfm);
+  const sheet: Sheet = { rows: [], hlines: [], columns: 0 };
+
+  for (const row of rows) {
+    if (row === "hline") {
+      sheet.hlines.push(sheet.rows.length);
+    } else {
+      sheet.rows.push([...row]);
+      sheet.columns = Math.max(sheet.columns, row.length);
+    }
+  }
+  for (const row of sheet.rows) {
+    while (row.length < sheet.columns) row.push("");
+  }
+
+  // Rows above the first hline are the header
+  const firstBodyRow = sheet.hlines.length > 0 && sheet.hlines[0] > 0 ? sheet.hlines[0] : 0;
+
+  const isColumnFormula = (formula: TableFormula) => formula.target.startsWith("$");
+  const ordered = [
+    ...formulas.filter(isColumnFormula),
+    ...formulas.filter((formula) => !isColumnFormula(formula)),
+  ];
+
+  for (const formula of ordered) {
+    const target = splitReference(formula.target);
+
+    if (target.row === undefined) {
+      const column = resolveColumn(target.column!, sheet, 0);
+      for (let row = firstBodyRow; row < sheet.rows.length; row++) {
+        sheet.rows[row][column] = evaluateField(formula, sheet, row, column);
+      }
+    } else if (target.column === undefined) {
+      const row = resolveRow(target.row, sheet, 0);
+      for (let column = 0; column < sheet.columns; column++) {
+        sheet.rows[row][column] = evaluateField(formula, sheet, row, column);
+      }
+    } else {
+      const row = resolveRow(target.row, sheet, 0);
+      const column = resolveColumn(target.column, sheet, 0);
+      sheet.rows[row][column] = evaluateField(formula, sheet, row, column);
+    }
+  }
+
+  // Put the hlines back
+  const result: TableRow[] = [];
+  let dataRow = 0;
+  for (const row of rows) {
+    result.push(row === "hline" ? "hline" : sheet.rows[dataRow++]);
+  }
+  return result;
+}
@@ -0,0 +1,231 @@
+/**
+ * Org table data
+ *
+ * Converts org tables into plain data for `:var` inputs and table imports
+ * (`import rows from "./data.org?name=q3-sales"`).
+ *
+ * A table whose first row is followed by a rule (|---+---|) has a header:
+ * its data rows become objects keyed by the header cells. Tables without
+ * a header become arrays of cell arrays. Numeric cells are coerced to numbers.
+ */
+
+import type { OrgData } from "uniorg";
+
+/**
+ * Cell value after coercion
+ */
+export type TableCell = string | number;
+
+/**
+ * Data of an org table
+ */
+export type TableData = Array<Record<string, TableCell>> | TableCell[][];
+
+/**
+ * Affiliated keywords allowed between #+NAME: and the table
+ */
+const AFFILIATED_KEYWORD = /^\s*#\+(caption|attr_[\w-]+|header|plot|results)(\[.*\])?:/i;
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Attach #+NAME: and #+RESULTS: keywords to table nodes
+ *
+ * uniorg-parse drops affiliated keywords on tables, so table names (and
+ * the `#+RESULTS:` marker of committed block results) are recovered from
+ * the source lines directly above each table.
+ *
+ * @param ast - AST parsed from `source`
+ * @param source - Org source (after shebang stripping)
+ */
+export function attachTableNames(ast: OrgData, source: string): void {
+  function walk(node: any): void {
+    if (node.type === "table" && typeof node.contentsBegin === "number") {
+      const { NAME, RESULTS } = findAffiliatedAbove(source, node.contentsBegin);
+      if (NAME && !node.affiliated?.NAME) {
+        node.affiliated = { ...node.affiliated, NAME };
+      }
+      if (RESULTS !== undefined && node.affiliated?.RESULTS === undefined) {
+        node.affiliated = { ...node.affiliated, RESULTS };
+      }
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach(walk);
+    }
+  }
+
+  walk(ast);
+}
+
+/**
+ * Find the #+NAME: and #+RESULTS: keywords above an offset, skipping
+ * other affiliated keywords
+ */
+function findAffiliatedAbove(
+  source: string,
+  offset: number
+): { NAME?: string; RESULTS?: string } {
+  const lines = source.slice(0, offset).split("\n");
+  // Last entry is the (empty) start of the table line itself
+  lines.pop();
+
+  const affiliated: { NAME?: string; RESULTS?: string } = {};
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const nameMatch = lines[i].match(/^\s*#\+name:\s*(\S+)\s*$/i);
+    const resultsMatch = lines[i].match(/^\s*#\+results(?:\[[^\]]*\])?:\s*(\S*)\s*$/i);
+
+    if (nameMatch) {
+      affiliated.NAME ??= nameMatch[1];
+    } else if (resultsMatch) {
+      affiliated.RESULTS ??= resultsMatch[1];
+    } else if (!AFFILIATED_KEYWORD.test(lines[i])) {
+      break;
+    }
+  }
+
+  return affiliated;
+}
+
+/**
+ * Attach #+TBLFM: formulas to table nodes
+ *
+ * uniorg-parse concatenates multiple #+TBLFM: lines without a separator,
+ * so the formulas are re-read from the source lines below each table and
+ * joined with `::`.
+ *
+ * @param ast - AST parsed from `source`
+ * @param source - Org source (after shebang stripping)
+ */
+export function attachTableFormulas(ast: OrgData, source: string): void {
+  function walk(node: any): void {
+    if (node.type === "table" && node.tblfm && typeof node.contentsEnd === "number") {
+      const formulas: string[] = [];
+      for (const line of source.slice(node.contentsEnd).split("\n")) {
+        const match = line.match(/^\s*#\+tblfm:\s*(.*?)\s*$/i);
+        if (!match) break;
+        formulas.push(match[1]);
+      }
+      if (formulas.length > 0) {
+        node.tblfm = formulas.join("::");
+      }
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach(walk);
+    }
+  }
+
+  walk(ast);
+}
+
+/**
+ * Get the plain text of a node (markup stripped)
+ */
+export function getNodeText(node: any): string {
+  if (typeof node.value === "string") {
+    return node.value;
+  }
+  if (Array.isArray(node.children)) {
+    return node.children.map(getNodeText).join("");
+  }
+  return "";
+}
+
+/**
+ * Coerce a cell to a number when it is numeric
+ */
+export function coerceCell(text: string): TableCell {
+  const trimmed = text.trim();
+  return NUMBER.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+/**
+ * Convert a table node to data
+ *
+ * @param table - uniorg table node
+ * @returns Row objects (header row present) or cell arrays
+ */
+export function getTableData(table: any): TableData {
+  const rows: any[] = table.children || [];
+  const standardRows = rows.filter((row) => row.rowType === "standard");
+  const cells = (row: any) => (row.children || []).map((cell: any) => getNodeText(cell).trim());
+
+  const firstStandard = rows.indexOf(standardRows[0]);
+  const hasHeader =
+    standardRows.length > 0 && rows[firstStandard + 1]?.rowType === "rule";
+
+  if (!hasHeader) {
+    return standardRows.map((row) => cells(row).map(coerceCell));
+  }
+
+  const header: string[] = cells(standardRows[0]);
+  return standardRows.slice(1).map((row) => {
+    const values = cells(row);
+    const record: Record<string, TableCell> = {};
+    header.forEach((column, index) => {
+      record[column] = coerceCell(values[index] ?? "");
+    });
+    return record;
+  });
+}
+
+/**
+ * Named table of an org file
+ */
+export interface NamedTable {
+  /** Name from #+NAME: */
+  name: string;
+  /** 1-based line of the first table row */
+  startLine: number;
+  /** 1-based line of the last table row */
+  endLine: number;
+  /** Table data (see getTableData) */
+  rows: TableData;
+}
+
+/**
+ * Find the named tables of an org file
+ *
+ * @param ast - AST parsed from `source`
+ * @param source - Org source the AST was parsed from
+ * @returns Named tables in document order
+ */
+export function findNamedTables(ast: OrgData, source: string): NamedTable[] {
+  attachTableNames(ast, source);
+
+  const lineAt = (offset: number) => source.slice(0, offset).split("\n").length;
+  const tables: NamedTable[] = [];
+
+  function walk(node: any): void {
+    const name = node.affiliated?.NAME as string | undefined;
+
+    if (node.type === "table" && name) {
+      tables.push({
+        name,
+        startLine: lineAt(node.contentsBegin),
+        endLine: lineAt(Math.max(node.contentsBegin, node.contentsEnd - 1)),
+        rows: getTableData(node),
+      });
+      return;
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach(walk);
+    }
+  }
+
+  walk(ast);
+  return tables;
+}
+
+/**
+ * Generate the ES module for a table import
+ *
+ * @param rows - Table data
+ * @returns Module source with the rows as default export
+ */
+export function generateTableModule(rows: TableData): string {
+  return `export default ${JSON.stringify(rows, null, 2)};\n`;
+}
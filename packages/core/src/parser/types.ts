@@ -197,6 +197,9 @@ export interface ServerExecutionResult {
   /** Execution output (console.log, return value, etc.) */
   output: string;
 
+  /** Raw result value (used for `:var` references to the block) */
+  value?: unknown;
+
   /** Error if execution failed */
   error?: Error;
 
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { parseOrgFile } from "./parse-content.ts";
+import { getTableData } from "./tables.ts";
+import {
+  createVariableResolver,
+  injectVariables,
+  parseVarAssignments,
+  parseVarLiteral,
+} from "./variables.ts";
+
+describe("Block variables", () => {
+  describe("parseVarAssignments", () => {
+    it("should split on commas and whitespace outside quotes and brackets", () => {
+      expect(parseVarAssignments('data=sales, title="Q3, all" ids=[1, 2]')).toEqual([
+        { name: "data", value: "sales" },
+        { name: "title", value: '"Q3, all"' },
+        { name: "ids", value: "[1, 2]" },
+      ]);
+    });
+
+    it("should return no assignments for an empty value", () => {
+      expect(parseVarAssignments(undefined)).toEqual([]);
+    });
+
+    it("should reject assignments without a name", () => {
+      expect(() => parseVarAssignments("sales")).toThrow(
+        'Invalid :var assignment "sales" (expected name=value)'
+      );
+    });
+  });
+
+  describe("parseVarLiteral", () => {
+    it("should parse numbers and JSON values", () => {
+      expect(parseVarLiteral("-1.5")).toEqual({ value: -1.5 });
+      expect(parseVarLiteral('"text"')).toEqual({ value: "text" });
+      expect(parseVarLiteral('{"a":[1]}')).toEqual({ value: { a: [1] } });
+    });
+
+    it("should return undefined for references", () => {
+      expect(parseVarLiteral("sales-table")).toBeUndefined();
+    });
+  });
+
+  describe("getTableData", () => {
+    it("should key rows by the header and coerce numbers", () => {
+      const { ast } = parseOrgFile(`#+NAME: t
+| name | qty |
+|------+-----|
+| a    |  1  |
+| b    | 2.5 |
+`);
+
+      expect(getTableData((ast as any).children[0])).toEqual([
+        { name: "a", qty: 1 },
+        { name: "b", qty: 2.5 },
+      ]);
+    });
+
+    it("should return cell arrays for tables without a header", () => {
+      const { ast } = parseOrgFile("| a | 1 |\n| b | 2 |\n");
+
+      expect(getTableData((ast as any).children[0])).toEqual([
+        ["a", 1],
+        ["b", 2],
+      ]);
+    });
+  });
+
+  describe("createVariableResolver", () => {
+    const source = `#+NAME: rows
+#+CAPTION: Rows
+| x |
+|---|
+| 1 |
+| 2 |
+
+#+NAME: double
+#+begin_src javascript :var rows=rows :var factor=2
+#+end_src
+
+#+begin_src javascript :var values=double :var missing=nowhere
+#+end_src
+`;
+
+    it("should resolve tables, literals and block results", async () => {
+      const { ast } = parseOrgFile(source);
+      const calls: string[] = [];
+      const resolver = createVariableResolver(ast, async (block, variables) => {
+        calls.push(block.name ?? String(block.index));
+        return (variables.rows as any[]).map((row) => row.x * (variables.factor as number));
+      });
+
+      expect(await resolver.evaluate(resolver.blocks[0])).toEqual([2, 4]);
+      expect(await resolver.evaluate(resolver.blocks[0])).toEqual([2, 4]);
+      expect(calls).toEqual(["double"]);
+    });
+
+    it("should report unknown references", async () => {
+      const { ast } = parseOrgFile(source);
+      const resolver = createVariableResolver(ast, async () => []);
+
+      await expect(resolver.resolveVariables(resolver.blocks[1])).rejects.toThrow(
+        ':var missing=nowhere: no table, list, example or block named "nowhere"'
+      );
+    });
+  });
+
+  describe("injectVariables", () => {
+    const variables = { rows: [{ name: "a", qty: 1 }], label: "it's" };
+
+    it("should define JavaScript constants", () => {
+      expect(injectVariables("return rows;", "js", variables)).toBe(
+        'const rows = [{"name":"a","qty":1}];\nconst label = "it\'s";\nreturn rows;'
+      );
+    });
+
+    it("should quote shell values and write tables as tab-separated lines", () => {
+      expect(injectVariables('echo "$rows"', "sh", variables)).toBe(
+        "rows='a\t1'\nlabel='it'\\''s'\necho \"$rows\""
+      );
+    });
+
+    it("should load Python values from JSON", () => {
+      expect(injectVariables("print(label)", "python", { label: "x" })).toBe(
+        'import json as __orgp_json\nlabel = __orgp_json.loads("\\"x\\"")\nprint(label)'
+      );
+    });
+
+    it("should create SQLite tables and substitute scalars", () => {
+      expect(injectVariables("SELECT * FROM rows WHERE name != $label;", "sqlite", variables)).toBe(
+        [
+          'CREATE TEMP TABLE "rows" ("name", "qty");',
+          "INSERT INTO \"rows\" VALUES ('a', 1);",
+          "SELECT * FROM rows WHERE name != 'it''s';",
+        ].join("\n")
+      );
+    });
+
+    it("should leave code unchanged without variables", () => {
+      expect(injectVariables("SELECT 1;", "sqlite", {})).toBe("SELECT 1;");
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import type { OrgData } from "uniorg";
+import { parseBlockParameters } from "../plugins/utils.ts";
+import { getNodeText, getTableData } from "./tables.ts";
+
+/**
+ * Block variables (`:var`)
+ *
+ * org-babel style inputs for executed blocks:
+ *
+ *   #+begin_src python :use server :var rows=sales-table :var limit=10
+ *
+ * A value is a literal (number, "string", JSON array/object) or the name
+ * of an element in the same file:
+ *
+ * - table:          row objects keyed by the header row, or cell arrays
+ * - plain list:     array of item texts
+ * - example block:  its text
+ * - source block:   its result (the block is executed first)
+ *
+ * Referenced blocks are evaluated in dependency order, each at most once
+ * per resolver; reference cycles are reported as errors.
+ */
+
+/**
+ * A single `name=value` assignment
+ */
+export interface VarAssignment {
+  name: string;
+  /** Raw value (literal or reference) */
+  value: string;
+}
+
+/**
+ * Source block that can be evaluated
+ */
+export interface VariableSourceBlock {
+  /** Index among all source blocks in the file */
+  index: number;
+  /** Block name from #+NAME: */
+  name?: string;
+  language: string;
+  code: string;
+  parameters: Record<string, string>;
+}
+
+/**
+ * Named element a `:var` can reference
+ */
+export type NamedElement =
+  | { type: "table"; value: unknown[] }
+  | { type: "list"; value: string[] }
+  | { type: "example"; value: string }
+  | { type: "block"; block: VariableSourceBlock };
+
+/**
+ * Executes a block with its resolved variables and returns its result
+ */
+export type VariableBlockExecutor = (
+  block: VariableSourceBlock,
+  variables: Record<string, unknown>
+) => Promise<unknown>;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Split a `:var` parameter into assignments
+ *
+ * Assignments are separated by commas or whitespace outside quotes
+ * and brackets.
+ *
+ * @example
+ * parseVarAssignments('data=sales, title="Q3 sales" n=3')
+ * // [{ name: "data", value: "sales" }, { name: "title", value: '"Q3 sales"' },
+ * //  { name: "n", value: "3" }]
+ *
+ * @throws If an assignment has no `=` or an invalid name
+ */
+export function parseVarAssignments(value: string | undefined): VarAssignment[] {
+  if (!value) {
+    return [];
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  let depth = 0;
+
+  for (const char of value) {
+    if (char === '"' && current[current.length - 1] !== "\\") {
+      quoted = !quoted;
+    } else if (!quoted && (char === "[" || char === "{")) {
+      depth++;
+    } else if (!quoted && (char === "]" || char === "}")) {
+      depth--;
+    } else if (!quoted && depth === 0 && (char === "," || /\s/.test(char))) {
+      if (current) parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current) parts.push(current);
+
+  return parts.map((part) => {
+    const separator = part.indexOf("=");
+    const name = separator === -1 ? part : part.slice(0, separator);
+
+    if (separator === -1 || !IDENTIFIER.test(name)) {
+      throw new Error(`Invalid :var assignment "${part}" (expected name=value)`);
+    }
+
+    return { name, value: part.slice(separator + 1) };
+  });
+}
+
+/**
+ * Parse a literal `:var` value
+ *
+ * @returns The value, or undefined when the value is a reference
+ */
+export function parseVarLiteral(raw: string): { value: unknown } | undefined {
+  if (NUMBER.test(raw)) {
+    return { value: Number(raw) };
+  }
+
+  if (raw.startsWith('"') || raw.startsWith("[") || raw.startsWith("{")) {
+    try {
+      return { value: JSON.parse(raw) };
+    } catch {
+      throw new Error(`Invalid :var value ${raw}`);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect the named tables, lists, example blocks and source blocks
+ *
+ * Table names must already be attached (see attachTableNames).
+ *
+ * @param ast - Parsed org file
+ * @returns Elements by name, and every source block in document order
+ */
+export function collectNamedElements(ast: OrgData): {
+  elements: Map<string, NamedElement>;
+  blocks: VariableSourceBlock[];
+} {
+  const elements = new Map<string, NamedElement>();
+  const blocks: VariableSourceBlock[] = [];
+
+  function walk(node: any): void {
+    const name = node.affiliated?.NAME as string | undefined;
+
+    if (node.type === "src-block") {
+      const block: VariableSourceBlock = {
+        index: blocks.length,
+        name,
+        language: (node.language || "").toLowerCase(),
+        code: node.value || "",
+        parameters: parseBlockParameters(node.parameters),
+      };
+      blocks.push(block);
+      if (name) elements.set(name, { type: "block", block });
+      return;
+    }
+
+    if (name && node.type === "table") {
+      elements.set(name, { type: "table", value: getTableData(node) });
+    } else if (name && node.type === "plain-list") {
+      elements.set(name, {
+        type: "list",
+        value: (node.children || []).map((item: any) => getNodeText(item).trim()),
+      });
+    } else if (name && node.type === "example-block") {
+      elements.set(name, { type: "example", value: (node.value || "").replace(/\n$/, "") });
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach(walk);
+    }
+  }
+
+  walk(ast);
+  return { elements, blocks };
+}
+
+/**
+ * Create a resolver for the `:var` inputs of a file's blocks
+ *
+ * @param ast - Parsed org file (with table names attached)
+ * @param execute - Runs a block with its variables
+ *
+ * @example
+ * const resolver = createVariableResolver(ast, async (block, variables) =>
+ *   run(injectVariables(block.code, block.language, variables))
+ * );
+ * const result = await resolver.evaluate(resolver.blocks[2]);
+ */
+export function createVariableResolver(ast: OrgData, execute: VariableBlockExecutor) {
+  const { elements, blocks } = collectNamedElements(ast);
+  const results = new Map<number, Promise<unknown>>();
+
+  async function resolveVariables(
+    block: VariableSourceBlock,
+    stack: string[] = []
+  ): Promise<Record<string, unknown>> {
+    const variables: Record<string, unknown> = {};
+
+    for (const { name, value } of parseVarAssignments(block.parameters.var)) {
+      const literal = parseVarLiteral(value);
+      if (literal) {
+        variables[name] = literal.value;
+        continue;
+      }
+
+      const element = elements.get(value);
+      if (!element) {
+        throw new Error(
+          `:var ${name}=${value}: no table, list, example or block named "${value}"`
+        );
+      }
+
+      variables[name] =
+        element.type === "block" ? await evaluate(element.block, stack) : element.value;
+    }
+
+    return variables;
+  }
+
+  function evaluate(block: VariableSourceBlock, stack: string[] = []): Promise<unknown> {
+    const label = block.name ?? `#${block.index}`;
+    if (stack.includes(label)) {
+      return Promise.reject(
+        new Error(`Circular :var reference: ${[...stack, label].join(" -> ")}`)
+      );
+    }
+
+    let result = results.get(block.index);
+    if (!result) {
+      result = resolveVariables(block, [...stack, label]).then((variables) =>
+        execute(block, variables)
+      );
+      results.set(block.index, result);
+    }
+    return result;
+  }
+
+  return {
+    /** Every source block in document order */
+    blocks,
+    /** Named elements */
+    elements,
+    /** Resolve a block's variables (evaluating referenced blocks) */
+    resolveVariables: (block: VariableSourceBlock) => resolveVariables(block),
+    /** Evaluate a block once, after the blocks it references */
+    evaluate: (block: VariableSourceBlock) => evaluate(block),
+  };
+}
+
+/**
+ * Quote a string for POSIX shells
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a value for SQL
+ */
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "boolean") return value ? "1" : "0";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Format a value for a shell variable
+ *
+ * Tables and lists become lines of tab-separated cells, like org-babel.
+ */
+function shellValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value
+      .map((row) =>
+        Array.isArray(row)
+          ? row.join("\t")
+          : row !== null && typeof row === "object"
+            ? Object.values(row).join("\t")
+            : String(row)
+      )
+      .join("\n");
+  }
+  if (value !== null && typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/**
+ * SQL creating a temporary table from rows
+ */
+function sqlTable(name: string, rows: unknown[]): string {
+  const records = rows.map((row) =>
+    Array.isArray(row)
+      ? Object.fromEntries(row.map((cell, index) => [`c${index + 1}`, cell]))
+      : row !== null && typeof row === "object"
+        ? (row as Record<string, unknown>)
+        : { value: row }
+  );
+  const columns = records.length > 0 ? Object.keys(records[0]) : ["value"];
+  const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+  const statements = [
+    `CREATE TEMP TABLE ${quote(name)} (${columns.map(quote).join(", ")});`,
+  ];
+  for (const record of records) {
+    statements.push(
+      `INSERT INTO ${quote(name)} VALUES (${columns.map((column) => sqlLiteral(record[column])).join(", ")});`
+    );
+  }
+  return statements.join("\n");
+}
+
+/**
+ * Inject variables into a block's source
+ *
+ * - JavaScript/TypeScript: `const name = <JSON>;`
+ * - Python: `name = json.loads(...)`
+ * - sh/bash: `name='...'` (tables as tab-separated lines)
+ * - sqlite: arrays become temporary tables; other values replace `$name`
+ *
+ * @param code - Block source
+ * @param language - Block language
+ * @param variables - Resolved variables
+ * @returns Source with the variables defined
+ */
+export function injectVariables(
+  code: string,
+  language: string,
+  variables: Record<string, unknown>
+): string {
+  const entries = Object.entries(variables);
+  if (entries.length === 0) {
+    return code;
+  }
+
+  switch (language.toLowerCase()) {
+    case "python":
+    case "python3":
+    case "py":
+      return [
+        "import json as __orgp_json",
+        ...entries.map(
+          ([name, value]) => `${name} = __orgp_json.loads(${JSON.stringify(JSON.stringify(value ?? null))})`
+        ),
+        code,
+      ].join("\n");
+
+    case "sh":
+    case "bash":
+      return [
+        ...entries.map(([name, value]) => `${name}=${shellQuote(shellValue(value))}`),
+        code,
+      ].join("\n");
+
+    case "sqlite":
+    case "sqlite3": {
+      const tables = entries.filter(([, value]) => Array.isArray(value));
+      let sql = code;
+      for (const [name, value] of entries) {
+        if (!Array.isArray(value)) {
+          sql = sql.replace(new RegExp(`\\$${name}\\b`, "g"), () => sqlLiteral(value));
+        }
+      }
+      return [...tables.map(([name, value]) => sqlTable(name, value as unknown[])), sql].join("\n");
+    }
+
+    default:
+      return [
+        ...entries.map(([name, value]) => `const ${name} = ${JSON.stringify(value ?? null)};`),
+        code,
+      ].join("\n");
+  }
+}
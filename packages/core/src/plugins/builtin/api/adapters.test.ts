@@ -0,0 +1,327 @@
+/**
+ * Tests for API server adapters
+ *
+ * Each adapter entry is emitted into a temp server bundle and driven with
+ * synthetic platform events.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { PassThrough } from "node:stream";
+import { pathToFileURL } from "node:url";
+import { writeApiServer } from "./server-build.ts";
+import { resolveApiAdapters, lambdaAdapter } from "./adapters.ts";
+import type { ApiRouteDefinition } from "./types.ts";
+
+const route = (
+  method: string,
+  endpoint: string,
+  source: string
+): ApiRouteDefinition => ({
+  method,
+  endpoint,
+  source,
+  language: "javascript",
+  handler: () => {},
+  previewOnly: false,
+  sourcePath: "content/api.org",
+});
+
+const ROUTES = [
+  route(
+    "GET",
+    "/api/hello",
+    `export default async (req, res) => {
+  res.setHeader("X-Org", "yes").json({ message: "Hello " + (req.query.name || "World") });
+};`
+  ),
+  route(
+    "POST",
+    "/api/users/:id",
+    `export default async (req, res) => {
+  res.status(201).json({ id: req.params.id, body: req.body });
+};`
+  ),
+  route(
+    "GET",
+    "/api/fail",
+    `export default async () => {
+  throw new Error("boom");
+};`
+  ),
+];
+
+describe("API server adapters", () => {
+  let serverDir: string;
+  const load = async (file: string) =>
+    import(pathToFileURL(path.join(serverDir, file)).href);
+
+  beforeAll(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    serverDir = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "api-adapters-test-")),
+      "server"
+    );
+    await writeApiServer(ROUTES, serverDir, null);
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(serverDir), { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("resolveApiAdapters", () => {
+    it("should default to all built-in adapters", () => {
+      expect(resolveApiAdapters().map((a) => a.name)).toEqual([
+        "node",
+        "fetch",
+        "lambda",
+        "express",
+      ]);
+    });
+
+    it("should mix names and custom adapters", () => {
+      const custom = { name: "custom", generate: () => ({}) };
+      expect(resolveApiAdapters(["lambda", custom])).toEqual([lambdaAdapter, custom]);
+    });
+
+    it("should reject unknown adapter names", () => {
+      expect(() => resolveApiAdapters(["nope" as any])).toThrow(
+        '[api] Unknown adapter "nope"'
+      );
+    });
+  });
+
+  it("should only emit the selected adapters", async () => {
+    const dir = path.join(path.dirname(serverDir), "lambda-only");
+    await writeApiServer(ROUTES, dir, null, resolveApiAdapters(["lambda"]));
+
+    expect(fs.existsSync(path.join(dir, "lambda.mjs"))).toBe(true);
+    expect(fs.existsSync(path.join(dir, "server.mjs"))).toBe(false);
+    expect(fs.existsSync(path.join(dir, "fetch.mjs"))).toBe(false);
+  });
+
+  describe("node", () => {
+    const createRes = () => {
+      const res: any = {
+        statusCode: 0,
+        headersSent: false,
+        headers: {} as Record<string, string>,
+        setHeader(name: string, value: string) {
+          res.headers[name] = value;
+        },
+        end(body: unknown) {
+          res.body = body;
+        },
+      };
+      return res;
+    };
+
+    it("should answer malformed paths with 404", async () => {
+      const { createRequestListener } = await load("node.mjs");
+      const { routes } = await load("routes.mjs");
+      const res = createRes();
+
+      await createRequestListener(routes)({ method: "GET", url: "/api/users/%", headers: {} }, res);
+
+      expect(res.statusCode).toBe(404);
+    });
+
+    it("should answer unexpected errors with 500", async () => {
+      const { createRequestListener } = await load("node.mjs");
+      const { routes } = await load("routes.mjs");
+      const res = createRes();
+      const req = {
+        method: "GET",
+        url: "/api/hello",
+        get headers(): never {
+          throw new Error("broken request");
+        },
+      };
+
+      await createRequestListener(routes)(req, res);
+
+      expect(res.statusCode).toBe(500);
+      expect(JSON.parse(res.body)).toEqual({ error: "Internal server error" });
+    });
+  });
+
+  describe("fetch", () => {
+    it("should handle WHATWG requests", async () => {
+      const { handleRequest, POST, default: worker } = await load("fetch.mjs");
+
+      const hello = await handleRequest(new Request("https://example.com/api/hello?name=Org"));
+      expect(hello.status).toBe(200);
+      expect(hello.headers.get("x-org")).toBe("yes");
+      expect(await hello.json()).toEqual({ message: "Hello Org" });
+
+      const created = await POST(
+        new Request("https://example.com/api/users/7", {
+          method: "POST",
+          body: JSON.stringify({ name: "Ada" }),
+        })
+      );
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ id: "7", body: { name: "Ada" } });
+
+      const missing = await worker.fetch(new Request("https://example.com/nope"));
+      expect(missing.status).toBe(404);
+    });
+
+    it("should turn handler errors into 500 responses", async () => {
+      const { handleRequest } = await load("fetch.mjs");
+
+      const response = await handleRequest(new Request("https://example.com/api/fail"));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: "boom" });
+    });
+
+    it("should answer malformed paths with 404 and unexpected errors with 500", async () => {
+      const { handleRequest } = await load("fetch.mjs");
+
+      const malformed = await handleRequest(new Request("https://example.com/api/users/%"));
+      expect(malformed.status).toBe(404);
+
+      const failed = await handleRequest({
+        url: "https://example.com/api/users/1",
+        method: "POST",
+        headers: new Headers(),
+        text: () => Promise.reject(new Error("stream aborted")),
+      });
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toEqual({ error: "Internal server error" });
+    });
+  });
+
+  describe("lambda", () => {
+    it("should handle API Gateway REST (v1) events", async () => {
+      const { handler } = await load("lambda.mjs");
+
+      const result = await handler({
+        httpMethod: "POST",
+        path: "/api/users/42",
+        queryStringParameters: null,
+        headers: { "Content-Type": "application/json" },
+        body: Buffer.from(JSON.stringify({ name: "Ada" })).toString("base64"),
+        isBase64Encoded: true,
+      });
+
+      expect(result.statusCode).toBe(201);
+      expect(result.isBase64Encoded).toBe(false);
+      expect(JSON.parse(result.body)).toEqual({ id: "42", body: { name: "Ada" } });
+    });
+
+    it("should handle HTTP API (v2) events", async () => {
+      const { handler } = await load("lambda.mjs");
+
+      const result = await handler({
+        version: "2.0",
+        rawPath: "/api/hello",
+        rawQueryString: "name=Lambda",
+        headers: {},
+        requestContext: { http: { method: "GET" } },
+      });
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers["X-Org"]).toBe("yes");
+      expect(JSON.parse(result.body)).toEqual({ message: "Hello Lambda" });
+    });
+
+    it("should return 404 for unknown routes", async () => {
+      const { handler } = await load("lambda.mjs");
+
+      const result = await handler({ httpMethod: "GET", path: "/api/nope" });
+
+      expect(result.statusCode).toBe(404);
+    });
+
+    it("should answer malformed paths with 404 and unexpected errors with 500", async () => {
+      const { handler } = await load("lambda.mjs");
+
+      const malformed = await handler({ httpMethod: "POST", path: "/api/users/%" });
+      expect(malformed.statusCode).toBe(404);
+
+      const failed = await handler({
+        httpMethod: "POST",
+        path: "/api/users/1",
+        body: 42,
+        isBase64Encoded: true,
+      });
+      expect(failed.statusCode).toBe(500);
+      expect(JSON.parse(failed.body)).toEqual({ error: "Internal server error" });
+    });
+  });
+
+  describe("express", () => {
+    const createRes = () => {
+      const res: any = {
+        statusCode: 0,
+        headers: {} as Record<string, string>,
+        body: undefined as unknown,
+        setHeader(name: string, value: string) {
+          res.headers[name] = value;
+        },
+        end(body: unknown) {
+          res.body = body;
+        },
+      };
+      return res;
+    };
+
+    it("should reuse bodies parsed by express.json()", async () => {
+      const { default: apiMiddleware } = await load("express.mjs");
+      const res = createRes();
+      const next = vi.fn();
+
+      await apiMiddleware(
+        { method: "POST", url: "/api/users/1", headers: {}, body: { name: "Ada" } },
+        res,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(201);
+      expect(JSON.parse(res.body)).toEqual({ id: "1", body: { name: "Ada" } });
+    });
+
+    it("should read raw request streams", async () => {
+      const { apiMiddleware } = await load("express.mjs");
+      const req: any = new PassThrough();
+      Object.assign(req, { method: "POST", url: "/api/users/2", headers: {} });
+      req.end(JSON.stringify({ name: "Grace" }));
+      const res = createRes();
+
+      await apiMiddleware(req, res, vi.fn());
+
+      expect(JSON.parse(res.body)).toEqual({ id: "2", body: { name: "Grace" } });
+    });
+
+    it("should fall through for unknown routes", async () => {
+      const { apiMiddleware } = await load("express.mjs");
+      const next = vi.fn();
+
+      await apiMiddleware({ method: "GET", url: "/about", headers: {} }, createRes(), next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should fall through for malformed paths and pass errors to next", async () => {
+      const { apiMiddleware } = await load("express.mjs");
+      const next = vi.fn();
+
+      await apiMiddleware({ method: "POST", url: "/api/users/%", headers: {} }, createRes(), next);
+      expect(next).toHaveBeenCalledWith();
+
+      const req: any = new PassThrough();
+      Object.assign(req, { method: "POST", url: "/api/users/3", headers: {} });
+      const error = new Error("connection reset");
+      queueMicrotask(() => req.destroy(error));
+
+      await apiMiddleware(req, createRes(), next);
+      expect(next).toHaveBeenLastCalledWith(error);
+    });
+  });
+});
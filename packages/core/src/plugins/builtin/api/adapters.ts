@@ -0,0 +1,390 @@
+/**
+ * API Server Adapters
+ *
+ * Built-in output adapters for the API server bundle. Each wraps the
+ * registered handlers for one deployment target:
+ *
+ * - node:    server.mjs + node.mjs - standalone node:http server (API + static site)
+ * - fetch:   fetch.mjs - WHATWG `fetch(Request) => Response` handler
+ *            (Cloudflare Workers, Vercel/Netlify edge, Deno, Bun)
+ * - lambda:  lambda.mjs - AWS Lambda handler for API Gateway (REST v1 and HTTP v2)
+ *            and function URL events
+ * - express: express.mjs - Express/Connect middleware
+ *
+ * Select adapters with the `api.adapters` config option; custom
+ * ApiServerAdapter objects can be mixed in.
+ */
+
+import type { ApiAdapterContext, ApiServerAdapter } from "./types.ts";
+
+/**
+ * Names of the built-in adapters
+ */
+export type BuiltinApiAdapterName = "node" | "fetch" | "lambda" | "express";
+
+const HEADER = "// Auto-generated by org-press - do not edit\n";
+
+/**
+ * Node server adapter
+ *
+ * node.mjs exports `createRequestListener(routes, { staticDir })`;
+ * server.mjs starts it (PORT and HOST environment variables). Unexpected
+ * errors get a JSON 500 instead of crashing the process.
+ */
+export const nodeAdapter: ApiServerAdapter = {
+  name: "node",
+  generate(context: ApiAdapterContext) {
+    const staticDirCode = context.staticDir
+      ? `fileURLToPath(new URL(${JSON.stringify(context.staticDir + "/")}, import.meta.url))`
+      : "null";
+
+    return {
+      "node.mjs": `${HEADER}
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { BODY_METHODS, dispatch, findRoute, notFound, parseUrl, readNodeBody, serverError } from "./runtime.mjs";
+
+const CONTENT_TYPES = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".txt": "text/plain; charset=utf-8",
+  ".xml": "application/xml; charset=utf-8",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+};
+
+function resolveStaticFile(staticDir, pathname) {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+
+  const root = path.resolve(staticDir);
+  const candidates = [decoded, path.join(decoded, "index.html"), decoded + ".html"];
+
+  for (const candidate of candidates) {
+    const filePath = path.resolve(root, "." + candidate);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) return null;
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) return filePath;
+  }
+
+  return null;
+}
+
+function serveFile(res, filePath, statusCode, method) {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", CONTENT_TYPES[path.extname(filePath)] || "application/octet-stream");
+  if (method === "HEAD") {
+    res.end();
+    return;
+  }
+  fs.createReadStream(filePath).on("error", (error) => res.destroy(error)).pipe(res);
+}
+
+function writeResponse(res, response) {
+  res.statusCode = response.status;
+  for (const [key, value] of Object.entries(response.headers)) res.setHeader(key, value);
+  res.end(response.body);
+}
+
+export function createRequestListener(routes, options = {}) {
+  const staticDir = options.staticDir || null;
+
+  async function handle(req, res) {
+    const { path: pathname, query } = parseUrl(req.url || "/");
+    const method = (req.method || "GET").toUpperCase();
+
+    if (findRoute(routes, method, pathname)) {
+      let body = null;
+      if (BODY_METHODS.includes(method)) {
+        try {
+          body = await readNodeBody(req);
+        } catch (error) {
+          console.error("[api] Failed to read request body:", error);
+        }
+      }
+
+      writeResponse(res, await dispatch(routes, { method, path: pathname, query, headers: req.headers, body }));
+      return;
+    }
+
+    if (staticDir && (method === "GET" || method === "HEAD")) {
+      const filePath = resolveStaticFile(staticDir, pathname);
+      if (filePath) {
+        serveFile(res, filePath, 200, method);
+        return;
+      }
+
+      const notFoundPage = path.join(staticDir, "404.html");
+      if (fs.existsSync(notFoundPage)) {
+        serveFile(res, notFoundPage, 404, method);
+        return;
+      }
+    }
+
+    writeResponse(res, notFound());
+  }
+
+  return async (req, res) => {
+    try {
+      await handle(req, res);
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        writeResponse(res, serverError(error));
+      }
+    }
+  };
+}
+`,
+      "server.mjs": `${HEADER}//
+// Usage: node server.mjs (PORT and HOST environment variables)
+
+import * as http from "node:http";
+import { fileURLToPath } from "node:url";
+import { createRequestListener } from "./node.mjs";
+import { routes } from "./routes.mjs";
+
+const staticDir = ${staticDirCode};
+const port = Number(process.env.PORT) || 3000;
+const host = process.env.HOST || "0.0.0.0";
+
+const server = http.createServer(createRequestListener(routes, { staticDir }));
+
+server.listen(port, host, () => {
+  console.log("[api] " + routes.length + " route(s) listening on http://" + host + ":" + port);
+});
+`,
+    };
+  },
+};
+
+/**
+ * WHATWG fetch adapter
+ *
+ * fetch.mjs exports `handleRequest(request)`, per-method aliases
+ * (GET, POST, ...) for Vercel-style route files, and a default
+ * `{ fetch }` object for Workers-style module entries. Unmatched
+ * requests get a JSON 404, unexpected errors a JSON 500.
+ */
+export const fetchAdapter: ApiServerAdapter = {
+  name: "fetch",
+  generate() {
+    return {
+      "fetch.mjs": `${HEADER}
+import { BODY_METHODS, dispatch, notFound, parseBody, serverError } from "./runtime.mjs";
+import { routes } from "./routes.mjs";
+
+async function respond(request, method) {
+  const url = new URL(request.url);
+  const body = BODY_METHODS.includes(method) ? parseBody(await request.text()) : null;
+
+  return (
+    (await dispatch(routes, {
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(request.headers),
+      body,
+    })) || notFound()
+  );
+}
+
+export async function handleRequest(request) {
+  const method = request.method.toUpperCase();
+
+  let response;
+  try {
+    response = await respond(request, method);
+  } catch (error) {
+    response = serverError(error);
+  }
+
+  const status = response.status;
+  const nullBody = status === 204 || status === 304 || method === "HEAD";
+  return new Response(nullBody ? null : response.body, { status, headers: response.headers });
+}
+
+export {
+  handleRequest as GET,
+  handleRequest as POST,
+  handleRequest as PUT,
+  handleRequest as PATCH,
+  handleRequest as DELETE,
+  handleRequest as OPTIONS,
+  handleRequest as HEAD,
+};
+
+export default { fetch: handleRequest };
+`,
+    };
+  },
+};
+
+/**
+ * AWS Lambda adapter
+ *
+ * lambda.mjs exports `handler(event)` accepting API Gateway REST (v1),
+ * HTTP API (v2) and function URL events. Unexpected errors get a JSON 500.
+ */
+export const lambdaAdapter: ApiServerAdapter = {
+  name: "lambda",
+  generate() {
+    return {
+      "lambda.mjs": `${HEADER}
+import { BODY_METHODS, dispatch, notFound, parseBody, serverError } from "./runtime.mjs";
+import { routes } from "./routes.mjs";
+
+function lowercaseHeaders(headers) {
+  const result = {};
+  for (const [key, value] of Object.entries(headers || {})) {
+    result[key.toLowerCase()] = value;
+  }
+  return result;
+}
+
+function parseEvent(event) {
+  const method = (event.requestContext?.http?.method || event.httpMethod || "GET").toUpperCase();
+  const path = event.rawPath || event.path || "/";
+
+  const query = {};
+  if (event.rawQueryString !== undefined) {
+    new URLSearchParams(event.rawQueryString).forEach((value, key) => {
+      query[key] = value;
+    });
+  } else {
+    Object.assign(query, event.queryStringParameters || {});
+  }
+
+  let rawBody = event.body;
+  if (rawBody && event.isBase64Encoded) {
+    rawBody = Buffer.from(rawBody, "base64").toString("utf-8");
+  }
+
+  return {
+    method,
+    path,
+    query,
+    headers: lowercaseHeaders(event.headers),
+    body: BODY_METHODS.includes(method) ? parseBody(rawBody) : null,
+  };
+}
+
+export async function handler(event) {
+  let response;
+  try {
+    response = (await dispatch(routes, parseEvent(event))) || notFound();
+  } catch (error) {
+    response = serverError(error);
+  }
+  const isBinary = typeof response.body !== "string";
+
+  return {
+    statusCode: response.status,
+    headers: response.headers,
+    body: isBinary ? Buffer.from(response.body).toString("base64") : response.body,
+    isBase64Encoded: isBinary,
+  };
+}
+`,
+    };
+  },
+};
+
+/**
+ * Express/Connect adapter
+ *
+ * express.mjs exports `apiMiddleware(req, res, next)` (also the default
+ * export). Bodies already parsed by express.json() are reused; unmatched
+ * requests fall through to `next()`, errors go to `next(error)`.
+ */
+export const expressAdapter: ApiServerAdapter = {
+  name: "express",
+  generate() {
+    return {
+      "express.mjs": `${HEADER}
+import { BODY_METHODS, dispatch, findRoute, parseUrl, readNodeBody } from "./runtime.mjs";
+import { routes } from "./routes.mjs";
+
+export async function apiMiddleware(req, res, next) {
+  try {
+    const { path: pathname, query } = parseUrl(req.url || "/");
+    const method = (req.method || "GET").toUpperCase();
+
+    if (!findRoute(routes, method, pathname)) {
+      next();
+      return;
+    }
+
+    let body = null;
+    if (BODY_METHODS.includes(method)) {
+      body = req.body !== undefined ? req.body : await readNodeBody(req);
+    }
+
+    const response = await dispatch(routes, { method, path: pathname, query, headers: req.headers, body });
+    res.statusCode = response.status;
+    for (const [key, value] of Object.entries(response.headers)) res.setHeader(key, value);
+    res.end(response.body);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export default apiMiddleware;
+`,
+    };
+  },
+};
+
+/**
+ * Built-in adapters by name
+ */
+export const BUILTIN_API_ADAPTERS: Record<BuiltinApiAdapterName, ApiServerAdapter> = {
+  node: nodeAdapter,
+  fetch: fetchAdapter,
+  lambda: lambdaAdapter,
+  express: expressAdapter,
+};
+
+/**
+ * Resolve configured adapters
+ *
+ * @param adapters - Adapter names or custom adapters (default: all built-ins)
+ * @returns Adapter objects
+ * @throws If an adapter name is unknown
+ */
+export function resolveApiAdapters(
+  adapters?: Array<BuiltinApiAdapterName | ApiServerAdapter>
+): ApiServerAdapter[] {
+  if (!adapters) {
+    return Object.values(BUILTIN_API_ADAPTERS);
+  }
+
+  return adapters.map((adapter) => {
+    if (typeof adapter !== "string") {
+      return adapter;
+    }
+
+    const builtin = BUILTIN_API_ADAPTERS[adapter];
+    if (!builtin) {
+      throw new Error(
+        `[api] Unknown adapter "${adapter}". Available: ${Object.keys(BUILTIN_API_ADAPTERS).join(", ")}`
+      );
+    }
+    return builtin;
+  });
+}
@@ -25,6 +25,13 @@ export type {
   ApiHandler,
   ApiRouteDefinition,
   ApiBlockParams,
+  ApiServerAdapter,
+  ApiAdapterContext,
+  ApiSchema,
+  ApiRequestSchema,
+  ApiValidationIssue,
+  JsonSchema,
+  ZodLikeSchema,
 } from "./types.ts";
 
 // Registry functions (for advanced use cases)
@@ -39,6 +46,35 @@ export {
 // Middleware (for Vite plugin integration)
 export { createApiMiddleware } from "./middleware.ts";
 
+// Production server output (for orgp build)
+export {
+  buildApiServer,
+  writeApiServer,
+  registerApiRoutesFromOrg,
+  getApiServerDir,
+  getHandlerModuleName,
+  getHandlerModuleNames,
+  API_SERVER_MARKER,
+} from "./server-build.ts";
+export type { ApiServerBuildResult, ApiRouteManifestEntry } from "./server-build.ts";
+
+// Server output adapters
+export {
+  nodeAdapter,
+  fetchAdapter,
+  lambdaAdapter,
+  expressAdapter,
+  BUILTIN_API_ADAPTERS,
+  resolveApiAdapters,
+} from "./adapters.ts";
+export type { BuiltinApiAdapterName } from "./adapters.ts";
+
+// Request validation and OpenAPI
+export { validateApiRequest, validateJsonSchema } from "./validation.ts";
+export type { ApiValidationInput, ApiValidationResult } from "./validation.ts";
+export { generateOpenApiDocument, toOpenApiPath, OPENAPI_PATH } from "./openapi.ts";
+export type { OpenApiDocument, OpenApiOptions } from "./openapi.ts";
+
 // Utilities (for testing/debugging)
 export {
   matchRoute,
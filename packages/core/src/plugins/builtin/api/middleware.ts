@@ -10,6 +10,8 @@ import type { ServerResponse } from "node:http";
 import type { ApiRequest, ApiResponse, ApiRouteDefinition } from "./types.ts";
 import { getApiRoutes } from "./registry.ts";
 import { matchRoute, parseQueryString, getPathname } from "./utils.ts";
+import { validateApiRequest } from "./validation.ts";
+import { generateOpenApiDocument, OPENAPI_PATH } from "./openapi.ts";
 
 /**
  * Read request body as JSON or raw string
@@ -140,8 +142,10 @@ function findMatchingRoute(
  * This middleware:
  * 1. Gets all registered API routes
  * 2. For each incoming request, checks if it matches a route
- * 3. If matched, executes the handler
- * 4. If not matched, passes to next middleware
+ * 3. If matched, validates the request against the block's schema
+ *    (400 with the issues on failure) and executes the handler
+ * 4. Serves the OpenAPI document at /api/openapi.json
+ * 5. If not matched, passes to next middleware
  *
  * @returns Connect middleware function
  */
@@ -161,6 +165,14 @@ export function createApiMiddleware(): Connect.NextHandleFunction {
     const match = findMatchingRoute(pathname, method, routes);
 
     if (!match) {
+      if (pathname === OPENAPI_PATH && method === "GET" && routes.length > 0) {
+        const document = await generateOpenApiDocument(routes);
+        res.statusCode = 200;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(document, null, 2));
+        return;
+      }
+
       return next();
     }
 
@@ -181,8 +193,23 @@ export function createApiMiddleware(): Connect.NextHandleFunction {
       }
     }
 
+    // Validate against the block's schema
+    const validation = validateApiRequest(route.schema, { params, query, body });
+    if (!validation.valid) {
+      res.statusCode = 400;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ error: "Invalid request", issues: validation.issues }));
+      return;
+    }
+
     // Build request/response objects
-    const apiReq = buildApiRequest(req, pathname, params, query, body);
+    const apiReq = buildApiRequest(
+      req,
+      pathname,
+      validation.params,
+      validation.query,
+      validation.body
+    );
     const apiRes = buildApiResponse(res);
 
     // Execute handler
@@ -0,0 +1,111 @@
+/**
+ * Tests for OpenAPI generation
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateOpenApiDocument, toOpenApiPath, toJsonSchema } from "./openapi.ts";
+import type { ApiRouteDefinition } from "./types.ts";
+
+const route = (overrides: Partial<ApiRouteDefinition>): ApiRouteDefinition => ({
+  endpoint: "/api/hello",
+  method: "GET",
+  handler: () => {},
+  previewOnly: false,
+  sourcePath: "content/api.org",
+  ...overrides,
+});
+
+describe("OpenAPI", () => {
+  it("should convert endpoint params to OpenAPI path templates", () => {
+    expect(toOpenApiPath("/api/users/:userId/posts/:id")).toBe(
+      "/api/users/{userId}/posts/{id}"
+    );
+  });
+
+  it("should document routes without schemas", async () => {
+    const document = await generateOpenApiDocument([route({ blockName: "hello" })], {
+      title: "Docs API",
+    });
+
+    expect(document).toEqual({
+      openapi: "3.1.0",
+      info: { title: "Docs API", version: "1.0.0" },
+      paths: {
+        "/api/hello": {
+          get: {
+            responses: { "200": { description: "Successful response" } },
+            "x-org-press-source": "content/api.org#hello",
+          },
+        },
+      },
+    });
+  });
+
+  it("should derive parameters, request body and responses from the schema", async () => {
+    const document = await generateOpenApiDocument([
+      route({
+        endpoint: "/api/users/:id",
+        method: "POST",
+        schema: {
+          summary: "Update a user",
+          tags: ["users"],
+          params: { type: "object", properties: { id: { type: "integer" } } },
+          query: {
+            type: "object",
+            required: ["dryRun"],
+            properties: { dryRun: { type: "boolean" } },
+          },
+          body: { type: "object", properties: { name: { type: "string" } } },
+          responses: { "201": { type: "object" } },
+        },
+      }),
+    ]);
+
+    expect(document.paths["/api/users/{id}"].post).toEqual({
+      summary: "Update a user",
+      tags: ["users"],
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "integer" } },
+        { name: "dryRun", in: "query", required: true, schema: { type: "boolean" } },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: { type: "object", properties: { name: { type: "string" } } },
+          },
+        },
+      },
+      responses: {
+        "201": {
+          description: "Status 201",
+          content: { "application/json": { schema: { type: "object" } } },
+        },
+        "400": { description: "Invalid request" },
+      },
+      "x-org-press-source": "content/api.org",
+    });
+  });
+
+  it("should document wildcard routes under every common method", async () => {
+    const document = await generateOpenApiDocument([route({ method: "*" })]);
+
+    expect(Object.keys(document.paths["/api/hello"])).toEqual([
+      "get",
+      "post",
+      "put",
+      "patch",
+      "delete",
+    ]);
+  });
+
+  it("should convert Zod-compatible schemas with toJSONSchema", async () => {
+    const zodLike = {
+      safeParse: () => ({ success: true }),
+      toJSONSchema: () => ({ type: "string" }),
+    };
+
+    expect(await toJsonSchema(zodLike)).toEqual({ type: "string" });
+    expect(await toJsonSchema({ safeParse: () => ({ success: true }) })).toEqual({});
+  });
+});
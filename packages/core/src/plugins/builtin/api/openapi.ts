@@ -0,0 +1,183 @@
+/**
+ * OpenAPI Generation
+ *
+ * Builds an OpenAPI 3.1 document from registered API routes and the
+ * schemas their blocks export. Served at OPENAPI_PATH by the dev
+ * middleware and the production server.
+ */
+
+import type {
+  ApiRequestSchema,
+  ApiRouteDefinition,
+  JsonSchema,
+} from "./types.ts";
+
+/**
+ * Well-known path of the generated document
+ */
+export const OPENAPI_PATH = "/api/openapi.json";
+
+/**
+ * Methods a wildcard (*) route is documented under
+ */
+const WILDCARD_METHODS = ["get", "post", "put", "patch", "delete"];
+
+/**
+ * Document options
+ */
+export interface OpenApiOptions {
+  /** API title (default: "API") */
+  title?: string;
+
+  /** API version (default: "1.0.0") */
+  version?: string;
+
+  /** API description */
+  description?: string;
+}
+
+/**
+ * OpenAPI 3.1 document (the parts org-press generates)
+ */
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+}
+
+/**
+ * Convert an endpoint pattern to an OpenAPI path
+ *
+ * @example
+ * toOpenApiPath("/api/users/:id") // "/api/users/{id}"
+ */
+export function toOpenApiPath(endpoint: string): string {
+  return endpoint.replace(/:(\w+)/g, "{$1}");
+}
+
+/**
+ * Convert a request schema to JSON Schema
+ *
+ * JSON Schemas are returned as-is. Zod schemas are converted with their
+ * `toJSONSchema()` method or zod's `toJSONSchema` when zod is installed;
+ * otherwise they are documented as an unconstrained schema.
+ */
+export async function toJsonSchema(schema: ApiRequestSchema): Promise<JsonSchema> {
+  const candidate = schema as any;
+
+  if (typeof candidate.safeParse !== "function") {
+    return schema as JsonSchema;
+  }
+
+  if (typeof candidate.toJSONSchema === "function") {
+    return candidate.toJSONSchema();
+  }
+
+  try {
+    // Variable specifier: zod is an optional peer, never a dependency
+    const zodModule = "zod";
+    const zod = await import(/* @vite-ignore */ zodModule);
+    if (typeof zod.toJSONSchema === "function") {
+      return zod.toJSONSchema(schema);
+    }
+  } catch {
+    // zod not installed
+  }
+
+  return {};
+}
+
+/**
+ * Build the OpenAPI operation for a route
+ */
+async function buildOperation(route: ApiRouteDefinition): Promise<Record<string, unknown>> {
+  const schema = route.schema || {};
+  const parameters: Array<Record<string, unknown>> = [];
+
+  const paramsSchema = schema.params ? await toJsonSchema(schema.params) : undefined;
+  for (const [, name] of route.endpoint.matchAll(/:(\w+)/g)) {
+    parameters.push({
+      name,
+      in: "path",
+      required: true,
+      schema: paramsSchema?.properties?.[name] || { type: "string" },
+    });
+  }
+
+  const querySchema = schema.query ? await toJsonSchema(schema.query) : undefined;
+  for (const [name, propertySchema] of Object.entries(querySchema?.properties || {})) {
+    parameters.push({
+      name,
+      in: "query",
+      required: querySchema?.required?.includes(name) ?? false,
+      schema: propertySchema,
+    });
+  }
+
+  const operation: Record<string, unknown> = {};
+  if (schema.summary) operation.summary = schema.summary;
+  if (schema.description) operation.description = schema.description;
+  if (schema.tags) operation.tags = schema.tags;
+  if (parameters.length > 0) operation.parameters = parameters;
+
+  if (schema.body) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: await toJsonSchema(schema.body) } },
+    };
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, responseSchema] of Object.entries(schema.responses || {})) {
+    responses[status] = {
+      description: `Status ${status}`,
+      content: { "application/json": { schema: await toJsonSchema(responseSchema) } },
+    };
+  }
+  if (Object.keys(responses).length === 0) {
+    responses["200"] = { description: "Successful response" };
+  }
+  if (schema.params || schema.query || schema.body) {
+    responses["400"] = { description: "Invalid request" };
+  }
+  operation.responses = responses;
+
+  operation["x-org-press-source"] = `${route.sourcePath}${route.blockName ? `#${route.blockName}` : ""}`;
+
+  return operation;
+}
+
+/**
+ * Generate an OpenAPI document for a set of routes
+ *
+ * @param routes - Routes to document
+ * @param options - Document info
+ * @returns OpenAPI 3.1 document
+ */
+export async function generateOpenApiDocument(
+  routes: ApiRouteDefinition[],
+  options: OpenApiOptions = {}
+): Promise<OpenApiDocument> {
+  const paths: OpenApiDocument["paths"] = {};
+
+  for (const route of routes) {
+    const openApiPath = toOpenApiPath(route.endpoint);
+    const methods = route.method === "*" ? WILDCARD_METHODS : [route.method.toLowerCase()];
+    const operation = await buildOperation(route);
+
+    paths[openApiPath] = paths[openApiPath] || {};
+    for (const method of methods) {
+      paths[openApiPath][method] = operation;
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title || "API",
+      version: options.version || "1.0.0",
+      ...(options.description ? { description: options.description } : {}),
+    },
+    paths,
+  };
+}
@@ -3,6 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as os from "node:os";
+import * as path from "node:path";
 import { apiPlugin } from "./plugin.ts";
 import { clearRoutes, getApiRoutes, setMode } from "./registry.ts";
 import type { CodeBlock, TransformContext } from "../../types.ts";
@@ -26,7 +28,7 @@ describe("API Plugin", () => {
     orgFilePath: "/content/test.org",
     plugins: [],
     config: {} as any,
-    cacheDir: "/cache",
+    cacheDir: path.join(os.tmpdir(), "org-press-api-plugin-test"),
     base: "/",
     contentDir: "/content",
     outDir: "/out",
@@ -169,6 +171,47 @@ describe("API Plugin", () => {
       expect(typeof routes[0].handler).toBe("function");
     });
 
+    it("should compile handlers as ES modules and keep the schema export", async () => {
+      const block = createBlock(
+        `export const schema = { query: { type: "object", required: ["name"] } };
+        export default async (req, res) => {
+          res.json({ message: "Hello " + req.query.name })
+        }`,
+        ':use api :endpoint "/api/greet"'
+      );
+
+      await apiPlugin.transform?.(block, createContext());
+
+      const [route] = getApiRoutes(true);
+      expect(route.schema).toEqual({ query: { type: "object", required: ["name"] } });
+
+      let captured: any;
+      await route.handler(
+        { query: { name: "Org" } } as any,
+        { json: (data: unknown) => (captured = data) } as any
+      );
+      expect(captured).toEqual({ message: "Hello Org" });
+    });
+
+    it("should transpile TypeScript handlers", async () => {
+      const block: CodeBlock = {
+        language: "typescript",
+        value: `export default async (req: any, res: any): Promise<void> => {
+          res.json({ ok: true as boolean })
+        }`,
+        meta: ':use api :endpoint "/api/ts"',
+      };
+
+      await apiPlugin.transform?.(block, createContext());
+
+      let captured: any;
+      await getApiRoutes(true)[0].handler(
+        {} as any,
+        { json: (data: unknown) => (captured = data) } as any
+      );
+      expect(captured).toEqual({ ok: true });
+    });
+
     it("should return error handler when compilation fails", async () => {
       const block = createBlock(
         `this is not valid javascript!!!`,
@@ -13,79 +13,88 @@
  * ```
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
+import crypto from "node:crypto";
+import { pathToFileURL } from "node:url";
 import type { BlockPlugin, CodeBlock, TransformContext, TransformResult } from "../../types.ts";
-import type { ApiHandler } from "./types.ts";
+import type { ApiHandler, ApiSchema } from "./types.ts";
 import { usesPlugin } from "../../utils.ts";
 import { registerRouteFromBlock, setMode, isEndpointRegistered } from "./registry.ts";
-import { parseApiBlockParams, validateEndpoint, normalizeMethod } from "./utils.ts";
+import {
+  parseApiBlockParams,
+  validateEndpoint,
+  normalizeMethod,
+  transpileHandlerSource,
+} from "./utils.ts";
+
+/**
+ * Compiled handler module
+ */
+interface CompiledHandler {
+  /** Default export */
+  handler: ApiHandler;
+
+  /** Optional `schema` export */
+  schema?: ApiSchema;
+}
 
 /**
  * Compile handler code into an executable function
  *
- * The code should export a default async function:
+ * The code is loaded as a real ES module from the cache directory, so
+ * imports resolve from the project and named exports (`schema`) are kept:
  * ```javascript
+ * export const schema = { body: { type: "object" } };
  * export default async (req, res) => { ... }
  * ```
  *
  * @param code - Handler source code
  * @param language - Source language (javascript, typescript, etc.)
  * @param sourcePath - Source file for error messages
- * @returns Compiled handler function
+ * @param cacheDir - Cache directory for the compiled module
+ * @returns Compiled handler function and schema
  */
 async function compileHandler(
   code: string,
   language: string,
-  sourcePath: string
-): Promise<ApiHandler> {
+  sourcePath: string,
+  cacheDir: string
+): Promise<CompiledHandler> {
   try {
-    // For now, we use dynamic function creation
-    // In the future, this could use esbuild for TypeScript
-    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
-
-    // Wrap the code to extract the default export
-    // The code is expected to have: export default async (req, res) => { ... }
-    const wrappedCode = `
-      const exports = {};
-      const module = { exports };
-
-      // Define export helper
-      const __export = (name, value) => {
-        if (name === 'default') {
-          module.exports.default = value;
-        } else {
-          exports[name] = value;
-        }
-      };
+    const source = await transpileHandlerSource(code, language);
 
-      // Transform export statements
-      ${code
-        .replace(/export\s+default\s+/g, "__export('default', ")
-        .replace(/export\s+const\s+(\w+)/g, "const $1 = __export('$1',")
-        .replace(/export\s+function\s+(\w+)/g, "function $1() { } __export('$1', $1); function $1")}
+    // Content-addressed file name: edits produce a fresh module URL
+    const moduleDir = path.resolve(process.cwd(), cacheDir, "api");
+    const hash = crypto.createHash("sha256").update(source).digest("hex").slice(0, 16);
+    const modulePath = path.join(moduleDir, `${hash}.mjs`);
 
-      return module.exports.default || module.exports;
-    `;
+    if (!fs.existsSync(modulePath)) {
+      fs.mkdirSync(moduleDir, { recursive: true });
+      fs.writeFileSync(modulePath, source, "utf-8");
+    }
 
-    const factory = new AsyncFunction(wrappedCode);
-    const handler = await factory();
+    const module = await import(pathToFileURL(modulePath).href);
 
-    if (typeof handler !== "function") {
+    if (typeof module.default !== "function") {
       throw new Error(
-        `Handler must export a default function. Got: ${typeof handler}`
+        `Handler must export a default function. Got: ${typeof module.default}`
       );
     }
 
-    return handler as ApiHandler;
+    return { handler: module.default as ApiHandler, schema: module.schema };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`[api] Failed to compile handler from ${sourcePath}:`, errorMessage);
 
     // Return error handler
-    return async (_req, res) => {
-      res.status(500).json({
-        error: `Handler compilation failed: ${errorMessage}`,
-        source: sourcePath,
-      });
+    return {
+      handler: async (_req, res) => {
+        res.status(500).json({
+          error: `Handler compilation failed: ${errorMessage}`,
+          source: sourcePath,
+        });
+      },
     };
   }
 }
@@ -152,10 +161,11 @@ export const apiPlugin: BlockPlugin = {
     const previewOnly = params.previewOnly === "true";
 
     // Compile the handler
-    const handler = await compileHandler(
+    const { handler, schema } = await compileHandler(
       block.value,
       block.language,
-      ctx.orgFilePath
+      ctx.orgFilePath,
+      ctx.cacheDir
     );
 
     // Register the route
@@ -163,6 +173,9 @@ export const apiPlugin: BlockPlugin = {
       endpoint: params.endpoint,
       method,
       handler,
+      schema,
+      source: block.value,
+      language: block.language,
       previewOnly,
       sourcePath: ctx.orgFilePath,
       blockName: ctx.blockName,
@@ -179,7 +192,8 @@ export const apiPlugin: BlockPlugin = {
    * onGenerate: Handle build mode
    *
    * In build mode, previewOnly endpoints are excluded.
-   * Non-previewOnly endpoints could be output for serverless deployment.
+   * Handlers never ship to the client - the server bundle is emitted
+   * separately by `buildApiServer` (see server-build.ts).
    */
   async onGenerate(block: CodeBlock, ctx: TransformContext): Promise<TransformResult> {
     const params = parseApiBlockParams(block.meta || "");
@@ -191,8 +205,6 @@ export const apiPlugin: BlockPlugin = {
       };
     }
 
-    // For now, just return no-op
-    // Future: Generate serverless function output
     return {
       code: `export default null; // API endpoint: ${params.method || "GET"} ${params.endpoint}`,
     };
@@ -6,7 +6,7 @@
  * consumed by the middleware to handle requests.
  */
 
-import type { ApiRouteDefinition, ApiHandler } from "./types.ts";
+import type { ApiRouteDefinition, ApiHandler, ApiSchema } from "./types.ts";
 
 /**
  * Registry of all API routes
@@ -146,6 +146,9 @@ export function registerRouteFromBlock(options: {
   endpoint: string;
   method: string;
   handler: ApiHandler;
+  schema?: ApiSchema;
+  source?: string;
+  language?: string;
   previewOnly: boolean;
   sourcePath: string;
   blockName?: string;
@@ -154,6 +157,9 @@ export function registerRouteFromBlock(options: {
     endpoint: options.endpoint,
     method: options.method,
     handler: options.handler,
+    schema: options.schema,
+    source: options.source,
+    language: options.language,
     previewOnly: options.previewOnly,
     sourcePath: options.sourcePath,
     blockName: options.blockName,
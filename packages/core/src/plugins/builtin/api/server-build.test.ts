@@ -0,0 +1,310 @@
+/**
+ * Tests for API server build output
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import * as http from "node:http";
+import { pathToFileURL } from "node:url";
+import type { AddressInfo } from "node:net";
+import {
+  API_SERVER_MARKER,
+  buildApiServer,
+  generateRoutesModule,
+  getApiServerDir,
+  getHandlerModuleName,
+  getHandlerModuleNames,
+  registerApiRoutesFromOrg,
+} from "./server-build.ts";
+import { clearRoutes, getApiRoutes, setMode } from "./registry.ts";
+
+const ORG_SOURCE = `#+TITLE: API
+
+#+NAME: hello
+#+begin_src javascript :use api :endpoint "/api/hello" :method GET
+export default async (req, res) => {
+  res.json({ message: "Hello " + (req.query.name || "World") });
+};
+#+end_src
+
+#+begin_src typescript :use api :endpoint "/api/users/:id" :method POST
+export const schema = {
+  params: { type: "object", properties: { id: { type: "integer" } } },
+  body: {
+    type: "object",
+    required: ["name"],
+    properties: { name: { type: "string", minLength: 1 } },
+  },
+};
+
+export default async (req: any, res: any) => {
+  const body = req.body as { name: string };
+  res.status(201).json({ id: req.params.id, name: body.name });
+};
+#+end_src
+
+#+begin_src javascript :use api :endpoint "/api/debug" :previewOnly true
+export default async (req, res) => res.json({ debug: true });
+#+end_src
+
+#+begin_src javascript
+console.log("not an endpoint");
+#+end_src
+`;
+
+describe("API server build", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "api-server-test-"));
+    clearRoutes();
+    setMode("dev");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    clearRoutes();
+    vi.restoreAllMocks();
+  });
+
+  describe("getHandlerModuleName", () => {
+    it("should derive module names from method and endpoint", () => {
+      expect(getHandlerModuleName({ method: "GET", endpoint: "/api/users/:id" })).toBe(
+        "get-api-users-id.mjs"
+      );
+      expect(getHandlerModuleName({ method: "*", endpoint: "/" })).toBe("all-index.mjs");
+    });
+  });
+
+  describe("getHandlerModuleNames", () => {
+    it("should suffix endpoints that collapse to the same name", () => {
+      expect(
+        getHandlerModuleNames([
+          { method: "GET", endpoint: "/api/users-list" },
+          { method: "GET", endpoint: "/api/users/list" },
+          { method: "GET", endpoint: "/api/users/:id" },
+          { method: "GET", endpoint: "/api/users/id" },
+          { method: "GET", endpoint: "/api/users-list-2" },
+        ])
+      ).toEqual([
+        "get-api-users-list.mjs",
+        "get-api-users-list-2.mjs",
+        "get-api-users-id.mjs",
+        "get-api-users-id-2.mjs",
+        "get-api-users-list-2-2.mjs",
+      ]);
+    });
+  });
+
+  describe("getApiServerDir", () => {
+    it("should place the server next to the static output", () => {
+      expect(getApiServerDir("/project/dist/static")).toBe("/project/dist/server");
+    });
+
+    it("should not take over a project's server directory", () => {
+      expect(getApiServerDir("/project/dist")).toBe("/project/dist-server");
+    });
+
+    it("should honour api.outDir", () => {
+      expect(getApiServerDir("/project/dist/static", "/project/build/api")).toBe(
+        "/project/build/api"
+      );
+    });
+  });
+
+  describe("registerApiRoutesFromOrg", () => {
+    it("should register api blocks with their source", async () => {
+      setMode("build");
+      await registerApiRoutesFromOrg(ORG_SOURCE, "content/api.org", {});
+
+      const routes = getApiRoutes();
+      expect(routes).toHaveLength(3);
+      expect(routes[0]).toMatchObject({
+        endpoint: "/api/hello",
+        method: "GET",
+        language: "javascript",
+        sourcePath: "content/api.org",
+        blockName: "hello",
+      });
+      expect(routes[0].source).toContain("Hello ");
+    });
+
+    it("should reject duplicate endpoints", async () => {
+      setMode("build");
+      await registerApiRoutesFromOrg(ORG_SOURCE, "content/a.org", {});
+
+      await expect(
+        registerApiRoutesFromOrg(ORG_SOURCE, "content/b.org", {})
+      ).rejects.toThrow("Duplicate endpoint: GET /api/hello");
+    });
+  });
+
+  describe("generateRoutesModule", () => {
+    it("should import one handler module per route", () => {
+      const code = generateRoutesModule([
+        {
+          endpoint: "/api/hello",
+          method: "GET",
+          handler: () => {},
+          previewOnly: false,
+          sourcePath: "content/api.org",
+        },
+      ]);
+
+      expect(code).toContain('import * as route0 from "./handlers/get-api-hello.mjs";');
+      expect(code).toContain(
+        '{ method: "GET", endpoint: "/api/hello", handler: route0.default, schema: route0.schema },'
+      );
+      expect(code).not.toContain("/api/openapi.json");
+    });
+
+    it("should serve the OpenAPI document when given one", () => {
+      const code = generateRoutesModule([], {
+        openapi: "3.1.0",
+        info: { title: "API", version: "1.0.0" },
+        paths: {},
+      });
+
+      expect(code).toContain('const openapi = {"openapi":"3.1.0"');
+      expect(code).toContain(
+        '{ method: "GET", endpoint: "/api/openapi.json", handler: (req, res) => res.json(openapi) },'
+      );
+    });
+  });
+
+  describe("buildApiServer", () => {
+    it("should skip output when there are no endpoints", async () => {
+      const orgPath = path.join(tempDir, "page.org");
+      fs.writeFileSync(orgPath, "* Just a page\n");
+
+      const result = await buildApiServer({}, [orgPath], path.join(tempDir, "dist/static"));
+
+      expect(result).toEqual({ routeCount: 0, serverDir: null });
+      expect(fs.existsSync(path.join(tempDir, "dist/server"))).toBe(false);
+    });
+
+    it("should emit a server that serves handlers and static files", async () => {
+      const orgPath = path.join(tempDir, "api.org");
+      const staticDir = path.join(tempDir, "dist/static");
+      fs.writeFileSync(orgPath, ORG_SOURCE);
+      fs.mkdirSync(path.join(staticDir, "guide"), { recursive: true });
+      fs.writeFileSync(path.join(staticDir, "index.html"), "<h1>Home</h1>");
+      fs.writeFileSync(path.join(staticDir, "guide/intro.html"), "<h1>Intro</h1>");
+
+      const result = await buildApiServer({}, [orgPath], staticDir);
+
+      expect(result.routeCount).toBe(2);
+      const serverDir = result.serverDir!;
+      expect(serverDir).toBe(path.join(tempDir, "dist/server"));
+      expect(fs.readdirSync(path.join(serverDir, "handlers")).sort()).toEqual([
+        "get-api-hello.mjs",
+        "post-api-users-id.mjs",
+      ]);
+      expect(fs.existsSync(path.join(serverDir, "openapi.json"))).toBe(true);
+      expect(fs.existsSync(path.join(serverDir, API_SERVER_MARKER))).toBe(true);
+      expect(fs.existsSync(path.join(serverDir, "validation.mjs"))).toBe(true);
+      expect(
+        JSON.parse(fs.readFileSync(path.join(serverDir, "routes.json"), "utf-8"))
+      ).toEqual([
+        {
+          method: "GET",
+          endpoint: "/api/hello",
+          module: "handlers/get-api-hello.mjs",
+          sourcePath: orgPath,
+          blockName: "hello",
+        },
+        {
+          method: "POST",
+          endpoint: "/api/users/:id",
+          module: "handlers/post-api-users-id.mjs",
+          sourcePath: orgPath,
+        },
+      ]);
+      expect(fs.readFileSync(path.join(serverDir, "server.mjs"), "utf-8")).toContain(
+        'new URL("../static/", import.meta.url)'
+      );
+
+      // Run the emitted node entry against a real HTTP server
+      const { routes } = await import(pathToFileURL(path.join(serverDir, "routes.mjs")).href);
+      const { createRequestListener } = await import(
+        pathToFileURL(path.join(serverDir, "node.mjs")).href
+      );
+      const server = http.createServer(createRequestListener(routes, { staticDir }));
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      try {
+        const hello = await fetch(`${base}/api/hello?name=Org`);
+        expect(hello.status).toBe(200);
+        expect(await hello.json()).toEqual({ message: "Hello Org" });
+
+        const created = await fetch(`${base}/api/users/42`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "Ada" }),
+        });
+        expect(created.status).toBe(201);
+        expect(await created.json()).toEqual({ id: 42, name: "Ada" });
+
+        const invalid = await fetch(`${base}/api/users/x`, {
+          method: "POST",
+          body: JSON.stringify({ name: "" }),
+        });
+        expect(invalid.status).toBe(400);
+        expect(await invalid.json()).toEqual({
+          error: "Invalid request",
+          issues: [
+            { location: "params", path: "/id", message: "must be integer" },
+            { location: "body", path: "/name", message: "must have at least 1 characters" },
+          ],
+        });
+
+        const openapi = await fetch(`${base}/api/openapi.json`);
+        expect(Object.keys((await openapi.json()).paths)).toEqual([
+          "/api/hello",
+          "/api/users/{id}",
+        ]);
+
+        const debug = await fetch(`${base}/api/debug`);
+        expect(debug.status).toBe(404);
+
+        const page = await fetch(`${base}/guide/intro`);
+        expect(page.headers.get("content-type")).toContain("text/html");
+        expect(await page.text()).toBe("<h1>Intro</h1>");
+
+        const home = await fetch(`${base}/`);
+        expect(await home.text()).toBe("<h1>Home</h1>");
+
+        const traversal = await fetch(`${base}/..%2F..%2Fapi.org`);
+        expect(traversal.status).toBe(404);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it("should rebuild its own output but refuse foreign directories", async () => {
+      const orgPath = path.join(tempDir, "api.org");
+      const staticDir = path.join(tempDir, "dist/static");
+      fs.writeFileSync(orgPath, ORG_SOURCE);
+
+      const { serverDir } = await buildApiServer({}, [orgPath], staticDir);
+      fs.writeFileSync(path.join(serverDir!, "stale.mjs"), "");
+      clearRoutes();
+      await buildApiServer({}, [orgPath], staticDir);
+      expect(fs.existsSync(path.join(serverDir!, "stale.mjs"))).toBe(false);
+
+      const userDir = path.join(tempDir, "server");
+      fs.mkdirSync(userDir);
+      fs.writeFileSync(path.join(userDir, "app.js"), "// user code");
+      clearRoutes();
+      await expect(
+        buildApiServer({ api: { outDir: userDir } }, [orgPath], staticDir)
+      ).rejects.toThrow("Refusing to overwrite");
+      expect(fs.readFileSync(path.join(userDir, "app.js"), "utf-8")).toBe("// user code");
+    });
+  });
+});
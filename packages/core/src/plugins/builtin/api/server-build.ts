@@ -0,0 +1,373 @@
+/**
+ * API Server Build
+ *
+ * Emits a deployable Node server for `:use api` endpoints during
+ * `orgp build`. Handlers never ship to the client, so the build collects
+ * every API block into the route registry and writes:
+ *
+ *   dist/server/
+ *   ├── runtime.mjs         # Platform-neutral request/response runtime
+ *   ├── validation.mjs      # Request validation (see validation-runtime.ts)
+ *   ├── routes.mjs          # Route table importing every handler module
+ *   ├── routes.json         # Route manifest (method, endpoint, module, source)
+ *   ├── openapi.json        # OpenAPI document (also served at /api/openapi.json)
+ *   ├── .org-press-server   # Marker: the directory is owned by org-press
+ *   ├── handlers/
+ *   │   └── get-api-hello.mjs
+ *   └── ...                 # Adapter entries (server.mjs, fetch.mjs, lambda.mjs, ...)
+ *
+ * Run with `node dist/server/server.mjs` (PORT and HOST env vars), or
+ * deploy another adapter entry (see adapters.ts). The directory is rebuilt
+ * from scratch each time, so the build refuses to write into an existing
+ * directory it did not create (see getApiServerDir and `api.outDir`).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { OrgPressConfig } from "../../../config/types.ts";
+import type { CodeBlock, TransformContext } from "../../types.ts";
+import type { ApiRouteDefinition, ApiServerAdapter } from "./types.ts";
+import { apiPlugin } from "./plugin.ts";
+import { resolveApiAdapters } from "./adapters.ts";
+import { API_RUNTIME_MODULE } from "./server-runtime.ts";
+import { API_VALIDATION_MODULE } from "./validation-runtime.ts";
+import { generateOpenApiDocument, OPENAPI_PATH, type OpenApiDocument } from "./openapi.ts";
+import { clearRoutes, getApiRoutes, setMode } from "./registry.ts";
+import { transpileHandlerSource } from "./utils.ts";
+import { usesPlugin } from "../../utils.ts";
+import { parseOrgFile } from "../../../parser/parse-content.ts";
+import { findCodeBlocks } from "../../../parser/exporter.ts";
+
+/**
+ * Result of building the API server
+ */
+export interface ApiServerBuildResult {
+  /** Number of routes in the server bundle */
+  routeCount: number;
+
+  /** Server output directory (absolute), null if no routes */
+  serverDir: string | null;
+}
+
+/**
+ * Entry in routes.json
+ */
+export interface ApiRouteManifestEntry {
+  method: string;
+  endpoint: string;
+  /** Handler module path relative to the server directory */
+  module: string;
+  sourcePath: string;
+  blockName?: string;
+}
+
+/**
+ * Marker file written into every server directory
+ *
+ * An existing directory is only wiped before a rebuild when it carries
+ * this marker, so user files are never deleted.
+ */
+export const API_SERVER_MARKER = ".org-press-server";
+
+/**
+ * Get the handler module file name for a route
+ *
+ * Not unique across routes; the build uses getHandlerModuleNames.
+ *
+ * @example
+ * getHandlerModuleName({ method: "GET", endpoint: "/api/users/:id" })
+ * // "get-api-users-id.mjs"
+ */
+export function getHandlerModuleName(
+  route: Pick<ApiRouteDefinition, "method" | "endpoint">
+): string {
+  const method = route.method === "*" ? "all" : route.method.toLowerCase();
+  const endpoint = route.endpoint
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return `${method}-${endpoint || "index"}.mjs`;
+}
+
+/**
+ * Get unique handler module file names for a set of routes
+ *
+ * Distinct endpoints can share a name ("/api/users-list" and
+ * "/api/users/list", ":id" and "id"), so later routes get a numeric
+ * suffix: get-api-users-list.mjs, get-api-users-list-2.mjs.
+ *
+ * @param routes - Routes in output order
+ * @returns Module file names, one per route
+ */
+export function getHandlerModuleNames(
+  routes: Array<Pick<ApiRouteDefinition, "method" | "endpoint">>
+): string[] {
+  const used = new Set<string>();
+
+  return routes.map((route) => {
+    const base = getHandlerModuleName(route).slice(0, -".mjs".length);
+    let name = `${base}.mjs`;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}-${suffix}.mjs`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Register all `:use api` blocks of an org file
+ *
+ * Runs the blocks through the API plugin, so endpoint validation and
+ * duplicate detection behave exactly as in dev (but throw in build mode).
+ *
+ * @param source - Org file content
+ * @param orgFilePath - Org file path (relative to project root)
+ * @param config - Org-press configuration
+ */
+export async function registerApiRoutesFromOrg(
+  source: string,
+  orgFilePath: string,
+  config: Partial<OrgPressConfig>
+): Promise<void> {
+  const { ast } = parseOrgFile(source);
+  const srcBlocks = findCodeBlocks(ast);
+
+  for (let index = 0; index < srcBlocks.length; index++) {
+    const srcBlock = srcBlocks[index] as any;
+    const block: CodeBlock = {
+      language: srcBlock.language || "",
+      value: srcBlock.value || "",
+      meta: srcBlock.parameters,
+    };
+
+    if (!usesPlugin(block.meta, "api")) {
+      continue;
+    }
+
+    const ctx: TransformContext = {
+      orgFilePath,
+      blockIndex: index,
+      blockName: srcBlock.affiliated?.NAME as string | undefined,
+      parameters: {},
+      plugins: [apiPlugin],
+      config: { ...config, command: "build" },
+      cacheDir: config.cacheDir || "node_modules/.org-press-cache",
+      base: config.base || "/",
+      contentDir: config.contentDir || "content",
+      outDir: config.outDir || "dist/static",
+    };
+
+    await apiPlugin.transform!(block, ctx);
+  }
+}
+
+/**
+ * Generate the route table module
+ *
+ * Each route carries its handler module's default export and optional
+ * `schema` export. With an OpenAPI document, a GET route serving it at
+ * OPENAPI_PATH is appended (unless a block already defines that endpoint).
+ *
+ * @param routes - Routes to include
+ * @param openapi - OpenAPI document to serve
+ * @returns JavaScript module source
+ */
+export function generateRoutesModule(
+  routes: ApiRouteDefinition[],
+  openapi?: OpenApiDocument
+): string {
+  const lines: string[] = [];
+
+  const moduleNames = getHandlerModuleNames(routes);
+
+  lines.push("// Auto-generated by org-press - do not edit");
+  lines.push("");
+
+  moduleNames.forEach((moduleName, index) => {
+    lines.push(`import * as route${index} from "./handlers/${moduleName}";`);
+  });
+
+  const servesOpenApi =
+    openapi !== undefined &&
+    !routes.some((route) => route.endpoint === OPENAPI_PATH && ["GET", "*"].includes(route.method));
+
+  if (servesOpenApi) {
+    lines.push("");
+    lines.push(`const openapi = ${JSON.stringify(openapi)};`);
+  }
+
+  lines.push("");
+  lines.push("export const routes = [");
+  routes.forEach((route, index) => {
+    lines.push(
+      `  { method: ${JSON.stringify(route.method)}, endpoint: ${JSON.stringify(route.endpoint)}, handler: route${index}.default, schema: route${index}.schema },`
+    );
+  });
+  if (servesOpenApi) {
+    lines.push(
+      `  { method: "GET", endpoint: ${JSON.stringify(OPENAPI_PATH)}, handler: (req, res) => res.json(openapi) },`
+    );
+  }
+  lines.push("];");
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+/**
+ * Compile a handler's source into an ES module
+ *
+ * JavaScript handlers are written as-is; TypeScript is transpiled.
+ */
+async function compileHandlerModule(route: ApiRouteDefinition): Promise<string> {
+  const source = route.source ?? "";
+  const header = `// Auto-generated by org-press from ${route.sourcePath}${route.blockName ? `#${route.blockName}` : ""}\n`;
+
+  return header + (await transpileHandlerSource(source, route.language || "")) + "\n";
+}
+
+/**
+ * Write the server bundle for a set of routes
+ *
+ * @param routes - Routes to include (previewOnly routes should already be excluded)
+ * @param serverDir - Output directory (absolute)
+ * @param staticDir - Static site directory (absolute), served for non-API requests
+ * @param adapters - Adapters writing the entry modules (default: all built-ins)
+ */
+export async function writeApiServer(
+  routes: ApiRouteDefinition[],
+  serverDir: string,
+  staticDir: string | null,
+  adapters: ApiServerAdapter[] = resolveApiAdapters()
+): Promise<void> {
+  const handlersDir = path.join(serverDir, "handlers");
+  clearApiServerDir(serverDir);
+  fs.mkdirSync(handlersDir, { recursive: true });
+  fs.writeFileSync(path.join(serverDir, API_SERVER_MARKER), "", "utf-8");
+
+  const manifest: ApiRouteManifestEntry[] = [];
+  const moduleNames = getHandlerModuleNames(routes);
+
+  for (const [index, route] of routes.entries()) {
+    const moduleName = moduleNames[index];
+    fs.writeFileSync(
+      path.join(handlersDir, moduleName),
+      await compileHandlerModule(route),
+      "utf-8"
+    );
+    manifest.push({
+      method: route.method,
+      endpoint: route.endpoint,
+      module: `handlers/${moduleName}`,
+      sourcePath: route.sourcePath,
+      blockName: route.blockName,
+    });
+  }
+
+  const openapi = await generateOpenApiDocument(routes);
+
+  fs.writeFileSync(path.join(serverDir, "routes.mjs"), generateRoutesModule(routes, openapi), "utf-8");
+  fs.writeFileSync(path.join(serverDir, "routes.json"), JSON.stringify(manifest, null, 2), "utf-8");
+  fs.writeFileSync(path.join(serverDir, "openapi.json"), JSON.stringify(openapi, null, 2), "utf-8");
+  fs.writeFileSync(path.join(serverDir, "runtime.mjs"), API_RUNTIME_MODULE, "utf-8");
+  fs.writeFileSync(path.join(serverDir, "validation.mjs"), API_VALIDATION_MODULE, "utf-8");
+
+  const context = {
+    routes,
+    staticDir: staticDir
+      ? path.relative(serverDir, staticDir).split(path.sep).join("/")
+      : null,
+  };
+
+  for (const adapter of adapters) {
+    for (const [fileName, source] of Object.entries(adapter.generate(context))) {
+      const filePath = path.join(serverDir, fileName);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, source, "utf-8");
+    }
+  }
+}
+
+/**
+ * Remove a previous server build
+ *
+ * Missing and empty directories are fine; anything else must carry the
+ * marker of an earlier build.
+ *
+ * @throws If the directory holds files org-press did not write
+ */
+function clearApiServerDir(serverDir: string): void {
+  if (!fs.existsSync(serverDir) || fs.readdirSync(serverDir).length === 0) {
+    return;
+  }
+
+  if (!fs.existsSync(path.join(serverDir, API_SERVER_MARKER))) {
+    throw new Error(
+      `Refusing to overwrite ${serverDir}: it was not created by org-press. ` +
+        `Remove it or set api.outDir to another directory.`
+    );
+  }
+
+  fs.rmSync(serverDir, { recursive: true, force: true });
+}
+
+/**
+ * Resolve the server output directory
+ *
+ * An explicit `api.outDir` wins. Otherwise the server sits next to the
+ * static output: the default dist/static becomes dist/server, any other
+ * output directory gets a "-server" sibling (dist -> dist-server), so the
+ * build never lands in a project's own server/ directory.
+ *
+ * @param outDir - Static output directory (absolute)
+ * @param apiOutDir - Configured `api.outDir` (relative to the project root)
+ */
+export function getApiServerDir(outDir: string, apiOutDir?: string): string {
+  if (apiOutDir) {
+    return path.resolve(process.cwd(), apiOutDir);
+  }
+
+  if (path.basename(outDir) === "static") {
+    return path.join(path.dirname(outDir), "server");
+  }
+
+  return `${outDir}-server`;
+}
+
+/**
+ * Build the API server for `orgp build`
+ *
+ * Collects every `:use api` block from the given org files into the route
+ * registry (build mode: invalid or duplicate endpoints throw), then writes
+ * the server bundle for all non-previewOnly routes with the adapters
+ * selected by `config.api.adapters`.
+ *
+ * @param config - Org-press configuration
+ * @param orgFiles - Org files to scan (relative to project root)
+ * @param outDir - Static output directory (absolute)
+ * @returns Build result (serverDir is null when there are no routes)
+ */
+export async function buildApiServer(
+  config: Partial<OrgPressConfig>,
+  orgFiles: string[],
+  outDir: string
+): Promise<ApiServerBuildResult> {
+  clearRoutes();
+  setMode("build");
+
+  for (const orgFilePath of orgFiles) {
+    const source = fs.readFileSync(path.resolve(process.cwd(), orgFilePath), "utf-8");
+    await registerApiRoutesFromOrg(source, orgFilePath, config);
+  }
+
+  const routes = getApiRoutes(false);
+  if (routes.length === 0) {
+    return { routeCount: 0, serverDir: null };
+  }
+
+  const serverDir = getApiServerDir(outDir, config.api?.outDir);
+  await writeApiServer(routes, serverDir, outDir, resolveApiAdapters(config.api?.adapters));
+
+  return { routeCount: routes.length, serverDir };
+}
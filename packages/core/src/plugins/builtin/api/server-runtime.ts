@@ -0,0 +1,195 @@
+/**
+ * API Server Runtime
+ *
+ * Source of `runtime.mjs`, the platform-neutral runtime shared by every
+ * adapter entry in the server bundle. It only imports `./validation.mjs`
+ * (see validation-runtime.ts), so it runs on Node, Lambda and Workers alike, and
+ * mirrors middleware.ts so handlers see the same ApiRequest/ApiResponse
+ * objects as under `orgp dev`.
+ *
+ * Exports of the emitted module:
+ * - dispatch(routes, request): validate and run the matching handler on a
+ *   platform-neutral request and return a buffered response (or null)
+ * - parseBody(raw): parse a raw body as JSON, falling back to the string
+ * - readNodeBody(req): read a node:http request body
+ * - parseUrl(url): split a request URL into path and query
+ * - notFound(): the JSON 404 response
+ * - serverError(error): log an unexpected error, return the JSON 500 response
+ *
+ * Paths with malformed percent-encoding (e.g. /api/users/%) match no
+ * route instead of throwing.
+ */
+
+export const API_RUNTIME_MODULE = `// Auto-generated by org-press - do not edit
+
+import { validateApiRequest } from "./validation.mjs";
+
+export const BODY_METHODS = ["POST", "PUT", "PATCH"];
+
+export function matchRoute(pattern, pathname) {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+export function findRoute(routes, method, pathname) {
+  for (const route of routes) {
+    if (route.method !== "*" && route.method !== method) continue;
+    const params = matchRoute(route.endpoint, pathname);
+    if (params) return { route, params };
+  }
+  return null;
+}
+
+export function parseBody(raw) {
+  if (raw === undefined || raw === null || raw === "") {
+    return null;
+  }
+  if (typeof raw !== "string") {
+    return raw;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export function readNodeBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk.toString();
+    });
+    req.on("end", () => resolve(parseBody(data)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Run the handler matching a request
+ *
+ * request: { method, path, query, headers, body }
+ * Returns { status, headers, body } or null when no route matches.
+ */
+export async function dispatch(routes, request) {
+  const method = (request.method || "GET").toUpperCase();
+  const match = findRoute(routes, method, request.path);
+
+  if (!match) {
+    return null;
+  }
+
+  const validation = validateApiRequest(match.route.schema, {
+    params: match.params,
+    query: request.query || {},
+    body: request.body === undefined ? null : request.body,
+  });
+
+  if (!validation.valid) {
+    return {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ error: "Invalid request", issues: validation.issues }),
+    };
+  }
+
+  const response = {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+    body: "",
+  };
+  let sent = false;
+
+  const apiReq = {
+    method,
+    path: request.path,
+    params: validation.params,
+    query: validation.query,
+    headers: request.headers || {},
+    body: validation.body,
+  };
+
+  const apiRes = {
+    status(code) {
+      response.status = code;
+      return apiRes;
+    },
+    setHeader(name, value) {
+      response.headers[name] = value;
+      return apiRes;
+    },
+    json(data) {
+      response.body = JSON.stringify(data);
+      sent = true;
+    },
+    send(data) {
+      response.body = data;
+      sent = true;
+    },
+    redirect(url, status = 302) {
+      response.status = status;
+      response.headers["Location"] = url;
+      response.body = "";
+      sent = true;
+    },
+  };
+
+  try {
+    await match.route.handler(apiReq, apiRes);
+  } catch (error) {
+    console.error("[api] Error in " + match.route.method + " " + match.route.endpoint + ":", error);
+    if (!sent) {
+      response.status = 500;
+      response.headers = { "Content-Type": "application/json" };
+      response.body = JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return response;
+}
+
+export function parseUrl(url) {
+  const queryIndex = url.indexOf("?");
+  const query = {};
+  new URLSearchParams(queryIndex === -1 ? "" : url.slice(queryIndex + 1)).forEach((value, key) => {
+    query[key] = value;
+  });
+  return { path: queryIndex === -1 ? url : url.slice(0, queryIndex), query };
+}
+
+export function notFound() {
+  return {
+    status: 404,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ error: "Not found" }),
+  };
+}
+
+export function serverError(error) {
+  console.error("[api] Request failed:", error);
+  return {
+    status: 500,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ error: "Internal server error" }),
+  };
+}
+`;
@@ -81,6 +81,15 @@ export interface ApiRouteDefinition {
   /** The compiled handler function */
   handler: ApiHandler;
 
+  /** Handler source code (used to emit production handler modules) */
+  source?: string;
+
+  /** Source language of the handler (e.g., "javascript", "typescript") */
+  language?: string;
+
+  /** Request schema exported by the handler module (`export const schema`) */
+  schema?: ApiSchema;
+
   /** If true, only available during dev (orgp dev) */
   previewOnly: boolean;
 
@@ -91,6 +100,101 @@ export interface ApiRouteDefinition {
   blockName?: string;
 }
 
+/**
+ * JSON Schema (the subset used for request validation)
+ *
+ * Supported keywords: type, enum, const, properties, required,
+ * additionalProperties, items, minLength, maxLength, pattern, format
+ * (email, uuid, date, date-time, uri), minimum, maximum,
+ * exclusiveMinimum, exclusiveMaximum, minItems, maxItems.
+ * Other keywords (description, examples, ...) are passed through to
+ * OpenAPI untouched.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Zod-compatible schema (anything with `safeParse`)
+ *
+ * Zod is optional - objects are duck-typed, never imported.
+ */
+export interface ZodLikeSchema {
+  safeParse(value: unknown): {
+    success: boolean;
+    data?: unknown;
+    error?: { issues: Array<{ path: Array<string | number>; message: string }> };
+  };
+}
+
+/**
+ * Schema for one part of a request
+ */
+export type ApiRequestSchema = JsonSchema | ZodLikeSchema;
+
+/**
+ * Request schema exported by an API block
+ *
+ * ```javascript
+ * export const schema = {
+ *   summary: "Create a user",
+ *   params: { type: "object", properties: { id: { type: "integer" } } },
+ *   body: {
+ *     type: "object",
+ *     required: ["name"],
+ *     properties: { name: { type: "string", minLength: 1 } },
+ *   },
+ * };
+ * ```
+ *
+ * Params and query values are strings on the wire; with JSON Schema they
+ * are coerced to the declared number/integer/boolean types before the
+ * handler runs.
+ */
+export interface ApiSchema {
+  /** URL parameters (e.g., /users/:id) */
+  params?: ApiRequestSchema;
+
+  /** Query string parameters */
+  query?: ApiRequestSchema;
+
+  /** Request body */
+  body?: ApiRequestSchema;
+
+  /** Response schemas by status code (OpenAPI only, not validated) */
+  responses?: Record<string, ApiRequestSchema>;
+
+  /** Short summary for OpenAPI */
+  summary?: string;
+
+  /** Longer description for OpenAPI */
+  description?: string;
+
+  /** OpenAPI tags */
+  tags?: string[];
+}
+
+/**
+ * A single validation failure
+ */
+export interface ApiValidationIssue {
+  /** Request part that failed */
+  location: "params" | "query" | "body";
+
+  /** JSON pointer to the failing value (e.g., "/user/name", "" for the root) */
+  path: string;
+
+  /** Human-readable message */
+  message: string;
+}
+
 /**
  * Parsed API block parameters
  */
@@ -120,3 +224,42 @@ export const SUPPORTED_METHODS = [
 ] as const;
 
 export type SupportedMethod = (typeof SUPPORTED_METHODS)[number];
+
+/**
+ * Context passed to server output adapters
+ */
+export interface ApiAdapterContext {
+  /** Routes in the server bundle (previewOnly routes excluded) */
+  routes: ApiRouteDefinition[];
+
+  /**
+   * Static site directory relative to the server directory
+   * (e.g., "../static"), null if there is no static output
+   */
+  staticDir: string | null;
+}
+
+/**
+ * Server output adapter
+ *
+ * Adapters write entry modules into the server bundle. Every entry can
+ * import the route table from `./routes.mjs` and the platform-neutral
+ * runtime from `./runtime.mjs` (see server-runtime.ts).
+ *
+ * @example
+ * ```typescript
+ * const denoAdapter: ApiServerAdapter = {
+ *   name: "deno",
+ *   generate: () => ({
+ *     "deno.mjs": `import { handleRequest } from "./fetch.mjs";\nDeno.serve(handleRequest);\n`,
+ *   }),
+ * };
+ * ```
+ */
+export interface ApiServerAdapter {
+  /** Adapter name (e.g., "lambda") */
+  name: string;
+
+  /** Generate entry modules: file name (relative to the server directory) -> source */
+  generate(context: ApiAdapterContext): Record<string, string>;
+}
@@ -25,6 +25,11 @@ describe("API Plugin Utils", () => {
       expect(result.matched).toBe(false);
     });
 
+    it("should not match malformed percent-encoding", () => {
+      const result = matchRoute("/api/users/:id", "/api/users/%");
+      expect(result).toEqual({ matched: false, params: {} });
+    });
+
     it("should extract single URL parameter", () => {
       const result = matchRoute("/api/users/:id", "/api/users/123");
       expect(result.matched).toBe(true);
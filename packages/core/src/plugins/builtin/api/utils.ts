@@ -54,7 +54,12 @@ export function matchRoute(pattern: string, pathname: string): RouteMatch {
     if (patternPart.startsWith(":")) {
       // URL parameter - extract value
       const paramName = patternPart.slice(1);
-      params[paramName] = decodeURIComponent(pathPart);
+      try {
+        params[paramName] = decodeURIComponent(pathPart);
+      } catch {
+        // Malformed percent-encoding (e.g. "%") can't name a resource
+        return { matched: false, params: {} };
+      }
     } else if (patternPart !== pathPart) {
       // Static segment doesn't match
       return { matched: false, params: {} };
@@ -198,3 +203,34 @@ export function normalizeMethod(method: string | undefined): string {
 
   return normalized;
 }
+
+/**
+ * Languages whose handlers are transpiled before loading
+ */
+const TYPESCRIPT_LANGUAGES = ["ts", "typescript", "tsx"];
+
+/**
+ * Transpile handler source to JavaScript
+ *
+ * JavaScript is returned as-is; TypeScript is transpiled with esbuild.
+ *
+ * @param code - Handler source code
+ * @param language - Block language
+ * @returns ES module source
+ */
+export async function transpileHandlerSource(
+  code: string,
+  language: string
+): Promise<string> {
+  if (!TYPESCRIPT_LANGUAGES.includes(language)) {
+    return code;
+  }
+
+  // Loaded lazily so CLI commands that only list plugins don't pull in vite
+  const { transformWithEsbuild } = await import("vite");
+  const result = await transformWithEsbuild(code, "handler.ts", {
+    loader: "ts",
+    format: "esm",
+  });
+  return result.code;
+}
@@ -0,0 +1,193 @@
+/**
+ * API Validation Runtime
+ *
+ * Source of `validation.mjs`, imported by runtime.mjs in the server bundle.
+ * It is the JavaScript twin of validation.ts, kept as plain source so the
+ * emitted file doesn't depend on how this package was compiled.
+ * validation.test.ts runs the same cases against both, so dev and
+ * production validate identically.
+ *
+ * Exports of the emitted module: validateApiRequest, validateJsonSchema,
+ * coerceToSchema, matchesJsonType (same signatures as validation.ts).
+ */
+
+export const API_VALIDATION_MODULE = `// Auto-generated by org-press - do not edit
+
+export function matchesJsonType(type, value) {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+const FORMATS = {
+  email: /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  date: /^\\d{4}-\\d{2}-\\d{2}$/,
+  "date-time": /^\\d{4}-\\d{2}-\\d{2}[Tt ]\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?([Zz]|[+-]\\d{2}:\\d{2})$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\\S+$/,
+};
+
+function escapePointer(key) {
+  return key.replace(/~/g, "~0").replace(/\\//g, "~1");
+}
+
+export function validateJsonSchema(schema, value, pointer, report) {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesJsonType(type, value))) {
+    report(pointer, "must be " + types.join(" or "));
+    return;
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    report(pointer, "must be " + JSON.stringify(schema.const));
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    report(pointer, "must be one of " + schema.enum.map((option) => JSON.stringify(option)).join(", "));
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      report(pointer, "must have at least " + schema.minLength + " characters");
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      report(pointer, "must have at most " + schema.maxLength + " characters");
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      report(pointer, "must match pattern " + schema.pattern);
+    }
+    if (typeof schema.format === "string" && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      report(pointer, "must be a valid " + schema.format);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      report(pointer, "must be >= " + schema.minimum);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      report(pointer, "must be <= " + schema.maximum);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      report(pointer, "must be > " + schema.exclusiveMinimum);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      report(pointer, "must be < " + schema.exclusiveMaximum);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      report(pointer, "must have at least " + schema.minItems + " items");
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      report(pointer, "must have at most " + schema.maxItems + " items");
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateJsonSchema(schema.items, item, pointer + "/" + index, report));
+    }
+  }
+
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        report(pointer + "/" + escapePointer(key), "is required");
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) continue;
+
+      const propertyPointer = pointer + "/" + escapePointer(key);
+      if (properties[key]) {
+        validateJsonSchema(properties[key], propertyValue, propertyPointer, report);
+      } else if (schema.additionalProperties === false) {
+        report(propertyPointer, "is not allowed");
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateJsonSchema(schema.additionalProperties, propertyValue, propertyPointer, report);
+      }
+    }
+  }
+}
+
+export function coerceToSchema(schema, values) {
+  const result = { ...values };
+
+  for (const [key, value] of Object.entries(values)) {
+    const property = schema.properties?.[key];
+    if (!property || property.type === undefined || typeof value !== "string") continue;
+
+    const types = Array.isArray(property.type) ? property.type : [property.type];
+    if ((types.includes("integer") || types.includes("number")) && value.trim() !== "" && !Number.isNaN(Number(value))) {
+      result[key] = Number(value);
+    } else if (types.includes("boolean") && (value === "true" || value === "false")) {
+      result[key] = value === "true";
+    }
+  }
+
+  return result;
+}
+
+export function validateApiRequest(schema, request) {
+  const result = {
+    valid: true,
+    issues: [],
+    params: request.params,
+    query: request.query,
+    body: request.body,
+  };
+
+  if (!schema) {
+    return result;
+  }
+
+  for (const location of ["params", "query", "body"]) {
+    const partSchema = schema[location];
+    if (!partSchema) continue;
+
+    const value = request[location];
+
+    if (typeof partSchema.safeParse === "function") {
+      const parsed = partSchema.safeParse(value);
+      if (parsed.success) {
+        result[location] = parsed.data;
+      } else {
+        for (const issue of parsed.error?.issues || []) {
+          result.issues.push({
+            location,
+            path: (issue.path || []).map((segment) => "/" + segment).join(""),
+            message: issue.message,
+          });
+        }
+      }
+      continue;
+    }
+
+    const coerced = location === "body" ? value : coerceToSchema(partSchema, value);
+    validateJsonSchema(partSchema, coerced, "", (path, message) => {
+      result.issues.push({ location, path, message });
+    });
+    result[location] = coerced;
+  }
+
+  result.valid = result.issues.length === 0;
+  return result;
+}
+`;
@@ -0,0 +1,147 @@
+/**
+ * Tests for API request validation
+ */
+
+import { describe, it, expect } from "vitest";
+import * as validation from "./validation.ts";
+import { API_VALIDATION_MODULE } from "./validation-runtime.ts";
+import type { JsonSchema, ZodLikeSchema } from "./types.ts";
+
+// Dev (validation.ts) and the server bundle (validation.mjs) must agree
+const runtime: typeof validation = await import(
+  `data:text/javascript;base64,${Buffer.from(API_VALIDATION_MODULE).toString("base64")}`
+);
+
+describe.each([
+  ["validation.ts", validation],
+  ["validation.mjs", runtime],
+])("API validation (%s)", (_name, { validateApiRequest, validateJsonSchema, coerceToSchema }) => {
+  const collect = (schema: JsonSchema, value: unknown) => {
+    const issues: Array<[string, string]> = [];
+    validateJsonSchema(schema, value, "", (pointer, message) => issues.push([pointer, message]));
+    return issues;
+  };
+
+  describe("validateJsonSchema", () => {
+    it("should check types", () => {
+      expect(collect({ type: "string" }, "a")).toEqual([]);
+      expect(collect({ type: "integer" }, 1.5)).toEqual([["", "must be integer"]]);
+      expect(collect({ type: ["string", "null"] }, null)).toEqual([]);
+      expect(collect({ type: "object" }, [])).toEqual([["", "must be object"]]);
+    });
+
+    it("should check string, number and array constraints", () => {
+      expect(
+        collect({ type: "string", minLength: 2, pattern: "^a" }, "b")
+      ).toEqual([
+        ["", "must have at least 2 characters"],
+        ["", "must match pattern ^a"],
+      ]);
+      expect(collect({ type: "string", format: "email" }, "nope")).toEqual([
+        ["", "must be a valid email"],
+      ]);
+      expect(collect({ type: "string", format: "date-time" }, "2025-01-15T10:30:00Z")).toEqual([]);
+      expect(collect({ type: "number", minimum: 1, exclusiveMaximum: 5 }, 5)).toEqual([
+        ["", "must be < 5"],
+      ]);
+      expect(
+        collect({ type: "array", maxItems: 1, items: { type: "string" } }, ["a", 2])
+      ).toEqual([
+        ["", "must have at most 1 items"],
+        ["/1", "must be string"],
+      ]);
+      expect(collect({ enum: ["a", "b"] }, "c")).toEqual([["", 'must be one of "a", "b"']]);
+    });
+
+    it("should check object properties with JSON pointers", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        required: ["user"],
+        additionalProperties: false,
+        properties: {
+          user: {
+            type: "object",
+            required: ["name"],
+            properties: { name: { type: "string" }, "a/b": { type: "number" } },
+          },
+        },
+      };
+
+      expect(collect(schema, {})).toEqual([["/user", "is required"]]);
+      expect(collect(schema, { user: { "a/b": "x" }, extra: 1 })).toEqual([
+        ["/user/name", "is required"],
+        ["/user/a~1b", "must be number"],
+        ["/extra", "is not allowed"],
+      ]);
+    });
+  });
+
+  describe("coerceToSchema", () => {
+    it("should coerce declared numbers and booleans", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: {
+          page: { type: "integer" },
+          draft: { type: "boolean" },
+          q: { type: "string" },
+        },
+      };
+
+      expect(coerceToSchema(schema, { page: "2", draft: "true", q: "10", other: "1" })).toEqual({
+        page: 2,
+        draft: true,
+        q: "10",
+        other: "1",
+      });
+      expect(coerceToSchema(schema, { page: "two" })).toEqual({ page: "two" });
+    });
+  });
+
+  describe("validateApiRequest", () => {
+    it("should pass everything through without a schema", () => {
+      const request = { params: { id: "1" }, query: {}, body: { a: 1 } };
+      expect(validateApiRequest(undefined, request)).toEqual({
+        valid: true,
+        issues: [],
+        ...request,
+      });
+    });
+
+    it("should validate each part and coerce params and query", () => {
+      const result = validateApiRequest(
+        {
+          params: { type: "object", properties: { id: { type: "integer" } } },
+          query: { type: "object", required: ["q"] },
+          body: { type: "object", required: ["name"] },
+        },
+        { params: { id: "7" }, query: {}, body: {} }
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.params).toEqual({ id: 7 });
+      expect(result.issues).toEqual([
+        { location: "query", path: "/q", message: "is required" },
+        { location: "body", path: "/name", message: "is required" },
+      ]);
+    });
+
+    it("should use safeParse for Zod-compatible schemas", () => {
+      const body: ZodLikeSchema = {
+        safeParse: (value: any) =>
+          typeof value?.name === "string"
+            ? { success: true, data: { name: value.name.trim() } }
+            : {
+                success: false,
+                error: { issues: [{ path: ["name"], message: "Required" }] },
+              },
+      };
+
+      expect(
+        validateApiRequest({ body }, { params: {}, query: {}, body: { name: " Ada " } })
+      ).toMatchObject({ valid: true, body: { name: "Ada" } });
+      expect(
+        validateApiRequest({ body }, { params: {}, query: {}, body: {} }).issues
+      ).toEqual([{ location: "body", path: "/name", message: "Required" }]);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * API Request Validation
+ *
+ * Validates params, query and body against the `schema` exported by an
+ * API block. Supports a JSON Schema subset (see JsonSchema) and any
+ * Zod-compatible object with `safeParse`.
+ *
+ * The production server bundle ships the same logic as plain JavaScript
+ * (see validation-runtime.ts).
+ */
+
+import type {
+  ApiSchema,
+  ApiValidationIssue,
+  JsonSchema,
+} from "./types.ts";
+
+/**
+ * Request parts to validate
+ */
+export interface ApiValidationInput {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Validation result
+ *
+ * params, query and body hold the coerced (JSON Schema) or parsed (Zod)
+ * values to pass to the handler.
+ */
+export interface ApiValidationResult {
+  valid: boolean;
+  issues: ApiValidationIssue[];
+  params: Record<string, any>;
+  query: Record<string, any>;
+  body: unknown;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+export function matchesJsonType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @param schema - JSON Schema
+ * @param value - Value to validate
+ * @param pointer - JSON pointer of the value ("" for the root)
+ * @param report - Called once per failure
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  pointer: string,
+  report: (pointer: string, message: string) => void
+): void {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesJsonType(type, value))) {
+    report(pointer, `must be ${types.join(" or ")}`);
+    return;
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    report(pointer, `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    report(pointer, `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    const formats: Record<string, RegExp> = {
+      email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+      uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+      date: /^\d{4}-\d{2}-\d{2}$/,
+      "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+      uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+    };
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      report(pointer, `must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      report(pointer, `must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      report(pointer, `must match pattern ${schema.pattern}`);
+    }
+    if (typeof schema.format === "string" && formats[schema.format] && !formats[schema.format].test(value)) {
+      report(pointer, `must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      report(pointer, `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      report(pointer, `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      report(pointer, `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      report(pointer, `must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      report(pointer, `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      report(pointer, `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateJsonSchema(schema.items!, item, `${pointer}/${index}`, report));
+    }
+  }
+
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    const escape = (key: string) => key.replace(/~/g, "~0").replace(/\//g, "~1");
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        report(`${pointer}/${escape(key)}`, "is required");
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (propertyValue === undefined) continue;
+
+      if (properties[key]) {
+        validateJsonSchema(properties[key], propertyValue, `${pointer}/${escape(key)}`, report);
+      } else if (schema.additionalProperties === false) {
+        report(`${pointer}/${escape(key)}`, "is not allowed");
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateJsonSchema(schema.additionalProperties, propertyValue, `${pointer}/${escape(key)}`, report);
+      }
+    }
+  }
+}
+
+/**
+ * Coerce string params/query values to the types declared in a schema
+ *
+ * Only number, integer and boolean properties are coerced; values that
+ * don't parse are left as strings so validation reports them.
+ */
+export function coerceToSchema(
+  schema: JsonSchema,
+  values: Record<string, string>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...values };
+
+  for (const [key, value] of Object.entries(values)) {
+    const property = schema.properties?.[key];
+    if (!property || property.type === undefined || typeof value !== "string") continue;
+
+    const types = Array.isArray(property.type) ? property.type : [property.type];
+    if ((types.includes("integer") || types.includes("number")) && value.trim() !== "" && !Number.isNaN(Number(value))) {
+      result[key] = Number(value);
+    } else if (types.includes("boolean") && (value === "true" || value === "false")) {
+      result[key] = value === "true";
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate a request against an API block schema
+ *
+ * @param schema - Schema exported by the block (undefined: always valid)
+ * @param request - Request params, query and body
+ * @returns Validation result with coerced values
+ */
+export function validateApiRequest(
+  schema: ApiSchema | undefined,
+  request: ApiValidationInput
+): ApiValidationResult {
+  const result: ApiValidationResult = {
+    valid: true,
+    issues: [],
+    params: request.params,
+    query: request.query,
+    body: request.body,
+  };
+
+  if (!schema) {
+    return result;
+  }
+
+  for (const location of ["params", "query", "body"] as const) {
+    const partSchema = schema[location] as any;
+    if (!partSchema) continue;
+
+    const value = request[location];
+
+    if (typeof partSchema.safeParse === "function") {
+      const parsed = partSchema.safeParse(value);
+      if (parsed.success) {
+        result[location] = parsed.data;
+      } else {
+        for (const issue of parsed.error?.issues || []) {
+          result.issues.push({
+            location,
+            path: (issue.path || []).map((segment: string | number) => `/${segment}`).join(""),
+            message: issue.message,
+          });
+        }
+      }
+      continue;
+    }
+
+    const coerced = location === "body" ? value : coerceToSchema(partSchema, value as Record<string, string>);
+    validateJsonSchema(partSchema, coerced, "", (path, message) => {
+      result.issues.push({ location, path, message });
+    });
+    result[location] = coerced as any;
+  }
+
+  result.valid = result.issues.length === 0;
+  return result;
+}
@@ -0,0 +1,36 @@
+/**
+ * Cache Plugin
+ *
+ * Provides the `orgp cache` CLI command for inspecting and evicting
+ * cached `:use server` block results.
+ *
+ * Usage:
+ *   orgp cache ls       # List cached results
+ *   orgp cache prune    # Remove expired and orphaned results
+ *   orgp cache clear    # Remove all cached results
+ */
+
+import type { BlockPlugin, CliContext } from "../types.ts";
+import { runCache } from "../../cli/commands/cache.ts";
+
+/**
+ * Cache plugin for org-press
+ *
+ * This plugin only provides CLI functionality - it doesn't transform blocks.
+ */
+export const cachePlugin: BlockPlugin = {
+  name: "cache",
+  defaultExtension: "js", // Required by interface but not used
+
+  /**
+   * CLI command for managing the server result cache
+   */
+  cli: {
+    command: "cache",
+    description: "List, prune or clear cached server block results",
+
+    async execute(args: string[], context: CliContext): Promise<number> {
+      return runCache(args, context);
+    },
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Detangle Plugin
+ *
+ * Provides the `orgp detangle` CLI command for syncing edits made in
+ * tangled files back into their org source blocks.
+ *
+ * Usage:
+ *   orgp detangle                    # Detangle all tangle targets
+ *   orgp detangle src/main.ts        # Detangle specific tangled files
+ *   orgp detangle --check            # Report only, exit 1 if anything would change
+ *   orgp detangle --force            # Tangled file wins on conflicts
+ */
+
+import type { BlockPlugin, CliContext } from "../types.ts";
+import { runDetangle } from "../../cli/commands/detangle.ts";
+
+/**
+ * Detangle plugin for org-press
+ *
+ * This plugin only provides CLI functionality - it doesn't transform blocks.
+ * The `orgp detangle` command reads link comments from tangled files.
+ */
+export const detanglePlugin: BlockPlugin = {
+  name: "detangle",
+  defaultExtension: "js", // Required by interface but not used
+
+  /**
+   * CLI command for detangling files
+   */
+  cli: {
+    command: "detangle",
+    description: "Write edits in tangled files back into org source blocks",
+
+    async execute(args: string[], context: CliContext): Promise<number> {
+      return runDetangle(args, context);
+    },
+  },
+};
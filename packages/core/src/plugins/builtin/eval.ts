@@ -0,0 +1,37 @@
+/**
+ * Eval Plugin
+ *
+ * Provides the `orgp eval` CLI command for executing blocks and writing
+ * their output into org files as `#+RESULTS:` sections.
+ *
+ * Usage:
+ *   orgp eval                          # Evaluate all org files
+ *   orgp eval content/report.org       # Evaluate specific files
+ *   orgp eval report.org --block sales # Evaluate a single named block
+ */
+
+import type { BlockPlugin, CliContext } from "../types.ts";
+import { runEval } from "../../cli/commands/eval.ts";
+
+/**
+ * Eval plugin for org-press
+ *
+ * This plugin only provides CLI functionality - it doesn't transform blocks.
+ * Committed results are rendered instead of executing the blocks.
+ */
+export const evalPlugin: BlockPlugin = {
+  name: "eval",
+  defaultExtension: "js", // Required by interface but not used
+
+  /**
+   * CLI command for evaluating blocks
+   */
+  cli: {
+    command: "eval",
+    description: "Execute blocks and write their output as #+RESULTS: sections",
+
+    async execute(args: string[], context: CliContext): Promise<number> {
+      return runEval(args, context);
+    },
+  },
+};
@@ -7,6 +7,7 @@
  *   orgp fmt                      # Format all blocks
  *   orgp fmt --check              # Check only, exit 1 if changes needed
  *   orgp fmt --languages ts,tsx   # Format only TypeScript
+ *   orgp fmt --tables             # Recalculate #+TBLFM: tables
  *   orgp fmt content/api.org      # Format specific files
  */
 
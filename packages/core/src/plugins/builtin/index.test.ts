@@ -16,6 +16,8 @@ import {
   fmtPlugin,
   lintPlugin,
   typeCheckPlugin,
+  tanglePlugin,
+  detanglePlugin,
   domPlugin,
   sourceOnlyPlugin,
   silentPlugin,
@@ -32,8 +34,8 @@ describe("builtin plugins", () => {
 
     it("should export all plugins array", () => {
       expect(allBuiltinPlugins).toBeInstanceOf(Array);
-      // 14 previous + 4 mode plugins = 18
-      expect(allBuiltinPlugins.length).toBe(18);
+      // 14 previous + 4 mode plugins + tangle/detangle + cache/eval = 22
+      expect(allBuiltinPlugins.length).toBe(22);
     });
 
     it("should export individual plugins", () => {
@@ -146,6 +148,8 @@ describe("builtin plugins", () => {
       expect(allBuiltinPlugins).toContain(fmtPlugin);
       expect(allBuiltinPlugins).toContain(lintPlugin);
       expect(allBuiltinPlugins).toContain(typeCheckPlugin);
+      expect(allBuiltinPlugins).toContain(tanglePlugin);
+      expect(allBuiltinPlugins).toContain(detanglePlugin);
     });
   });
 
@@ -172,10 +176,10 @@ describe("builtin plugins", () => {
       expect(matches).toBe(false);
     });
 
-    it("should not match serverPlugin with non-JS language", async () => {
+    it("should not match serverPlugin with unsupported language", async () => {
       const block = {
-        value: 'print("test")',
-        language: "python",
+        value: 'puts "test"',
+        language: "ruby",
         meta: ":use server",
       };
 
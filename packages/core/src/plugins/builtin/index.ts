@@ -25,11 +25,21 @@ import {
   serverOnlyPlugin,
 } from "./server.ts";
 import { createDefaultJavaScriptHandler } from "./javascript-handler.ts";
+import {
+  createShellHandler,
+  createPythonHandler,
+  createSqliteHandler,
+  createDefaultProcessHandlers,
+} from "./process-handlers.ts";
 import { createServerHandler } from "../handler-factory.ts";
 import { apiPlugin } from "./api/index.ts";
 import { fmtPlugin } from "./fmt.ts";
 import { lintPlugin } from "./lint.ts";
 import { typeCheckPlugin } from "./type-check.ts";
+import { tanglePlugin } from "./tangle.ts";
+import { detanglePlugin } from "./detangle.ts";
+import { cachePlugin } from "./cache.ts";
+import { evalPlugin } from "./eval.ts";
 import { domPlugin } from "./dom.ts";
 import { sourceOnlyPlugin } from "./source-only.ts";
 import { silentPlugin } from "./silent.ts";
@@ -67,9 +77,17 @@ export {
   fmtPlugin,
   lintPlugin,
   typeCheckPlugin,
+  tanglePlugin,
+  detanglePlugin,
+  cachePlugin,
+  evalPlugin,
   // Server handlers
   createServerHandler,
   createDefaultJavaScriptHandler,
+  createShellHandler,
+  createPythonHandler,
+  createSqliteHandler,
+  createDefaultProcessHandlers,
 };
 
 /**
@@ -127,4 +145,8 @@ export const allBuiltinPlugins: BlockPlugin[] = [
   fmtPlugin,
   lintPlugin,
   typeCheckPlugin,
+  tanglePlugin,
+  detanglePlugin,
+  cachePlugin,
+  evalPlugin,
 ];
@@ -0,0 +1,207 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createDefaultProcessHandlers,
+  createPythonHandler,
+  createShellHandler,
+  createSqliteHandler,
+  executeProcessBlock,
+  executePython,
+  executeShell,
+  executeSqlite,
+  formatProcessResult,
+  isProcessLanguage,
+  runProcess,
+} from "./process-handlers.ts";
+import type { ServerHandlerContext } from "../types.ts";
+
+function handlerContext(
+  language: string,
+  code: string,
+  params: Record<string, string>,
+  orgFilePath: string
+): ServerHandlerContext {
+  return {
+    contentHelpers: {
+      getContentPages: async () => [],
+      getContentPagesFromDirectory: async () => [],
+      renderPageList: () => "",
+    },
+    orgFilePath,
+    blockIndex: 0,
+    params,
+    block: { language, value: code },
+  };
+}
+
+describe("Subprocess handlers", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "org-press-process-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("runProcess", () => {
+    it("should collect stdout, stderr and the exit code", async () => {
+      const output = await runProcess("sh", ["-c", "echo out; echo err >&2; exit 3"]);
+
+      expect(output).toEqual({ stdout: "out\n", stderr: "err\n", exitCode: 3 });
+    });
+
+    it("should kill the process group on timeout", async () => {
+      const start = Date.now();
+
+      await expect(
+        runProcess("sh", ["-c", "sleep 5; echo done"], { timeout: 200 })
+      ).rejects.toThrow("Execution timeout after 200ms");
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+
+    it("should report missing commands", async () => {
+      await expect(runProcess("org-press-missing-command", [])).rejects.toThrow(
+        "Command not found: org-press-missing-command"
+      );
+    });
+  });
+
+  describe("executeShell", () => {
+    it("should pass args and stdin to the script", async () => {
+      const result = await executeShell('echo "$1-$2"; cat', "bash", {
+        args: ["a", "b"],
+        input: "from stdin",
+      });
+
+      expect(result).toBe("a-b\nfrom stdin");
+    });
+
+    it("should fail with stderr on a non-zero exit", async () => {
+      await expect(executeShell("echo broken >&2; exit 2", "sh")).rejects.toThrow(
+        "sh exited with code 2: broken"
+      );
+    });
+  });
+
+  describe("executePython", () => {
+    it("should run python3 with args", async () => {
+      const result = await executePython("import sys\nprint(sum(int(a) for a in sys.argv[1:]))", {
+        args: ["1", "2", "3"],
+      });
+
+      expect(result).toBe("6");
+    });
+  });
+
+  describe("executeSqlite", () => {
+    it("should return the rows of the last query", async () => {
+      const rows = await executeSqlite(
+        `CREATE TABLE t (a INTEGER, b TEXT);
+INSERT INTO t VALUES (1, 'x'), (2, 'y');
+SELECT COUNT(*) AS n FROM t;
+SELECT a, b FROM t ORDER BY a;`,
+        { db: "data.db", cwd: tempDir }
+      );
+
+      expect(rows).toEqual([
+        { a: 1, b: "x" },
+        { a: 2, b: "y" },
+      ]);
+      expect(fs.existsSync(path.join(tempDir, "data.db"))).toBe(true);
+    });
+
+    it("should use an in-memory database without :db", async () => {
+      expect(await executeSqlite("CREATE TABLE t (a);")).toEqual([]);
+    });
+
+    it("should fail on SQL errors", async () => {
+      await expect(executeSqlite("SELECT * FROM missing;")).rejects.toThrow(
+        /sqlite3 exited with code 1: .*no such table: missing/
+      );
+    });
+  });
+
+  describe("executeProcessBlock", () => {
+    it("should dispatch by language", async () => {
+      expect(isProcessLanguage("Bash")).toBe(true);
+      expect(isProcessLanguage("ruby")).toBe(false);
+      expect(await executeProcessBlock("echo hi", "sh")).toBe("hi");
+      await expect(executeProcessBlock("puts 1", "ruby")).rejects.toThrow(
+        "Unsupported subprocess language: ruby"
+      );
+    });
+  });
+
+  describe("formatProcessResult", () => {
+    it("should render rows as a table and text as preformatted", () => {
+      expect(formatProcessResult([{ name: "<b>", n: null }])).toBe(
+        [
+          '<table class="org-results">',
+          "<thead><tr><th>name</th><th>n</th></tr></thead>",
+          "<tbody>",
+          "<tr><td>&lt;b&gt;</td><td></td></tr>",
+          "</tbody>",
+          "</table>",
+        ].join("\n")
+      );
+      expect(formatProcessResult("a < b")).toBe('<pre class="org-results">a &lt; b</pre>');
+      expect(formatProcessResult("")).toBe("");
+      expect(formatProcessResult([])).toBe("");
+    });
+  });
+
+  describe("handlers", () => {
+    it("should match :use server blocks of their languages", () => {
+      const params = { use: "server" };
+
+      expect(createShellHandler().matches(params, { language: "bash", value: "" })).toBe(true);
+      expect(createPythonHandler().matches(params, { language: "python", value: "" })).toBe(true);
+      expect(createSqliteHandler().matches(params, { language: "sqlite", value: "" })).toBe(true);
+      expect(createShellHandler().matches({ use: "dom" }, { language: "sh", value: "" })).toBe(false);
+      expect(createPythonHandler().matches(params, { language: "sh", value: "" })).toBe(false);
+    });
+
+    it("should apply the timeout from options", async () => {
+      const handler = createShellHandler({ timeout: 200 });
+
+      expect(handler.options?.timeout).toBe(200);
+      const result = await handler.onServer(
+        "sleep 5",
+        handlerContext("sh", "sleep 5", { use: "server" }, path.join(tempDir, "a.org"))
+      );
+      expect(result.error?.message).toBe("Execution timeout after 200ms");
+    });
+
+    it("should resolve :db relative to the org file", async () => {
+      fs.mkdirSync(path.join(tempDir, "content"));
+      const orgFilePath = path.join(tempDir, "content/page.org");
+      const [, , sqlite] = createDefaultProcessHandlers();
+
+      const result = await sqlite.onServer(
+        "CREATE TABLE t (a); INSERT INTO t VALUES (7); SELECT a FROM t;",
+        handlerContext("sqlite", "", { use: "server", db: "page.db" }, orgFilePath)
+      );
+
+      expect(result.error).toBeUndefined();
+      expect(result.result).toEqual([{ a: 7 }]);
+      expect(fs.existsSync(path.join(tempDir, "content/page.db"))).toBe(true);
+    });
+
+    it("should display results as HTML on the client", () => {
+      const code = createPythonHandler().onClient!("hi", {
+        blockId: "block-1",
+        orgFilePath: "content/a.org",
+        blockIndex: 0,
+        params: {},
+      });
+
+      expect(code).toContain("getElementById('block-1-result')");
+      expect(code).toContain('container.innerHTML = "<pre class=\\"org-results\\">hi</pre>"');
+    });
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Subprocess Handlers for Server Execution
+ *
+ * Server handlers for languages that run as local subprocesses:
+ *
+ * - sh/bash: the block is passed to the shell with `-c`; args become $1, $2, ...
+ * - python:  the block is passed to `python3 -c`; args become sys.argv[1:]
+ * - sqlite:  the block is piped to `sqlite3 -json` against the `:db` file
+ *            (in-memory when omitted); the rows of the last query are the result
+ *
+ * Shell and Python results are the process stdout. A non-zero exit code is
+ * an error carrying stderr. Processes are killed when the timeout elapses.
+ */
+
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { createServerHandler } from "../handler-factory.ts";
+import type { CodeBlock, ServerHandler } from "../types.ts";
+
+/**
+ * Default execution timeout in milliseconds
+ */
+export const DEFAULT_PROCESS_TIMEOUT = 30000;
+
+/**
+ * Languages executed with a shell
+ */
+export const SHELL_LANGUAGES = ["sh", "bash"];
+
+/**
+ * Languages executed with Python
+ */
+export const PYTHON_LANGUAGES = ["python", "python3", "py"];
+
+/**
+ * Languages executed with SQLite
+ */
+export const SQLITE_LANGUAGES = ["sqlite", "sqlite3"];
+
+/**
+ * Options for running a block in a subprocess
+ */
+export interface ProcessExecutionOptions {
+  /** Executable to run (default depends on the language) */
+  command?: string;
+  /** Arguments passed to the block */
+  args?: string[];
+  /** Data written to the process stdin */
+  input?: string;
+  /** Additional environment variables */
+  env?: Record<string, string>;
+  /** Working directory (default: process.cwd()) */
+  cwd?: string;
+  /** Timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** SQLite database file, relative to cwd (sqlite only) */
+  db?: string;
+}
+
+/**
+ * Output of a finished subprocess
+ */
+export interface ProcessOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Run a command, collecting its output
+ *
+ * The process runs in its own process group so the whole group is
+ * killed on timeout, including children spawned by shell scripts.
+ *
+ * @throws If the command cannot be started or the timeout elapses
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  options: ProcessExecutionOptions = {}
+): Promise<ProcessOutput> {
+  const timeout = options.timeout ?? DEFAULT_PROCESS_TIMEOUT;
+  const detached = process.platform !== "win32";
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ["pipe", "pipe", "pipe"],
+      detached,
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let settled = false;
+
+    const finish = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      callback();
+    };
+
+    const timer = setTimeout(() => {
+      finish(() => {
+        try {
+          if (detached && child.pid) {
+            process.kill(-child.pid, "SIGKILL");
+          } else {
+            child.kill("SIGKILL");
+          }
+        } catch {
+          // Already exited
+        }
+        reject(new Error(`Execution timeout after ${timeout}ms`));
+      });
+    }, timeout);
+
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk.toString();
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      finish(() =>
+        reject(
+          error.code === "ENOENT" && (!options.cwd || existsSync(options.cwd))
+            ? new Error(`Command not found: ${command}`)
+            : error
+        )
+      );
+    });
+
+    child.on("close", (code) => {
+      finish(() => resolvePromise({ stdout, stderr, exitCode: code ?? 1 }));
+    });
+
+    // Ignore EPIPE when the process exits without reading stdin
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.input ?? "");
+  });
+}
+
+/**
+ * Turn a failed process into an error
+ */
+function assertSuccess(command: string, output: ProcessOutput): void {
+  if (output.exitCode !== 0) {
+    const detail = output.stderr.trim() || output.stdout.trim();
+    throw new Error(
+      `${command} exited with code ${output.exitCode}${detail ? `: ${detail}` : ""}`
+    );
+  }
+}
+
+/**
+ * Remove the trailing newline most programs print
+ */
+function trimTrailingNewline(text: string): string {
+  return text.replace(/\r?\n$/, "");
+}
+
+/**
+ * Execute a shell block
+ *
+ * @param code - Shell script
+ * @param language - "sh" or "bash" (used as the default command)
+ * @param options - Execution options
+ * @returns The script stdout
+ */
+export async function executeShell(
+  code: string,
+  language: string,
+  options: ProcessExecutionOptions = {}
+): Promise<string> {
+  const command = options.command || (language === "bash" ? "bash" : "sh");
+  const output = await runProcess(
+    command,
+    ["-c", code, "orgp", ...(options.args || [])],
+    options
+  );
+
+  assertSuccess(command, output);
+  return trimTrailingNewline(output.stdout);
+}
+
+/**
+ * Execute a Python block
+ *
+ * @param code - Python source
+ * @param options - Execution options
+ * @returns The program stdout
+ */
+export async function executePython(
+  code: string,
+  options: ProcessExecutionOptions = {}
+): Promise<string> {
+  const command = options.command || "python3";
+  const output = await runProcess(command, ["-c", code, ...(options.args || [])], options);
+
+  assertSuccess(command, output);
+  return trimTrailingNewline(output.stdout);
+}
+
+/**
+ * Execute a SQLite block
+ *
+ * @param code - SQL statements
+ * @param options - Execution options (`db` selects the database file)
+ * @returns Rows of the last statement that returned rows
+ */
+export async function executeSqlite(
+  code: string,
+  options: ProcessExecutionOptions = {}
+): Promise<Record<string, unknown>[]> {
+  const command = options.command || "sqlite3";
+  const db = options.db
+    ? isAbsolute(options.db)
+      ? options.db
+      : resolve(options.cwd || process.cwd(), options.db)
+    : ":memory:";
+
+  const output = await runProcess(command, ["-bail", "-json", db], {
+    ...options,
+    input: code,
+  });
+
+  assertSuccess(command, output);
+
+  // Each statement returning rows prints its own JSON array
+  const text = output.stdout.trim();
+  if (!text) {
+    return [];
+  }
+  const resultSets = JSON.parse(`[${text.replace(/\]\s*\n\s*\[/g, "],[")}]`);
+  return resultSets[resultSets.length - 1];
+}
+
+/**
+ * Check if a language runs in a subprocess
+ */
+export function isProcessLanguage(language: string): boolean {
+  const normalized = language.toLowerCase();
+  return (
+    SHELL_LANGUAGES.includes(normalized) ||
+    PYTHON_LANGUAGES.includes(normalized) ||
+    SQLITE_LANGUAGES.includes(normalized)
+  );
+}
+
+/**
+ * Execute a block in the subprocess matching its language
+ *
+ * @param code - Block source
+ * @param language - Block language (see isProcessLanguage)
+ * @param options - Execution options
+ * @returns stdout (shell, python) or rows (sqlite)
+ * @throws If the language is not a subprocess language
+ */
+export async function executeProcessBlock(
+  code: string,
+  language: string,
+  options: ProcessExecutionOptions = {}
+): Promise<string | Record<string, unknown>[]> {
+  const normalized = language.toLowerCase();
+
+  if (SHELL_LANGUAGES.includes(normalized)) {
+    return executeShell(code, normalized, options);
+  }
+  if (PYTHON_LANGUAGES.includes(normalized)) {
+    return executePython(code, options);
+  }
+  if (SQLITE_LANGUAGES.includes(normalized)) {
+    return executeSqlite(code, options);
+  }
+
+  throw new Error(`Unsupported subprocess language: ${language}`);
+}
+
+/**
+ * Escape HTML special characters
+ */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+/**
+ * Render a subprocess result as HTML
+ *
+ * Rows become a table, text becomes a preformatted block.
+ *
+ * @param result - Result of executeProcessBlock
+ * @returns HTML ("" for empty results)
+ */
+export function formatProcessResult(result: unknown): string {
+  if (Array.isArray(result)) {
+    if (result.length === 0) {
+      return "";
+    }
+
+    const columns = Object.keys(result[0]);
+    const cell = (value: unknown) => escapeHtml(value === null ? "" : String(value));
+
+    return [
+      '<table class="org-results">',
+      `<thead><tr>${columns.map((column) => `<th>${escapeHtml(column)}</th>`).join("")}</tr></thead>`,
+      "<tbody>",
+      ...result.map(
+        (row) => `<tr>${columns.map((column) => `<td>${cell(row[column])}</td>`).join("")}</tr>`
+      ),
+      "</tbody>",
+      "</table>",
+    ].join("\n");
+  }
+
+  if (result === undefined || result === null || result === "") {
+    return "";
+  }
+
+  return `<pre class="org-results">${escapeHtml(String(result))}</pre>`;
+}
+
+/**
+ * Options for the subprocess handler factories
+ */
+export interface ProcessHandlerOptions {
+  /** Execution timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Executable to run instead of the language default */
+  command?: string;
+}
+
+/**
+ * Create a subprocess handler for a set of languages
+ */
+function createProcessHandler(
+  languages: string[],
+  options: ProcessHandlerOptions = {}
+): ServerHandler {
+  const { timeout = DEFAULT_PROCESS_TIMEOUT, command } = options;
+
+  return createServerHandler(
+    (params: Record<string, string>, block: CodeBlock) =>
+      params.use === "server" && languages.includes(block.language.toLowerCase()),
+    {
+      async onServer(code, context) {
+        // Run next to the org file, like org-babel
+        const orgDir = dirname(resolve(process.cwd(), context.orgFilePath));
+
+        return executeProcessBlock(code, context.block.language, {
+          command,
+          timeout,
+          cwd: existsSync(orgDir) ? orgDir : undefined,
+          db: context.params.db,
+        });
+      },
+
+      onClient(result, context) {
+        return `
+          const container = document.getElementById('${context.blockId}-result');
+          if (container) {
+            container.innerHTML = ${JSON.stringify(formatProcessResult(result))};
+          }
+        `;
+      },
+
+      options: { timeout },
+    }
+  );
+}
+
+/**
+ * Shell handler for `:use server` blocks in sh or bash
+ *
+ * @example
+ * ```typescript
+ * createServerPlugin([createShellHandler({ timeout: 5000 })]);
+ * ```
+ */
+export function createShellHandler(options?: ProcessHandlerOptions): ServerHandler {
+  return createProcessHandler(SHELL_LANGUAGES, options);
+}
+
+/**
+ * Python handler for `:use server` blocks (runs `python3` by default)
+ *
+ * @example
+ * ```typescript
+ * createServerPlugin([createPythonHandler({ command: ".venv/bin/python" })]);
+ * ```
+ */
+export function createPythonHandler(options?: ProcessHandlerOptions): ServerHandler {
+  return createProcessHandler(PYTHON_LANGUAGES, options);
+}
+
+/**
+ * SQLite handler for `:use server` blocks (runs `sqlite3` by default)
+ *
+ * The database file comes from the `:db` header argument, relative to
+ * the org file.
+ *
+ * @example
+ * ```org
+ * #+begin_src sqlite :use server :db data/app.db
+ * SELECT name, email FROM users ORDER BY name;
+ * #+end_src
+ * ```
+ */
+export function createSqliteHandler(options?: ProcessHandlerOptions): ServerHandler {
+  return createProcessHandler(SQLITE_LANGUAGES, options);
+}
+
+/**
+ * Built-in subprocess handlers (shell, Python, SQLite)
+ *
+ * @param options - Timeout applied to every handler
+ */
+export function createDefaultProcessHandlers(
+  options?: Pick<ProcessHandlerOptions, "timeout">
+): ServerHandler[] {
+  return [
+    createShellHandler(options),
+    createPythonHandler(options),
+    createSqliteHandler(options),
+  ];
+}
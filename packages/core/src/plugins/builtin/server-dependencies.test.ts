@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { collectServerDependencies } from "./server-dependencies.ts";
+
+function createReader(files: Record<string, string>) {
+  return (orgFilePath: string) => {
+    if (!(orgFilePath in files)) throw new Error(`ENOENT: ${orgFilePath}`);
+    return files[orgFilePath];
+  };
+}
+
+const REPORT = `#+NAME: sales
+| region | total |
+|--------+-------|
+| north  |    10 |
+
+#+NAME: base
+#+begin_src javascript :use server
+return 2;
+#+end_src
+
+#+NAME: doubled
+#+begin_src javascript :use server :var b=base
+return b * 2;
+#+end_src
+`;
+
+describe("collectServerDependencies", () => {
+  it("should return nothing for self-contained blocks", () => {
+    expect(
+      collectServerDependencies("return 42;", { use: "server" }, {
+        orgFilePath: "content/report.org",
+        contentDir: "content",
+        readFile: createReader({ "content/report.org": REPORT }),
+      })
+    ).toEqual([]);
+  });
+
+  it("should fingerprint :var references, following referenced blocks", () => {
+    const dependencies = collectServerDependencies(
+      "return rows.length + d;",
+      { use: "server", var: "rows=sales d=doubled n=3" },
+      {
+        orgFilePath: "content/report.org",
+        contentDir: "content",
+        readFile: createReader({ "content/report.org": REPORT }),
+      }
+    );
+
+    expect(dependencies).toHaveLength(3);
+    expect(dependencies[0]).toMatch(/^content\/report\.org#sales:table:.*north/);
+    expect(dependencies[1]).toMatch(/^content\/report\.org#doubled:block:.*b \* 2/);
+    expect(dependencies[2]).toMatch(/^content\/report\.org#base:block:.*return 2/);
+  });
+
+  it("should fingerprint .org?name= imports relative to the file and content dir", () => {
+    const readFile = createReader({ "content/data/report.org": REPORT });
+    const options = { orgFilePath: "content/pages/index.org", contentDir: "content", readFile };
+
+    const relative = collectServerDependencies(
+      'import sales from "../data/report.org?name=sales";',
+      { use: "server" },
+      options
+    );
+    const absolute = collectServerDependencies(
+      'const { default: sales } = await import("/data/report.org?name=sales");',
+      { use: "server" },
+      options
+    );
+
+    expect(relative).toHaveLength(1);
+    expect(relative[0]).toMatch(/^content\/data\/report\.org#sales:table:/);
+    expect(absolute).toEqual(relative);
+  });
+
+  it("should change when a referenced element changes", () => {
+    const collect = (source: string) =>
+      collectServerDependencies("", { use: "server", var: "d=doubled" }, {
+        orgFilePath: "content/report.org",
+        contentDir: "content",
+        readFile: createReader({ "content/report.org": source }),
+      });
+
+    expect(collect(REPORT.replace("return 2;", "return 3;"))).not.toEqual(collect(REPORT));
+  });
+
+  it("should record missing files and elements", () => {
+    const dependencies = collectServerDependencies(
+      'import x from "./gone.org?name=x";',
+      { use: "server", var: "y=nothing" },
+      {
+        orgFilePath: "content/report.org",
+        contentDir: "content",
+        readFile: createReader({ "content/report.org": REPORT }),
+      }
+    );
+
+    expect(dependencies).toEqual([
+      "content/report.org#nothing:missing",
+      "content/gone.org#x:no-file",
+    ]);
+  });
+});
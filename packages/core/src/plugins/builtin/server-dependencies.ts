@@ -0,0 +1,145 @@
+/**
+ * Server Block Dependencies
+ *
+ * Finds what a server block's result depends on besides its own source,
+ * so cached results are keyed by everything that can change them:
+ *
+ * - `:var` references to named blocks, tables, lists and example blocks
+ *   in the same file
+ * - `.org?name=` imports of named blocks and tables in other files
+ *
+ * Referenced blocks are followed recursively. Each dependency becomes a
+ * fingerprint string; see getServerResultKey in cache.ts.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseOrgFile } from "../../parser/parse-content.ts";
+import {
+  collectNamedElements,
+  parseVarAssignments,
+  parseVarLiteral,
+  type NamedElement,
+} from "../../parser/variables.ts";
+import { parseOrgImportQuery } from "../../resolve/org-imports.ts";
+
+/**
+ * Options for collectServerDependencies
+ */
+export interface ServerDependencyOptions {
+  /** Relative path to the block's .org file */
+  orgFilePath: string;
+  /** Content directory (resolves `/file.org?name=` imports) */
+  contentDir: string;
+  /** Reads an org file (default: fs.readFileSync relative to the cwd) */
+  readFile?: (orgFilePath: string) => string;
+}
+
+/**
+ * Match `.org?...` specifiers in import statements and dynamic imports
+ */
+const ORG_IMPORT_PATTERN = /["']([^"'\n]+\.org\?[^"'\n]*)["']/g;
+
+/**
+ * Get the named references of a block
+ *
+ * @returns `[orgFilePath, name]` pairs for `:var` references and org imports
+ */
+function getReferences(
+  code: string,
+  parameters: Record<string, string | undefined>,
+  orgFilePath: string,
+  contentDir: string
+): Array<[string, string]> {
+  const references: Array<[string, string]> = [];
+
+  try {
+    for (const { value } of parseVarAssignments(parameters.var)) {
+      if (!parseVarLiteral(value)) {
+        references.push([orgFilePath, value]);
+      }
+    }
+  } catch {
+    // Invalid :var - the block fails when it runs
+  }
+
+  for (const match of code.matchAll(ORG_IMPORT_PATTERN)) {
+    const query = parseOrgImportQuery(match[1]);
+    if (!query) continue;
+
+    const target = query.orgPath.startsWith("/")
+      ? path.join(contentDir, query.orgPath)
+      : path.join(path.dirname(orgFilePath), query.orgPath);
+    references.push([target.replace(/\\/g, "/"), query.blockName]);
+  }
+
+  return references;
+}
+
+/**
+ * Collect the dependency fingerprints of a server block
+ *
+ * A fingerprint identifies a referenced element and its content; a
+ * missing file or element has a fingerprint too, so creating it later
+ * changes the key.
+ *
+ * @param code - Block source code
+ * @param parameters - Block parameters
+ * @param options - Block location
+ * @returns Fingerprints in discovery order
+ *
+ * @example
+ * collectServerDependencies(
+ *   'import rows from "./data.org?name=sales";',
+ *   { use: "server" },
+ *   { orgFilePath: "content/report.org", contentDir: "content" }
+ * );
+ * // ['content/data.org#sales:table:[...]']
+ */
+export function collectServerDependencies(
+  code: string,
+  parameters: Record<string, string | undefined>,
+  options: ServerDependencyOptions
+): string[] {
+  const { contentDir } = options;
+  const readFile = options.readFile ?? ((file: string) => fs.readFileSync(file, "utf-8"));
+  const files = new Map<string, Map<string, NamedElement> | null>();
+  const visited = new Set<string>();
+  const fingerprints: string[] = [];
+
+  function getElements(orgFilePath: string): Map<string, NamedElement> | null {
+    if (!files.has(orgFilePath)) {
+      try {
+        const { ast } = parseOrgFile(readFile(orgFilePath));
+        files.set(orgFilePath, collectNamedElements(ast).elements);
+      } catch {
+        files.set(orgFilePath, null);
+      }
+    }
+    return files.get(orgFilePath)!;
+  }
+
+  function visit(references: Array<[string, string]>): void {
+    for (const [orgFilePath, name] of references) {
+      const id = `${orgFilePath}#${name}`;
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const elements = getElements(orgFilePath);
+      const element = elements?.get(name);
+
+      if (!element) {
+        fingerprints.push(`${id}:${elements ? "missing" : "no-file"}`);
+      } else if (element.type === "block") {
+        const { language, code: blockCode, parameters: blockParameters } = element.block;
+        fingerprints.push(`${id}:block:${JSON.stringify([language, blockCode, blockParameters])}`);
+        visit(getReferences(blockCode, blockParameters, orgFilePath, contentDir));
+      } else {
+        fingerprints.push(`${id}:${element.type}:${JSON.stringify(element.value)}`);
+      }
+    }
+  }
+
+  visit(getReferences(code, parameters, options.orgFilePath, contentDir));
+  return fingerprints;
+}
@@ -7,6 +7,9 @@ import {
 import { createServerHandler } from "../handler-factory.ts";
 import { createDefaultJavaScriptHandler } from "./javascript-handler.ts";
 import type { CodeBlock, TransformContext } from "../types.ts";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
 
 // Mock content helpers
 const mockContentHelpers = {
@@ -391,6 +394,74 @@ describe("Default serverPlugin", () => {
   });
 });
 
+describe("Server result caching", () => {
+  let cacheDir: string;
+  let runs: number;
+  let plugin: ReturnType<typeof createServerPlugin>;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "server-cache-test-"));
+    runs = 0;
+    plugin = createServerPlugin([
+      createServerHandler((params) => params.use === "server", {
+        async onServer(code) {
+          runs++;
+          return `${code} #${runs}`;
+        },
+      }),
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const run = (value: string, meta = ":use server", overrides: Partial<TransformContext> = {}) =>
+    plugin.onServer!(
+      { language: "javascript", value, meta },
+      createMockContext({ cacheDir, orgFilePath: "content/missing.org", ...overrides })
+    );
+
+  it("should reuse results for unchanged blocks", async () => {
+    await run("a");
+    const moved = await run("a", ":use server", { blockIndex: 3 });
+
+    expect(runs).toBe(1);
+    expect(moved.code).toContain("a #1");
+  });
+
+  it("should execute again when the block changes", async () => {
+    await run("a");
+    const edited = await run("b");
+
+    expect(runs).toBe(2);
+    expect(edited.code).toContain("b #2");
+  });
+
+  it("should not cache with :cache never", async () => {
+    await run("a", ":use server :cache never");
+    await run("a", ":use server :cache never");
+
+    expect(runs).toBe(2);
+  });
+
+  it("should expire results after a :cache duration", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      await run("a", ":use server :cache 1m");
+      vi.setSystemTime(Date.now() + 30_000);
+      await run("a", ":use server :cache 1m");
+      expect(runs).toBe(1);
+
+      vi.setSystemTime(Date.now() + 60_000);
+      await run("a", ":use server :cache 1m");
+      expect(runs).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
 describe("serverOnlyPlugin", () => {
   it("should throw error in browser", async () => {
     const result = await serverOnlyPlugin.transform!(
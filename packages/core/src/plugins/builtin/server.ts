@@ -15,15 +15,27 @@
  * - Has access to content helpers via `content` global
  * - Has access to Node.js `require`
  * - Results are injected as static HTML or client-side script
+ *
+ * Results are cached by content (see getServerResultKey): the block
+ * source, its parameters and the blocks/tables it references. The
+ * `:cache` header argument controls reuse:
+ * - `:cache forever` (default) - until the block or a dependency changes
+ * - `:cache 1h` - additionally expire after a duration
+ * - `:cache never` - always execute
  */
 
 import type { BlockPlugin, ServerHandler, TransformContext } from "../types.ts";
 import { parseBlockParameters, createBlockId } from "../utils.ts";
 import {
   cacheServerResult,
+  getServerResultKey,
+  parseCachePolicy,
   readCachedServerResult,
+  type ServerCachePolicy,
 } from "../../cache.ts";
+import { collectServerDependencies } from "./server-dependencies.ts";
 import { createDefaultJavaScriptHandler } from "./javascript-handler.ts";
+import { createDefaultProcessHandlers } from "./process-handlers.ts";
 
 /**
  * Create server execution plugin with custom handlers
@@ -115,14 +127,37 @@ export function createServerPlugin(handlers: ServerHandler[]): BlockPlugin {
         };
       }
 
+      let cachePolicy: ServerCachePolicy;
+      try {
+        cachePolicy = parseCachePolicy(params.cache);
+      } catch (error) {
+        console.warn(
+          `[server-plugin] ${(error as Error).message} in ${context.orgFilePath}, caching forever`
+        );
+        cachePolicy = { type: "forever" };
+      }
+
+      const cacheKey =
+        cachePolicy.type === "never"
+          ? undefined
+          : getServerResultKey({
+              orgFilePath: context.orgFilePath,
+              language: block.language,
+              code: block.value,
+              parameters: params,
+              dependencies: collectServerDependencies(block.value, params, {
+                orgFilePath: context.orgFilePath,
+                contentDir: context.contentDir,
+              }),
+            });
+
       // Check cache first
       let result;
       let cached = false;
 
-      const cachedResult = await readCachedServerResult(
-        context.orgFilePath,
-        context.blockIndex
-      );
+      const cachedResult = cacheKey
+        ? await readCachedServerResult(cacheKey, context.cacheDir)
+        : null;
 
       if (cachedResult !== null) {
         result = cachedResult;
@@ -159,11 +194,19 @@ export function createServerPlugin(handlers: ServerHandler[]): BlockPlugin {
         result = executionResult.result;
 
         // Cache result
-        await cacheServerResult(
-          context.orgFilePath,
-          context.blockIndex,
-          result
-        );
+        if (cacheKey) {
+          await cacheServerResult(
+            cacheKey,
+            result,
+            {
+              orgFilePath: context.orgFilePath,
+              blockIndex: context.blockIndex,
+              blockName: context.blockName,
+              ttl: cachePolicy.type === "ttl" ? cachePolicy.ttl : undefined,
+            },
+            context.cacheDir
+          );
+        }
       }
 
       // Generate display code
@@ -195,10 +238,11 @@ export function createServerPlugin(handlers: ServerHandler[]): BlockPlugin {
 }
 
 /**
- * Default server plugin with JavaScript handler
+ * Default server plugin with the built-in handlers
  *
  * Convenience export for the common case.
- * Uses createDefaultJavaScriptHandler() with default options.
+ * Uses createDefaultJavaScriptHandler() and createDefaultProcessHandlers()
+ * (sh/bash, python, sqlite) with default options.
  *
  * @example
  * ```typescript
@@ -211,6 +255,7 @@ export function createServerPlugin(handlers: ServerHandler[]): BlockPlugin {
  */
 export const serverPlugin = createServerPlugin([
   createDefaultJavaScriptHandler(),
+  ...createDefaultProcessHandlers(),
 ]);
 
 /**
@@ -0,0 +1,37 @@
+/**
+ * Tangle Plugin
+ *
+ * Provides the `orgp tangle` CLI command for extracting code blocks
+ * with a :tangle header argument into external files.
+ *
+ * Usage:
+ *   orgp tangle                      # Tangle all org files
+ *   orgp tangle --check              # Check only, exit 1 if outputs are stale
+ *   orgp tangle content/lib.org      # Tangle specific files
+ */
+
+import type { BlockPlugin, CliContext } from "../types.ts";
+import { runTangle } from "../../cli/commands/tangle.ts";
+
+/**
+ * Tangle plugin for org-press
+ *
+ * This plugin only provides CLI functionality - it doesn't transform blocks.
+ * The `orgp tangle` command writes tangled files without building the site.
+ */
+export const tanglePlugin: BlockPlugin = {
+  name: "tangle",
+  defaultExtension: "js", // Required by interface but not used
+
+  /**
+   * CLI command for tangling code blocks
+   */
+  cli: {
+    command: "tangle",
+    description: "Write :tangle code blocks to external files",
+
+    async execute(args: string[], context: CliContext): Promise<number> {
+      return runTangle(args, context);
+    },
+  },
+};
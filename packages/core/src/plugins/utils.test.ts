@@ -190,6 +190,35 @@ describe("Plugin Utilities", () => {
         height: "400px",
       });
     });
+
+    it("should keep spaces inside quoted values", () => {
+      const params = parseBlockParameters(
+        ':tangle run.js :shebang "#!/usr/bin/env node" :mkdirp yes'
+      );
+      expect(params).toEqual({
+        tangle: "run.js",
+        shebang: "#!/usr/bin/env node",
+        mkdirp: "yes",
+      });
+    });
+
+    it("should handle hyphenated parameter names", () => {
+      const params = parseBlockParameters(":noweb-ref setup :noweb yes");
+      expect(params).toEqual({
+        "noweb-ref": "setup",
+        noweb: "yes",
+      });
+    });
+
+    it("should collect repeated :var parameters", () => {
+      const params = parseBlockParameters(
+        ':var data=sales :var title="Q3: sales, all" :use server'
+      );
+      expect(params).toEqual({
+        use: "server",
+        var: 'data=sales, title="Q3: sales, all"',
+      });
+    });
   });
 
   describe("usesPlugin", () => {
@@ -105,6 +105,12 @@ export function rewriteOrgImports(
  * parseBlockParameters(":exec")
  * // Returns: { exec: "" }
  *
+ * parseBlockParameters(':tangle run.sh :shebang "#!/bin/sh"')
+ * // Returns: { tangle: "run.sh", shebang: "#!/bin/sh" }
+ *
+ * parseBlockParameters(':var data=sales :var title="Q3 sales"')
+ * // Returns: { var: 'data=sales, title="Q3 sales"' } (see parseVarAssignments)
+ *
  * parseBlockParameters(null)
  * // Returns: {}
  */
@@ -122,21 +128,46 @@ export function parseBlockParameters(
     params.use = useMatch[1].trim();
   }
 
-  // Match :key value patterns for other parameters
-  // The value can be any non-whitespace, non-colon sequence
-  const keyValueRegex = /:(\w+)\s+([^\s:]+)/g;
+  // :var may repeat and its values may contain quoted spaces
+  // (e.g., :var data=sales :var title="Q3 sales"); collect all of them
+  const varValues: string[] = [];
+  const varRegex = /:var\s+((?:"[^"]*"|[^\s:"]|:(?!\w)|\s(?!\s*:[\w-]))+)/g;
   let match;
 
+  while ((match = varRegex.exec(meta)) !== null) {
+    varValues.push(match[1].trim().replace(/,$/, ""));
+  }
+  if (varValues.length > 0) {
+    params.var = varValues.join(", ");
+  }
+
+  // Match :key "quoted value" patterns first - quoted values may contain spaces
+  // (e.g., :shebang "#!/usr/bin/env node")
+  const quotedRegex = /:([\w-]+)\s+"([^"]*)"/g;
+  const quotedKeys = new Set<string>();
+
+  while ((match = quotedRegex.exec(meta)) !== null) {
+    const [, key, value] = match;
+    if (key === "use" || key === "var") continue;
+    params[key] = value;
+    quotedKeys.add(key);
+  }
+
+  // Match :key value patterns for other parameters
+  // The value can be any non-whitespace, non-colon sequence.
+  // Keys may contain hyphens (e.g., :noweb-ref)
+  const keyValueRegex = /:([\w-]+)\s+([^\s:]+)/g;
+
   while ((match = keyValueRegex.exec(meta)) !== null) {
     const [, key, value] = match;
-    // Skip :use - already handled specially
-    if (key === "use") continue;
+    // Skip :use and :var - already handled specially
+    if (key === "use" || key === "var" || quotedKeys.has(key)) continue;
     params[key] = value;
   }
 
   // Also match :key flags (parameters without values)
   // These are :key followed by end of string, another :key, or only whitespace
-  const flagRegex = /:(\w+)(?=\s*$|\s*:|\s+(?![^\s:]))/g;
+  const flagRegex = /:([\w-]+)(?=\s*$|\s*:|\s+(?![^\s:]))/g;
   while ((match = flagRegex.exec(meta)) !== null) {
     const [, key] = match;
     // Only add if not already set by key-value pattern
@@ -0,0 +1,125 @@
+import type { Element } from "hast";
+import type { SearchSection } from "./types.ts";
+
+/**
+ * Rehype plugin for extracting searchable text per heading section
+ *
+ * Splits the document at every heading and collects the plain text
+ * between one heading and the next. Sections use the heading IDs
+ * assigned by rehypeHeadingIds (the same IDs rehypeTocExtract reports),
+ * so search results can deep-link to `#heading-id`.
+ *
+ * Text before the first heading goes into a section with an empty id.
+ * Code listings, scripts and styles are not indexed.
+ *
+ * Usage:
+ * ```typescript
+ * const sections: SearchSection[] = [];
+ * const processor = unified()
+ *   .use(uniorg2rehype)
+ *   .use(rehypeHeadingIds)
+ *   .use(rehypeSearchExtract, { sections });
+ * await processor.run(ast);
+ * ```
+ */
+
+interface RehypeSearchExtractOptions {
+  /** Array to populate with sections (mutated in place) */
+  sections: SearchSection[];
+}
+
+/** Elements whose text is not indexed */
+const SKIPPED_TAGS = new Set(["pre", "script", "style", "template"]);
+
+/** Elements that separate words when their text is joined */
+const BLOCK_TAGS = new Set([
+  "p", "div", "li", "ul", "ol", "dl", "dt", "dd", "table", "tr", "td", "th",
+  "blockquote", "section", "article", "br", "hr", "figure", "figcaption",
+]);
+
+/**
+ * Extract text content from an element and its children
+ */
+function extractText(node: Element): string {
+  let text = "";
+
+  const walk = (n: any) => {
+    if (n.type === "text") {
+      text += n.value;
+    } else if (n.children) {
+      n.children.forEach(walk);
+    }
+  };
+
+  walk(node);
+  return text;
+}
+
+/**
+ * Collapse whitespace runs into single spaces
+ */
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Rehype plugin that extracts search sections from the document
+ *
+ * @param options - Configuration options
+ * @returns Unified plugin transformer
+ */
+export function rehypeSearchExtract(options: RehypeSearchExtractOptions) {
+  const { sections } = options;
+
+  return (tree: any) => {
+    let current: SearchSection = { id: "", heading: "", level: 0, text: "" };
+    const parts: string[] = [];
+
+    const flush = () => {
+      const text = normalizeWhitespace(parts.join(""));
+      if (current.heading || text) {
+        sections.push({ ...current, text });
+      }
+      parts.length = 0;
+    };
+
+    const walk = (node: any) => {
+      if (node.type === "text") {
+        parts.push(node.value);
+        return;
+      }
+
+      if (node.type !== "element" && node.type !== "root") {
+        return;
+      }
+
+      if (node.type === "element") {
+        if (SKIPPED_TAGS.has(node.tagName)) {
+          return;
+        }
+
+        const match = node.tagName.match(/^h([1-6])$/);
+        if (match) {
+          flush();
+          const id = node.properties?.id;
+          current = {
+            id: typeof id === "string" ? id : "",
+            heading: normalizeWhitespace(extractText(node)),
+            level: parseInt(match[1], 10),
+            text: "",
+          };
+          return;
+        }
+      }
+
+      node.children?.forEach(walk);
+
+      if (node.type === "element" && BLOCK_TAGS.has(node.tagName)) {
+        parts.push(" ");
+      }
+    };
+
+    walk(tree);
+    flush();
+  };
+}
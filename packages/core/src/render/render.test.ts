@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { parseOrgFile } from "../parser/parse-content.ts";
+import { extractSearchSections, renderOrgToHtml } from "./render.ts";
+
+describe("renderOrg", () => {
+  it("should render computed table formula cells", async () => {
+    const { ast, metadata } = parseOrgFile(`| qty | price | total |
+|-----+-------+-------|
+| 3 | *1.5* | |
+| 2 | 4 | |
+|-----+-------+-------|
+| | | |
+#+TBLFM: $3=$1*$2
+#+TBLFM: @>$1=vsum(@I..@II)
+`);
+
+    const html = await renderOrgToHtml(ast, { base: "/", metadata });
+
+    expect(html).toContain("<td>3</td><td><strong>1.5</strong></td><td>4.5</td>");
+    expect(html).toContain("<td>2</td><td>4</td><td>8</td>");
+    expect(html).toContain("<td>5</td><td></td><td>0</td>");
+  });
+
+  it("should link translated pages to the translations that exist", async () => {
+    const { ast, metadata } = parseOrgFile(`[[file:blog/post1.org][One]] [[file:blog/post2.org][Two]]
+`);
+
+    const html = await renderOrgToHtml(ast, {
+      base: "/docs/",
+      metadata,
+      locale: "ja",
+      i18n: { locales: ["en", "ja"], defaultLocale: "en", strategy: "suffix" },
+      pageUrls: ["/", "/ja", "/blog/post1", "/ja/blog/post1", "/blog/post2"],
+    });
+
+    expect(html).toContain('href="/docs/ja/blog/post1.html"');
+    expect(html).toContain('href="/docs/blog/post2.html"');
+  });
+});
+
+describe("extractSearchSections", () => {
+  it("should split text at headings using the rendered heading ids", async () => {
+    const { ast, metadata } = parseOrgFile(`#+TITLE: Guide
+
+Welcome to *org-press*.
+
+* Getting Started
+Install the package.
+
+- one
+- two
+
+#+begin_src js
+const hidden = true;
+#+end_src
+
+** Getting Started
+Nested.
+`);
+
+    const sections = await extractSearchSections(ast, { base: "/", metadata });
+    const html = await renderOrgToHtml(ast, { base: "/", metadata });
+
+    expect(sections).toEqual([
+      { id: "", heading: "", level: 0, text: "Welcome to org-press." },
+      { id: "getting-started", heading: "Getting Started", level: 1, text: "Install the package. one two" },
+      { id: "getting-started-1", heading: "Getting Started", level: 2, text: "Nested." },
+    ]);
+    expect(html).toContain('id="getting-started-1"');
+  });
+});
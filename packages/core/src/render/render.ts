@@ -5,9 +5,15 @@ import rehypeRaw from "rehype-raw";
 import rehypeHighlight from "rehype-highlight";
 import { visit } from "unist-util-visit";
 import type { OrgData } from "uniorg";
-import type { RenderContext, RenderResult, TocItem } from "./types.ts";
+import type { RenderContext, RenderResult, SearchSection, TocItem } from "./types.ts";
+import type { I18nConfig } from "../config/types.ts";
+import { getUrlLocale, localizeUrl } from "../routing/i18n.ts";
 import { rehypeHeadingIds } from "./rehype-heading-ids.ts";
 import { rehypeTocExtract } from "./rehype-toc-extract.ts";
+import { rehypeSearchExtract } from "./rehype-search-extract.ts";
+import { uniorgMath } from "./uniorg-math.ts";
+import { getNodeText } from "../parser/tables.ts";
+import { evaluateTableFormulas, type TableRow } from "../parser/table-formulas.ts";
 
 /**
  * Render layer
@@ -16,6 +22,54 @@ import { rehypeTocExtract } from "./rehype-toc-extract.ts";
  * Pure functions that receive AST and return HTML.
  */
 
+/**
+ * Locale of a translated page, for linking to pages in that locale
+ */
+interface LinkLocalization {
+  locale: string;
+  i18n: I18nConfig;
+  /** URL paths of all pages, including translations */
+  pageUrls: string[];
+}
+
+/**
+ * Get the link localization of a render context
+ *
+ * @returns The localization, or undefined without i18n
+ */
+function getLinkLocalization(context: RenderContext): LinkLocalization | undefined {
+  const { locale, i18n, pageUrls } = context;
+  return locale && i18n && pageUrls ? { locale, i18n, pageUrls } : undefined;
+}
+
+/**
+ * Point a link to a locale-neutral page at the page's translation
+ *
+ * @param href - Root-relative link (e.g. "/blog/post1.html#intro")
+ * @returns The link to the translation, or the link unchanged if the
+ *   page has no translation in the locale
+ *
+ * @example
+ * localizeLink("/blog/post1.html", { locale: "ja", i18n, pageUrls: ["/ja/blog/post1"] })
+ * // "/ja/blog/post1.html"
+ */
+function localizeLink(href: string, { locale, i18n, pageUrls }: LinkLocalization): string {
+  const [, path, suffix] = /^([^?#]*)(.*)$/.exec(href)!;
+  const url = path.replace(/\.html$/, "").replace(/\/index$/, "").toLowerCase() || "/";
+
+  // Links that already name a locale stay as they are
+  if (getUrlLocale(url, i18n).locale !== i18n.defaultLocale) {
+    return href;
+  }
+
+  const translation = localizeUrl(url, locale, i18n);
+  if (translation === url || !pageUrls.includes(translation)) {
+    return href;
+  }
+
+  return localizeUrl(path, locale, i18n) + suffix;
+}
+
 /**
  * Rehype plugin to transform org-mode file links to HTML links
  *
@@ -23,15 +77,22 @@ import { rehypeTocExtract } from "./rehype-toc-extract.ts";
  * - file:sicilia/page.org → /sicilia/page.html
  * - Relative paths: ./other.org → /current-dir/other.html
  * - Handles .org extension conversion
+ * - In translated pages, links to pages with a translation go to it
  *
  * @param currentFilePath - Path of current org file (e.g., "plugins/index.org")
  * @param base - Base URL path (e.g., "/" or "/org-press")
+ * @param localization - Locale of a translated page (with i18n)
  */
-function rehypeOrgLinks(currentFilePath?: string, base: string = "/") {
+function rehypeOrgLinks(
+  currentFilePath?: string,
+  base: string = "/",
+  localization?: LinkLocalization
+) {
   return (tree: any) => {
     visit(tree, "element", (node: any) => {
       if (node.tagName === "a" && node.properties?.href) {
         let href = node.properties.href;
+        const isOrgLink = href.startsWith("file:") || href.endsWith(".org");
 
         // Handle file: protocol links
         if (href.startsWith("file:")) {
@@ -69,9 +130,13 @@ function rehypeOrgLinks(currentFilePath?: string, base: string = "/") {
           href = href.replace(/\.org$/, ".html");
         }
 
+        if (localization && isOrgLink && href.startsWith("/")) {
+          href = localizeLink(href, localization);
+        }
+
         // Apply base path
         if (base !== "/" && href.startsWith("/") && !href.startsWith(base)) {
-          href = base + href;
+          href = base.replace(/\/+$/, "") + href;
         }
 
         node.properties.href = href;
@@ -80,32 +145,92 @@ function rehypeOrgLinks(currentFilePath?: string, base: string = "/") {
   };
 }
 
+/**
+ * Uniorg plugin to evaluate #+TBLFM: table formulas
+ *
+ * Runs on the org AST before conversion to HTML. Cells whose value
+ * changes are replaced with the computed text; other cells keep their
+ * markup.
+ */
+function uniorgTableFormulas() {
+  return (tree: any) => {
+    visit(tree, "table", (table: any) => {
+      if (!table.tblfm) return;
+
+      const rows: any[] = (table.children || []).filter(
+        (row: any) => row.type === "table-row"
+      );
+      const current: TableRow[] = rows.map((row) =>
+        row.rowType === "rule"
+          ? "hline"
+          : (row.children || []).map((cell: any) => getNodeText(cell).trim())
+      );
+
+      let computed: TableRow[];
+      try {
+        computed = evaluateTableFormulas(current, table.tblfm);
+      } catch (error) {
+        console.warn(
+          `[render] Invalid #+TBLFM: ${table.tblfm}: ${error instanceof Error ? error.message : error}`
+        );
+        return;
+      }
+
+      rows.forEach((row, rowIndex) => {
+        const before = current[rowIndex];
+        const after = computed[rowIndex];
+        if (before === "hline" || after === "hline") return;
+
+        after.forEach((value, column) => {
+          if (value === before[column]) return;
+
+          const text = { type: "text", value };
+          if (column < row.children.length) {
+            row.children[column].children = [text];
+          } else {
+            row.children.push({ type: "table-cell", children: [text] });
+          }
+        });
+      });
+    });
+  };
+}
+
 /**
  * Create unified processor for org-mode → HTML conversion
  *
  * Pipeline:
- * 1. uniorg2rehype - org AST → rehype (HTML AST)
- * 2. rehype-raw - handle raw HTML in org content
- * 3. rehypeOrgLinks - transform org file links
- * 4. rehypeHeadingIds - add IDs to headings
- * 5. rehypeTocExtract - extract TOC from headings (optional)
- * 6. rehype-highlight - syntax highlighting for code blocks
- * 7. rehype-stringify - HTML AST → HTML string
+ * 1. uniorgTableFormulas - evaluate table formulas
+ * 2. uniorgMath - typeset LaTeX fragments and environments
+ * 3. uniorg2rehype - org AST → rehype (HTML AST)
+ * 4. rehype-raw - handle raw HTML in org content
+ * 5. rehypeOrgLinks - transform org file links
+ * 6. rehypeHeadingIds - add IDs to headings
+ * 7. rehypeTocExtract - extract TOC from headings (optional)
+ * 8. rehypeSearchExtract - extract search sections (optional)
+ * 9. rehype-highlight - syntax highlighting for code blocks
+ * 10. rehype-stringify - HTML AST → HTML string
  *
  * @param orgFilePath - Path to org file (for link resolution)
  * @param base - Base URL path
  * @param toc - Optional array to populate with TOC items
+ * @param sections - Optional array to populate with search sections
+ * @param localization - Locale of a translated page (for link localization)
  * @returns Unified processor
  */
 function createOrgProcessor(
   orgFilePath?: string,
   base: string = "/",
-  toc?: TocItem[]
+  toc?: TocItem[],
+  sections?: SearchSection[],
+  localization?: LinkLocalization
 ) {
   let processor = unified()
+    .use(uniorgTableFormulas)
+    .use(uniorgMath)
     .use(uniorg2rehype)
     .use(rehypeRaw)
-    .use(rehypeOrgLinks, orgFilePath, base)
+    .use(rehypeOrgLinks, orgFilePath, base, localization)
     .use(rehypeHeadingIds);
 
   // Add TOC extraction if array provided
@@ -113,6 +238,11 @@ function createOrgProcessor(
     processor = processor.use(rehypeTocExtract, { toc });
   }
 
+  // Add search extraction if array provided
+  if (sections) {
+    processor = processor.use(rehypeSearchExtract, { sections });
+  }
+
   return processor.use(rehypeHighlight).use(html);
 }
 
@@ -144,7 +274,13 @@ export async function renderOrg(
   const toc: TocItem[] = [];
 
   // Create processor with context and TOC extraction
-  const processor = createOrgProcessor(undefined, context.base, toc);
+  const processor = createOrgProcessor(
+    undefined,
+    context.base,
+    toc,
+    undefined,
+    getLinkLocalization(context)
+  );
 
   // Convert AST to rehype (HTML AST)
   const rehypeTree = await processor.run(ast);
@@ -179,6 +315,39 @@ export async function renderOrgToHtml(
   return result.html;
 }
 
+/**
+ * Extract searchable text per heading section
+ *
+ * Runs the render pipeline without stringifying, so section IDs match
+ * the heading IDs of the rendered page.
+ *
+ * @param ast - Org-mode AST
+ * @param context - Render context
+ * @returns Sections in document order
+ *
+ * @example
+ * const sections = await extractSearchSections(ast, context);
+ * // [{ id: "", heading: "", level: 0, text: "Intro..." },
+ * //  { id: "install", heading: "Install", level: 2, text: "Run npm..." }]
+ */
+export async function extractSearchSections(
+  ast: OrgData,
+  context: RenderContext
+): Promise<SearchSection[]> {
+  const sections: SearchSection[] = [];
+  const processor = createOrgProcessor(
+    undefined,
+    context.base,
+    undefined,
+    sections,
+    getLinkLocalization(context)
+  );
+
+  await processor.run(ast);
+
+  return sections;
+}
+
 /**
  * Render with custom rehype plugins
  *
@@ -201,7 +370,13 @@ export async function renderOrgWithPlugins(
   context: RenderContext,
   plugins: Array<any>
 ): Promise<string> {
-  let processor = createOrgProcessor(undefined, context.base);
+  let processor = createOrgProcessor(
+    undefined,
+    context.base,
+    undefined,
+    undefined,
+    getLinkLocalization(context)
+  );
 
   // Add custom plugins
   for (const plugin of plugins) {
@@ -1,5 +1,6 @@
 import type { OrgData } from "uniorg";
-import type { PageMetadata } from "../config/types.ts";
+import type { I18nConfig, PageMetadata } from "../config/types.ts";
+import type { Translation } from "../routing/i18n.ts";
 
 /**
  * Render layer types
@@ -25,6 +26,15 @@ export interface RenderContext {
 
   /** Environment mode */
   mode?: "development" | "production";
+
+  /** Locale of the page (with i18n) */
+  locale?: string;
+
+  /** I18n config, to link translated pages to their locale's pages */
+  i18n?: I18nConfig;
+
+  /** URL paths of all pages, including translations (with i18n) */
+  pageUrls?: string[];
 }
 
 /**
@@ -45,6 +55,12 @@ export interface LayoutProps {
   /** Table of contents extracted from headings */
   toc?: TocItem[];
 
+  /** Locale of the page (with i18n) */
+  locale?: string;
+
+  /** Translations of the page, including itself (with i18n) */
+  translations?: Translation[];
+
   /** Additional props for layout customization */
   [key: string]: any;
 }
@@ -73,6 +89,23 @@ export interface TocItem {
   level: number;
 }
 
+/**
+ * Searchable text of one heading section
+ */
+export interface SearchSection {
+  /** Heading ID (empty for text before the first heading) */
+  id: string;
+
+  /** Heading text content (empty before the first heading) */
+  heading: string;
+
+  /** Heading level (0 before the first heading) */
+  level: number;
+
+  /** Plain text up to the next heading */
+  text: string;
+}
+
 /**
  * Result of rendering
  */
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parseOrgFile } from "../parser/parse-content.ts";
+import { renderOrgToHtml } from "./render.ts";
+
+async function render(source: string): Promise<string> {
+  const { ast, metadata } = parseOrgFile(source);
+  return renderOrgToHtml(ast, { base: "/", metadata });
+}
+
+describe("uniorgMath", () => {
+  it("should typeset inline and display fragments to MathML", async () => {
+    const html = await render("Inline \\(a^2\\) and $x$, display $$b$$.\n");
+
+    expect(html).toContain('<span class="math math-inline"><span class="katex"><math');
+    expect(html).toContain("<msup><mi>a</mi><mn>2</mn></msup>");
+    expect(html).toContain('<span class="math math-display"><span class="katex"><math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+    expect(html).not.toContain("\\(");
+  });
+
+  it("should number environments and resolve references", async () => {
+    const html = await render(`\\begin{equation}\\label{eq:energy}
+E = mc^2
+\\end{equation}
+
+\\begin{equation*}
+a = b
+\\end{equation*}
+
+\\begin{align}
+x &= 1
+\\end{align}
+
+See \\ref{eq:energy}, \\eqref{eq:energy} and \\ref{missing}.
+`);
+
+    expect(html).toContain('<div class="math math-display" id="eq-energy">');
+    expect(html).toContain('<span class="math-number">(1)</span>');
+    expect(html).toContain('<span class="math-number">(2)</span>');
+    expect(html).not.toContain("(3)");
+    expect(html).not.toContain("\\label");
+    expect(html).toContain('See <a class="math-ref" href="#eq-energy">1</a>');
+    expect(html).toContain('<a class="math-ref" href="#eq-energy">(1)</a>');
+    expect(html).toContain('<span class="math-ref">??</span>');
+  });
+
+  it("should report invalid LaTeX inline instead of failing", async () => {
+    const html = await render("Broken \\(\\frac{1}\\).\n");
+
+    expect(html).toContain("katex-error");
+  });
+
+  it("should leave LaTeX as written with tex:nil", async () => {
+    const html = await render("#+OPTIONS: tex:nil\n\nInline \\(a^2\\).\n");
+
+    expect(html).toContain('<span class="math math-inline">a^2</span>');
+    expect(html).not.toContain("<math");
+  });
+
+  it("should show LaTeX source with tex:verbatim", async () => {
+    const html = await render("#+OPTIONS: toc:nil tex:verbatim\n\nInline \\(a^2\\).\n");
+
+    expect(html).toContain('<code class="math-source">\\(a^2\\)</code>');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Uniorg plugin for server-side math typesetting
+ *
+ * Renders LaTeX fragments and environments to MathML with KaTeX, so
+ * pages need no client JavaScript or stylesheet to show math:
+ *
+ * - `\( … \)` and `$ … $` - inline math
+ * - `\[ … \]` and `$$ … $$` - display math
+ * - `\begin{equation} … \end{equation}` - numbered display math
+ *   (also align, gather, multline; starred variants are unnumbered)
+ * - `\label{name}` inside a numbered environment, referenced with
+ *   `\ref{name}` (→ 1) or `\eqref{name}` (→ (1))
+ *
+ * Per-page control with `#+OPTIONS: tex:`:
+ * - `tex:t` (default) - typeset math
+ * - `tex:nil` - leave LaTeX as written
+ * - `tex:verbatim` - show LaTeX source as code
+ *
+ * Runs on the org AST before uniorg2rehype; rendered math replaces the
+ * latex nodes as HTML export snippets.
+ */
+
+import katex from "katex";
+import { visit } from "unist-util-visit";
+
+/**
+ * Environments that get an equation number
+ */
+const NUMBERED_ENVIRONMENTS = ["equation", "align", "gather", "multline"];
+
+/**
+ * Escape HTML special characters
+ */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Convert a \label name to an element ID
+ *
+ * @example
+ * labelToId("eq:energy") // "eq-energy"
+ */
+function labelToId(label: string): string {
+  return label.replace(/[^A-Za-z0-9_-]+/g, "-");
+}
+
+/**
+ * Typeset LaTeX to MathML
+ */
+function typeset(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, {
+    displayMode,
+    output: "mathml",
+    throwOnError: false,
+    strict: false,
+  });
+}
+
+/**
+ * Read the `tex:` setting from #+OPTIONS: keywords
+ */
+function getTexOption(tree: any): string {
+  let option = "t";
+  visit(tree, "keyword", (node: any) => {
+    if (node.key?.toUpperCase() !== "OPTIONS") return;
+    const match = String(node.value).match(/(?:^|\s)tex:(\S+)/);
+    if (match) option = match[1];
+  });
+  return option;
+}
+
+/**
+ * Replace a latex node with raw HTML
+ *
+ * Environments become export blocks, fragments inline export snippets.
+ */
+function replaceWithHtml(node: any, html: string): void {
+  const replacement =
+    node.type === "latex-environment"
+      ? { type: "export-block", backend: "html", value: html }
+      : { type: "export-snippet", backEnd: "html", value: html };
+
+  for (const key of Object.keys(node)) {
+    if (key !== "position") delete node[key];
+  }
+  Object.assign(node, replacement);
+}
+
+/**
+ * Uniorg plugin to typeset math
+ */
+export function uniorgMath() {
+  return (tree: any) => {
+    const option = getTexOption(tree);
+    if (option === "nil") return;
+
+    if (option === "verbatim") {
+      visit(tree, ["latex-fragment", "latex-environment"], (node: any) => {
+        const code = `<code class="math-source">${escapeHtml(node.value)}</code>`;
+        replaceWithHtml(
+          node,
+          node.type === "latex-environment" ? `<div class="math math-display">${code}</div>` : code
+        );
+      });
+      return;
+    }
+
+    // Number environments first so references can point forward
+    const numbers = new Map<string, number>();
+    const environments: any[] = [];
+    let counter = 0;
+
+    visit(tree, "latex-environment", (node: any) => {
+      const match = String(node.value).match(/^\s*\\begin\{(\w+)(\*?)\}/);
+      const numbered = !!match && !match[2] && NUMBERED_ENVIRONMENTS.includes(match[1]);
+      const labels = [...String(node.value).matchAll(/\\label\{([^}]+)\}/g)].map((m) => m[1]);
+      const number = numbered ? ++counter : undefined;
+
+      if (number !== undefined) {
+        for (const label of labels) numbers.set(label, number);
+      }
+      environments.push({ node, environment: match?.[1], number, label: labels[0] });
+    });
+
+    for (const { node, environment, number, label } of environments) {
+      let tex = String(node.value).replace(/\\label\{[^}]+\}/g, "");
+      if (number !== undefined) {
+        // Numbers are added outside KaTeX so \ref can use them
+        tex = tex
+          .replace(`\\begin{${environment}}`, `\\begin{${environment}*}`)
+          .replace(`\\end{${environment}}`, `\\end{${environment}*}`);
+      }
+
+      const id = label ? ` id="${labelToId(label)}"` : "";
+      const numberHtml =
+        number !== undefined ? `<span class="math-number">(${number})</span>` : "";
+      replaceWithHtml(
+        node,
+        `<div class="math math-display"${id}>${typeset(tex.trim(), true)}${numberHtml}</div>`
+      );
+    }
+
+    visit(tree, "latex-fragment", (node: any) => {
+      const value = String(node.value);
+
+      const ref = value.match(/^\\(eq)?ref\{([^}]+)\}$/);
+      if (ref) {
+        const number = numbers.get(ref[2]);
+        const text = number === undefined ? "??" : ref[1] ? `(${number})` : String(number);
+        replaceWithHtml(
+          node,
+          number === undefined
+            ? `<span class="math-ref">${text}</span>`
+            : `<a class="math-ref" href="#${labelToId(ref[2])}">${text}</a>`
+        );
+        return;
+      }
+
+      const display = value.startsWith("$$") || value.startsWith("\\[");
+      const tex = String(node.contents ?? value).trim();
+      replaceWithHtml(
+        node,
+        `<span class="math ${display ? "math-display" : "math-inline"}">${typeset(tex, display)}</span>`
+      );
+    });
+  };
+}
@@ -191,8 +191,8 @@ describe("resolveOrgImport", () => {
       manifest
     );
 
-    expect(result.ok).toBe(true);
-    if (result.ok) {
+    expect(result.ok && result.resolved.kind).toBe("block");
+    if (result.ok && result.resolved.kind === "block") {
       expect(result.resolved.orgFilePath).toBe("utils.org");
       expect(result.resolved.block.name).toBe("helpers");
       expect(result.resolved.extension).toBe("ts");
@@ -265,6 +265,44 @@ describe("resolveOrgImport", () => {
     }
   });
 
+  it("should resolve named tables when no block has the name", () => {
+    const manifest = createMockManifest({
+      "data.org": [{ name: "helpers" }],
+    });
+    manifest.tablesByFile = new Map([
+      [
+        "data.org",
+        [
+          {
+            id: "data.org:table:q3-sales",
+            orgFilePath: "data.org",
+            name: "q3-sales",
+            startLine: 2,
+            endLine: 5,
+            virtualModuleId: "virtual:org-press:block:table:data.org:NAME:q3-sales.js",
+            rows: [{ region: "north", total: 10 }],
+          },
+        ],
+      ],
+    ]);
+
+    const result = resolveOrgImport(
+      "./data.org?name=q3-sales",
+      "index.org",
+      contentDir,
+      manifest
+    );
+
+    expect(result.ok && result.resolved.kind).toBe("table");
+    if (result.ok && result.resolved.kind === "table") {
+      expect(result.resolved.table.name).toBe("q3-sales");
+      expect(result.resolved.extension).toBe("js");
+      expect(result.resolved.virtualModuleId).toBe(
+        "virtual:org-press:block:table:data.org:NAME:q3-sales.js"
+      );
+    }
+  });
+
   it("should return error for non-existent block", () => {
     const manifest = createMockManifest({
       "utils.org": [{ name: "helpers" }],
@@ -3,10 +3,13 @@
  *
  * Pure functions for resolving .org?name= imports.
  * Used by both Vite plugin and LSP - single source of truth.
+ *
+ * The name refers to a named src block, or else to a named table
+ * (imported as an array of row objects).
  */
 
 import { join, dirname, resolve, relative } from "path";
-import type { BlockManifest, BlockInfo } from "../dts/types.js";
+import type { BlockManifest, BlockInfo, TableInfo } from "../dts/types.js";
 import { createVirtualModuleId } from "../plugins/utils.js";
 
 /**
@@ -34,9 +37,10 @@ export interface OrgImportQuery {
 }
 
 /**
- * Successfully resolved org import
+ * Org import resolved to a named src block
  */
-export interface ResolvedOrgImport {
+export interface ResolvedOrgBlockImport {
+  kind: "block";
   /** Virtual module ID (same format as Vite plugin) */
   virtualModuleId: string;
   /** Org file path relative to content dir */
@@ -47,6 +51,26 @@ export interface ResolvedOrgImport {
   extension: string;
 }
 
+/**
+ * Org import resolved to a named table
+ */
+export interface ResolvedOrgTableImport {
+  kind: "table";
+  /** Virtual module ID (same format as Vite plugin) */
+  virtualModuleId: string;
+  /** Org file path relative to content dir */
+  orgFilePath: string;
+  /** The resolved table */
+  table: TableInfo;
+  /** File extension (always "js") */
+  extension: string;
+}
+
+/**
+ * Successfully resolved org import
+ */
+export type ResolvedOrgImport = ResolvedOrgBlockImport | ResolvedOrgTableImport;
+
 /**
  * Import resolution error
  */
@@ -197,6 +221,22 @@ function findBlockByName(
   return blocks.find((b) => b.name === blockName) || null;
 }
 
+/**
+ * Find a named table in the manifest
+ */
+function findTableByName(
+  manifest: BlockManifest,
+  orgFilePath: string,
+  tableName: string
+): TableInfo | null {
+  const tables = manifest.tablesByFile?.get(orgFilePath);
+  if (!tables) {
+    return null;
+  }
+
+  return tables.find((t) => t.name === tableName) || null;
+}
+
 /**
  * Resolve a complete .org?name= import
  * This is the main entry point - used by both Vite plugin and LSP
@@ -269,11 +309,27 @@ export function resolveOrgImport(
   const block = findBlockByName(manifest, resolvedOrgPath, query.blockName);
 
   if (!block) {
+    // Fall back to a named table
+    const table = findTableByName(manifest, resolvedOrgPath, query.blockName);
+
+    if (table) {
+      return {
+        ok: true,
+        resolved: {
+          kind: "table",
+          virtualModuleId: table.virtualModuleId,
+          orgFilePath: resolvedOrgPath,
+          table,
+          extension: "js",
+        },
+      };
+    }
+
     return {
       ok: false,
       error: {
         code: "BLOCK_NOT_FOUND",
-        message: `Block '${query.blockName}' not found in ${resolvedOrgPath}`,
+        message: `Block or table '${query.blockName}' not found in ${resolvedOrgPath}`,
         importPath,
       },
     };
@@ -297,6 +353,7 @@ export function resolveOrgImport(
   return {
     ok: true,
     resolved: {
+      kind: "block",
       virtualModuleId,
       orgFilePath: resolvedOrgPath,
       block,
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  getFileLocale,
+  getUrlLocale,
+  localizeUrl,
+  getTranslations,
+  resolveLocalizedOrgFile,
+} from "./i18n.ts";
+import { resolveRoutes } from "./routes.ts";
+import type { I18nConfig } from "../config/types.ts";
+
+describe("Locale-Aware Routing", () => {
+  const i18n: I18nConfig = { locales: ["en", "ja", "fr"], defaultLocale: "en" };
+  const suffix: I18nConfig = { ...i18n, strategy: "suffix" };
+
+  describe("getFileLocale", () => {
+    it("should read the locale directory", () => {
+      expect(getFileLocale("ja/guide/intro.org", i18n)).toEqual({
+        locale: "ja",
+        path: "guide/intro.org",
+      });
+      expect(getFileLocale("guide/intro.org", i18n)).toEqual({
+        locale: "en",
+        path: "guide/intro.org",
+      });
+    });
+
+    it("should read the locale suffix", () => {
+      expect(getFileLocale("guide/intro.ja.org", suffix)).toEqual({
+        locale: "ja",
+        path: "guide/intro.org",
+      });
+      expect(getFileLocale("index.fr.org", suffix)).toEqual({ locale: "fr", path: "index.org" });
+    });
+
+    it("should ignore unknown and default locales", () => {
+      expect(getFileLocale("de/intro.org", i18n).locale).toBe("en");
+      expect(getFileLocale("en/intro.org", i18n)).toEqual({ locale: "en", path: "en/intro.org" });
+      expect(getFileLocale("notes.v2.org", suffix)).toEqual({ locale: "en", path: "notes.v2.org" });
+      // A page named after a locale is not a locale directory
+      expect(getFileLocale("ja.org", i18n)).toEqual({ locale: "en", path: "ja.org" });
+    });
+  });
+
+  describe("getUrlLocale / localizeUrl", () => {
+    it("should split and prefix URLs", () => {
+      expect(getUrlLocale("/ja/guide/intro", i18n)).toEqual({ locale: "ja", path: "/guide/intro" });
+      expect(getUrlLocale("/ja", i18n)).toEqual({ locale: "ja", path: "/" });
+      expect(getUrlLocale("/guide/intro", i18n)).toEqual({ locale: "en", path: "/guide/intro" });
+
+      expect(localizeUrl("/guide/intro", "ja", i18n)).toBe("/ja/guide/intro");
+      expect(localizeUrl("/", "ja", i18n)).toBe("/ja");
+      expect(localizeUrl("/guide/intro", "en", i18n)).toBe("/guide/intro");
+    });
+  });
+
+  describe("getTranslations", () => {
+    it("should list translations in locale order", () => {
+      const pages = [
+        { url: "/ja/guide/intro" },
+        { url: "/fr/guide/intro" },
+        { url: "/guide/intro" },
+        { url: "/guide/setup" },
+      ];
+
+      expect(getTranslations(pages, "/fr/guide/intro", i18n)).toEqual([
+        { locale: "en", url: "/guide/intro" },
+        { locale: "ja", url: "/ja/guide/intro" },
+        { locale: "fr", url: "/fr/guide/intro" },
+      ]);
+      expect(getTranslations(pages, "/guide/setup", i18n)).toEqual([
+        { locale: "en", url: "/guide/setup" },
+      ]);
+    });
+  });
+
+  describe("with content", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "i18n-routing-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true });
+    });
+
+    function createFile(relativePath: string): void {
+      const fullPath = path.join(tempDir, relativePath);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, "");
+    }
+
+    function contentDir(): string {
+      return path.relative(process.cwd(), tempDir);
+    }
+
+    it("should resolve translations and fall back to the default locale", () => {
+      createFile("index.org");
+      createFile("guide/intro.org");
+      createFile("ja/guide/intro.org");
+
+      expect(resolveLocalizedOrgFile("/ja/guide/intro.html", contentDir(), i18n)).toEqual({
+        file: path.join(tempDir, "ja/guide/intro.org"),
+        locale: "ja",
+        fallback: false,
+      });
+      expect(resolveLocalizedOrgFile("/fr/guide/intro", contentDir(), i18n)).toEqual({
+        file: path.join(tempDir, "guide/intro.org"),
+        locale: "fr",
+        fallback: true,
+      });
+      expect(resolveLocalizedOrgFile("/ja/", contentDir(), i18n)).toEqual({
+        file: path.join(tempDir, "index.org"),
+        locale: "ja",
+        fallback: true,
+      });
+      expect(
+        resolveLocalizedOrgFile("/fr/guide/intro", contentDir(), { ...i18n, fallback: false })
+      ).toBeNull();
+      expect(resolveLocalizedOrgFile("/ja/guide/missing", contentDir(), i18n)).toBeNull();
+    });
+
+    it("should resolve suffixed translations", () => {
+      createFile("index.ja.org");
+      createFile("guide/index.ja.org");
+      createFile("guide/intro.ja.org");
+
+      expect(resolveLocalizedOrgFile("/ja", contentDir(), suffix)?.file).toBe(
+        path.join(tempDir, "index.ja.org")
+      );
+      expect(resolveLocalizedOrgFile("/ja/guide", contentDir(), suffix)?.file).toBe(
+        path.join(tempDir, "guide/index.ja.org")
+      );
+      expect(resolveLocalizedOrgFile("/ja/guide/intro", contentDir(), suffix)?.file).toBe(
+        path.join(tempDir, "guide/intro.ja.org")
+      );
+    });
+
+    it("should give routes locale-prefixed paths", () => {
+      createFile("guide/index.org");
+      createFile("guide/intro.org");
+      createFile("guide/intro.ja.org");
+
+      const routes = resolveRoutes(tempDir, { i18n: suffix });
+      const intro = routes.find((route) => route.file === "guide/intro.ja.org")!;
+
+      expect(intro.path).toBe("/ja/guide/intro");
+      expect(intro.locale).toBe("ja");
+      expect(routes.find((route) => route.file === "guide/intro.org")!.locale).toBe("en");
+    });
+  });
+});
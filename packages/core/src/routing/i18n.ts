@@ -0,0 +1,213 @@
+/**
+ * Locale-Aware Routing
+ *
+ * Maps translated content files to locale-prefixed URLs. The default
+ * locale is served without a prefix:
+ *
+ * - directory strategy: ja/guide/intro.org → /ja/guide/intro
+ * - suffix strategy: guide/intro.ja.org → /ja/guide/intro
+ * - guide/intro.org → /guide/intro (default locale, both strategies)
+ */
+
+import type { I18nConfig } from "../config/types.ts";
+import { getOrgFileFromUrl } from "../parser/parse-content.ts";
+
+/**
+ * A path split into its locale and locale-neutral part
+ */
+export interface LocalizedPath {
+  /** Locale of the path (e.g. "ja") */
+  locale: string;
+
+  /** Path without the locale (e.g. "guide/intro.org" or "/guide/intro") */
+  path: string;
+}
+
+/**
+ * A translation of a page
+ */
+export interface Translation {
+  /** Locale of the translation (e.g. "ja") */
+  locale: string;
+
+  /** URL path of the translation (e.g. "/ja/guide/intro") */
+  url: string;
+}
+
+/**
+ * Org file resolved for a localized URL
+ */
+export interface LocalizedOrgFile {
+  /** Absolute path to the org file */
+  file: string;
+
+  /** Locale of the URL */
+  locale: string;
+
+  /** Whether the file is the default-locale page standing in for a missing translation */
+  fallback: boolean;
+}
+
+/**
+ * Check if a locale is a translation (a configured, non-default locale)
+ */
+function isTranslationLocale(locale: string, i18n: I18nConfig): boolean {
+  return locale !== i18n.defaultLocale && i18n.locales.includes(locale);
+}
+
+/**
+ * Get the locale of a content file
+ *
+ * @param file - Path relative to the content directory
+ * @param i18n - I18n config
+ * @returns The locale and the file's locale-neutral path
+ *
+ * @example
+ * getFileLocale("ja/guide/intro.org", i18n)  // { locale: "ja", path: "guide/intro.org" }
+ * getFileLocale("guide/intro.ja.org", { ...i18n, strategy: "suffix" })
+ * // { locale: "ja", path: "guide/intro.org" }
+ */
+export function getFileLocale(file: string, i18n: I18nConfig): LocalizedPath {
+  const normalized = file.replace(/\\/g, "/");
+
+  if (i18n.strategy === "suffix") {
+    const match = /^(.*)\.([^./]+)\.org$/.exec(normalized);
+    if (match && isTranslationLocale(match[2], i18n)) {
+      return { locale: match[2], path: `${match[1]}.org` };
+    }
+  } else {
+    const [first, ...rest] = normalized.split("/");
+    if (rest.length > 0 && isTranslationLocale(first, i18n)) {
+      return { locale: first, path: rest.join("/") };
+    }
+  }
+
+  return { locale: i18n.defaultLocale, path: normalized };
+}
+
+/**
+ * Get the locale of a URL path
+ *
+ * @param url - URL path (e.g. "/ja/guide/intro")
+ * @param i18n - I18n config
+ * @returns The locale and the locale-neutral URL path
+ *
+ * @example
+ * getUrlLocale("/ja/guide/intro", i18n) // { locale: "ja", path: "/guide/intro" }
+ * getUrlLocale("/guide/intro", i18n)    // { locale: "en", path: "/guide/intro" }
+ */
+export function getUrlLocale(url: string, i18n: I18nConfig): LocalizedPath {
+  const [, first, ...rest] = url.split("/");
+
+  if (first && isTranslationLocale(first, i18n)) {
+    return { locale: first, path: `/${rest.join("/")}` };
+  }
+
+  return { locale: i18n.defaultLocale, path: url };
+}
+
+/**
+ * Get the URL path of a page in a locale
+ *
+ * @param url - Locale-neutral URL path (e.g. "/guide/intro")
+ * @param locale - Locale
+ * @param i18n - I18n config
+ *
+ * @example
+ * localizeUrl("/guide/intro", "ja", i18n) // "/ja/guide/intro"
+ * localizeUrl("/", "ja", i18n)            // "/ja"
+ * localizeUrl("/guide/intro", "en", i18n) // "/guide/intro"
+ */
+export function localizeUrl(url: string, locale: string, i18n: I18nConfig): string {
+  if (!isTranslationLocale(locale, i18n)) {
+    return url;
+  }
+  return url === "/" ? `/${locale}` : `/${locale}${url}`;
+}
+
+/**
+ * List the translations of a page
+ *
+ * @param pages - All pages (with locale-prefixed URLs)
+ * @param url - URL path of any translation of the page
+ * @param i18n - I18n config
+ * @returns Translations in the order of `i18n.locales` (including the page itself)
+ *
+ * @example
+ * getTranslations(pages, "/ja/guide/intro", i18n)
+ * // [{ locale: "en", url: "/guide/intro" }, { locale: "ja", url: "/ja/guide/intro" }]
+ */
+export function getTranslations(
+  pages: Array<{ url: string }>,
+  url: string,
+  i18n: I18nConfig
+): Translation[] {
+  const { path } = getUrlLocale(url, i18n);
+
+  return pages
+    .map((page) => ({ url: page.url, ...getUrlLocale(page.url, i18n) }))
+    .filter((page) => page.path === path)
+    .map(({ locale, url }) => ({ locale, url }))
+    .sort((a, b) => i18n.locales.indexOf(a.locale) - i18n.locales.indexOf(b.locale));
+}
+
+/**
+ * Find the org file of a locale-neutral URL in a locale
+ */
+function findLocalizedFile(
+  path: string,
+  locale: string,
+  contentDir: string,
+  i18n: I18nConfig
+): string | null {
+  if (!isTranslationLocale(locale, i18n)) {
+    return getOrgFileFromUrl(path, contentDir);
+  }
+
+  if (i18n.strategy === "suffix") {
+    // guide/intro.ja.org, then guide/intro/index.ja.org
+    return path === "/"
+      ? getOrgFileFromUrl(`/index.${locale}`, contentDir)
+      : getOrgFileFromUrl(`${path}.${locale}`, contentDir) ??
+          getOrgFileFromUrl(`${path}/index.${locale}`, contentDir);
+  }
+
+  return getOrgFileFromUrl(localizeUrl(path, locale, i18n), contentDir);
+}
+
+/**
+ * Convert a localized URL to its org file
+ *
+ * Falls back to the default-locale page when the translation is missing
+ * (unless `i18n.fallback` is false).
+ *
+ * @param url - URL path (e.g. "/ja/guide/intro", "/ja/guide/intro.html")
+ * @param contentDir - Content directory
+ * @param i18n - I18n config
+ * @returns The org file and locale, or null if not found
+ *
+ * @example
+ * resolveLocalizedOrgFile("/ja/guide/intro", "content", i18n)
+ * // { file: "/path/to/content/ja/guide/intro.org", locale: "ja", fallback: false }
+ */
+export function resolveLocalizedOrgFile(
+  url: string,
+  contentDir: string,
+  i18n: I18nConfig
+): LocalizedOrgFile | null {
+  const cleanUrl =
+    url.split("?")[0].replace(/\.html$/, "").replace(/(\/index)?\/*$/, "") || "/";
+  const { locale, path } = getUrlLocale(cleanUrl, i18n);
+
+  const file = findLocalizedFile(path, locale, contentDir, i18n);
+  if (file) {
+    return { file, locale, fallback: false };
+  }
+
+  if (locale === i18n.defaultLocale || i18n.fallback === false) {
+    return null;
+  }
+
+  const fallback = findLocalizedFile(path, i18n.defaultLocale, contentDir, i18n);
+  return fallback ? { file: fallback, locale, fallback: true } : null;
+}
@@ -18,3 +18,17 @@ export type {
   ResolveRoutesOptions,
   RouteTreeNode,
 } from "./routes.ts";
+
+export {
+  getFileLocale,
+  getUrlLocale,
+  localizeUrl,
+  getTranslations,
+  resolveLocalizedOrgFile,
+} from "./i18n.ts";
+
+export type {
+  LocalizedPath,
+  Translation,
+  LocalizedOrgFile,
+} from "./i18n.ts";
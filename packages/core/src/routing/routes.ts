@@ -7,10 +7,14 @@
  * - page.org → /page
  * - dir/index.org → /dir/
  * - dir/page.org → /dir/page
+ *
+ * With `i18n`, translations get locale-prefixed paths (see i18n.ts).
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { I18nConfig } from "../config/types.ts";
+import { getFileLocale, localizeUrl } from "./i18n.ts";
 
 /**
  * A single route entry
@@ -33,6 +37,9 @@ export interface RouteEntry {
 
   /** Nested depth (0 for root) */
   depth: number;
+
+  /** Locale of the page (with `i18n`) */
+  locale?: string;
 }
 
 /**
@@ -50,9 +57,15 @@ export interface ResolveRoutesOptions {
 
   /** Clean URLs (no .html extension) */
   cleanUrls?: boolean;
+
+  /** Locales of translated content (routes get `locale` and prefixed paths) */
+  i18n?: I18nConfig;
 }
 
-const DEFAULT_OPTIONS: Required<ResolveRoutesOptions> = {
+type ResolvedRoutesOptions = Required<Omit<ResolveRoutesOptions, "i18n">> &
+  Pick<ResolveRoutesOptions, "i18n">;
+
+const DEFAULT_OPTIONS: ResolvedRoutesOptions = {
   includeDrafts: false,
   extensions: [".org"],
   ignoreDirs: ["node_modules", ".git", ".org-press"],
@@ -75,6 +88,15 @@ const DEFAULT_OPTIONS: Required<ResolveRoutesOptions> = {
  * //   { path: "/guide", file: "guide/index.org", ... },
  * //   { path: "/guide/intro", file: "guide/intro.org", ... },
  * // ]
+ *
+ * @example
+ * const routes = resolveRoutes("content", {
+ *   i18n: { locales: ["en", "ja"], defaultLocale: "en" },
+ * });
+ * // [
+ * //   { path: "/guide/intro", file: "guide/intro.org", locale: "en", ... },
+ * //   { path: "/ja/guide/intro", file: "ja/guide/intro.org", locale: "ja", ... },
+ * // ]
  */
 export function resolveRoutes(
   contentDir: string,
@@ -132,10 +154,14 @@ function createRouteEntry(
   relativePath: string,
   absolutePath: string,
   contentDir: string,
-  options: Required<ResolveRoutesOptions>
+  options: ResolvedRoutesOptions
 ): RouteEntry {
-  const basename = path.basename(relativePath, path.extname(relativePath));
-  const dirname = path.dirname(relativePath);
+  // Translations are routed by their locale-neutral path
+  const localized = options.i18n
+    ? getFileLocale(relativePath, options.i18n)
+    : { locale: undefined, path: relativePath };
+  const basename = path.basename(localized.path, path.extname(localized.path));
+  const dirname = path.dirname(localized.path);
 
   // Determine if this is an index file
   const isIndex = basename === "index";
@@ -154,6 +180,10 @@ function createRouteEntry(
   // Normalize path separators for Windows
   urlPath = urlPath.replace(/\\/g, "/");
 
+  if (options.i18n && localized.locale) {
+    urlPath = localizeUrl(urlPath, localized.locale, options.i18n);
+  }
+
   // Calculate depth based on path segments
   // / = depth 0
   // /about = depth 0 (root level pages)
@@ -202,6 +232,7 @@ function createRouteEntry(
     isIndex,
     parent,
     depth,
+    ...(localized.locale && { locale: localized.locale }),
   };
 }
 
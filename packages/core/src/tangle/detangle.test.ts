@@ -0,0 +1,120 @@
+/**
+ * Tests for detangling
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseTangledRegions,
+  resolveRegionBlock,
+  classifyRegionChange,
+} from "./detangle.ts";
+import { hashTangleBody } from "./record.ts";
+
+describe("detangle", () => {
+  describe("parseTangledRegions", () => {
+    it("should parse link comment regions", () => {
+      const content = [
+        "#!/usr/bin/env node",
+        "// [[file:../content/app.org::main][main]]",
+        "main();",
+        "more();",
+        "// main ends here",
+        "",
+        "// [[file:../content/app.org::9][block-1]]",
+        "other();",
+        "// block-1 ends here",
+        "",
+      ].join("\n");
+
+      const regions = parseTangledRegions(content, "/project/src/main.js");
+
+      expect(regions).toEqual([
+        {
+          orgFilePath: "/project/content/app.org",
+          label: "main",
+          search: "main",
+          commentStart: "//",
+          content: "main();\nmore();",
+          line: 2,
+        },
+        {
+          orgFilePath: "/project/content/app.org",
+          label: "block-1",
+          search: "9",
+          commentStart: "//",
+          content: "other();",
+          line: 7,
+        },
+      ]);
+    });
+
+    it("should support block comments", () => {
+      const content = [
+        "/* [[file:style.org::base][base]] */",
+        ".a { color: red; }",
+        "/* base ends here */",
+      ].join("\n");
+
+      const regions = parseTangledRegions(content, "/project/style.css");
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].content).toBe(".a { color: red; }");
+    });
+
+    it("should ignore unterminated regions", () => {
+      const content = "// [[file:a.org::x][x]]\nbody();\n";
+      expect(parseTangledRegions(content, "/project/a.js")).toEqual([]);
+    });
+  });
+
+  describe("resolveRegionBlock", () => {
+    const block = (index: number, content: string, name?: string, language = "js") => ({
+      index,
+      name,
+      language,
+      content,
+    });
+    const blocks = [block(0, "main();", "main"), block(1, "other();")];
+
+    it("should prefer block names", () => {
+      expect(resolveRegionBlock({ label: "main", commentStart: "//" }, blocks)).toBe(blocks[0]);
+      const named = [block(0, "x", "block-1"), block(1, "y")];
+      expect(resolveRegionBlock({ label: "block-1", commentStart: "//" }, named)).toBe(named[0]);
+    });
+
+    it("should map block-N labels to unchanged blocks at that index", () => {
+      const region = { label: "block-1", commentStart: "//" };
+      expect(resolveRegionBlock(region, blocks, hashTangleBody("other();"))).toBe(blocks[1]);
+    });
+
+    it("should refuse unnamed blocks that changed or moved", () => {
+      const region = { label: "block-1", commentStart: "//" };
+      // No record, so the block can't be verified
+      expect(resolveRegionBlock(region, blocks)).toBeUndefined();
+      // A block inserted above shifted the index
+      const shifted = [blocks[0], block(1, "inserted();"), block(2, "other();")];
+      expect(resolveRegionBlock(region, shifted, hashTangleBody("other();"))).toBeUndefined();
+      // Same body, different language
+      const python = [blocks[0], block(1, "other();", undefined, "python")];
+      expect(resolveRegionBlock(region, python, hashTangleBody("other();"))).toBeUndefined();
+      // Out of range
+      expect(
+        resolveRegionBlock({ label: "block-5", commentStart: "//" }, blocks, "x")
+      ).toBeUndefined();
+    });
+  });
+
+  describe("classifyRegionChange", () => {
+    it("should classify changes against the recorded base", () => {
+      expect(classifyRegionChange("a", "a", "a")).toBe("unchanged");
+      expect(classifyRegionChange("b", "a", "a")).toBe("file-changed");
+      expect(classifyRegionChange("a", "b", "a")).toBe("org-changed");
+      expect(classifyRegionChange("b", "c", "a")).toBe("conflict");
+    });
+
+    it("should report a conflict when there is no base", () => {
+      expect(classifyRegionChange("b", "a", undefined)).toBe("conflict");
+      expect(classifyRegionChange("a", "a", undefined)).toBe("unchanged");
+    });
+  });
+});
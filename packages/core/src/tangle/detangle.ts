@@ -0,0 +1,158 @@
+/**
+ * Detangling
+ *
+ * Reads the link comments written by `:comments link` tangling and
+ * maps each region of a tangled file back to its source block:
+ *
+ *   // [[file:../content/app.org::main][main]]
+ *   ...region body...
+ *   // main ends here
+ *
+ * This module is pure - writing changed regions back into org files is
+ * handled by the `orgp detangle` command.
+ */
+
+import * as path from "node:path";
+import { hashTangleBody } from "./record.ts";
+import { getCommentSyntax } from "./tangle.ts";
+
+/**
+ * A region of a tangled file belonging to one source block
+ */
+export interface DetangledRegion {
+  /** Absolute path to the org file the region came from */
+  orgFilePath: string;
+  /** Block label from the link comment (name or "block-<index>") */
+  label: string;
+  /** Link search option (block name or line number) */
+  search: string;
+  /** Comment delimiter of the link comment (e.g. "//") */
+  commentStart: string;
+  /** Region body */
+  content: string;
+  /** Line of the opening link comment in the tangled file (1-based) */
+  line: number;
+}
+
+/**
+ * Change classification for a region
+ *
+ * - unchanged: tangled file and org block agree
+ * - file-changed: only the tangled file was edited - write back
+ * - org-changed: only the org block was edited - re-tangle instead
+ * - conflict: both sides changed (or no tangle record to decide)
+ */
+export type DetangleChange = "unchanged" | "file-changed" | "org-changed" | "conflict";
+
+const LINK_COMMENT = /^\s*(\S+)\s+\[\[file:([^\]]+?)::([^\]]+)\]\[([^\]]+)\]\]/;
+
+/**
+ * Parse link-comment regions from a tangled file
+ *
+ * Unterminated regions are ignored.
+ *
+ * @param content - Tangled file content
+ * @param targetPath - Absolute path of the tangled file (link paths are relative to it)
+ * @returns Regions in file order
+ */
+export function parseTangledRegions(
+  content: string,
+  targetPath: string
+): DetangledRegion[] {
+  const lines = content.split("\n");
+  const regions: DetangledRegion[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(LINK_COMMENT);
+    if (!match) continue;
+
+    const [, commentStart, file, search, label] = match;
+    const endMarker = `${label} ends here`;
+
+    let endLine = -1;
+    for (let j = i + 1; j < lines.length; j++) {
+      const trimmed = lines[j].trim();
+      if (trimmed.startsWith(commentStart) && trimmed.includes(endMarker)) {
+        endLine = j;
+        break;
+      }
+    }
+
+    if (endLine === -1) continue;
+
+    regions.push({
+      orgFilePath: path.resolve(path.dirname(targetPath), file),
+      label,
+      search,
+      commentStart,
+      content: lines.slice(i + 1, endLine).join("\n"),
+      line: i + 1,
+    });
+
+    i = endLine;
+  }
+
+  return regions;
+}
+
+/**
+ * Find the source block a region came from
+ *
+ * Named blocks are found by name. An unnamed block's "block-<index>"
+ * label goes stale as soon as a block is added or removed above it, so
+ * the block at that index is only trusted while its body is unchanged
+ * since the last tangle (baseHash) and its language still uses the
+ * region's comment syntax. Anything else is refused rather than risk
+ * writing into the wrong block.
+ *
+ * @param region - Region from parseTangledRegions
+ * @param blocks - Blocks of the org file, in document order
+ * @param baseHash - Body hash recorded at tangle time (undefined if unknown)
+ * @returns The block, or undefined if it is missing or can't be trusted
+ */
+export function resolveRegionBlock<
+  T extends { name?: string; index: number; language: string; content: string },
+>(
+  region: Pick<DetangledRegion, "label" | "commentStart">,
+  blocks: T[],
+  baseHash?: string
+): T | undefined {
+  const named = blocks.find((block) => block.name === region.label);
+  if (named) {
+    return named;
+  }
+
+  const indexMatch = region.label.match(/^block-(\d+)$/);
+  const block = indexMatch ? blocks[parseInt(indexMatch[1], 10)] : undefined;
+
+  if (
+    !block ||
+    block.name !== undefined ||
+    baseHash === undefined ||
+    hashTangleBody(block.content) !== baseHash ||
+    getCommentSyntax(block.language)?.start !== region.commentStart
+  ) {
+    return undefined;
+  }
+
+  return block;
+}
+
+/**
+ * Decide which side of a region changed since it was last tangled
+ *
+ * @param fileHash - Hash of the region in the tangled file
+ * @param orgHash - Hash of the current org block body
+ * @param baseHash - Hash recorded at tangle time (undefined if unknown)
+ */
+export function classifyRegionChange(
+  fileHash: string,
+  orgHash: string,
+  baseHash: string | undefined
+): DetangleChange {
+  if (fileHash === orgHash) return "unchanged";
+  if (baseHash === undefined) return "conflict";
+  if (orgHash === baseHash) return "file-changed";
+  if (fileHash === baseHash) return "org-changed";
+  return "conflict";
+}
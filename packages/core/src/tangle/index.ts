@@ -0,0 +1,44 @@
+/**
+ * Tangle Module
+ *
+ * Literate programming support: extracts :tangle code blocks into
+ * external source files, and detangles edits back into org blocks.
+ */
+
+export {
+  extractTangleBlocks,
+  resolveTanglePath,
+  expandNoweb,
+  getCommentSyntax,
+  getBlockLabel,
+  hasNowebReferences,
+  computeTangleTargets,
+} from "./tangle.ts";
+
+export type {
+  TangleSourceBlock,
+  TangleInput,
+  TangleTarget,
+  TangleError,
+  TangleResult,
+  CommentSyntax,
+} from "./tangle.ts";
+
+export {
+  parseTangledRegions,
+  resolveRegionBlock,
+  classifyRegionChange,
+} from "./detangle.ts";
+
+export type { DetangledRegion, DetangleChange } from "./detangle.ts";
+
+export {
+  TANGLE_RECORD_FILE,
+  hashTangleBody,
+  getTangleBlockKey,
+  getTangleRecordPath,
+  readTangleRecord,
+  writeTangleRecord,
+} from "./record.ts";
+
+export type { TangleRecord } from "./record.ts";
@@ -0,0 +1,78 @@
+/**
+ * Tangle Record
+ *
+ * Remembers what each block looked like when it was last tangled, so
+ * detangling can tell which side changed: the tangled file, the org
+ * source, or both (a conflict).
+ *
+ * Stored as JSON in the cache directory:
+ *   { version: 1, targets: { "src/main.ts": { "content/app.org::main": "<hash>" } } }
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import crypto from "node:crypto";
+
+/**
+ * File name of the tangle record inside the cache directory
+ */
+export const TANGLE_RECORD_FILE = "tangle-record.json";
+
+/**
+ * Persisted tangle record
+ */
+export interface TangleRecord {
+  version: 1;
+  /** Target path (relative to project root) -> block key -> body hash */
+  targets: Record<string, Record<string, string>>;
+}
+
+/**
+ * Hash a tangled block body
+ */
+export function hashTangleBody(body: string): string {
+  return crypto.createHash("sha256").update(body).digest("hex").slice(0, 16);
+}
+
+/**
+ * Key identifying a block within a tangle target
+ *
+ * @param orgFilePath - Org file path relative to project root
+ * @param label - Block label (name or "block-<index>")
+ */
+export function getTangleBlockKey(orgFilePath: string, label: string): string {
+  return `${orgFilePath.split(path.sep).join("/")}::${label}`;
+}
+
+/**
+ * Resolve the record file location
+ *
+ * @param projectRoot - Project root directory
+ * @param cacheDir - Cache directory (relative to project root or absolute)
+ */
+export function getTangleRecordPath(projectRoot: string, cacheDir: string): string {
+  return path.resolve(projectRoot, cacheDir, TANGLE_RECORD_FILE);
+}
+
+/**
+ * Read the tangle record (empty record if missing or unreadable)
+ */
+export function readTangleRecord(recordPath: string): TangleRecord {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(recordPath, "utf-8"));
+    if (parsed?.version === 1 && parsed.targets) {
+      return parsed as TangleRecord;
+    }
+  } catch {
+    // Missing or corrupt record - start fresh
+  }
+  return { version: 1, targets: {} };
+}
+
+/**
+ * Write the tangle record
+ */
+export function writeTangleRecord(recordPath: string, record: TangleRecord): void {
+  fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+  fs.writeFileSync(recordPath, JSON.stringify(record, null, 2), "utf-8");
+}
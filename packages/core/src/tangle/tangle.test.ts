@@ -0,0 +1,278 @@
+/**
+ * Tests for tangling
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  extractTangleBlocks,
+  resolveTanglePath,
+  expandNoweb,
+  getCommentSyntax,
+  computeTangleTargets,
+} from "./tangle.ts";
+import { findBlock } from "../content/block-io.ts";
+
+const ORG_FILE = "/project/content/app.org";
+
+describe("tangle", () => {
+  describe("extractTangleBlocks", () => {
+    it("should extract blocks with names and parameters", () => {
+      const source = `#+TITLE: App
+
+#+NAME: main
+#+begin_src typescript :tangle out/main.ts
+export const x = 1;
+#+end_src
+
+#+begin_src css
+.a {}
+#+end_src
+`;
+      const blocks = extractTangleBlocks(source, ORG_FILE);
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toMatchObject({
+        index: 0,
+        name: "main",
+        language: "typescript",
+        content: "export const x = 1;",
+        startLine: 4,
+      });
+      expect(blocks[0].parameters.tangle).toBe("out/main.ts");
+      expect(blocks[1].name).toBeUndefined();
+      expect(blocks[1].index).toBe(1);
+    });
+
+    it("should not attach the name of a table to the block below it", () => {
+      const source = `#+NAME: sales
+| region | total |
+|--------+-------|
+| north  |    10 |
+
+#+begin_src typescript :tangle out.ts :comments link
+export const x = 1;
+#+end_src
+
+#+Name: helper
+#+begin_src typescript
+export const y = 2;
+#+end_src
+`;
+      const blocks = extractTangleBlocks(source, ORG_FILE);
+
+      expect(blocks.map((block) => block.name)).toEqual([undefined, "helper"]);
+      expect(findBlock(source, "sales")).toBeNull();
+      expect(findBlock(source, blocks[1].index)?.name).toBe("helper");
+    });
+  });
+
+  describe("resolveTanglePath", () => {
+    const block = (tangle?: string, language = "typescript") => ({
+      orgFilePath: ORG_FILE,
+      index: 0,
+      language,
+      content: "",
+      parameters: tangle === undefined ? {} : { tangle },
+      startLine: 1,
+    });
+
+    it("should resolve paths relative to the org file", () => {
+      expect(resolveTanglePath(block("../src/main.ts"))).toBe(
+        "/project/src/main.ts"
+      );
+    });
+
+    it("should skip blocks without :tangle or with :tangle no", () => {
+      expect(resolveTanglePath(block())).toBeNull();
+      expect(resolveTanglePath(block("no"))).toBeNull();
+    });
+
+    it("should derive the file name for :tangle yes", () => {
+      expect(resolveTanglePath(block("yes"))).toBe("/project/content/app.ts");
+      expect(resolveTanglePath(block("yes", "python"))).toBe(
+        "/project/content/app.py"
+      );
+    });
+  });
+
+  describe("expandNoweb", () => {
+    const blocks = extractTangleBlocks(
+      `#+NAME: imports
+#+begin_src js
+import a from "a";
+import b from "b";
+#+end_src
+
+#+begin_src js :noweb-ref body
+step1();
+#+end_src
+
+#+begin_src js :noweb-ref body
+step2();
+#+end_src
+
+#+NAME: loop-a
+#+begin_src js
+<<loop-b>>
+#+end_src
+
+#+NAME: loop-b
+#+begin_src js
+<<loop-a>>
+#+end_src
+`,
+      ORG_FILE
+    );
+
+    it("should expand named block references", () => {
+      expect(expandNoweb("<<imports>>\nrun();", blocks)).toBe(
+        'import a from "a";\nimport b from "b";\nrun();'
+      );
+    });
+
+    it("should repeat the line prefix for every expanded line", () => {
+      expect(expandNoweb("function main() {\n  <<imports>>\n}", blocks)).toBe(
+        'function main() {\n  import a from "a";\n  import b from "b";\n}'
+      );
+    });
+
+    it("should concatenate :noweb-ref blocks", () => {
+      expect(expandNoweb("<<body>>", blocks)).toBe("step1();\nstep2();");
+    });
+
+    it("should throw on unresolved references", () => {
+      expect(() => expandNoweb("<<missing>>", blocks)).toThrow(
+        "Unresolved noweb reference: <<missing>>"
+      );
+    });
+
+    it("should detect cycles", () => {
+      expect(() => expandNoweb("<<loop-a>>", blocks)).toThrow(
+        "Circular noweb reference: loop-a -> loop-b -> loop-a"
+      );
+    });
+  });
+
+  describe("getCommentSyntax", () => {
+    it("should return comment delimiters by language", () => {
+      expect(getCommentSyntax("typescript")).toEqual({ start: "//" });
+      expect(getCommentSyntax("python")).toEqual({ start: "#" });
+      expect(getCommentSyntax("css")).toEqual({ start: "/*", end: "*/" });
+      expect(getCommentSyntax("json")).toBeNull();
+    });
+  });
+
+  describe("computeTangleTargets", () => {
+    it("should concatenate blocks sharing a target in document order", () => {
+      const source = `#+begin_src js :tangle lib.js
+const a = 1;
+#+end_src
+
+#+begin_src js :tangle other.js
+const other = true;
+#+end_src
+
+#+begin_src js :tangle lib.js
+const b = 2;
+#+end_src
+`;
+      const { targets, errors } = computeTangleTargets([
+        { orgFilePath: ORG_FILE, source },
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(targets).toHaveLength(2);
+      expect(targets[0].path).toBe("/project/content/lib.js");
+      expect(targets[0].content).toBe("const a = 1;\n\nconst b = 2;\n");
+      expect(targets[0].blocks.map((b) => b.index)).toEqual([0, 2]);
+      expect(targets[1].content).toBe("const other = true;\n");
+    });
+
+    it("should honor :mkdirp and :shebang", () => {
+      const source = `#+begin_src sh :tangle bin/run.sh :mkdirp yes :shebang "#!/bin/sh"
+echo hi
+#+end_src
+`;
+      const { targets } = computeTangleTargets([
+        { orgFilePath: ORG_FILE, source },
+      ]);
+
+      expect(targets[0]).toMatchObject({
+        path: "/project/content/bin/run.sh",
+        content: "#!/bin/sh\necho hi\n",
+        mkdirp: true,
+        executable: true,
+      });
+    });
+
+    it("should wrap blocks in link comments with :comments link", () => {
+      const source = `#+NAME: main
+#+begin_src ts :tangle ../src/main.ts :comments link
+main();
+#+end_src
+
+#+begin_src ts :tangle ../src/main.ts :comments link
+more();
+#+end_src
+`;
+      const { targets } = computeTangleTargets([
+        { orgFilePath: ORG_FILE, source },
+      ]);
+
+      expect(targets[0].content).toBe(
+        [
+          "// [[file:../content/app.org::main][main]]",
+          "main();",
+          "// main ends here",
+          "",
+          "// [[file:../content/app.org::6][block-1]]",
+          "more();",
+          "// block-1 ends here",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should expand noweb references only with :noweb", () => {
+      const source = `#+NAME: greeting
+#+begin_src js
+const greeting = "hi";
+#+end_src
+
+#+begin_src js :tangle a.js :noweb yes
+<<greeting>>
+#+end_src
+
+#+begin_src js :tangle b.js
+<<greeting>>
+#+end_src
+`;
+      const { targets } = computeTangleTargets([
+        { orgFilePath: ORG_FILE, source },
+      ]);
+
+      expect(targets[0].content).toBe('const greeting = "hi";\n');
+      expect(targets[1].content).toBe("<<greeting>>\n");
+    });
+
+    it("should report noweb errors per block", () => {
+      const source = `#+NAME: broken
+#+begin_src js :tangle a.js :noweb yes
+<<nope>>
+#+end_src
+`;
+      const { targets, errors } = computeTangleTargets([
+        { orgFilePath: ORG_FILE, source },
+      ]);
+
+      expect(targets).toHaveLength(0);
+      expect(errors).toEqual([
+        {
+          orgFilePath: ORG_FILE,
+          block: "broken",
+          message: "Unresolved noweb reference: <<nope>>",
+        },
+      ]);
+    });
+  });
+});
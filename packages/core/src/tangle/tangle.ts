@@ -0,0 +1,514 @@
+/**
+ * Tangling (literate programming)
+ *
+ * Extracts code blocks into external source files based on the
+ * `:tangle` header argument, following org-babel semantics:
+ *
+ * - Blocks sharing a `:tangle` target are concatenated in document order
+ * - `:tangle yes` writes to a file named after the org file
+ * - `:mkdirp yes` creates missing parent directories
+ * - `:shebang "#!..."` prepends an interpreter line and marks the file executable
+ * - `:comments link` wraps each block in link comments pointing back to the source
+ * - `:noweb yes` expands `<<block-name>>` references from named blocks
+ *
+ * This module is pure - it only computes outputs. Reading org files and
+ * writing tangled files is handled by the `orgp tangle` command.
+ */
+
+import * as path from "node:path";
+import { parseBlockParameters } from "../plugins/utils.ts";
+import { getExtensionForLanguage } from "../cli/config-loader.ts";
+
+/** File extensions for `:tangle yes` beyond the tool config's language map */
+const TANGLE_EXTENSIONS: Record<string, string> = {
+  python: "py",
+  bash: "sh",
+  shell: "sh",
+  zsh: "sh",
+  ruby: "rb",
+  perl: "pl",
+  rust: "rs",
+  elisp: "el",
+  haskell: "hs",
+  sqlite: "sql",
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A source block as seen by the tangler
+ */
+export interface TangleSourceBlock {
+  /** Absolute path to the org file */
+  orgFilePath: string;
+  /** Block index (0-based, same numbering as findBlock) */
+  index: number;
+  /** Block name (from #+NAME:) */
+  name?: string;
+  /** Block language */
+  language: string;
+  /** Block body */
+  content: string;
+  /** Parsed header arguments */
+  parameters: Record<string, string>;
+  /** Line of #+begin_src (1-based) */
+  startLine: number;
+}
+
+/**
+ * An org file to tangle
+ */
+export interface TangleInput {
+  /** Absolute path to the org file */
+  orgFilePath: string;
+  /** Org file content */
+  source: string;
+}
+
+/**
+ * A single output file produced by tangling
+ */
+export interface TangleTarget {
+  /** Absolute path of the tangled file */
+  path: string;
+  /** Full file content */
+  content: string;
+  /** Create missing parent directories (:mkdirp yes) */
+  mkdirp: boolean;
+  /** Mark the file executable (a :shebang was given) */
+  executable: boolean;
+  /** Blocks contributing to this file, in document order */
+  blocks: TangleSourceBlock[];
+  /** Tangled body of each block (noweb expanded, without link comments) */
+  bodies: string[];
+}
+
+/**
+ * Error produced while computing tangle targets
+ */
+export interface TangleError {
+  /** Absolute path to the org file */
+  orgFilePath: string;
+  /** Block name or index */
+  block: string | number;
+  /** Error message */
+  message: string;
+}
+
+/**
+ * Result of computing tangle targets
+ */
+export interface TangleResult {
+  targets: TangleTarget[];
+  errors: TangleError[];
+}
+
+/**
+ * Comment delimiters for a language
+ */
+export interface CommentSyntax {
+  start: string;
+  end?: string;
+}
+
+// ============================================================================
+// Block Extraction
+// ============================================================================
+
+/**
+ * Extract all source blocks from org content
+ *
+ * Uses the same line-based scan as block-io's findBlock, so block
+ * indices can be used to write content back with writeBlockContent.
+ *
+ * @param source - Org file content
+ * @param orgFilePath - Absolute path to the org file
+ * @returns All source blocks in document order
+ */
+export function extractTangleBlocks(
+  source: string,
+  orgFilePath: string
+): TangleSourceBlock[] {
+  const lines = source.split("\n");
+  const blocks: TangleSourceBlock[] = [];
+
+  let pendingName: string | undefined;
+  let blockIndex = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const nameMatch = line.match(/^#\+name:\s*(.+)$/i);
+    if (nameMatch) {
+      pendingName = nameMatch[1].trim();
+      continue;
+    }
+
+    // A name only applies to the element directly below it
+    if (!line.startsWith("#+")) {
+      pendingName = undefined;
+      continue;
+    }
+
+    const beginMatch = line.match(/^#\+begin_src\s+(\w+)\s*(.*)?$/i);
+    if (!beginMatch) continue;
+
+    let endLine = -1;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].match(/^#\+end_src$/i)) {
+        endLine = j;
+        break;
+      }
+    }
+
+    if (endLine === -1) {
+      // Malformed block, skip
+      pendingName = undefined;
+      continue;
+    }
+
+    blocks.push({
+      orgFilePath,
+      index: blockIndex,
+      name: pendingName,
+      language: beginMatch[1].toLowerCase(),
+      content: lines.slice(i + 1, endLine).join("\n"),
+      parameters: parseBlockParameters(beginMatch[2] || ""),
+      startLine: i + 1,
+    });
+
+    blockIndex++;
+    pendingName = undefined;
+    i = endLine;
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// Header Arguments
+// ============================================================================
+
+/**
+ * Check whether a header argument value is truthy in org-babel terms
+ */
+function isYes(value: string | undefined): boolean {
+  return value === "yes" || value === "t" || value === "";
+}
+
+/**
+ * Resolve the output path of a block's :tangle header argument
+ *
+ * - `:tangle no` (or no :tangle) - not tangled
+ * - `:tangle yes` - `<org-file-basename>.<language-extension>`
+ * - `:tangle path` - relative to the org file's directory
+ *
+ * @returns Absolute output path, or null if the block is not tangled
+ */
+export function resolveTanglePath(block: TangleSourceBlock): string | null {
+  const tangle = block.parameters.tangle;
+  if (tangle === undefined || tangle === "" || tangle === "no") {
+    return null;
+  }
+
+  const orgDir = path.dirname(block.orgFilePath);
+
+  if (tangle === "yes") {
+    const base = path.basename(block.orgFilePath, ".org");
+    const extension =
+      TANGLE_EXTENSIONS[block.language] ?? getExtensionForLanguage(block.language);
+    return path.join(orgDir, `${base}.${extension}`);
+  }
+
+  return path.resolve(orgDir, tangle);
+}
+
+/**
+ * Check whether noweb references should be expanded when tangling
+ *
+ * Mirrors org-babel: every :noweb value except "no" expands on tangle.
+ */
+function shouldExpandNoweb(block: TangleSourceBlock): boolean {
+  const noweb = block.parameters.noweb;
+  return noweb !== undefined && noweb !== "no";
+}
+
+/**
+ * Check whether a block's tangled body differs from its source because
+ * of noweb expansion (such bodies cannot be detangled verbatim)
+ */
+export function hasNowebReferences(block: TangleSourceBlock): boolean {
+  return shouldExpandNoweb(block) && /<<[^\s<>()]+>>/.test(block.content);
+}
+
+// ============================================================================
+// Link Comments
+// ============================================================================
+
+const LINE_COMMENT_LANGUAGES: Record<string, string> = {
+  javascript: "//",
+  js: "//",
+  typescript: "//",
+  ts: "//",
+  jsx: "//",
+  tsx: "//",
+  c: "//",
+  cpp: "//",
+  java: "//",
+  go: "//",
+  rust: "//",
+  swift: "//",
+  kotlin: "//",
+  scala: "//",
+  php: "//",
+  scss: "//",
+  less: "//",
+  python: "#",
+  py: "#",
+  sh: "#",
+  bash: "#",
+  zsh: "#",
+  shell: "#",
+  fish: "#",
+  ruby: "#",
+  perl: "#",
+  r: "#",
+  yaml: "#",
+  yml: "#",
+  toml: "#",
+  conf: "#",
+  makefile: "#",
+  dockerfile: "#",
+  sql: "--",
+  sqlite: "--",
+  lua: "--",
+  haskell: "--",
+  elisp: ";;",
+  lisp: ";;",
+  scheme: ";;",
+  clojure: ";;",
+  latex: "%",
+  tex: "%",
+};
+
+const BLOCK_COMMENT_LANGUAGES: Record<string, CommentSyntax> = {
+  css: { start: "/*", end: "*/" },
+  html: { start: "<!--", end: "-->" },
+  xml: { start: "<!--", end: "-->" },
+  svg: { start: "<!--", end: "-->" },
+};
+
+/**
+ * Get comment delimiters for a language
+ *
+ * @returns Comment syntax, or null for languages without comments (e.g. json)
+ */
+export function getCommentSyntax(language: string): CommentSyntax | null {
+  const lang = language.toLowerCase();
+  if (lang in BLOCK_COMMENT_LANGUAGES) {
+    return BLOCK_COMMENT_LANGUAGES[lang];
+  }
+  if (lang in LINE_COMMENT_LANGUAGES) {
+    return { start: LINE_COMMENT_LANGUAGES[lang] };
+  }
+  return null;
+}
+
+/**
+ * Label identifying a block in link comments
+ *
+ * Named blocks use their name, unnamed blocks use "block-<index>".
+ */
+export function getBlockLabel(block: { name?: string; index: number }): string {
+  return block.name ?? `block-${block.index}`;
+}
+
+function comment(syntax: CommentSyntax, text: string): string {
+  return syntax.end
+    ? `${syntax.start} ${text} ${syntax.end}`
+    : `${syntax.start} ${text}`;
+}
+
+/**
+ * Wrap a block body in org-babel style link comments
+ *
+ * @example
+ * // [[file:../content/app.org::main][main]]
+ * console.log("hi");
+ * // main ends here
+ */
+function wrapWithLinkComments(
+  body: string,
+  block: TangleSourceBlock,
+  targetPath: string,
+  syntax: CommentSyntax
+): string {
+  const label = getBlockLabel(block);
+  const relative = path
+    .relative(path.dirname(targetPath), block.orgFilePath)
+    .split(path.sep)
+    .join("/");
+  // Named blocks link by name, unnamed blocks by line number (org link search syntax)
+  const search = block.name ?? String(block.startLine);
+
+  return [
+    comment(syntax, `[[file:${relative}::${search}][${label}]]`),
+    body,
+    comment(syntax, `${label} ends here`),
+  ].join("\n");
+}
+
+// ============================================================================
+// Noweb Expansion
+// ============================================================================
+
+const NOWEB_REFERENCE = /<<([^\s<>()]+)>>/g;
+
+/**
+ * Expand <<name>> references in a block body
+ *
+ * References resolve to the block with a matching #+NAME:, or to the
+ * concatenation of all blocks with a matching :noweb-ref. As in
+ * org-babel, the text preceding a reference on its line is repeated
+ * before every line of the expansion, so indentation is preserved.
+ *
+ * @param body - Block body to expand
+ * @param blocks - All blocks in the same org file
+ * @param stack - Names being expanded (for cycle detection)
+ * @throws Error when a reference cannot be resolved or is circular
+ */
+export function expandNoweb(
+  body: string,
+  blocks: TangleSourceBlock[],
+  stack: string[] = []
+): string {
+  return body
+    .split("\n")
+    .map((line) =>
+      line.replace(NOWEB_REFERENCE, (_match, name: string, offset: number) => {
+        if (stack.includes(name)) {
+          throw new Error(
+            `Circular noweb reference: ${[...stack, name].join(" -> ")}`
+          );
+        }
+
+        const expansion = resolveNowebReference(name, blocks, [...stack, name]);
+        const prefix = line.slice(0, offset);
+        return expansion.split("\n").join(`\n${prefix}`);
+      })
+    )
+    .join("\n");
+}
+
+function resolveNowebReference(
+  name: string,
+  blocks: TangleSourceBlock[],
+  stack: string[]
+): string {
+  const named = blocks.find((b) => b.name === name);
+  const referenced = named
+    ? [named]
+    : blocks.filter((b) => b.parameters["noweb-ref"] === name);
+
+  if (referenced.length === 0) {
+    throw new Error(`Unresolved noweb reference: <<${name}>>`);
+  }
+
+  return referenced
+    .map((b) => expandNoweb(b.content, blocks, stack))
+    .join("\n");
+}
+
+// ============================================================================
+// Target Assembly
+// ============================================================================
+
+/**
+ * Compute tangled files for a set of org files
+ *
+ * Blocks are grouped by resolved target path. Bodies are joined with a
+ * blank line between blocks (org-babel's default :padline) and the file
+ * ends with a trailing newline.
+ *
+ * @param inputs - Org files to tangle, in the order their blocks should appear
+ * @returns Tangle targets and per-block errors
+ */
+export function computeTangleTargets(inputs: TangleInput[]): TangleResult {
+  const targets = new Map<
+    string,
+    { target: TangleTarget; sections: string[]; shebang?: string }
+  >();
+  const errors: TangleError[] = [];
+
+  for (const input of inputs) {
+    const blocks = extractTangleBlocks(input.source, input.orgFilePath);
+
+    for (const block of blocks) {
+      const targetPath = resolveTanglePath(block);
+      if (!targetPath) continue;
+
+      let body: string;
+      try {
+        body = shouldExpandNoweb(block)
+          ? expandNoweb(block.content, blocks)
+          : block.content;
+      } catch (error) {
+        errors.push({
+          orgFilePath: block.orgFilePath,
+          block: block.name ?? block.index,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      let section = body;
+      if (block.parameters.comments === "link") {
+        const syntax = getCommentSyntax(block.language);
+        if (syntax) {
+          section = wrapWithLinkComments(body, block, targetPath, syntax);
+        }
+      }
+
+      let entry = targets.get(targetPath);
+      if (!entry) {
+        entry = {
+          target: {
+            path: targetPath,
+            content: "",
+            mkdirp: false,
+            executable: false,
+            blocks: [],
+            bodies: [],
+          },
+          sections: [],
+        };
+        targets.set(targetPath, entry);
+      }
+
+      entry.target.blocks.push(block);
+      entry.target.bodies.push(body);
+      entry.sections.push(section);
+
+      if (isYes(block.parameters.mkdirp)) {
+        entry.target.mkdirp = true;
+      }
+
+      // The first block declaring a shebang wins
+      if (block.parameters.shebang && entry.shebang === undefined) {
+        entry.shebang = block.parameters.shebang;
+        entry.target.executable = true;
+      }
+    }
+  }
+
+  const result: TangleTarget[] = [];
+  for (const { target, sections, shebang } of targets.values()) {
+    const header = shebang !== undefined ? `${shebang}\n` : "";
+    target.content = `${header}${sections.join("\n\n")}\n`;
+    result.push(target);
+  }
+
+  return { targets: result, errors };
+}
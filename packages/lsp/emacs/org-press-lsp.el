@@ -205,6 +205,26 @@ org-mode buffer."
   (interactive)
   (lsp-find-references))
 
+;;;###autoload
+(defun org-press-lsp-rename ()
+  "Rename the symbol or #+NAME: label at point across all org files."
+  (interactive)
+  (call-interactively #'lsp-rename))
+
+;;;###autoload
+(defun org-press-lsp-code-actions ()
+  "Show code actions for the block at point.
+Includes quick fixes, organize imports and ESLint auto-fixes."
+  (interactive)
+  (call-interactively #'lsp-execute-code-action))
+
+;;;###autoload
+(defun org-press-lsp-format-buffer ()
+  "Format the code blocks in the buffer with Prettier.
+Only block bodies are changed; prose and header lines are left alone."
+  (interactive)
+  (lsp-format-buffer))
+
 ;; Keymap for org-press-lsp commands
 (defvar org-press-lsp-mode-map
   (let ((map (make-sparse-keymap)))
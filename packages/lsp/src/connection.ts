@@ -11,12 +11,15 @@ import {
   TextDocuments,
   TextDocumentSyncKind,
   DocumentDiagnosticReportKind,
+  CodeActionKind,
   type InitializeParams,
   type InitializeResult,
   type DocumentDiagnosticParams,
 } from "vscode-languageserver/node.js";
 import { TextDocument } from "vscode-languageserver-textdocument";
 import { OrgPressLspServer, type LspServerOptions } from "./server.js";
+import { FIX_ALL_ESLINT_KIND } from "./handlers/code-actions.js";
+import { HEADER_TRIGGER_CHARACTERS } from "./handlers/header-completion.js";
 
 /**
  * Create and start the LSP connection
@@ -88,13 +91,28 @@ export function createLspConnection(options?: LspServerOptions) {
           textDocumentSync: TextDocumentSyncKind.Incremental,
           completionProvider: {
             resolveProvider: true,
-            triggerCharacters: [".", "/", "<", '"', "'", "`", "@"],
+            triggerCharacters: [".", "/", "<", '"', "'", "`", "@", ...HEADER_TRIGGER_CHARACTERS],
           },
           hoverProvider: true,
           definitionProvider: true,
           typeDefinitionProvider: true,
           implementationProvider: true,
           referencesProvider: true,
+          renameProvider: {
+            prepareProvider: true,
+          },
+          codeActionProvider: {
+            codeActionKinds: [
+              CodeActionKind.QuickFix,
+              CodeActionKind.SourceOrganizeImports,
+              FIX_ALL_ESLINT_KIND,
+            ],
+            resolveProvider: true,
+          },
+          documentFormattingProvider: true,
+          documentRangeFormattingProvider: true,
+          documentSymbolProvider: true,
+          workspaceSymbolProvider: true,
           // Signature help for function parameters
           signatureHelpProvider: {
             triggerCharacters: ["(", ","],
@@ -157,7 +175,11 @@ export function createLspConnection(options?: LspServerOptions) {
     if (!document || !document.uri.endsWith(".org")) {
       return null;
     }
-    return server.handleCompletion(document, params.position);
+    return server.handleCompletion(
+      document,
+      params.position,
+      params.context?.triggerCharacter
+    );
   });
 
   // Handle completion resolve
@@ -210,6 +232,70 @@ export function createLspConnection(options?: LspServerOptions) {
     return server.handleReferences(document, params.position);
   });
 
+  // Handle prepare rename (checks the position and returns the name's range)
+  connection.onPrepareRename((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !document.uri.endsWith(".org")) {
+      return null;
+    }
+    return server.handlePrepareRename(document, params.position);
+  });
+
+  // Handle rename (symbols across blocks and files, and #+NAME: labels)
+  connection.onRenameRequest((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !document.uri.endsWith(".org")) {
+      return null;
+    }
+    return server.handleRename(document, params.position, params.newName);
+  });
+
+  // Handle code actions (quick fixes, organize imports, ESLint fixes)
+  connection.onCodeAction(async (params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !document.uri.endsWith(".org")) {
+      return [];
+    }
+    return server.handleCodeActions(document, params.range, params.context);
+  });
+
+  // Compute the edits of source actions listed without them
+  connection.onCodeActionResolve(async (action) => {
+    return server.handleCodeActionResolve(action);
+  });
+
+  // Handle formatting (block bodies only, with the project's Prettier config)
+  connection.onDocumentFormatting(async (params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !document.uri.endsWith(".org")) {
+      return [];
+    }
+    return server.handleFormatting(document);
+  });
+
+  // Handle range formatting (blocks overlapping the range)
+  connection.onDocumentRangeFormatting(async (params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !document.uri.endsWith(".org")) {
+      return [];
+    }
+    return server.handleRangeFormatting(document, params.range);
+  });
+
+  // Handle document symbols (outline of headings, named blocks and exports)
+  connection.onDocumentSymbol((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !document.uri.endsWith(".org")) {
+      return [];
+    }
+    return server.handleDocumentSymbols(document);
+  });
+
+  // Handle workspace symbols (named blocks and exports in all org files)
+  connection.onWorkspaceSymbol((params) => {
+    return server.handleWorkspaceSymbols(params.query);
+  });
+
   // Handle signature help (function parameter hints)
   connection.onSignatureHelp((params) => {
     const document = documents.get(params.textDocument.uri);
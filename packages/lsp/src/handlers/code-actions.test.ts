@@ -0,0 +1,217 @@
+/**
+ * Tests for Code Actions Handler
+ *
+ * Tests TypeScript quick fixes, organize imports and ESLint fixes,
+ * and resolving source actions listed without edits.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { handleCodeActions, handleCodeActionResolve, FIX_ALL_ESLINT_KIND } from "./code-actions.js";
+import { getDiagnostics } from "./diagnostics.js";
+import {
+  createTestContext,
+  createTestService,
+  createOrgContent,
+  createTextDocument,
+  findPosition,
+  type TestContext,
+} from "../__tests__/test-helpers.js";
+
+/**
+ * Apply LSP text edits to a document's text
+ */
+function applyEdits(
+  content: string,
+  edits: Array<{ range: { start: any; end: any }; newText: string }>
+): string {
+  const lines = content.split("\n");
+  const offset = (pos: { line: number; character: number }) =>
+    lines.slice(0, pos.line).reduce((sum, line) => sum + line.length + 1, 0) + pos.character;
+
+  return [...edits]
+    .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+    .reduce(
+      (text, edit) =>
+        text.slice(0, offset(edit.range.start)) + edit.newText + text.slice(offset(edit.range.end)),
+      content
+    );
+}
+
+describe("handleCodeActions", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  describe("Quick fixes", () => {
+    it("should add a missing import from another org file", async () => {
+      const utilsOrg = createOrgContent([
+        { name: "helpers", content: `export function add(a: number, b: number) { return a + b; }` },
+      ]);
+      const mainOrg = createOrgContent([{ name: "main", content: `const three = add(1, 2);` }]);
+      const service = await createTestService(ctx, { "utils.org": utilsOrg, "main.org": mainOrg });
+      const uri = `file://${ctx.projectRoot}/content/main.org`;
+      const document = createTextDocument(uri, mainOrg);
+
+      const diagnostics = getDiagnostics(service, document);
+      expect(diagnostics.map((diag) => diag.code)).toContain(2304);
+
+      const actions = await handleCodeActions(
+        service,
+        document,
+        diagnostics[0].range,
+        { diagnostics, only: ["quickfix"] },
+        ctx.projectRoot
+      );
+      const importFix = actions.find((action) => action.title.includes("./utils.org?name=helpers"));
+
+      expect(importFix?.kind).toBe("quickfix");
+      expect(importFix?.diagnostics).toEqual([diagnostics[0]]);
+      expect(applyEdits(mainOrg, importFix!.edit!.changes![uri])).toContain(
+        `import { add } from "./utils.org?name=helpers";\n\nconst three = add(1, 2);`
+      );
+    });
+
+    it("should skip diagnostics without TypeScript codes", async () => {
+      const orgContent = createOrgContent([{ name: "main", content: `const x = y;` }]);
+      const service = await createTestService(ctx, { "test.org": orgContent });
+      const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+      const position = findPosition(orgContent, "y;");
+      const range = { start: position, end: { ...position, character: position.character + 1 } };
+
+      const actions = await handleCodeActions(
+        service,
+        document,
+        range,
+        { diagnostics: [{ range, message: "lint", code: "no-undef" }], only: ["quickfix"] },
+        ctx.projectRoot
+      );
+
+      expect(actions).toEqual([]);
+    });
+  });
+
+  describe("Organize imports", () => {
+    it("should sort and remove unused imports in the block", async () => {
+      const utilsOrg = createOrgContent([
+        { name: "helpers", content: `export const a = 1;\nexport const b = 2;\nexport const c = 3;` },
+      ]);
+      const mainOrg = createOrgContent([
+        {
+          name: "main",
+          content: `import { c, b } from "./utils.org?name=helpers";\nimport { a } from "./utils.org?name=helpers";\nconsole.log(b, c);`,
+        },
+      ]);
+      const service = await createTestService(ctx, { "utils.org": utilsOrg, "main.org": mainOrg });
+      const uri = `file://${ctx.projectRoot}/content/main.org`;
+      const document = createTextDocument(uri, mainOrg);
+      const position = findPosition(mainOrg, "console");
+
+      const actions = await handleCodeActions(
+        service,
+        document,
+        { start: position, end: position },
+        { diagnostics: [], only: ["source.organizeImports"] },
+        ctx.projectRoot
+      );
+
+      expect(actions).toHaveLength(1);
+      expect(actions[0].kind).toBe("source.organizeImports");
+      expect(applyEdits(mainOrg, actions[0].edit!.changes![uri])).toContain(
+        `#+begin_src typescript\nimport { b, c } from "./utils.org?name=helpers";\nconsole.log(b, c);`
+      );
+    });
+  });
+
+  describe("ESLint fixes", () => {
+    it("should fix auto-fixable problems in the block", async () => {
+      writeFileSync(
+        join(ctx.projectRoot, "eslint.config.js"),
+        `export default [{ files: ["**/*.ts"], rules: { "prefer-const": "error" } }];\n`
+      );
+      const orgContent = createOrgContent([
+        { name: "first", content: `let x = 1;\nconsole.log(x);` },
+        { name: "second", content: `let y = 2;\nconsole.log(y);` },
+      ]);
+      const service = await createTestService(ctx, { "test.org": orgContent });
+      const uri = `file://${ctx.projectRoot}/content/test.org`;
+      const document = createTextDocument(uri, orgContent);
+      const position = findPosition(orgContent, "x = 1");
+
+      const actions = await handleCodeActions(
+        service,
+        document,
+        { start: position, end: position },
+        { diagnostics: [], only: ["source.fixAll"] },
+        ctx.projectRoot
+      );
+
+      expect(actions).toHaveLength(1);
+      expect(actions[0].kind).toBe(FIX_ALL_ESLINT_KIND);
+
+      const fixed = applyEdits(orgContent, actions[0].edit!.changes![uri]);
+      expect(fixed).toContain("const x = 1;\nconsole.log(x);");
+      expect(fixed).toContain("let y = 2;");
+    });
+  });
+
+  describe("Resolve", () => {
+    it("should list source actions without edits and resolve them", async () => {
+      const utilsOrg = createOrgContent([
+        { name: "helpers", content: `export const a = 1;\nexport const b = 2;` },
+      ]);
+      const mainOrg = createOrgContent([
+        {
+          name: "main",
+          content: `import { b } from "./utils.org?name=helpers";\nimport { a } from "./utils.org?name=helpers";\nconsole.log(b);`,
+        },
+      ]);
+      const service = await createTestService(ctx, { "utils.org": utilsOrg, "main.org": mainOrg });
+      const uri = `file://${ctx.projectRoot}/content/main.org`;
+      const document = createTextDocument(uri, mainOrg);
+      const position = findPosition(mainOrg, "console");
+
+      const actions = await handleCodeActions(
+        service,
+        document,
+        { start: position, end: position },
+        { diagnostics: [] },
+        ctx.projectRoot
+      );
+
+      expect(actions.map((action) => action.kind)).toEqual([
+        "source.organizeImports",
+        FIX_ALL_ESLINT_KIND,
+      ]);
+      expect(actions.every((action) => action.edit === undefined)).toBe(true);
+
+      const resolved = await handleCodeActionResolve(service, actions[0], ctx.projectRoot);
+      expect(applyEdits(mainOrg, resolved.edit!.changes![uri])).toContain(
+        `#+begin_src typescript\nimport { b } from "./utils.org?name=helpers";\nconsole.log(b);`
+      );
+    });
+  });
+
+  it("should return nothing outside code blocks", async () => {
+    const orgContent = `* Heading\n\n${createOrgContent([{ name: "main", content: `const x = 1;` }])}`;
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    const actions = await handleCodeActions(
+      service,
+      document,
+      { start: { line: 0, character: 2 }, end: { line: 0, character: 2 } },
+      { diagnostics: [] },
+      ctx.projectRoot
+    );
+
+    expect(actions).toEqual([]);
+  });
+});
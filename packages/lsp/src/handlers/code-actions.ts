@@ -0,0 +1,143 @@
+/**
+ * LSP Code Actions Handler
+ *
+ * Provides TypeScript quick fixes, organize imports and ESLint
+ * auto-fixes for code blocks.
+ *
+ * Source actions are only computed up front when the client asks for
+ * them via `context.only` (e.g. on save). Otherwise they are listed
+ * without edits, which codeAction/resolve fills in.
+ */
+
+import {
+  CodeActionKind,
+  type CodeAction,
+  type CodeActionContext,
+  type Position,
+  type Range,
+} from "vscode-languageserver/node.js";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type { OrgTextEdit, TypeScriptService } from "../typescript-service.js";
+import { toWorkspaceEdit } from "./edits.js";
+
+/**
+ * Code action kind for ESLint auto-fixes (same as the ESLint extension)
+ */
+export const FIX_ALL_ESLINT_KIND = `${CodeActionKind.SourceFixAll}.eslint`;
+
+/**
+ * Source actions offered for the block at the start of the range
+ */
+const SOURCE_ACTIONS = [
+  { kind: CodeActionKind.SourceOrganizeImports, title: "Organize imports" },
+  { kind: FIX_ALL_ESLINT_KIND, title: "Fix all auto-fixable ESLint problems in this block" },
+];
+
+/**
+ * Data carried by a source action until it is resolved
+ */
+interface SourceActionData {
+  orgFilePath: string;
+  position: Position;
+}
+
+/**
+ * Compute the edits of a source action
+ */
+async function getSourceActionEdits(
+  service: TypeScriptService,
+  kind: string,
+  { orgFilePath, position }: SourceActionData
+): Promise<OrgTextEdit[]> {
+  return kind === CodeActionKind.SourceOrganizeImports
+    ? service.getOrganizeImportsEdits(orgFilePath, position)
+    : service.getLintFixEdits(orgFilePath, position);
+}
+
+/**
+ * Check whether a code action kind was requested
+ */
+function isRequested(kind: string, only: string[] | undefined): boolean {
+  return !only || only.some((requested) => kind === requested || kind.startsWith(`${requested}.`));
+}
+
+/**
+ * Handle code action requests
+ *
+ * @returns Quick fixes for the diagnostics in the range, then source
+ *   actions for the block at the start of the range
+ */
+export async function handleCodeActions(
+  service: TypeScriptService,
+  document: TextDocument,
+  range: Range,
+  context: CodeActionContext,
+  projectRoot: string
+): Promise<CodeAction[]> {
+  const uri = document.uri;
+  const orgFilePath = uri.replace(/^file:\/\//, "");
+  const actions: CodeAction[] = [];
+
+  if (isRequested(CodeActionKind.QuickFix, context.only)) {
+    for (const diagnostic of context.diagnostics) {
+      if (typeof diagnostic.code !== "number") continue;
+
+      const fixes = service.getCodeFixes(
+        orgFilePath,
+        diagnostic.range.start,
+        diagnostic.range.end,
+        [diagnostic.code]
+      );
+
+      for (const fix of fixes) {
+        actions.push({
+          title: fix.title,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          edit: toWorkspaceEdit(fix.edits, projectRoot),
+        });
+      }
+    }
+  }
+
+  const data: SourceActionData = { orgFilePath, position: range.start };
+
+  if (!context.only) {
+    // Unrequested: list them for TS/JS blocks, edits come on resolve
+    if (service.findBlockAtPosition(orgFilePath, range.start)) {
+      for (const { kind, title } of SOURCE_ACTIONS) {
+        actions.push({ title, kind, data });
+      }
+    }
+    return actions;
+  }
+
+  for (const { kind, title } of SOURCE_ACTIONS) {
+    if (!isRequested(kind, context.only)) continue;
+
+    const edits = await getSourceActionEdits(service, kind, data);
+    if (edits.length > 0) {
+      actions.push({ title, kind, edit: toWorkspaceEdit(edits, projectRoot) });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Handle code action resolve requests
+ *
+ * Fills in the edits of a source action listed by handleCodeActions.
+ *
+ * @returns The action with its edit, or unchanged if there is nothing to resolve
+ */
+export async function handleCodeActionResolve(
+  service: TypeScriptService,
+  action: CodeAction,
+  projectRoot: string
+): Promise<CodeAction> {
+  if (action.edit || !action.kind || !action.data) return action;
+
+  const edits = await getSourceActionEdits(service, action.kind, action.data as SourceActionData);
+  return { ...action, edit: toWorkspaceEdit(edits, projectRoot) };
+}
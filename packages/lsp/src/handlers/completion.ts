@@ -13,6 +13,11 @@ import type {
 import type { TextDocument } from "vscode-languageserver-textdocument";
 import ts from "typescript";
 import type { TypeScriptService } from "../typescript-service.js";
+import {
+  HEADER_TRIGGER_CHARACTERS,
+  getHeaderCompletions,
+  getOrgImportCompletions,
+} from "./header-completion.js";
 
 /**
  * Map TypeScript completion kinds to LSP completion kinds
@@ -65,15 +70,33 @@ function mapCompletionKind(
 
 /**
  * Handle completion requests
+ *
+ * Completes header arguments on `#+begin_src` lines and `.org?name=`
+ * imports, and TypeScript inside block bodies.
+ *
+ * @param triggerCharacter - Character that triggered completion, if any
  */
 export function handleCompletion(
   service: TypeScriptService,
   document: TextDocument,
-  position: Position
+  position: Position,
+  triggerCharacter?: string
 ): CompletionList | null {
   const uri = document.uri;
   const orgFilePath = uri.replace(/^file:\/\//, "");
 
+  const linePrefix = document.getText({
+    start: { line: position.line, character: 0 },
+    end: position,
+  });
+  const orgCompletions =
+    getHeaderCompletions(service, orgFilePath, linePrefix, position) ??
+    getOrgImportCompletions(service, orgFilePath, linePrefix, position);
+  if (orgCompletions) return orgCompletions;
+
+  // Header trigger characters (e.g. the "|" of "||") don't trigger TypeScript completion
+  if (triggerCharacter && HEADER_TRIGGER_CHARACTERS.includes(triggerCharacter)) return null;
+
   const completions = service.getCompletions(orgFilePath, position);
   if (!completions) return null;
 
@@ -48,6 +48,7 @@ export function getDiagnostics(
       end: diag.endPosition,
     },
     message: diag.message,
+    code: diag.code,
     source: "org-press-lsp",
   }));
 }
@@ -0,0 +1,29 @@
+/**
+ * Workspace Edit Helpers
+ *
+ * Converts service edits in org files to LSP workspace edits.
+ */
+
+import type { TextEdit, WorkspaceEdit } from "vscode-languageserver/node.js";
+import type { OrgTextEdit } from "../typescript-service.js";
+
+/**
+ * Group org file edits by document URI
+ *
+ * @param edits - Edits with org file paths relative to the project root
+ * @param projectRoot - Project root directory
+ */
+export function toWorkspaceEdit(edits: OrgTextEdit[], projectRoot: string): WorkspaceEdit {
+  const changes: Record<string, TextEdit[]> = {};
+
+  for (const edit of edits) {
+    const editUri = `file://${projectRoot}/${edit.orgFilePath}`;
+
+    (changes[editUri] ??= []).push({
+      range: { start: edit.start, end: edit.end },
+      newText: edit.newText,
+    });
+  }
+
+  return { changes };
+}
@@ -0,0 +1,135 @@
+/**
+ * Tests for Formatting Handler
+ *
+ * Tests document and range formatting of block bodies.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleFormatting, handleRangeFormatting } from "./formatting.js";
+import {
+  createTestContext,
+  createTestService,
+  createTextDocument,
+  findPosition,
+  type TestContext,
+} from "../__tests__/test-helpers.js";
+
+/**
+ * Apply LSP text edits to a document's text
+ */
+function applyEdits(
+  content: string,
+  edits: Array<{ range: { start: any; end: any }; newText: string }>
+): string {
+  const lines = content.split("\n");
+  const offset = (pos: { line: number; character: number }) =>
+    lines.slice(0, pos.line).reduce((sum, line) => sum + line.length + 1, 0) + pos.character;
+
+  return [...edits]
+    .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+    .reduce(
+      (text, edit) =>
+        text.slice(0, offset(edit.range.start)) + edit.newText + text.slice(offset(edit.range.end)),
+      content
+    );
+}
+
+describe("handleFormatting", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  it("should format block bodies and leave other lines alone", async () => {
+    const orgContent = [
+      "#+TITLE:   Spaced   Title",
+      "",
+      "Prose with code-like text: const   x={a:1}",
+      "",
+      "#+name:   config",
+      "#+begin_src typescript   :use   dom",
+      "const x={a:1}",
+      "#+end_src",
+      "",
+      "#+begin_src json",
+      '{"b":   2}',
+      "#+end_src",
+    ].join("\n");
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    const edits = await handleFormatting(service, document);
+
+    expect(applyEdits(orgContent, edits)).toBe(
+      orgContent.replace("const x={a:1}\n", "const x = { a: 1 };\n").replace('{"b":   2}', '{ "b": 2 }')
+    );
+  });
+
+  it("should keep the indentation of indented blocks", async () => {
+    const orgContent = [
+      "- Item",
+      "  #+begin_src javascript",
+      "  function add(a,b){",
+      "  return a+b}",
+      "  #+end_src",
+    ].join("\n");
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    const edits = await handleFormatting(service, document);
+
+    expect(applyEdits(orgContent, edits)).toBe(
+      [
+        "- Item",
+        "  #+begin_src javascript",
+        "  function add(a, b) {",
+        "    return a + b;",
+        "  }",
+        "  #+end_src",
+      ].join("\n")
+    );
+  });
+
+  it("should skip unsupported languages and blocks with syntax errors", async () => {
+    const orgContent = [
+      "#+begin_src python",
+      "x=[1,2]",
+      "#+end_src",
+      "",
+      "#+begin_src typescript",
+      "const x = {",
+      "#+end_src",
+    ].join("\n");
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    expect(await handleFormatting(service, document)).toEqual([]);
+  });
+
+  it("should only format blocks overlapping the range", async () => {
+    const orgContent = [
+      "#+begin_src typescript",
+      "const a=1",
+      "#+end_src",
+      "",
+      "#+begin_src typescript",
+      "const b=2",
+      "#+end_src",
+    ].join("\n");
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+    const position = findPosition(orgContent, "b=2");
+
+    const edits = await handleRangeFormatting(service, document, {
+      start: position,
+      end: position,
+    });
+
+    expect(applyEdits(orgContent, edits)).toBe(orgContent.replace("const b=2", "const b = 2;"));
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * LSP Formatting Handler
+ *
+ * Provides document and range formatting for code blocks.
+ */
+
+import type { Range, TextEdit } from "vscode-languageserver/node.js";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type { TypeScriptService } from "../typescript-service.js";
+
+/**
+ * Handle document formatting requests
+ *
+ * Formatting follows the project's Prettier and EditorConfig settings
+ * (like `orgp fmt`), not the editor's tab size options.
+ *
+ * @returns Edits for every block body that needs formatting
+ */
+export async function handleFormatting(
+  service: TypeScriptService,
+  document: TextDocument
+): Promise<TextEdit[]> {
+  return handleRangeFormatting(service, document, null);
+}
+
+/**
+ * Handle range formatting requests
+ *
+ * Blocks overlapping the range are formatted as a whole.
+ *
+ * @param range - Range to format, or null for the whole document
+ * @returns Edits for the block bodies that need formatting
+ */
+export async function handleRangeFormatting(
+  service: TypeScriptService,
+  document: TextDocument,
+  range: Range | null
+): Promise<TextEdit[]> {
+  const uri = document.uri;
+  const orgFilePath = uri.replace(/^file:\/\//, "");
+
+  const edits = await service.getFormattingEdits(
+    orgFilePath,
+    document.getText(),
+    range ?? undefined
+  );
+
+  return edits.map((edit) => ({
+    range: { start: edit.start, end: edit.end },
+    newText: edit.newText,
+  }));
+}
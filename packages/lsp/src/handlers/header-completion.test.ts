@@ -0,0 +1,171 @@
+/**
+ * Tests for Header Completion
+ *
+ * Tests completion of header arguments, :use pipes and .org?name= imports.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleCompletion } from "./completion.js";
+import {
+  createTestContext,
+  createTestService,
+  createOrgContent,
+  createTextDocument,
+  type TestContext,
+} from "../__tests__/test-helpers.js";
+
+describe("Header completion", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  /**
+   * Complete at the end of a #+begin_src line
+   */
+  async function completeHeader(header: string) {
+    const orgContent = `${header}\nconst x = 1;\n#+end_src\n`;
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    return handleCompletion(service, document, { line: 0, character: header.length });
+  }
+
+  function labels(completions: Awaited<ReturnType<typeof completeHeader>>): string[] {
+    return completions?.items.map((item) => item.label) ?? [];
+  }
+
+  it("should complete header arguments not used yet", async () => {
+    const completions = await completeHeader("#+begin_src tsx :use dom :");
+
+    expect(labels(completions)).toEqual(expect.arrayContaining([":exec", ":tangle", ":endpoint", ":method"]));
+    expect(labels(completions)).not.toContain(":use");
+    expect(completions!.items[0].textEdit).toEqual({
+      range: { start: { line: 0, character: 25 }, end: { line: 0, character: 26 } },
+      newText: `${completions!.items[0].label} `,
+    });
+  });
+
+  it("should complete modes in the first :use segment", async () => {
+    const completions = await completeHeader("#+begin_src tsx :use ");
+
+    expect(labels(completions)).toEqual(
+      expect.arrayContaining(["dom", "sourceOnly", "silent", "raw", "server", "api"])
+    );
+  });
+
+  it("should complete wrappers and format wrappers after a pipe", async () => {
+    const completions = await completeHeader("#+begin_src tsx :use dom | with");
+
+    expect(labels(completions)).toEqual(
+      expect.arrayContaining(["withTabs", "withSourceCode", "json", "csv"])
+    );
+    expect(labels(completions)).not.toContain("silent");
+    expect(completions!.items.find((item) => item.label === "json")?.detail).toBe("format wrapper");
+    expect(completions!.items[0].textEdit!).toMatchObject({
+      range: { start: { line: 0, character: 27 }, end: { line: 0, character: 31 } },
+    });
+  });
+
+  it("should complete ?config= keys from the wrapper's config interface", async () => {
+    const completions = await completeHeader("#+begin_src tsx :use dom | withTabs?defaultTab=source&");
+
+    expect(labels(completions)).toEqual(
+      expect.arrayContaining(["resultLabel", "sourceLabel", "className"])
+    );
+    expect(labels(completions)).not.toContain("defaultTab");
+
+    const sourceLabel = completions!.items.find((item) => item.label === "sourceLabel");
+    expect(sourceLabel?.detail).toBe("string");
+    expect(sourceLabel?.documentation).toBe("Label for the source tab");
+  });
+
+  it("should complete config keys of modes and format wrappers", async () => {
+    expect(labels(await completeHeader("#+begin_src tsx :use raw?"))).toContain("formatJson");
+    expect(labels(await completeHeader("#+begin_src js :use server | json?"))).toContain("indent");
+  });
+
+  it("should complete fixed header argument values", async () => {
+    const completions = await completeHeader("#+begin_src js :use api :endpoint /users :method P");
+
+    expect(labels(completions)).toEqual(["GET", "POST", "PUT", "PATCH", "DELETE"]);
+  });
+
+  it("should complete .org?name= imports of named blocks in :use pipes", async () => {
+    const wrappersOrg = createOrgContent([{ name: "myWrapper", content: `export default () => {};` }]);
+    const orgContent = `#+begin_src tsx :use dom | ./\nconst x = 1;\n#+end_src\n`;
+    const service = await createTestService(ctx, {
+      "nested/wrappers.org": wrappersOrg,
+      "test.org": orgContent,
+    });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    const completions = handleCompletion(service, document, { line: 0, character: 28 });
+
+    expect(labels(completions)).toContain("./nested/wrappers.org?name=myWrapper");
+  });
+
+  it("should not complete outside header arguments", async () => {
+    expect(await completeHeader("#+begin_src ts")).toBeNull();
+    expect(await completeHeader("#+begin_src ts :tangle out")).toBeNull();
+  });
+});
+
+describe("Org import completion", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  it("should offer named blocks across the workspace in import strings", async () => {
+    const utilsOrg = createOrgContent([
+      { name: "helpers", content: `export const one = 1;` },
+      { name: "", content: `export const two = 2;` },
+    ]);
+    const mainOrg = createOrgContent([{ name: "main", content: `import { one } from "../` }]);
+    const service = await createTestService(ctx, {
+      "utils.org": utilsOrg,
+      "pages/main.org": mainOrg,
+    });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/pages/main.org`, mainOrg);
+    const line = mainOrg.split("\n").findIndex((text) => text.startsWith("import"));
+    const character = mainOrg.split("\n")[line].length;
+
+    const completions = handleCompletion(service, document, { line, character });
+
+    expect(completions!.items.map((item) => item.label)).toEqual(
+      expect.arrayContaining(["../utils.org?name=helpers", "./main.org?name=main"])
+    );
+    expect(completions!.items.find((item) => item.label === "../utils.org?name=helpers")).toMatchObject({
+      detail: "typescript block in content/utils.org",
+      textEdit: {
+        range: { start: { line, character: character - 3 }, end: { line, character } },
+        newText: "../utils.org?name=helpers",
+      },
+    });
+  });
+
+  it("should leave TypeScript completion alone in block bodies", async () => {
+    const orgContent = createOrgContent([
+      { name: "obj", content: `const user = { name: "Alice" };\nuser.` },
+    ]);
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+    const line = orgContent.split("\n").indexOf("user.");
+
+    expect(
+      handleCompletion(service, document, { line, character: 5 })!.items.map((item) => item.label)
+    ).toContain("name");
+    expect(handleCompletion(service, document, { line, character: 5 }, "|")).toBeNull();
+  });
+});
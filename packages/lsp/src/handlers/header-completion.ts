@@ -0,0 +1,250 @@
+/**
+ * LSP Header Completion
+ *
+ * Completes `#+begin_src` lines: header arguments, `:use` modes and
+ * wrappers, wrapper `?key=` config keys and `.org?name=` imports.
+ * Also completes `.org?name=` imports in block import statements.
+ */
+
+import {
+  CompletionItemKind,
+  type CompletionItem,
+  type CompletionList,
+  type Position,
+  type Range,
+} from "vscode-languageserver/node.js";
+import {
+  HEADER_ARGS,
+  listModes,
+  builtinModes,
+  globalRegistry,
+  initializeRenderApi,
+  isFormat,
+  isMode,
+} from "org-press";
+import type { TypeScriptService } from "../typescript-service.js";
+import { getWrapperConfigKeys } from "../wrapper-config.js";
+
+/**
+ * Matches a #+begin_src line up to the end of the language
+ */
+const BEGIN_SRC_PREFIX_PATTERN = /^\s*#\+begin_src\s+\S+\s/i;
+
+/**
+ * Matches a header argument key (e.g. `:use`) followed by whitespace
+ */
+const HEADER_KEY_PATTERN = /(?:^|\s):([\w-]+)(?=\s)/g;
+
+/**
+ * Matches an unfinished relative import string at the end of a line
+ */
+const IMPORT_STRING_PATTERN = /(?:\bfrom\s*|\bimport\s*\(?\s*)["'](\.[^"']*)$/;
+
+/**
+ * Trigger characters only used by header completion
+ */
+export const HEADER_TRIGGER_CHARACTERS = [":", "|", "?", "&"];
+
+/**
+ * `:use` modes provided by block plugins rather than the mode registry
+ */
+const PLUGIN_MODES = ["server", "api"];
+
+/**
+ * Build a completion list, or null when there is nothing to offer
+ */
+function toCompletionList(items: CompletionItem[]): CompletionList | null {
+  return items.length > 0 ? { isIncomplete: false, items } : null;
+}
+
+/**
+ * Range from a column to the position, on the position's line
+ */
+function rangeFrom(position: Position, character: number): Range {
+  return { start: { line: position.line, character }, end: position };
+}
+
+/**
+ * Complete header argument names
+ */
+function getHeaderArgItems(args: string, range: Range): CompletionItem[] {
+  const used = new Set([...args.matchAll(HEADER_KEY_PATTERN)].map((match) => match[1]));
+
+  return HEADER_ARGS.filter((arg) => !used.has(arg.name)).map((arg) => ({
+    label: `:${arg.name}`,
+    kind: CompletionItemKind.Property,
+    documentation: arg.description,
+    textEdit: { range, newText: `:${arg.name} ` },
+  }));
+}
+
+/**
+ * Complete mode names (first segment of a `:use` pipe)
+ */
+function getModeItems(range: Range): CompletionItem[] {
+  const modes = new Set([...listModes(), ...Object.keys(builtinModes), ...PLUGIN_MODES]);
+
+  return [...modes].map((mode) => ({
+    label: mode,
+    kind: CompletionItemKind.EnumMember,
+    detail: "mode",
+    textEdit: { range, newText: mode },
+  }));
+}
+
+/**
+ * Complete wrapper names (later segments of a `:use` pipe)
+ */
+function getWrapperItems(range: Range): CompletionItem[] {
+  initializeRenderApi();
+
+  return globalRegistry
+    .keys()
+    .filter((name) => !isMode(name))
+    .map((name) => ({
+      label: name,
+      kind: CompletionItemKind.Function,
+      detail: isFormat(name) ? "format wrapper" : "wrapper",
+      textEdit: { range, newText: name },
+    }));
+}
+
+/**
+ * Complete the config keys of a mode or wrapper
+ */
+function getConfigKeyItems(name: string, query: string, range: Range): CompletionItem[] {
+  const used = new Set(query.split("&").map((pair) => pair.split("=")[0]));
+
+  return getWrapperConfigKeys(name)
+    .filter((key) => !used.has(key.name))
+    .map((key) => ({
+      label: key.name,
+      kind: CompletionItemKind.Property,
+      detail: key.type,
+      documentation: key.documentation,
+      textEdit: { range, newText: `${key.name}=` },
+    }));
+}
+
+/**
+ * Complete `.org?name=` imports of named blocks and tables
+ */
+function getOrgImportItems(
+  service: TypeScriptService,
+  orgFilePath: string,
+  range: Range
+): CompletionItem[] {
+  return service.getOrgImportTargets(orgFilePath).map((target) => ({
+    label: target.specifier,
+    kind: target.language ? CompletionItemKind.Module : CompletionItemKind.Struct,
+    detail: target.language
+      ? `${target.language} block in ${target.orgFilePath}`
+      : `table in ${target.orgFilePath}`,
+    textEdit: { range, newText: target.specifier },
+  }));
+}
+
+/**
+ * Complete the value of a `:use` pipe
+ */
+function getUseItems(
+  service: TypeScriptService,
+  orgFilePath: string,
+  value: string,
+  position: Position
+): CompletionItem[] {
+  const segments = value.split("|");
+  const segment = segments[segments.length - 1].trimStart();
+  const segmentRange = rangeFrom(position, position.character - segment.length);
+
+  if (segment.startsWith(".")) {
+    return getOrgImportItems(service, orgFilePath, segmentRange);
+  }
+
+  const queryStart = segment.indexOf("?");
+  if (queryStart !== -1) {
+    const query = segment.slice(queryStart + 1);
+    const pair = query.slice(query.lastIndexOf("&") + 1);
+    if (pair.includes("=")) return [];
+
+    return getConfigKeyItems(
+      segment.slice(0, queryStart),
+      query,
+      rangeFrom(position, position.character - pair.length)
+    );
+  }
+
+  return segments.length === 1 ? getModeItems(segmentRange) : getWrapperItems(segmentRange);
+}
+
+/**
+ * Get completions on a `#+begin_src` line
+ *
+ * @param linePrefix - Text of the line before the position
+ * @returns Completions, or null if the position is not in the header arguments
+ */
+export function getHeaderCompletions(
+  service: TypeScriptService,
+  orgFilePath: string,
+  linePrefix: string,
+  position: Position
+): CompletionList | null {
+  const headerMatch = BEGIN_SRC_PREFIX_PATTERN.exec(linePrefix);
+  if (!headerMatch) return null;
+
+  const args = linePrefix.slice(headerMatch[0].length);
+  const word = /\S*$/.exec(args)![0];
+
+  if (word.startsWith(":")) {
+    return toCompletionList(
+      getHeaderArgItems(args, rangeFrom(position, position.character - word.length))
+    );
+  }
+
+  const keys = [...args.matchAll(HEADER_KEY_PATTERN)];
+  const lastKey = keys[keys.length - 1];
+  if (!lastKey) return null;
+
+  const value = args.slice(lastKey.index! + lastKey[0].length);
+
+  if (lastKey[1] === "use") {
+    return toCompletionList(getUseItems(service, orgFilePath, value, position));
+  }
+
+  // Values of other arguments are single words
+  const values = HEADER_ARGS.find((arg) => arg.name === lastKey[1])?.values;
+  if (!values || value.trim() !== word) return null;
+
+  const range = rangeFrom(position, position.character - word.length);
+  return toCompletionList(
+    values.map((headerValue) => ({
+      label: headerValue,
+      kind: CompletionItemKind.Value,
+      textEdit: { range, newText: headerValue },
+    }))
+  );
+}
+
+/**
+ * Get `.org?name=` completions in a block import statement
+ *
+ * @param linePrefix - Text of the line before the position
+ * @returns Completions, or null if the position is not in a relative import string
+ */
+export function getOrgImportCompletions(
+  service: TypeScriptService,
+  orgFilePath: string,
+  linePrefix: string,
+  position: Position
+): CompletionList | null {
+  const importMatch = IMPORT_STRING_PATTERN.exec(linePrefix);
+  if (!importMatch || !service.findBlockAtPosition(orgFilePath, position)) return null;
+
+  return toCompletionList(
+    getOrgImportItems(
+      service,
+      orgFilePath,
+      rangeFrom(position, position.character - importMatch[1].length)
+    )
+  );
+}
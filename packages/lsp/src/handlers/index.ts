@@ -14,3 +14,7 @@ export {
   handleImplementation,
 } from "./references.js";
 export { handleSignatureHelp } from "./signature-help.js";
+export { handlePrepareRename, handleRename } from "./rename.js";
+export { handleCodeActions, handleCodeActionResolve } from "./code-actions.js";
+export { handleFormatting, handleRangeFormatting } from "./formatting.js";
+export { handleDocumentSymbols, handleWorkspaceSymbols } from "./symbols.js";
@@ -0,0 +1,242 @@
+/**
+ * Tests for Rename Handler
+ *
+ * Tests prepare-rename and rename of symbols and #+NAME: labels.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ErrorCodes, ResponseError } from "vscode-languageserver/node.js";
+import { handlePrepareRename, handleRename } from "./rename.js";
+import {
+  createTestContext,
+  createTestService,
+  createOrgContent,
+  createTextDocument,
+  findPosition,
+  type TestContext,
+} from "../__tests__/test-helpers.js";
+
+/**
+ * Apply LSP text edits to a document's text
+ */
+function applyEdits(
+  content: string,
+  edits: Array<{ range: { start: any; end: any }; newText: string }>
+): string {
+  const lines = content.split("\n");
+  const offset = (pos: { line: number; character: number }) =>
+    lines.slice(0, pos.line).reduce((sum, line) => sum + line.length + 1, 0) + pos.character;
+
+  return [...edits]
+    .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+    .reduce(
+      (text, edit) =>
+        text.slice(0, offset(edit.range.start)) + edit.newText + text.slice(offset(edit.range.end)),
+      content
+    );
+}
+
+describe("handleRename", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  describe("Symbols", () => {
+    it("should rename a symbol across blocks of the same file", async () => {
+      const orgContent = createOrgContent([
+        { name: "first", content: `const total = 1;\nconsole.log(total);` },
+      ]);
+      const service = await createTestService(ctx, { "test.org": orgContent });
+      const uri = `file://${ctx.projectRoot}/content/test.org`;
+      const document = createTextDocument(uri, orgContent);
+      const position = findPosition(orgContent, "total");
+
+      const prepared = handlePrepareRename(service, document, position);
+      expect(prepared).toEqual({
+        range: { start: position, end: { ...position, character: position.character + 5 } },
+        placeholder: "total",
+      });
+
+      const edit = handleRename(service, document, position, "sum", ctx.projectRoot);
+      expect(applyEdits(orgContent, edit!.changes![uri])).toContain(
+        "const sum = 1;\nconsole.log(sum);"
+      );
+    });
+
+    it("should rename exports in every file importing them", async () => {
+      const utilsOrg = createOrgContent([
+        { name: "helpers", content: `export function add(a: number, b: number) { return a + b; }` },
+      ]);
+      const mainOrg = createOrgContent([
+        {
+          name: "main",
+          content: `import { add } from "./utils.org?name=helpers";\nconst three = add(1, 2);`,
+        },
+      ]);
+      const service = await createTestService(ctx, { "utils.org": utilsOrg, "main.org": mainOrg });
+      const utilsUri = `file://${ctx.projectRoot}/content/utils.org`;
+      const mainUri = `file://${ctx.projectRoot}/content/main.org`;
+
+      const edit = handleRename(
+        service,
+        createTextDocument(mainUri, mainOrg),
+        findPosition(mainOrg, "add(1"),
+        "sum",
+        ctx.projectRoot
+      );
+
+      expect(applyEdits(utilsOrg, edit!.changes![utilsUri])).toContain("export function sum(");
+      expect(applyEdits(mainOrg, edit!.changes![mainUri])).toContain(
+        `import { sum } from "./utils.org?name=helpers";\nconst three = sum(1, 2);`
+      );
+    });
+
+    it("should return null outside blocks and for built-in symbols", async () => {
+      const orgContent = createOrgContent([{ name: "logs", content: `console.log(1);` }]);
+      const service = await createTestService(ctx, { "test.org": orgContent });
+      const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+      expect(handlePrepareRename(service, document, { line: 0, character: 3 })).toBeNull();
+      expect(handlePrepareRename(service, document, findPosition(orgContent, "log("))).toBeNull();
+      expect(
+        handleRename(service, document, { line: 0, character: 3 }, "x", ctx.projectRoot)
+      ).toBeNull();
+    });
+  });
+
+  describe("#+NAME: labels", () => {
+    const utilsOrg = createOrgContent([
+      { name: "helpers", content: `export const one = 1;` },
+    ]);
+    const mainOrg = createOrgContent([
+      {
+        name: "main",
+        content: `import { one } from "./utils.org?name=helpers";\nconst lazy = import("./utils.org?name=helpers");`,
+      },
+    ]);
+    const deepOrg = createOrgContent([
+      { name: "deep", content: `import { one } from "../utils.org?name=helpers";` },
+    ]);
+
+    it("should rename a label and every import query using it", async () => {
+      const service = await createTestService(ctx, {
+        "utils.org": utilsOrg,
+        "main.org": mainOrg,
+        "nested/deep.org": deepOrg,
+      });
+      const utilsUri = `file://${ctx.projectRoot}/content/utils.org`;
+      const document = createTextDocument(utilsUri, utilsOrg);
+      const position = findPosition(utilsOrg, "helpers");
+
+      expect(handlePrepareRename(service, document, position)?.placeholder).toBe("helpers");
+
+      const edit = handleRename(service, document, position, "numbers", ctx.projectRoot);
+      const changes = edit!.changes!;
+
+      expect(applyEdits(utilsOrg, changes[utilsUri])).toContain("#+name: numbers\n");
+      expect(applyEdits(mainOrg, changes[`file://${ctx.projectRoot}/content/main.org`])).toBe(
+        mainOrg.replaceAll("?name=helpers", "?name=numbers")
+      );
+      expect(
+        applyEdits(deepOrg, changes[`file://${ctx.projectRoot}/content/nested/deep.org`])
+      ).toContain(`from "../utils.org?name=numbers"`);
+    });
+
+    it("should rename a label from an import query", async () => {
+      const service = await createTestService(ctx, { "utils.org": utilsOrg, "main.org": mainOrg });
+      const mainUri = `file://${ctx.projectRoot}/content/main.org`;
+      const document = createTextDocument(mainUri, mainOrg);
+      const position = findPosition(mainOrg, "helpers\"");
+
+      expect(handlePrepareRename(service, document, position)).toEqual({
+        range: { start: position, end: { ...position, character: position.character + 7 } },
+        placeholder: "helpers",
+      });
+
+      const edit = handleRename(service, document, position, "numbers", ctx.projectRoot);
+      const utilsUri = `file://${ctx.projectRoot}/content/utils.org`;
+      expect(applyEdits(utilsOrg, edit!.changes![utilsUri])).toContain("#+name: numbers\n");
+      expect(edit!.changes![mainUri]).toHaveLength(2);
+    });
+
+    it("should leave other blocks with the same label alone", async () => {
+      const otherOrg = createOrgContent([
+        { name: "helpers", content: `export const two = 2;` },
+      ]);
+      const service = await createTestService(ctx, {
+        "utils.org": utilsOrg,
+        "other.org": otherOrg,
+        "main.org": mainOrg,
+      });
+      const otherUri = `file://${ctx.projectRoot}/content/other.org`;
+      const document = createTextDocument(otherUri, otherOrg);
+
+      const edit = handleRename(
+        service,
+        document,
+        findPosition(otherOrg, "helpers"),
+        "numbers",
+        ctx.projectRoot
+      );
+
+      expect(Object.keys(edit!.changes!)).toEqual([otherUri]);
+    });
+
+    it("should reject labels that cannot be used in import queries", async () => {
+      const service = await createTestService(ctx, { "utils.org": utilsOrg });
+      const document = createTextDocument(`file://${ctx.projectRoot}/content/utils.org`, utilsOrg);
+
+      let error: unknown;
+      try {
+        handleRename(service, document, findPosition(utilsOrg, "helpers"), "a b", ctx.projectRoot);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ResponseError);
+      expect((error as ResponseError<void>).code).toBe(ErrorCodes.InvalidParams);
+    });
+
+    it("should rename :var and #+RESULTS: references in the same file", async () => {
+      const dataOrg = [
+        "#+NAME: sales",
+        "| region | total |",
+        "|--------+-------|",
+        "| north  |    10 |",
+        "",
+        "#+NAME: report",
+        '#+begin_src typescript :var rows=sales, title="sales" :var other=salesforce',
+        "export const count = rows.length;",
+        "#+end_src",
+        "",
+        "#+RESULTS: sales",
+        ": 1",
+        "",
+      ].join("\n");
+      const service = await createTestService(ctx, { "data.org": dataOrg });
+      const uri = `file://${ctx.projectRoot}/content/data.org`;
+      const document = createTextDocument(uri, dataOrg);
+
+      const edit = handleRename(
+        service,
+        document,
+        findPosition(dataOrg, "sales"),
+        "revenue",
+        ctx.projectRoot
+      );
+
+      const renamed = applyEdits(dataOrg, edit!.changes![uri]);
+      expect(renamed).toContain("#+NAME: revenue\n");
+      expect(renamed).toContain(
+        '#+begin_src typescript :var rows=revenue, title="sales" :var other=salesforce'
+      );
+      expect(renamed).toContain("#+RESULTS: revenue\n");
+    });
+  });
+});
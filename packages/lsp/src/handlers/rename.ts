@@ -0,0 +1,70 @@
+/**
+ * LSP Rename Handler
+ *
+ * Provides rename for symbols in code blocks and for #+NAME: labels.
+ */
+
+import {
+  ErrorCodes,
+  ResponseError,
+  type Position,
+  type Range,
+  type WorkspaceEdit,
+} from "vscode-languageserver/node.js";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { InvalidLabelError, type TypeScriptService } from "../typescript-service.js";
+import { toWorkspaceEdit } from "./edits.js";
+
+/**
+ * Handle prepare-rename requests
+ *
+ * @returns Range and current name of the renamed symbol or label,
+ *   or null when nothing at the position can be renamed
+ */
+export function handlePrepareRename(
+  service: TypeScriptService,
+  document: TextDocument,
+  position: Position
+): { range: Range; placeholder: string } | null {
+  const uri = document.uri;
+  const orgFilePath = uri.replace(/^file:\/\//, "");
+
+  const target = service.prepareRename(orgFilePath, position, document.getText());
+  if (!target) return null;
+
+  return {
+    range: { start: target.start, end: target.end },
+    placeholder: target.placeholder,
+  };
+}
+
+/**
+ * Handle rename requests
+ *
+ * @returns Edits for every org file referencing the symbol or label,
+ *   or null when nothing at the position can be renamed
+ * @throws ResponseError (InvalidParams) if a label is renamed to an invalid label
+ */
+export function handleRename(
+  service: TypeScriptService,
+  document: TextDocument,
+  position: Position,
+  newName: string,
+  projectRoot: string
+): WorkspaceEdit | null {
+  const uri = document.uri;
+  const orgFilePath = uri.replace(/^file:\/\//, "");
+
+  let edits;
+  try {
+    edits = service.getRenameEdits(orgFilePath, position, newName, document.getText());
+  } catch (error) {
+    if (error instanceof InvalidLabelError) {
+      throw new ResponseError(ErrorCodes.InvalidParams, error.message);
+    }
+    throw error;
+  }
+  if (edits.length === 0) return null;
+
+  return toWorkspaceEdit(edits, projectRoot);
+}
@@ -0,0 +1,174 @@
+/**
+ * Tests for Symbols Handler
+ *
+ * Tests the document outline and workspace symbol search.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { SymbolKind, type DocumentSymbol } from "vscode-languageserver/node.js";
+import { handleDocumentSymbols, handleWorkspaceSymbols } from "./symbols.js";
+import {
+  createTestContext,
+  createTestService,
+  createTextDocument,
+  type TestContext,
+} from "../__tests__/test-helpers.js";
+
+/**
+ * Reduce document symbols to names and children for comparison
+ */
+function outline(symbols: DocumentSymbol[]): unknown[] {
+  return symbols.map((symbol) =>
+    symbol.children?.length ? { [symbol.name]: outline(symbol.children) } : symbol.name
+  );
+}
+
+const utilsOrg = [
+  "#+TITLE: Utils",
+  "",
+  "* Math :core:",
+  "",
+  "#+name: helpers",
+  "#+begin_src typescript",
+  "export function add(a: number, b: number) { return a + b; }",
+  "export const ZERO = 0;",
+  "const internal = 1;",
+  "#+end_src",
+  "",
+  "** Types",
+  "",
+  "#+name: types",
+  "#+begin_src typescript",
+  "export interface Point { x: number; y: number }",
+  "#+end_src",
+  "",
+  "#+begin_src typescript",
+  "export const unnamed = 1;",
+  "#+end_src",
+  "",
+  "* Styles",
+  "",
+  "#+name: theme",
+  "#+begin_src css",
+  "body { color: red; }",
+  "#+end_src",
+].join("\n");
+
+describe("handleDocumentSymbols", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  it("should outline headings with nested named blocks and their exports", async () => {
+    const service = await createTestService(ctx, { "utils.org": utilsOrg });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/utils.org`, utilsOrg);
+
+    const symbols = handleDocumentSymbols(service, document);
+
+    expect(outline(symbols)).toEqual([
+      { Math: [{ helpers: ["add", "ZERO"] }, { Types: [{ types: ["Point"] }] }] },
+      { Styles: ["theme"] },
+    ]);
+  });
+
+  it("should give headings, blocks and exports their ranges and kinds", async () => {
+    const service = await createTestService(ctx, { "utils.org": utilsOrg });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/utils.org`, utilsOrg);
+
+    const [math] = handleDocumentSymbols(service, document);
+    const helpers = math.children![0];
+    const add = helpers.children![0];
+
+    expect(math).toMatchObject({
+      kind: SymbolKind.Namespace,
+      detail: ":core:",
+      range: { start: { line: 2, character: 0 }, end: { line: 21, character: 0 } },
+      selectionRange: { start: { line: 2, character: 2 }, end: { line: 2, character: 6 } },
+    });
+    expect(helpers).toMatchObject({
+      kind: SymbolKind.Module,
+      detail: "typescript",
+      range: { start: { line: 4, character: 0 }, end: { line: 9, character: 9 } },
+      selectionRange: { start: { line: 4, character: 8 }, end: { line: 4, character: 15 } },
+    });
+    expect(add).toMatchObject({
+      kind: SymbolKind.Function,
+      selectionRange: { start: { line: 6, character: 16 }, end: { line: 6, character: 19 } },
+    });
+    expect(helpers.children![1].kind).toBe(SymbolKind.Constant);
+  });
+
+  it("should list blocks before the first heading at the top level", async () => {
+    const orgContent = [
+      "#+name: setup",
+      "#+begin_src javascript",
+      "export const ready = true;",
+      "#+end_src",
+      "",
+      "* Later",
+    ].join("\n");
+    const service = await createTestService(ctx, { "test.org": orgContent });
+    const document = createTextDocument(`file://${ctx.projectRoot}/content/test.org`, orgContent);
+
+    expect(outline(handleDocumentSymbols(service, document))).toEqual([
+      { setup: ["ready"] },
+      "Later",
+    ]);
+  });
+});
+
+describe("handleWorkspaceSymbols", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  it("should search block names and exports across org files", async () => {
+    const mainOrg = [
+      "#+name: main-helpers",
+      "#+begin_src typescript",
+      "export const addAll = (values: number[]) => values.length;",
+      "#+end_src",
+    ].join("\n");
+    const service = await createTestService(ctx, { "utils.org": utilsOrg, "main.org": mainOrg });
+
+    const symbols = handleWorkspaceSymbols(service, "add", ctx.projectRoot);
+
+    expect(symbols.map((symbol) => symbol.name).sort()).toEqual(["add", "addAll"]);
+    expect(symbols.find((symbol) => symbol.name === "add")).toEqual({
+      name: "add",
+      kind: SymbolKind.Function,
+      location: {
+        uri: `file://${ctx.projectRoot}/content/utils.org`,
+        range: { start: { line: 6, character: 16 }, end: { line: 6, character: 19 } },
+      },
+      containerName: "helpers",
+    });
+
+    const helpers = handleWorkspaceSymbols(service, "hlprs", ctx.projectRoot);
+    expect(helpers.map((symbol) => [symbol.name, symbol.containerName])).toEqual(
+      expect.arrayContaining([
+        ["helpers", "content/utils.org"],
+        ["main-helpers", "content/main.org"],
+      ])
+    );
+  });
+
+  it("should not return unexported or unnamed-block symbols", async () => {
+    const service = await createTestService(ctx, { "utils.org": utilsOrg });
+
+    expect(handleWorkspaceSymbols(service, "internal", ctx.projectRoot)).toEqual([]);
+    expect(handleWorkspaceSymbols(service, "unnamed", ctx.projectRoot)).toEqual([]);
+  });
+});
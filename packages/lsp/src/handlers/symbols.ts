@@ -0,0 +1,165 @@
+/**
+ * LSP Symbols Handler
+ *
+ * Provides the document outline (headings, named blocks and their
+ * exports) and workspace symbol search.
+ */
+
+import {
+  SymbolKind,
+  type DocumentSymbol,
+  type SymbolInformation,
+} from "vscode-languageserver/node.js";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import ts from "typescript";
+import type { OrgSymbol, TypeScriptService } from "../typescript-service.js";
+
+/**
+ * Matches an org heading, capturing the stars, the title and the tags
+ */
+const HEADING_PATTERN = /^(\*+)\s+(.*?)(?:\s+(:[\w@#%:]+:))?\s*$/;
+
+/**
+ * Map TypeScript element kinds to LSP symbol kinds
+ */
+function mapSymbolKind(kind: ts.ScriptElementKind): SymbolKind {
+  switch (kind) {
+    case ts.ScriptElementKind.moduleElement:
+      return SymbolKind.Module;
+    case ts.ScriptElementKind.classElement:
+      return SymbolKind.Class;
+    case ts.ScriptElementKind.interfaceElement:
+      return SymbolKind.Interface;
+    case ts.ScriptElementKind.typeElement:
+      return SymbolKind.TypeParameter;
+    case ts.ScriptElementKind.enumElement:
+      return SymbolKind.Enum;
+    case ts.ScriptElementKind.functionElement:
+      return SymbolKind.Function;
+    case ts.ScriptElementKind.constElement:
+      return SymbolKind.Constant;
+    default:
+      return SymbolKind.Variable;
+  }
+}
+
+/**
+ * Convert a block or exported symbol to a document symbol
+ */
+function toDocumentSymbol(symbol: OrgSymbol): DocumentSymbol {
+  return {
+    name: symbol.name,
+    detail: symbol.kind === ts.ScriptElementKind.moduleElement ? symbol.block.language : undefined,
+    kind: mapSymbolKind(symbol.kind),
+    range: { start: symbol.start, end: symbol.end },
+    selectionRange: { start: symbol.nameStart, end: symbol.nameEnd },
+    children: symbol.children?.map(toDocumentSymbol),
+  };
+}
+
+/**
+ * Check whether a heading's section contains a line
+ */
+function contains(heading: DocumentSymbol, line: number): boolean {
+  return (
+    heading.kind === SymbolKind.Namespace &&
+    heading.range.start.line <= line &&
+    line <= heading.range.end.line
+  );
+}
+
+/**
+ * Sort symbols and their children by position
+ */
+function sortByLine(symbols: DocumentSymbol[]): DocumentSymbol[] {
+  symbols.sort((a, b) => a.range.start.line - b.range.start.line);
+  symbols.forEach((symbol) => symbol.children && sortByLine(symbol.children));
+  return symbols;
+}
+
+/**
+ * Handle document symbol requests
+ *
+ * @returns Headings with nested headings and named blocks; blocks
+ *   contain their exported symbols
+ */
+export function handleDocumentSymbols(
+  service: TypeScriptService,
+  document: TextDocument
+): DocumentSymbol[] {
+  const uri = document.uri;
+  const orgFilePath = uri.replace(/^file:\/\//, "");
+  const content = document.getText();
+  const lines = content.split("\n");
+
+  const roots: DocumentSymbol[] = [];
+  // Open headings, outermost first
+  const stack: Array<{ level: number; symbol: DocumentSymbol }> = [];
+
+  const close = (level: number, endLine: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      const { symbol } = stack.pop()!;
+      symbol.range.end = { line: endLine, character: lines[endLine].length };
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const match = HEADING_PATTERN.exec(line);
+    if (!match || !match[2]) return;
+
+    const level = match[1].length;
+    close(level, Math.max(index - 1, 0));
+
+    const symbol: DocumentSymbol = {
+      name: match[2],
+      detail: match[3],
+      kind: SymbolKind.Namespace,
+      range: { start: { line: index, character: 0 }, end: { line: index, character: line.length } },
+      selectionRange: {
+        start: { line: index, character: level + 1 },
+        end: { line: index, character: level + 1 + match[2].length },
+      },
+      children: [],
+    };
+
+    (stack.length > 0 ? stack[stack.length - 1].symbol.children! : roots).push(symbol);
+    stack.push({ level, symbol });
+  });
+  close(1, lines.length - 1);
+
+  for (const blockSymbol of service.getBlockSymbols(orgFilePath, content)) {
+    let siblings = roots;
+    let parent = roots.find((heading) => contains(heading, blockSymbol.start.line));
+
+    while (parent) {
+      siblings = parent.children!;
+      parent = parent.children!.find((heading) => contains(heading, blockSymbol.start.line));
+    }
+
+    siblings.push(toDocumentSymbol(blockSymbol));
+  }
+
+  return sortByLine(roots);
+}
+
+/**
+ * Handle workspace symbol requests
+ *
+ * @returns Named blocks and exported symbols matching the query
+ */
+export function handleWorkspaceSymbols(
+  service: TypeScriptService,
+  query: string,
+  projectRoot: string
+): SymbolInformation[] {
+  return service.searchSymbols(query).map((symbol) => ({
+    name: symbol.name,
+    kind: mapSymbolKind(symbol.kind),
+    location: {
+      uri: `file://${projectRoot}/${symbol.orgFilePath}`,
+      range: { start: symbol.nameStart, end: symbol.nameEnd },
+    },
+    containerName:
+      symbol.kind === ts.ScriptElementKind.moduleElement ? symbol.orgFilePath : symbol.block.name,
+  }));
+}
@@ -26,6 +26,11 @@ export { createLspConnection } from "./connection.js";
 export {
   TypeScriptService,
   type TypeScriptServiceOptions,
+  type OrgTextEdit,
+  type RenameTarget,
+  type CodeFix,
+  type OrgImportTarget,
+  type OrgSymbol,
 } from "./typescript-service.js";
 
 // Virtual file system
@@ -37,6 +42,14 @@ export {
   handleCompletionResolve,
   handleHover,
   handleDefinition,
+  handlePrepareRename,
+  handleRename,
+  handleCodeActions,
+  handleCodeActionResolve,
+  handleFormatting,
+  handleRangeFormatting,
+  handleDocumentSymbols,
+  handleWorkspaceSymbols,
   getDiagnostics,
 } from "./handlers/index.js";
 
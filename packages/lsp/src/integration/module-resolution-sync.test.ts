@@ -124,8 +124,8 @@ export function double(n: number): number {
         manifest
       );
 
-      expect(coreResult.ok).toBe(true);
-      if (coreResult.ok) {
+      expect(coreResult.ok && coreResult.resolved.kind).toBe("block");
+      if (coreResult.ok && coreResult.resolved.kind === "block") {
         expect(coreResult.resolved.orgFilePath).toBe("content/utils.org");
         expect(coreResult.resolved.block.name).toBe("helpers");
       }
@@ -139,8 +139,8 @@ export function double(n: number): number {
         manifest
       );
 
-      expect(coreResult.ok).toBe(true);
-      if (coreResult.ok) {
+      expect(coreResult.ok && coreResult.resolved.kind).toBe("block");
+      if (coreResult.ok && coreResult.resolved.kind === "block") {
         expect(coreResult.resolved.orgFilePath).toBe("content/utils.org");
         expect(coreResult.resolved.block.name).toBe("helpers");
       }
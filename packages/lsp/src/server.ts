@@ -6,13 +6,20 @@
  */
 
 import type {
+  CodeAction,
+  CodeActionContext,
   CompletionItem,
   CompletionList,
+  DocumentSymbol,
+  SymbolInformation,
   Hover,
   Location,
   Diagnostic,
   Position,
   SignatureHelp,
+  Range,
+  TextEdit,
+  WorkspaceEdit,
 } from "vscode-languageserver/node.js";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 import { TypeScriptService } from "./typescript-service.js";
@@ -25,6 +32,14 @@ import {
   handleTypeDefinition,
   handleImplementation,
   handleSignatureHelp,
+  handlePrepareRename,
+  handleRename,
+  handleCodeActions,
+  handleCodeActionResolve,
+  handleFormatting,
+  handleRangeFormatting,
+  handleDocumentSymbols,
+  handleWorkspaceSymbols,
   getDiagnostics,
 } from "./handlers/index.js";
 
@@ -145,10 +160,11 @@ export class OrgPressLspServer {
    */
   handleCompletion(
     document: TextDocument,
-    position: Position
+    position: Position,
+    triggerCharacter?: string
   ): CompletionList | null {
     if (!this.service) return null;
-    return handleCompletion(this.service, document, position);
+    return handleCompletion(this.service, document, position, triggerCharacter);
   }
 
   /**
@@ -207,6 +223,81 @@ export class OrgPressLspServer {
     return handleSignatureHelp(this.service, document, position);
   }
 
+  /**
+   * Handle prepare rename request
+   */
+  handlePrepareRename(
+    document: TextDocument,
+    position: Position
+  ): { range: Range; placeholder: string } | null {
+    if (!this.service) return null;
+    return handlePrepareRename(this.service, document, position);
+  }
+
+  /**
+   * Handle rename request
+   */
+  handleRename(
+    document: TextDocument,
+    position: Position,
+    newName: string
+  ): WorkspaceEdit | null {
+    if (!this.service) return null;
+    return handleRename(this.service, document, position, newName, this.projectRoot);
+  }
+
+  /**
+   * Handle code action request
+   */
+  async handleCodeActions(
+    document: TextDocument,
+    range: Range,
+    context: CodeActionContext
+  ): Promise<CodeAction[]> {
+    if (!this.service) return [];
+    return handleCodeActions(this.service, document, range, context, this.projectRoot);
+  }
+
+  /**
+   * Handle code action resolve request
+   */
+  async handleCodeActionResolve(action: CodeAction): Promise<CodeAction> {
+    if (!this.service) return action;
+    return handleCodeActionResolve(this.service, action, this.projectRoot);
+  }
+
+  /**
+   * Handle document formatting request
+   */
+  async handleFormatting(document: TextDocument): Promise<TextEdit[]> {
+    if (!this.service) return [];
+    return handleFormatting(this.service, document);
+  }
+
+  /**
+   * Handle range formatting request
+   */
+  async handleRangeFormatting(document: TextDocument, range: Range): Promise<TextEdit[]> {
+    if (!this.service) return [];
+    return handleRangeFormatting(this.service, document, range);
+  }
+
+  /**
+   * Handle document symbol request
+   */
+  handleDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+    if (!this.service) return [];
+    return handleDocumentSymbols(this.service, document);
+  }
+
+  /**
+   * Handle workspace symbol request
+   */
+  handleWorkspaceSymbols(query: string): SymbolInformation[] {
+    if (!this.service) return [];
+    return handleWorkspaceSymbols(this.service, query, this.projectRoot);
+  }
+
   /**
    * Get diagnostics for a document
    */
@@ -209,6 +209,25 @@ const x = 1;
       expect(info!.displayParts).toBeDefined();
     });
 
+    it("should type named table imports from their data", async () => {
+      const service = await createTestService(ctx, {
+        "data.org": "#+NAME: sales\n| region | total |\n|---+---|\n| north | 10 |\n",
+        "test.org": createOrgContent([
+          { name: "chart", content: `import rows from "./data.org?name=sales";` },
+        ]),
+      });
+
+      // Position at "rows"
+      const info = service.getQuickInfo(
+        `${ctx.projectRoot}/content/test.org`,
+        { line: 4, character: 8 }
+      );
+
+      const text = info!.displayParts!.map((part) => part.text).join("");
+      expect(text).toContain("region: string;");
+      expect(text).toContain("total: number;");
+    });
+
     it("should return function signature info", async () => {
       const orgContent = createOrgContent([
         {
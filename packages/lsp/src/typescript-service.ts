@@ -7,18 +7,29 @@
  */
 
 import ts from "typescript";
+import { existsSync, readFileSync } from "node:fs";
+import { join, posix } from "node:path";
 import {
   generateBlockManifest,
   extractBlocksFromFile,
+  extractTablesFromFile,
+  generateTableDeclaration,
   orgToBlock,
   blockToOrg,
   positionToOffset,
   offsetToPosition,
   resolveOrgImport,
+  isOrgImport,
+  loadToolConfig,
+  isFormattableLanguage,
+  formatBlock,
   type BlockInfo,
   type BlockManifest,
+  type TableInfo,
   type DtsPosition,
+  type ToolConfig,
 } from "org-press";
+import { getLintFilePath, lintCode } from "@org-press/tools";
 import { TypeScriptVirtualEnv, type OrgModuleResolver } from "./virtual-fs.js";
 
 /** Position type alias for LSP compatibility */
@@ -48,6 +59,268 @@ const EXTENSION_MAP: Record<string, string> = {
   tsx: "tsx",
 };
 
+/**
+ * Text edit in an org file
+ */
+export interface OrgTextEdit {
+  /** Org file path (relative to project root) */
+  orgFilePath: string;
+  /** Start of the replaced range */
+  start: Position;
+  /** End of the replaced range */
+  end: Position;
+  /** Replacement text */
+  newText: string;
+}
+
+/**
+ * Renamable symbol or #+NAME: label at a position
+ */
+export interface RenameTarget {
+  /** Current name */
+  placeholder: string;
+  /** Range of the name at the requested position */
+  start: Position;
+  /** End of the name */
+  end: Position;
+}
+
+/**
+ * Quick fix for a diagnostic
+ */
+export interface CodeFix {
+  /** Description of the fix (e.g. "Add import from \"./utils.org?name=helpers\"") */
+  title: string;
+  /** Edits applying the fix */
+  edits: OrgTextEdit[];
+}
+
+/**
+ * A named block or a symbol exported by a block
+ */
+export interface OrgSymbol {
+  /** Block or symbol name */
+  name: string;
+  /** Symbol kind (`module` for blocks) */
+  kind: ts.ScriptElementKind;
+  /** Org file path (relative to project root) */
+  orgFilePath: string;
+  /** Range of the whole block or declaration */
+  start: Position;
+  end: Position;
+  /** Range of the name */
+  nameStart: Position;
+  nameEnd: Position;
+  /** Block declaring the symbol (the block itself for blocks) */
+  block: BlockInfo;
+  /** Exported symbols of a block */
+  children?: OrgSymbol[];
+}
+
+/**
+ * A named block or table that can be imported with `.org?name=`
+ */
+export interface OrgImportTarget {
+  /** Import specifier relative to the importing org file */
+  specifier: string;
+  /** Org file of the target (relative to project root) */
+  orgFilePath: string;
+  /** Block or table name */
+  name: string;
+  /** Block language (undefined for tables) */
+  language?: string;
+}
+
+/**
+ * A #+NAME: label found at a position, with the block or table it names
+ */
+interface LabelTarget extends RenameTarget {
+  /** Named block or table */
+  target: BlockInfo | TableInfo;
+}
+
+/**
+ * Matches a #+NAME: keyword line, capturing the prefix and the label
+ */
+const NAME_LINE_PATTERN = /^(\s*#\+name:\s*)(\S+)/i;
+
+/**
+ * Matches the name parameter of an import query, capturing the prefix and the name
+ */
+const NAME_PARAM_PATTERN = /([?&]name=)([^&]*)/;
+
+/**
+ * Matches a #+begin_src line, capturing the indentation and the language
+ */
+const BEGIN_SRC_PATTERN = /^(\s*)#\+begin_src\s+(\S+)/i;
+
+/**
+ * Matches a #+end_src line
+ */
+const END_SRC_PATTERN = /^\s*#\+end_src\s*$/i;
+
+/**
+ * Matches a #+RESULTS: keyword line, capturing the prefix and the label
+ */
+const RESULTS_LINE_PATTERN = /^(\s*#\+results(?:\[[^\]]*\])?:\s*)(\S+)/i;
+
+/**
+ * Matches each `:var` parameter of a #+begin_src line, capturing its assignments
+ * (same as parseBlockParameters)
+ */
+const VAR_PARAM_PATTERN = /:var\s+((?:"[^"]*"|[^\s:"]|:(?!\w)|\s(?!\s*:[\w-]))+)/g;
+
+/**
+ * Matches a `name=value` assignment, capturing the prefix and the value
+ * (quoted strings are matched without captures to skip them)
+ */
+const VAR_ASSIGNMENT_PATTERN = /"[^"]*"|([A-Za-z_][A-Za-z0-9_]*=)([^\s,"]+)/g;
+
+/**
+ * Labels must survive being used in an import query
+ */
+const VALID_LABEL_PATTERN = /^[^\s?&#=]+$/;
+
+/**
+ * Rename to a label that cannot be used in import queries
+ */
+export class InvalidLabelError extends Error {
+  constructor(label: string) {
+    super(`Invalid label "${label}": labels cannot contain whitespace, "?", "&", "#" or "="`);
+    this.name = "InvalidLabelError";
+  }
+}
+
+/**
+ * Find the label of a block's or table's #+NAME: line
+ *
+ * Looks through the keyword lines right above the block or table.
+ *
+ * @param content - Org file text
+ * @param target - Named block or table
+ * @returns 0-based position of the label, or null if not found
+ */
+function findNameLine(
+  content: string,
+  target: BlockInfo | TableInfo
+): Position | null {
+  const lines = content.split("\n");
+
+  // startLine is 1-based: the line above it has index startLine - 2
+  for (let line = target.startLine - 2; line >= 0 && /^\s*#\+/.test(lines[line]); line--) {
+    const match = NAME_LINE_PATTERN.exec(lines[line]);
+    if (match && match[2] === target.name) {
+      return { line, character: match[1].length };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the references to a label within its org file
+ *
+ * Covers `:var x=label` assignments on #+begin_src lines and
+ * `#+RESULTS: label` lines, which both only resolve in the same file.
+ *
+ * @param content - Org file text
+ * @param name - Label
+ * @returns 0-based positions of each reference
+ */
+function findLabelReferences(content: string, name: string): Position[] {
+  const results: Position[] = [];
+
+  content.split("\n").forEach((text, line) => {
+    const resultsMatch = RESULTS_LINE_PATTERN.exec(text);
+    if (resultsMatch) {
+      if (resultsMatch[2] === name) {
+        results.push({ line, character: resultsMatch[1].length });
+      }
+      return;
+    }
+
+    if (!BEGIN_SRC_PATTERN.test(text)) return;
+
+    for (const param of text.matchAll(VAR_PARAM_PATTERN)) {
+      const valuesStart = param.index! + param[0].length - param[1].length;
+
+      for (const assignment of param[1].matchAll(VAR_ASSIGNMENT_PATTERN)) {
+        if (assignment[2] !== name) continue;
+        results.push({
+          line,
+          character: valuesStart + assignment.index! + assignment[1].length,
+        });
+      }
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Get the `.org?name=` specifier importing a named block or table
+ *
+ * @param importerPath - Importing org file (relative to project root)
+ * @param targetPath - Org file of the target (relative to project root)
+ * @param name - Block or table name
+ */
+function getOrgImportSpecifier(importerPath: string, targetPath: string, name: string): string {
+  let orgPath = posix.relative(posix.dirname(importerPath), targetPath);
+  if (!orgPath.startsWith(".")) orgPath = `./${orgPath}`;
+
+  return `${orgPath}?name=${name}`;
+}
+
+/**
+ * Check whether a name fuzzily matches a symbol search query
+ *
+ * Every query character must appear in order, ignoring case.
+ */
+function matchesSymbolQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index) + 1;
+    if (index === 0) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the smallest edit turning one text into another
+ *
+ * Keeps the common start and end, so unchanged lines (and their
+ * indentation in the org file) are left alone.
+ *
+ * @returns Offsets of the replaced range in `before` and the new text
+ */
+function getMinimalEdit(
+  before: string,
+  after: string
+): { start: number; end: number; newText: string } {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    start,
+    end: before.length - end,
+    newText: after.slice(start, after.length - end),
+  };
+}
+
 /**
  * Options for the TypeScript service
  */
@@ -114,6 +387,13 @@ export class TypeScriptService {
       }
     }
 
+    // Named tables are declaration files inferred from their data
+    for (const [_filePath, tables] of this.manifest.tablesByFile ?? []) {
+      for (const table of tables) {
+        this.setTableFile(table);
+      }
+    }
+
     // Set up module resolver for .org?name= imports
     this.setupModuleResolver();
   }
@@ -137,6 +417,7 @@ export class TypeScriptService {
     const contentDir = this.options.contentDir;
     const virtualToBlock = this.virtualToBlock;
     const getVirtualPath = this.getVirtualPath.bind(this);
+    const getTableVirtualPath = this.getTableVirtualPath.bind(this);
 
     const resolver: OrgModuleResolver = {
       resolve: (importPath: string, containingFile: string): string | undefined => {
@@ -162,8 +443,11 @@ export class TypeScriptService {
           return undefined;
         }
 
-        // Find the virtual path for the resolved block
-        return getVirtualPath(result.resolved.block);
+        // Find the virtual path for the resolved block or table
+        const { resolved } = result;
+        return resolved.kind === "table"
+          ? getTableVirtualPath(resolved.table)
+          : getVirtualPath(resolved.block);
       },
     };
 
@@ -187,6 +471,31 @@ export class TypeScriptService {
     return `/${orgBase}/${baseName}.${ext}`;
   }
 
+  /**
+   * Get virtual declaration path for a named table
+   */
+  private getTableVirtualPath(table: TableInfo): string {
+    const orgBase = table.orgFilePath.replace(/\.org$/, "");
+    return `/${orgBase}/${table.name}.d.ts`;
+  }
+
+  /**
+   * Write the declaration of a named table to the virtual file system
+   */
+  private setTableFile(table: TableInfo): void {
+    this.env.setFile(this.getTableVirtualPath(table), generateTableDeclaration(table.rows));
+  }
+
+  /**
+   * Remove the named tables of an org file from the virtual file system
+   */
+  private removeTables(relativePath: string): void {
+    for (const table of this.manifest?.tablesByFile?.get(relativePath) || []) {
+      this.env.deleteFile(this.getTableVirtualPath(table));
+    }
+    this.manifest?.tablesByFile?.delete(relativePath);
+  }
+
   /**
    * Update blocks for a single org file
    *
@@ -205,6 +514,7 @@ export class TypeScriptService {
       this.virtualToBlock.delete(virtualPath);
       this.manifest.blocksByVirtualId.delete(block.virtualModuleId);
     }
+    this.removeTables(relativePath);
 
     // Extract new blocks
     try {
@@ -224,6 +534,13 @@ export class TypeScriptService {
           this.virtualToBlock.set(virtualPath, block);
         }
       }
+
+      const newTables = extractTablesFromFile(relativePath, this.options.projectRoot);
+      if (newTables.length > 0) {
+        this.manifest.tablesByFile ??= new Map();
+        this.manifest.tablesByFile.set(relativePath, newTables);
+        newTables.forEach((table) => this.setTableFile(table));
+      }
     } catch (error) {
       console.error(`[org-press-lsp] Failed to parse ${orgFilePath}:`, error);
     }
@@ -247,6 +564,7 @@ export class TypeScriptService {
     }
 
     this.manifest.blocksByFile.delete(relativePath);
+    this.removeTables(relativePath);
   }
 
   /**
@@ -410,6 +728,7 @@ export class TypeScriptService {
   getDiagnostics(orgFilePath: string): Array<{
     message: string;
     severity: "error" | "warning" | "info";
+    code: number;
     startPosition: Position;
     endPosition: Position;
   }> {
@@ -422,6 +741,7 @@ export class TypeScriptService {
     const results: Array<{
       message: string;
       severity: "error" | "warning" | "info";
+      code: number;
       startPosition: Position;
       endPosition: Position;
     }> = [];
@@ -470,6 +790,7 @@ export class TypeScriptService {
         results.push({
           message: ts.flattenDiagnosticMessageText(diag.messageText, "\n"),
           severity,
+          code: diag.code,
           startPosition: startOrgResult.position,
           endPosition: endOrgResult.position,
         });
@@ -586,6 +907,692 @@ export class TypeScriptService {
     return results;
   }
 
+  /**
+   * Get the symbol or #+NAME: label that a rename at a position would change
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param position - Position in org file (0-based)
+   * @param orgContent - Current text of the org file (for #+NAME: lines)
+   * @returns The current name and its range, or null if nothing can be renamed
+   */
+  prepareRename(
+    orgFilePath: string,
+    position: Position,
+    orgContent?: string
+  ): RenameTarget | null {
+    const label = this.findLabelAtPosition(orgFilePath, position, orgContent);
+    if (label) {
+      return { placeholder: label.placeholder, start: label.start, end: label.end };
+    }
+
+    const blockInfo = this.findBlockAtPosition(orgFilePath, position);
+    if (!blockInfo) return null;
+
+    const info = this.env.getRenameInfo(blockInfo.virtualPath, blockInfo.offset);
+    if (!info.canRename) return null;
+
+    const { start, length } = info.triggerSpan;
+    const startResult = this.mapToOrgPosition(blockInfo.virtualPath, start);
+    const endResult = this.mapToOrgPosition(blockInfo.virtualPath, start + length);
+    if (!startResult || !endResult) return null;
+
+    return {
+      placeholder: info.displayName,
+      start: startResult.position,
+      end: endResult.position,
+    };
+  }
+
+  /**
+   * Get the edits renaming the symbol or #+NAME: label at a position
+   *
+   * Symbols are renamed by TypeScript across every block, including
+   * blocks in other files importing them via `.org?name=`. Renaming a
+   * label also rewrites every import query resolving to its block or table,
+   * and the `:var` and #+RESULTS: references in its file.
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param position - Position in org file (0-based)
+   * @param newName - New name
+   * @param orgContent - Current text of the org file (for #+NAME: lines)
+   * @returns Edits in org files (empty if nothing can be renamed)
+   * @throws InvalidLabelError if a label is renamed to an invalid label
+   */
+  getRenameEdits(
+    orgFilePath: string,
+    position: Position,
+    newName: string,
+    orgContent?: string
+  ): OrgTextEdit[] {
+    const label = this.findLabelAtPosition(orgFilePath, position, orgContent);
+    if (label) {
+      return this.getLabelRenameEdits(label.target, newName, orgFilePath, orgContent);
+    }
+
+    const blockInfo = this.findBlockAtPosition(orgFilePath, position);
+    if (!blockInfo) return [];
+
+    const locations = this.env.findRenameLocations(blockInfo.virtualPath, blockInfo.offset);
+    if (!locations) return [];
+
+    const results: OrgTextEdit[] = [];
+
+    for (const loc of locations) {
+      // Locations outside blocks (e.g. table declarations) have no org text
+      if (!this.virtualToBlock.has(loc.fileName)) continue;
+
+      const start = this.mapToOrgPosition(loc.fileName, loc.textSpan.start);
+      const end = this.mapToOrgPosition(
+        loc.fileName,
+        loc.textSpan.start + loc.textSpan.length
+      );
+      if (!start || !end) continue;
+
+      results.push({
+        orgFilePath: start.orgFilePath,
+        start: start.position,
+        end: end.position,
+        newText: `${loc.prefixText ?? ""}${newName}${loc.suffixText ?? ""}`,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the #+NAME: label at a position
+   *
+   * Matches the label on a #+NAME: line, or the name in an import query
+   * (`./utils.org?name=helpers`) inside a block.
+   */
+  private findLabelAtPosition(
+    orgFilePath: string,
+    position: Position,
+    orgContent?: string
+  ): LabelTarget | null {
+    if (!this.manifest) return null;
+
+    const relativePath = this.toRelativePath(orgFilePath);
+
+    // Label of a #+NAME: line
+    const line = orgContent?.split("\n")[position.line];
+    const nameMatch = line !== undefined ? NAME_LINE_PATTERN.exec(line) : null;
+    if (nameMatch) {
+      const [, prefix, name] = nameMatch;
+      if (position.character < prefix.length || position.character > prefix.length + name.length) {
+        return null;
+      }
+
+      const target =
+        this.manifest.blocksByFile.get(relativePath)?.find((block) => block.name === name) ??
+        this.manifest.tablesByFile?.get(relativePath)?.find((table) => table.name === name);
+      if (!target) return null;
+
+      return {
+        target,
+        placeholder: name,
+        start: { line: position.line, character: prefix.length },
+        end: { line: position.line, character: prefix.length + name.length },
+      };
+    }
+
+    // Name in an import query
+    const blockInfo = this.findBlockAtPosition(orgFilePath, position);
+    if (!blockInfo) return null;
+
+    for (const ref of this.getImportQueryNames(blockInfo.block)) {
+      if (blockInfo.offset < ref.start || blockInfo.offset > ref.end) continue;
+
+      const target = this.resolveImportTarget(ref.importPath, blockInfo.block);
+      const start = this.mapToOrgPosition(blockInfo.virtualPath, ref.start);
+      const end = this.mapToOrgPosition(blockInfo.virtualPath, ref.end);
+      if (!target || !start || !end) return null;
+
+      return { target, placeholder: target.name!, start: start.position, end: end.position };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the edits renaming a #+NAME: label and the references to it
+   *
+   * @throws InvalidLabelError if the new name is not a valid label
+   */
+  private getLabelRenameEdits(
+    target: BlockInfo | TableInfo,
+    newName: string,
+    orgFilePath: string,
+    orgContent?: string
+  ): OrgTextEdit[] {
+    if (!VALID_LABEL_PATTERN.test(newName)) throw new InvalidLabelError(newName);
+    if (!this.manifest) return [];
+
+    const results: OrgTextEdit[] = [];
+
+    // The #+NAME: line (from the open document if it declares the target)
+    const declaringPath = join(this.options.projectRoot, target.orgFilePath);
+    const content =
+      orgContent !== undefined && this.toRelativePath(orgFilePath) === target.orgFilePath
+        ? orgContent
+        : existsSync(declaringPath)
+          ? readFileSync(declaringPath, "utf-8")
+          : "";
+    const nameLine = findNameLine(content, target);
+    if (nameLine) {
+      results.push({
+        orgFilePath: target.orgFilePath,
+        start: { line: nameLine.line, character: nameLine.character },
+        end: { line: nameLine.line, character: nameLine.character + target.name!.length },
+        newText: newName,
+      });
+    }
+
+    // :var and #+RESULTS: references in the same file
+    for (const position of findLabelReferences(content, target.name!)) {
+      results.push({
+        orgFilePath: target.orgFilePath,
+        start: position,
+        end: { line: position.line, character: position.character + target.name!.length },
+        newText: newName,
+      });
+    }
+
+    // Import queries resolving to the target, in every file
+    for (const [_filePath, blocks] of this.manifest.blocksByFile) {
+      for (const block of blocks) {
+        if (!this.isTsJsLanguage(block.language)) continue;
+
+        const virtualPath = this.getVirtualPath(block);
+        for (const ref of this.getImportQueryNames(block)) {
+          if (this.resolveImportTarget(ref.importPath, block)?.id !== target.id) continue;
+
+          const start = this.mapToOrgPosition(virtualPath, ref.start);
+          const end = this.mapToOrgPosition(virtualPath, ref.end);
+          if (!start || !end) continue;
+
+          results.push({
+            orgFilePath: start.orgFilePath,
+            start: start.position,
+            end: end.position,
+            newText: newName,
+          });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * List the org imports of a block, with the span of their `name=` value
+   *
+   * @returns Import paths and block-content offsets of the name
+   */
+  private getImportQueryNames(
+    block: BlockInfo
+  ): Array<{ importPath: string; start: number; end: number }> {
+    const results: Array<{ importPath: string; start: number; end: number }> = [];
+
+    for (const ref of ts.preProcessFile(block.content, true, true).importedFiles) {
+      if (!isOrgImport(ref.fileName)) continue;
+
+      const match = NAME_PARAM_PATTERN.exec(ref.fileName);
+      if (!match) continue;
+
+      // ref.pos points at the opening quote
+      const start = ref.pos + 1 + match.index + match[1].length;
+      results.push({ importPath: ref.fileName, start, end: start + match[2].length });
+    }
+
+    return results;
+  }
+
+  /**
+   * Resolve an org import to the block or table it names
+   */
+  private resolveImportTarget(
+    importPath: string,
+    importer: BlockInfo
+  ): BlockInfo | TableInfo | null {
+    if (!this.manifest) return null;
+
+    const result = resolveOrgImport(
+      importPath,
+      importer.orgFilePath,
+      this.options.contentDir,
+      this.manifest
+    );
+    if (!result.ok) return null;
+
+    return result.resolved.kind === "table" ? result.resolved.table : result.resolved.block;
+  }
+
+  /**
+   * Get TypeScript quick fixes for a diagnostic range
+   *
+   * Imports added by fixes use `.org?name=` specifiers; fixes importing
+   * unnamed blocks (which cannot be imported) are left out.
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param start - Start of the diagnostic in the org file
+   * @param end - End of the diagnostic in the org file
+   * @param errorCodes - TypeScript diagnostic codes to fix
+   * @returns Fixes with their edits in org files
+   */
+  getCodeFixes(
+    orgFilePath: string,
+    start: Position,
+    end: Position,
+    errorCodes: number[]
+  ): CodeFix[] {
+    const blockInfo = this.findBlockAtPosition(orgFilePath, start);
+    if (!blockInfo) return [];
+
+    // Diagnostics never span blocks: clamp the end to this block
+    const endInfo = this.findBlockAtPosition(orgFilePath, end);
+    const endOffset =
+      endInfo?.virtualPath === blockInfo.virtualPath
+        ? endInfo.offset
+        : blockInfo.block.content.length;
+
+    const fixes = this.env.getCodeFixes(
+      blockInfo.virtualPath,
+      blockInfo.offset,
+      endOffset,
+      errorCodes
+    );
+
+    const results: CodeFix[] = [];
+
+    for (const fix of fixes) {
+      const edits = this.mapTextChanges(fix.changes, blockInfo.virtualPath);
+      if (edits && edits.length > 0) {
+        results.push({
+          title: this.toOrgImportSpecifiers(fix.description, blockInfo.virtualPath) ?? fix.description,
+          edits,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the edits organizing the imports of the block at a position
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param position - Position in the block
+   * @returns Edits (empty if the imports are already organized)
+   */
+  getOrganizeImportsEdits(orgFilePath: string, position: Position): OrgTextEdit[] {
+    const blockInfo = this.findBlockAtPosition(orgFilePath, position);
+    if (!blockInfo) return [];
+
+    return (
+      this.mapTextChanges(this.env.organizeImports(blockInfo.virtualPath), blockInfo.virtualPath) ??
+      []
+    );
+  }
+
+  /**
+   * Get the edit applying ESLint's auto-fixes to the block at a position
+   *
+   * Uses the project's ESLint config, like `orgp lint --fix`.
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param position - Position in the block
+   * @returns Edits (empty if nothing is fixable or ESLint is not installed)
+   */
+  async getLintFixEdits(orgFilePath: string, position: Position): Promise<OrgTextEdit[]> {
+    const blockInfo = this.findBlockAtPosition(orgFilePath, position);
+    if (!blockInfo) return [];
+
+    const { block, virtualPath } = blockInfo;
+
+    let result: Awaited<ReturnType<typeof lintCode>>;
+    try {
+      result = await lintCode(block.content, {
+        cwd: this.options.projectRoot,
+        filePath: getLintFilePath(block.orgFilePath, block.name, block.index, block.language),
+        fix: true,
+      });
+    } catch (error) {
+      console.error(`[org-press-lsp] ESLint failed for ${block.orgFilePath}:`, error);
+      return [];
+    }
+    if (!result?.output) return [];
+
+    // ESLint adds a final newline the block content doesn't have
+    const output = block.content.endsWith("\n") ? result.output : result.output.replace(/\n$/, "");
+    if (output === block.content) return [];
+
+    const edit = getMinimalEdit(block.content, output);
+    const start = this.mapToOrgPosition(virtualPath, edit.start);
+    const end = this.mapToOrgPosition(virtualPath, edit.end);
+    if (!start || !end) return [];
+
+    return [
+      {
+        orgFilePath: start.orgFilePath,
+        start: start.position,
+        end: end.position,
+        newText: edit.newText,
+      },
+    ];
+  }
+
+  /**
+   * Get the edits formatting the code blocks of an org file
+   *
+   * Formats block bodies with Prettier, using the project's config like
+   * `orgp fmt`. Indented blocks keep their indentation; lines outside
+   * block bodies are never edited.
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param orgContent - Current org file content
+   * @param range - Only format blocks overlapping this range
+   * @returns Edits, one per changed block
+   */
+  async getFormattingEdits(
+    orgFilePath: string,
+    orgContent: string,
+    range?: { start: Position; end: Position }
+  ): Promise<OrgTextEdit[]> {
+    const relativePath = this.toRelativePath(orgFilePath);
+    const config = await loadToolConfig(this.options.projectRoot);
+    const lines = orgContent.split("\n");
+    const results: OrgTextEdit[] = [];
+
+    for (let begin = 0; begin < lines.length; begin++) {
+      const beginMatch = BEGIN_SRC_PATTERN.exec(lines[begin]);
+      if (!beginMatch) continue;
+
+      const end = lines.findIndex((line, index) => index > begin && END_SRC_PATTERN.test(line));
+      if (end === -1) break;
+
+      const language = beginMatch[2].toLowerCase();
+      const inRange = !range || (begin <= range.end.line && end >= range.start.line);
+
+      if (inRange && isFormattableLanguage(language)) {
+        const edit = await this.formatBlockBody(
+          lines.slice(begin + 1, end),
+          language,
+          config,
+          join(this.options.projectRoot, relativePath)
+        );
+
+        if (edit) {
+          results.push({
+            orgFilePath: relativePath,
+            start: { line: begin + 1 + edit.start.line, character: edit.start.character },
+            end: { line: begin + 1 + edit.end.line, character: edit.end.character },
+            newText: edit.newText,
+          });
+        }
+      }
+
+      begin = end;
+    }
+
+    return results;
+  }
+
+  /**
+   * Format the body lines of a block
+   *
+   * @returns Edit with positions relative to the first body line,
+   *   or null if the body is formatted or cannot be parsed
+   */
+  private async formatBlockBody(
+    bodyLines: string[],
+    language: string,
+    config: ToolConfig,
+    filePath: string
+  ): Promise<{ start: Position; end: Position; newText: string } | null> {
+    const indent = bodyLines
+      .filter((line) => line.trim() !== "")
+      .map((line) => /^\s*/.exec(line)![0])
+      .reduce<string | null>(
+        (common, current) => (common === null || current.length < common.length ? current : common),
+        null
+      );
+    if (indent === null) return null;
+
+    const body = bodyLines.join("\n");
+    const code = bodyLines.map((line) => line.slice(indent.length)).join("\n");
+
+    const result = await formatBlock(code, language, config, filePath);
+    if ("error" in result || !result.changed) return null;
+
+    const formatted = result.formatted
+      .split("\n")
+      .map((line) => (line ? indent + line : line))
+      .join("\n");
+    if (formatted === body) return null;
+
+    const edit = getMinimalEdit(body, formatted);
+
+    return {
+      start: offsetToPosition(body, edit.start),
+      end: offsetToPosition(body, edit.end),
+      newText: edit.newText,
+    };
+  }
+
+  /**
+   * Map TypeScript text changes to org file edits
+   *
+   * @param changes - Text changes in virtual files
+   * @param importerVirtualPath - Virtual file whose added imports are rewritten
+   * @returns Edits, or null if a change falls outside blocks or imports an unnamed block
+   */
+  private mapTextChanges(
+    changes: readonly ts.FileTextChanges[],
+    importerVirtualPath: string
+  ): OrgTextEdit[] | null {
+    const results: OrgTextEdit[] = [];
+
+    for (const fileChanges of changes) {
+      if (!this.virtualToBlock.has(fileChanges.fileName)) return null;
+
+      for (const change of fileChanges.textChanges) {
+        const start = this.mapToOrgPosition(fileChanges.fileName, change.span.start);
+        const end = this.mapToOrgPosition(
+          fileChanges.fileName,
+          change.span.start + change.span.length
+        );
+        const newText = this.toOrgImportSpecifiers(change.newText, importerVirtualPath);
+        if (!start || !end || newText === null) return null;
+
+        results.push({
+          orgFilePath: start.orgFilePath,
+          start: start.position,
+          end: end.position,
+          newText,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Rewrite relative imports of virtual block files as `.org?name=` imports
+   *
+   * TypeScript imports other blocks by their virtual path
+   * (`../utils/helpers`); blocks import them as `./utils.org?name=helpers`.
+   *
+   * @param text - Text with quoted module specifiers
+   * @param importerVirtualPath - Virtual file the text is inserted in
+   * @returns Rewritten text, or null if it imports an unnamed block
+   */
+  private toOrgImportSpecifiers(text: string, importerVirtualPath: string): string | null {
+    const importer = this.virtualToBlock.get(importerVirtualPath);
+    if (!importer) return text;
+
+    let importsUnnamedBlock = false;
+
+    const rewritten = text.replace(/(["'])(\.{1,2}\/[^"']*)\1/g, (match, quote, specifier) => {
+      const resolved = posix
+        .resolve(posix.dirname(importerVirtualPath), specifier)
+        .replace(/\.(ts|tsx|js|jsx)$/, "");
+      const block = [...this.virtualToBlock.entries()].find(
+        ([virtualPath]) => virtualPath.replace(/\.(ts|tsx|js|jsx)$/, "") === resolved
+      )?.[1];
+
+      if (!block) return match;
+      if (!block.name) {
+        importsUnnamedBlock = true;
+        return match;
+      }
+
+      return `${quote}${getOrgImportSpecifier(importer.orgFilePath, block.orgFilePath, block.name)}${quote}`;
+    });
+
+    return importsUnnamedBlock ? null : rewritten;
+  }
+
+  /**
+   * Get the named blocks of an org file with their exported symbols
+   *
+   * @param orgFilePath - Absolute or relative org file path
+   * @param orgContent - Current org file content (read from disk if omitted)
+   * @returns Block symbols, in file order
+   */
+  getBlockSymbols(orgFilePath: string, orgContent?: string): OrgSymbol[] {
+    const relativePath = this.toRelativePath(orgFilePath);
+    const blocks = this.manifest?.blocksByFile.get(relativePath) ?? [];
+    const namedBlocks = blocks.filter((block) => block.name);
+    if (namedBlocks.length === 0) return [];
+
+    const content =
+      orgContent ?? readFileSync(join(this.options.projectRoot, relativePath), "utf-8");
+    const lines = content.split("\n");
+    const results: OrgSymbol[] = [];
+
+    for (const block of namedBlocks) {
+      const nameStart = findNameLine(content, block);
+      if (!nameStart) continue;
+
+      // endLine is 1-based and points to the #+end_src line
+      const endLine = block.endLine - 1;
+
+      results.push({
+        name: block.name!,
+        kind: ts.ScriptElementKind.moduleElement,
+        orgFilePath: relativePath,
+        start: { line: nameStart.line, character: 0 },
+        end: { line: endLine, character: lines[endLine]?.length ?? 0 },
+        nameStart,
+        nameEnd: { line: nameStart.line, character: nameStart.character + block.name!.length },
+        block,
+        children: this.getExportedSymbols(block),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Search named blocks and exported symbols across the workspace
+   *
+   * @param query - Search query (matched fuzzily, ignoring case)
+   * @returns Matching blocks and symbols
+   */
+  searchSymbols(query: string): OrgSymbol[] {
+    if (!this.manifest) return [];
+
+    const results: OrgSymbol[] = [];
+
+    for (const orgFilePath of this.manifest.blocksByFile.keys()) {
+      for (const blockSymbol of this.getBlockSymbols(orgFilePath)) {
+        if (matchesSymbolQuery(blockSymbol.name, query)) {
+          results.push({ ...blockSymbol, children: undefined });
+        }
+        results.push(
+          ...(blockSymbol.children ?? []).filter((symbol) => matchesSymbolQuery(symbol.name, query))
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the top-level exported symbols of a block
+   */
+  private getExportedSymbols(block: BlockInfo): OrgSymbol[] {
+    if (!this.isTsJsLanguage(block.language)) return [];
+
+    const virtualPath = this.getVirtualPath(block);
+    if (!this.env.hasFile(virtualPath)) return [];
+
+    const results: OrgSymbol[] = [];
+
+    for (const item of this.env.getNavigationTree(virtualPath).childItems ?? []) {
+      if (!item.kindModifiers.split(",").includes("export")) continue;
+
+      const span = item.spans[0];
+      const nameSpan = item.nameSpan ?? span;
+      const start = this.mapToOrgPosition(virtualPath, span.start);
+      const end = this.mapToOrgPosition(virtualPath, span.start + span.length);
+      const nameStart = this.mapToOrgPosition(virtualPath, nameSpan.start);
+      const nameEnd = this.mapToOrgPosition(virtualPath, nameSpan.start + nameSpan.length);
+      if (!start || !end || !nameStart || !nameEnd) continue;
+
+      results.push({
+        name: item.text,
+        kind: item.kind,
+        orgFilePath: start.orgFilePath,
+        start: start.position,
+        end: end.position,
+        nameStart: nameStart.position,
+        nameEnd: nameEnd.position,
+        block,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the `.org?name=` imports of every named block and table
+   *
+   * @param orgFilePath - Absolute or relative path of the importing org file
+   * @returns Specifiers relative to the importing file, with their targets
+   */
+  getOrgImportTargets(orgFilePath: string): OrgImportTarget[] {
+    if (!this.manifest) return [];
+
+    const relativePath = this.toRelativePath(orgFilePath);
+    const targets: OrgImportTarget[] = [];
+
+    for (const [targetPath, blocks] of this.manifest.blocksByFile) {
+      for (const block of blocks) {
+        if (!block.name) continue;
+        targets.push({
+          specifier: getOrgImportSpecifier(relativePath, targetPath, block.name),
+          orgFilePath: targetPath,
+          name: block.name,
+          language: block.language,
+        });
+      }
+    }
+
+    for (const [targetPath, tables] of this.manifest.tablesByFile ?? []) {
+      for (const table of tables) {
+        targets.push({
+          specifier: getOrgImportSpecifier(relativePath, targetPath, table.name),
+          orgFilePath: targetPath,
+          name: table.name,
+        });
+      }
+    }
+
+    return targets;
+  }
+
   /**
    * Get the manifest
    */
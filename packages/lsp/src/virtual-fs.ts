@@ -469,6 +469,88 @@ export class TypeScriptVirtualEnv {
     return this.getLanguageService().findReferences(fileName, position);
   }
 
+  /**
+   * Get quick fixes for errors in a span
+   *
+   * @param fileName - Virtual file name
+   * @param start - Start offset of the span
+   * @param end - End offset of the span
+   * @param errorCodes - Diagnostic codes to fix
+   * @returns Fixes with their text changes
+   */
+  getCodeFixes(
+    fileName: string,
+    start: number,
+    end: number,
+    errorCodes: number[]
+  ): readonly ts.CodeFixAction[] {
+    return this.getLanguageService().getCodeFixesAtPosition(
+      fileName,
+      start,
+      end,
+      errorCodes,
+      ts.getDefaultFormatCodeSettings("\n"),
+      { importModuleSpecifierPreference: "relative", importModuleSpecifierEnding: "minimal" }
+    );
+  }
+
+  /**
+   * Sort, merge and remove unused imports of a file
+   *
+   * @param fileName - Virtual file name
+   * @returns Text changes (empty if the imports are already organized)
+   */
+  organizeImports(fileName: string): readonly ts.FileTextChanges[] {
+    return this.getLanguageService().organizeImports(
+      { type: "file", fileName },
+      ts.getDefaultFormatCodeSettings("\n"),
+      {}
+    );
+  }
+
+  /**
+   * Get the declarations of a file as a tree
+   *
+   * @param fileName - Virtual file name
+   * @returns Navigation tree rooted at the file
+   */
+  getNavigationTree(fileName: string): ts.NavigationTree {
+    return this.getLanguageService().getNavigationTree(fileName);
+  }
+
+  /**
+   * Check whether the symbol at a position can be renamed
+   *
+   * @param fileName - Virtual file name
+   * @param position - Character offset in file
+   * @returns Rename info (with the span to replace when renamable)
+   */
+  getRenameInfo(fileName: string, position: number): ts.RenameInfo {
+    return this.getLanguageService().getRenameInfo(fileName, position, {
+      allowRenameOfImportPath: false,
+    });
+  }
+
+  /**
+   * Find every location to rewrite when renaming a symbol
+   *
+   * Import and export specifiers are renamed in place rather than
+   * aliased (`import { old as new }`), so renames follow the symbol
+   * across files.
+   *
+   * @param fileName - Virtual file name
+   * @param position - Character offset in file
+   * @returns Rename locations or undefined
+   */
+  findRenameLocations(
+    fileName: string,
+    position: number
+  ): readonly ts.RenameLocation[] | undefined {
+    return this.getLanguageService().findRenameLocations(fileName, position, false, false, {
+      providePrefixAndSuffixTextForRename: false,
+    });
+  }
+
   /**
    * Get implementations of a symbol
    *
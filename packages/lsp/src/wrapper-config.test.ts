@@ -0,0 +1,56 @@
+/**
+ * Tests for Wrapper Config Keys
+ *
+ * Tests reading config interfaces from built and unbuilt org-press packages.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadConfigInterfaces } from "./wrapper-config.js";
+
+const CORE_SRC = join(dirname(fileURLToPath(import.meta.url)), "../../core/src");
+
+describe("loadConfigInterfaces", () => {
+  let packageDir: string;
+
+  beforeEach(() => {
+    packageDir = mkdtempSync(join(tmpdir(), "wrapper-config-test-"));
+    writeFileSync(
+      join(packageDir, "package.json"),
+      JSON.stringify({ name: "org-press", types: "./dist/index.d.ts" })
+    );
+  });
+
+  afterEach(() => {
+    rmSync(packageDir, { recursive: true, force: true });
+  });
+
+  it("should read the type declarations of a built package", () => {
+    mkdirSync(join(packageDir, "dist"));
+    writeFileSync(
+      join(packageDir, "dist/index.d.ts"),
+      `interface WithTabsConfig {\n  /** Label for the result tab */\n  resultLabel?: string;\n}\n`
+    );
+
+    expect(loadConfigInterfaces(packageDir).get("WithTabsConfig")).toEqual([
+      { name: "resultLabel", type: "string", documentation: "Label for the result tab" },
+    ]);
+  });
+
+  it("should read the plugin sources when the package isn't built", () => {
+    symlinkSync(CORE_SRC, join(packageDir, "src"));
+
+    const interfaces = loadConfigInterfaces(packageDir);
+
+    expect(interfaces.get("WithTabsConfig")).toContainEqual({
+      name: "defaultTab",
+      type: `"result" | "source"`,
+      documentation: "Which tab to show first: result or source",
+    });
+    expect(interfaces.get("JsonFormatConfig")?.length).toBeGreaterThan(0);
+    expect(interfaces.get("RawModeConfig")).toBeDefined();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Wrapper Config Keys
+ *
+ * Reads the config interfaces of modes and wrappers (e.g. WithTabsConfig)
+ * from the org-press type declarations, for `?key=value` completion.
+ * In a workspace checkout where org-press isn't built yet, they are read
+ * from its plugin sources instead.
+ */
+
+import ts from "typescript";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { isFormat, isMode } from "org-press";
+
+/**
+ * A key of a mode or wrapper config
+ */
+export interface WrapperConfigKey {
+  /** Key name */
+  name: string;
+  /** Type as written in the declaration (e.g. `"result" | "source"`) */
+  type: string;
+  /** Doc comment of the key */
+  documentation?: string;
+}
+
+/** Config interfaces by name, read on first use */
+let configInterfaces: Map<string, WrapperConfigKey[]> | null = null;
+
+/**
+ * Add every `*Config` interface declared in a file
+ */
+function readConfigInterfaces(file: string, interfaces: Map<string, WrapperConfigKey[]>): void {
+  const sourceFile = ts.createSourceFile(
+    file,
+    readFileSync(file, "utf-8"),
+    ts.ScriptTarget.Latest,
+    true
+  );
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isInterfaceDeclaration(statement) || !statement.name.text.endsWith("Config")) {
+      continue;
+    }
+
+    const keys = statement.members.filter(ts.isPropertySignature).map((member) => {
+      const jsDoc = ts.getJSDocCommentsAndTags(member).find(ts.isJSDoc);
+      return {
+        name: member.name.getText(sourceFile),
+        type: member.type?.getText(sourceFile) ?? "unknown",
+        documentation: ts.getTextOfJSDocComment(jsDoc?.comment),
+      };
+    });
+
+    interfaces.set(statement.name.text, keys);
+  }
+}
+
+/**
+ * Read every `*Config` interface of an org-press package
+ *
+ * Reads the bundled type declarations, or the plugin sources
+ * (`src/plugins`) when the package hasn't been built.
+ *
+ * @param packageDir - Directory of the org-press package
+ *   (default: the one resolved from the LSP)
+ * @returns Config keys by interface name
+ */
+export function loadConfigInterfaces(packageDir?: string): Map<string, WrapperConfigKey[]> {
+  const interfaces = new Map<string, WrapperConfigKey[]>();
+
+  try {
+    packageDir ??= dirname(
+      createRequire(import.meta.url).resolve("org-press/package.json")
+    );
+    const packageJson = JSON.parse(readFileSync(join(packageDir, "package.json"), "utf-8"));
+    const typesPath = join(packageDir, packageJson.exports?.["."]?.types ?? packageJson.types);
+
+    if (existsSync(typesPath)) {
+      readConfigInterfaces(typesPath, interfaces);
+      return interfaces;
+    }
+
+    const pluginsDir = join(packageDir, "src/plugins");
+    for (const file of readdirSync(pluginsDir, { recursive: true, encoding: "utf-8" })) {
+      if (file.endsWith(".ts") && !file.endsWith(".test.ts") && !file.endsWith(".d.ts")) {
+        readConfigInterfaces(join(pluginsDir, file), interfaces);
+      }
+    }
+  } catch (error) {
+    console.error("[org-press-lsp] Failed to read wrapper config types:", error);
+  }
+
+  return interfaces;
+}
+
+/**
+ * Get the config keys of a mode or wrapper
+ *
+ * Config interfaces are found by name: `withTabs` → WithTabsConfig,
+ * `json` → JsonFormatConfig, `raw` → RawModeConfig.
+ *
+ * @param name - Mode or wrapper name
+ * @returns Config keys, or an empty array if no config interface is known
+ */
+export function getWrapperConfigKeys(name: string): WrapperConfigKey[] {
+  configInterfaces ??= loadConfigInterfaces();
+
+  const suffix = isMode(name) ? "ModeConfig" : isFormat(name) ? "FormatConfig" : "Config";
+  const interfaceName = `${name.charAt(0).toUpperCase()}${name.slice(1)}${suffix}`;
+
+  return configInterfaces.get(interfaceName) ?? [];
+}
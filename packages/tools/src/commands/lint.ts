@@ -8,7 +8,8 @@ import type { CliContext } from "org-press";
 import { collectCodeBlocks } from "../utils/block-collector.js";
 import { writeBlockContentBatch } from "../utils/block-writer.js";
 import { findEslintConfig } from "../utils/config-loader.js";
-import { LINT_LANGUAGES, LANGUAGE_EXTENSIONS, type LintOptions } from "../types.js";
+import { getLintFilePath } from "../utils/lint-runner.js";
+import { LINT_LANGUAGES, type LintOptions } from "../types.js";
 
 /**
  * Parse command line arguments for lint command
@@ -39,13 +40,6 @@ export function parseLintArgs(args: string[]): LintOptions {
   return options;
 }
 
-/**
- * Get file extension for a language
- */
-function getExtension(language: string): string {
-  return LANGUAGE_EXTENSIONS[language.toLowerCase()] || "js";
-}
-
 /**
  * Run the lint command
  *
@@ -102,11 +96,13 @@ export async function runLint(
   const updates: Array<{ block: (typeof blocks)[0]; newContent: string }> = [];
 
   for (const block of blocks) {
-    const ext = getExtension(block.language);
     // Use virtual filename for ESLint to apply correct rules
-    const virtualPath = block.blockName
-      ? `${block.orgFilePath}#${block.blockName}.${ext}`
-      : `${block.orgFilePath}#block-${block.blockIndex}.${ext}`;
+    const virtualPath = getLintFilePath(
+      block.orgFilePath,
+      block.blockName,
+      block.blockIndex,
+      block.language
+    );
 
     try {
       const results = await eslint.lintText(block.code, {
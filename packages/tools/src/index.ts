@@ -76,3 +76,5 @@ export {
 export { collectCodeBlocks } from "./utils/block-collector.js";
 export { writeBlockContent, writeBlockContentBatch } from "./utils/block-writer.js";
 export { loadPrettierConfig, loadTsConfig, findEslintConfig } from "./utils/config-loader.js";
+export { lintCode, getLintFilePath } from "./utils/lint-runner.js";
+export type { LintCodeOptions, LintCodeResult } from "./utils/lint-runner.js";
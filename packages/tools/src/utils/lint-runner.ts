@@ -0,0 +1,105 @@
+/**
+ * Lint Runner
+ *
+ * Lints a single code block with ESLint, for callers outside the
+ * `orgp lint` command (e.g. editor integrations).
+ */
+
+import type { ESLint, Linter } from "eslint";
+import { LANGUAGE_EXTENSIONS } from "../types.js";
+
+/**
+ * Options for linting a code block
+ */
+export interface LintCodeOptions {
+  /** Project root (where ESLint looks up its config) */
+  cwd: string;
+  /** Virtual file path of the block, relative to cwd (see getLintFilePath) */
+  filePath: string;
+  /** Apply auto-fixes and return the fixed code */
+  fix?: boolean;
+}
+
+/**
+ * Result of linting a code block
+ */
+export interface LintCodeResult {
+  /** Problems found (remaining problems when fixing) */
+  messages: Linter.LintMessage[];
+  /** Fixed code, if any fix was applied */
+  output?: string;
+}
+
+/** ESLint instances by cwd and fix mode */
+const eslintInstances = new Map<string, Promise<ESLint | null>>();
+
+/**
+ * Get the virtual file path ESLint sees for a code block
+ *
+ * The extension selects the rules that apply to the block's language.
+ *
+ * @example
+ * getLintFilePath("content/utils.org", "helpers", 0, "typescript")
+ * // "content/utils.org#helpers.ts"
+ */
+export function getLintFilePath(
+  orgFilePath: string,
+  blockName: string | undefined,
+  blockIndex: number,
+  language: string
+): string {
+  const ext = LANGUAGE_EXTENSIONS[language.toLowerCase()] || "js";
+  return blockName
+    ? `${orgFilePath}#${blockName}.${ext}`
+    : `${orgFilePath}#block-${blockIndex}.${ext}`;
+}
+
+/**
+ * Get a cached ESLint instance, or null if ESLint is not installed
+ */
+function getEslint(cwd: string, fix: boolean): Promise<ESLint | null> {
+  const key = `${cwd}:${fix}`;
+  let instance = eslintInstances.get(key);
+
+  if (!instance) {
+    instance = import("eslint").then(
+      (eslintModule) => new eslintModule.ESLint({ cwd, fix }),
+      () => null
+    );
+    eslintInstances.set(key, instance);
+  }
+
+  return instance;
+}
+
+/**
+ * Lint a code block with ESLint
+ *
+ * @param code - Block content
+ * @param options - Project root, virtual file path and fix mode
+ * @returns Problems and fixed output, or null if ESLint is not installed
+ *
+ * @example
+ * const result = await lintCode("let x = 1;", {
+ *   cwd: projectRoot,
+ *   filePath: "content/utils.org#helpers.ts",
+ *   fix: true,
+ * });
+ * result?.output; // "const x = 1;"
+ */
+export async function lintCode(
+  code: string,
+  options: LintCodeOptions
+): Promise<LintCodeResult | null> {
+  const eslint = await getEslint(options.cwd, options.fix ?? false);
+  if (!eslint) {
+    return null;
+  }
+
+  const [result] = await eslint.lintText(code, { filePath: options.filePath });
+
+  return {
+    messages: result?.messages ?? [],
+    output: result?.output,
+  };
+}
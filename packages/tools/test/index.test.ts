@@ -2,7 +2,10 @@
  * Tests for @org-press/tools
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   fmtPlugin,
   lintPlugin,
@@ -11,6 +14,8 @@ import {
   PRETTIER_PARSERS,
   LINT_LANGUAGES,
   TYPECHECK_LANGUAGES,
+  getLintFilePath,
+  lintCode,
 } from "../src/index.js";
 
 describe("@org-press/tools", () => {
@@ -72,4 +77,43 @@ describe("@org-press/tools", () => {
       expect(TYPECHECK_LANGUAGES).toContain("tsx");
     });
   });
+
+  describe("lintCode", () => {
+    let projectRoot: string;
+
+    beforeAll(() => {
+      projectRoot = mkdtempSync(join(tmpdir(), "tools-lint-"));
+      writeFileSync(
+        join(projectRoot, "eslint.config.js"),
+        `export default [{ rules: { "prefer-const": "error" } }];\n`
+      );
+    });
+
+    afterAll(() => {
+      rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it("names blocks after their org file and language", () => {
+      expect(getLintFilePath("content/a.org", "helpers", 0, "typescript")).toBe(
+        "content/a.org#helpers.ts"
+      );
+      expect(getLintFilePath("content/a.org", undefined, 2, "JS")).toBe("content/a.org#block-2.js");
+    });
+
+    it("reports problems and returns fixed code", async () => {
+      const filePath = getLintFilePath("content/a.org", "helpers", 0, "javascript");
+
+      const linted = await lintCode("let x = 1;\nconsole.log(x);\n", { cwd: projectRoot, filePath });
+      expect(linted?.messages.map((message) => message.ruleId)).toEqual(["prefer-const"]);
+      expect(linted?.output).toBeUndefined();
+
+      const fixed = await lintCode("let x = 1;\nconsole.log(x);\n", {
+        cwd: projectRoot,
+        filePath,
+        fix: true,
+      });
+      expect(fixed?.messages).toEqual([]);
+      expect(fixed?.output).toBe("const x = 1;\nconsole.log(x);\n");
+    });
+  });
 });